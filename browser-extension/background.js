@@ -0,0 +1,63 @@
+// Timer Record browser companion
+//
+// Sends the active tab's domain (never the URL, title or contents) to the
+// local native host whenever the focused tab changes.
+
+const HOST_NAME = 'com.timer_record.browser';
+
+const api = typeof browser !== 'undefined' ? browser : chrome;
+
+let port = null;
+let lastSent;
+
+function browserFamily() {
+  const agent = navigator.userAgent;
+  if (agent.includes('Firefox/')) return 'firefox';
+  if (agent.includes('Edg/')) return 'edge';
+  return 'chrome';
+}
+
+function connect() {
+  if (port) return port;
+
+  port = api.runtime.connectNative(HOST_NAME);
+  port.onDisconnect.addListener(() => {
+    port = null;
+    lastSent = undefined;
+  });
+  return port;
+}
+
+function domainOf(url) {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') return null;
+    return hostname.replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+async function reportActiveTab() {
+  const [tab] = await api.tabs.query({ active: true, lastFocusedWindow: true });
+  const domain = tab && !tab.incognito ? domainOf(tab.url) : null;
+  if (domain === lastSent) return;
+
+  try {
+    connect().postMessage({ type: 'tab', browser: browserFamily(), domain });
+    lastSent = domain;
+  } catch {
+    // Host not installed (run `tt browser install`); try again on the next change
+    port = null;
+  }
+}
+
+api.tabs.onActivated.addListener(reportActiveTab);
+api.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+  if (tab.active && changeInfo.url) reportActiveTab();
+});
+api.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId !== api.windows.WINDOW_ID_NONE) reportActiveTab();
+});
+api.runtime.onStartup.addListener(reportActiveTab);
+api.runtime.onInstalled.addListener(reportActiveTab);
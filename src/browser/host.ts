@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+/**
+ * Native Messaging Host
+ *
+ * Started by the browser when the Timer Record extension connects. The
+ * extension reports the active tab's domain (never the full URL); the host
+ * records it for the daemon and forgets it when the browser goes away.
+ */
+
+import { encodeMessage, createMessageDecoder, parseTabMessage } from './protocol.js';
+import type { BrowserFamily } from './protocol.js';
+import { recordActiveTab, clearActiveTab } from './tab-state.js';
+
+function send(message: unknown): void {
+  process.stdout.write(encodeMessage(message));
+}
+
+function main(): void {
+  // stdout carries the protocol; keep stray logging off it
+  console.log = console.error;
+
+  const decode = createMessageDecoder();
+  const browsers = new Set<BrowserFamily>();
+
+  const shutdown = () => {
+    for (const browser of browsers) {
+      clearActiveTab(browser);
+    }
+    process.exit(0);
+  };
+
+  process.stdin.on('data', (chunk: Buffer) => {
+    let messages: unknown[];
+    try {
+      messages = decode(chunk);
+    } catch (error) {
+      console.error('Invalid message from browser:', error);
+      shutdown();
+      return;
+    }
+
+    for (const message of messages) {
+      const tab = parseTabMessage(message);
+      if (!tab) {
+        send({ type: 'error', error: 'Unsupported message' });
+        continue;
+      }
+
+      browsers.add(tab.browser);
+      const recording = recordActiveTab(tab.browser, tab.domain);
+      send({ type: 'ack', recording });
+    }
+  });
+
+  // The browser closes stdin when the extension disconnects or exits
+  process.stdin.on('end', shutdown);
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main();
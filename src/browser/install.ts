@@ -0,0 +1,237 @@
+import { writeFileSync, unlinkSync, existsSync, mkdirSync, chmodSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { homedir, platform } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getDataDir } from '../config/paths.js';
+
+export const NATIVE_HOST_NAME = 'com.timer_record.browser';
+
+// Extension IDs allowed to talk to the host
+export const CHROME_EXTENSION_ID = 'jgblehpippljgbkaloeadmadjjepbjnp';
+export const FIREFOX_EXTENSION_ID = 'browser@timer-record';
+
+export type BrowserName = 'chrome' | 'chromium' | 'brave' | 'edge' | 'firefox';
+
+export const BROWSER_NAMES: BrowserName[] = ['chrome', 'chromium', 'brave', 'edge', 'firefox'];
+
+interface BrowserLocation {
+  // Profile directory whose presence means the browser is installed
+  profileDir: string;
+  // Directory the host manifest goes in (macOS/Linux)
+  manifestDir: string;
+  // Registry key pointing at the host manifest (Windows)
+  registryKey: string;
+}
+
+export interface HostInstallStatus {
+  browser: BrowserName;
+  detected: boolean;
+  installed: boolean;
+  manifestPath: string;
+}
+
+const currentPlatform = platform();
+
+function browserLocation(browser: BrowserName): BrowserLocation {
+  const home = homedir();
+  const appSupport = join(home, 'Library', 'Application Support');
+  const config = join(home, '.config');
+  const appData = process.env.LOCALAPPDATA || join(home, 'AppData', 'Local');
+
+  const locations: Record<BrowserName, { mac: string; linux: string; windows: string; registry: string }> = {
+    chrome: {
+      mac: join(appSupport, 'Google', 'Chrome'),
+      linux: join(config, 'google-chrome'),
+      windows: join(appData, 'Google', 'Chrome'),
+      registry: 'Software\\Google\\Chrome',
+    },
+    chromium: {
+      mac: join(appSupport, 'Chromium'),
+      linux: join(config, 'chromium'),
+      windows: join(appData, 'Chromium'),
+      registry: 'Software\\Chromium',
+    },
+    brave: {
+      mac: join(appSupport, 'BraveSoftware', 'Brave-Browser'),
+      linux: join(config, 'BraveSoftware', 'Brave-Browser'),
+      windows: join(appData, 'BraveSoftware', 'Brave-Browser'),
+      registry: 'Software\\BraveSoftware\\Brave-Browser',
+    },
+    edge: {
+      mac: join(appSupport, 'Microsoft Edge'),
+      linux: join(config, 'microsoft-edge'),
+      windows: join(appData, 'Microsoft', 'Edge'),
+      registry: 'Software\\Microsoft\\Edge',
+    },
+    firefox: {
+      mac: join(appSupport, 'Mozilla'),
+      linux: join(home, '.mozilla'),
+      windows: join(process.env.APPDATA || join(home, 'AppData', 'Roaming'), 'Mozilla'),
+      registry: 'Software\\Mozilla',
+    },
+  };
+
+  const location = locations[browser];
+  const profileDir = currentPlatform === 'darwin' ? location.mac
+    : currentPlatform === 'win32' ? location.windows
+    : location.linux;
+  // Firefox uses a lowercase, hyphenated directory on Linux
+  const manifestDir = browser === 'firefox' && currentPlatform === 'linux'
+    ? join(profileDir, 'native-messaging-hosts')
+    : join(profileDir, 'NativeMessagingHosts');
+
+  return {
+    profileDir,
+    manifestDir,
+    registryKey: `HKCU\\${location.registry}\\NativeMessagingHosts\\${NATIVE_HOST_NAME}`,
+  };
+}
+
+// Where the host manifest for a browser lives
+function manifestPath(browser: BrowserName): string {
+  if (currentPlatform === 'win32') {
+    // Windows finds manifests through the registry; keep them with our data
+    return join(getDataDir(), 'native-messaging', `${NATIVE_HOST_NAME}.${browser}.json`);
+  }
+  return join(browserLocation(browser).manifestDir, `${NATIVE_HOST_NAME}.json`);
+}
+
+// Get the path to the compiled host script
+function getHostScriptPath(): string {
+  const currentFile = fileURLToPath(import.meta.url);
+  const hostPath = join(dirname(currentFile), 'host.js');
+  if (!existsSync(hostPath)) {
+    throw new Error(`Native host not found: ${hostPath}\nPlease run 'npm run build' to compile the project.`);
+  }
+  return hostPath;
+}
+
+/**
+ * Browsers launch the host without arguments, so point them at a small
+ * launcher that runs the host script with this Node.js binary.
+ */
+function writeLauncher(): string {
+  const dir = join(getDataDir(), 'native-messaging');
+  mkdirSync(dir, { recursive: true });
+  const hostScript = getHostScriptPath();
+
+  if (currentPlatform === 'win32') {
+    const launcher = join(dir, 'timer-record-host.bat');
+    writeFileSync(launcher, `@echo off\r\n"${process.execPath}" "${hostScript}" %*\r\n`);
+    return launcher;
+  }
+
+  const launcher = join(dir, 'timer-record-host');
+  writeFileSync(launcher, `#!/bin/sh\nexec "${process.execPath}" "${hostScript}" "$@"\n`);
+  chmodSync(launcher, 0o755);
+  return launcher;
+}
+
+// Host manifest for one browser
+export function buildHostManifest(browser: BrowserName, launcherPath: string, extraIds: string[] = []): object {
+  const manifest = {
+    name: NATIVE_HOST_NAME,
+    description: 'Timer Record browser companion',
+    path: launcherPath,
+    type: 'stdio',
+  };
+
+  if (browser === 'firefox') {
+    return { ...manifest, allowed_extensions: [FIREFOX_EXTENSION_ID, ...extraIds] };
+  }
+  return {
+    ...manifest,
+    allowed_origins: [CHROME_EXTENSION_ID, ...extraIds].map((id) => `chrome-extension://${id}/`),
+  };
+}
+
+// Browsers with a profile on this machine
+export function detectBrowsers(): BrowserName[] {
+  return BROWSER_NAMES.filter((browser) => existsSync(browserLocation(browser).profileDir));
+}
+
+export function isHostInstalled(browser: BrowserName): boolean {
+  if (currentPlatform === 'win32') {
+    try {
+      execFileSync('reg', ['query', browserLocation(browser).registryKey], { stdio: 'ignore', timeout: 5000 });
+      return existsSync(manifestPath(browser));
+    } catch {
+      return false;
+    }
+  }
+  return existsSync(manifestPath(browser));
+}
+
+// Register the native host with the given browsers
+export function installNativeHost(
+  browsers: BrowserName[],
+  extraIds: string[] = []
+): { success: boolean; message: string; installed: BrowserName[] } {
+  const installed: BrowserName[] = [];
+
+  try {
+    const launcher = writeLauncher();
+
+    for (const browser of browsers) {
+      const path = manifestPath(browser);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(buildHostManifest(browser, launcher, extraIds), null, 2));
+
+      if (currentPlatform === 'win32') {
+        execFileSync('reg', ['add', browserLocation(browser).registryKey, '/ve', '/t', 'REG_SZ', '/d', path, '/f'], {
+          stdio: 'ignore',
+          timeout: 5000,
+        });
+      }
+      installed.push(browser);
+    }
+
+    return { success: true, message: `Native host registered with ${installed.join(', ')}`, installed };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to install: ${error instanceof Error ? error.message : error}`,
+      installed,
+    };
+  }
+}
+
+// Remove the native host from the given browsers
+export function uninstallNativeHost(browsers: BrowserName[]): { success: boolean; message: string } {
+  try {
+    for (const browser of browsers) {
+      const path = manifestPath(browser);
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+      if (currentPlatform === 'win32') {
+        try {
+          execFileSync('reg', ['delete', browserLocation(browser).registryKey, '/f'], { stdio: 'ignore', timeout: 5000 });
+        } catch {
+          // Not registered
+        }
+      }
+    }
+    return { success: true, message: `Native host removed from ${browsers.join(', ')}` };
+  } catch (error) {
+    return { success: false, message: `Failed to uninstall: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+export function getNativeHostStatus(): HostInstallStatus[] {
+  const detected = new Set(detectBrowsers());
+  return BROWSER_NAMES.map((browser) => ({
+    browser,
+    detected: detected.has(browser),
+    installed: isHostInstalled(browser),
+    manifestPath: manifestPath(browser),
+  }));
+}
+
+// Directory holding the unpacked extension (shipped next to dist/)
+export function getExtensionDir(): string {
+  const currentFile = fileURLToPath(import.meta.url);
+  // dist/src/browser/install.js -> <package>/browser-extension
+  return join(dirname(dirname(dirname(dirname(currentFile)))), 'browser-extension');
+}
@@ -0,0 +1,76 @@
+/**
+ * Native Messaging Protocol
+ *
+ * Browsers talk to native hosts over stdio: each message is UTF-8 JSON
+ * preceded by its length as a 32-bit unsigned integer in native byte order
+ * (little-endian on every platform we support).
+ */
+
+// Browsers cap messages to the host at 1 MB; anything larger is garbage
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+export type BrowserFamily = 'chrome' | 'firefox' | 'edge';
+
+export const BROWSER_FAMILIES: BrowserFamily[] = ['chrome', 'firefox', 'edge'];
+
+// Message sent by the extension when the active tab changes
+export interface TabMessage {
+  type: 'tab';
+  browser: BrowserFamily;
+  domain: string | null;
+}
+
+const HOSTNAME = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)*[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+
+// Frame a message for the other side
+export function encodeMessage(message: unknown): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf-8');
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(body.length, 0);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Incremental decoder for framed messages. Feed it stdin chunks; it
+ * returns every complete message received so far.
+ */
+export function createMessageDecoder(): (chunk: Buffer) => unknown[] {
+  let buffer = Buffer.alloc(0);
+
+  return (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    const messages: unknown[] = [];
+
+    while (buffer.length >= 4) {
+      const length = buffer.readUInt32LE(0);
+      if (length > MAX_MESSAGE_BYTES) {
+        throw new Error(`Message too large (${length} bytes)`);
+      }
+      if (buffer.length < 4 + length) break;
+
+      messages.push(JSON.parse(buffer.subarray(4, 4 + length).toString('utf-8')));
+      buffer = buffer.subarray(4 + length);
+    }
+
+    return messages;
+  };
+}
+
+// Validate a message from the extension (null if it is not a tab update)
+export function parseTabMessage(message: unknown): TabMessage | null {
+  if (typeof message !== 'object' || message === null) return null;
+  const { type, browser, domain } = message as Record<string, unknown>;
+
+  if (type !== 'tab' || !BROWSER_FAMILIES.includes(browser as BrowserFamily)) {
+    return null;
+  }
+  if (domain === null || domain === undefined) {
+    return { type, browser: browser as BrowserFamily, domain: null };
+  }
+  if (typeof domain !== 'string') return null;
+
+  const normalized = domain.toLowerCase().replace(/^www\./, '');
+  if (normalized.length > 253 || !HOSTNAME.test(normalized)) return null;
+
+  return { type, browser: browser as BrowserFamily, domain: normalized };
+}
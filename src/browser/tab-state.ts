@@ -0,0 +1,80 @@
+import { readFileSync, writeFileSync, renameSync, existsSync, unlinkSync } from 'fs';
+import { getBrowserTabsPath } from '../config/paths.js';
+import { isPrivacyLockdownEnabled } from '../privacy/index.js';
+import { isBrowser } from '../categorization/context.js';
+import type { BrowserFamily } from './protocol.js';
+import type { WindowInfo } from '../types/index.js';
+
+// Active tab per browser, written by the native host and read by the daemon
+export interface BrowserTab {
+  domain: string | null;
+  updatedAt: string;
+}
+
+export type TabState = Partial<Record<BrowserFamily, BrowserTab>>;
+
+export function readTabState(): TabState {
+  try {
+    return JSON.parse(readFileSync(getBrowserTabsPath(), 'utf-8')) as TabState;
+  } catch {
+    return {};
+  }
+}
+
+// Replace the state atomically so the daemon never reads a partial file
+function writeTabState(state: TabState): void {
+  const path = getBrowserTabsPath();
+  if (Object.keys(state).length === 0) {
+    if (existsSync(path)) unlinkSync(path);
+    return;
+  }
+
+  const tempPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+  renameSync(tempPath, path);
+}
+
+// Record the active tab of a browser (nothing is kept under privacy lockdown)
+export function recordActiveTab(browser: BrowserFamily, domain: string | null): boolean {
+  const state = readTabState();
+
+  if (isPrivacyLockdownEnabled()) {
+    if (state[browser]) {
+      delete state[browser];
+      writeTabState(state);
+    }
+    return false;
+  }
+
+  state[browser] = { domain, updatedAt: new Date().toISOString() };
+  writeTabState(state);
+  return true;
+}
+
+// Forget a browser's tab (its host exited, so the browser closed)
+export function clearActiveTab(browser: BrowserFamily): void {
+  const state = readTabState();
+  if (state[browser]) {
+    delete state[browser];
+    writeTabState(state);
+  }
+}
+
+// Extension family a browser app belongs to (null for Safari, which has no extension)
+export function browserFamilyOf(appName: string): BrowserFamily | null {
+  if (/safari/i.test(appName)) return null;
+  if (/firefox|librewolf|waterfox/i.test(appName)) return 'firefox';
+  if (/edge/i.test(appName)) return 'edge';
+  return 'chrome';
+}
+
+// Add the active tab's domain to a browser window
+export function withBrowserDomain(info: WindowInfo): WindowInfo {
+  if (!isBrowser(info) || isPrivacyLockdownEnabled()) {
+    return info;
+  }
+
+  const family = browserFamilyOf(info.appName);
+  const tab = family ? readTabState()[family] : undefined;
+  return tab?.domain ? { ...info, domain: tab.domain } : info;
+}
@@ -0,0 +1,103 @@
+import type { WindowInfo, ContextKeyMode } from '../types/index.js';
+
+export const CONTEXT_KEY_MODES: ContextKeyMode[] = ['app', 'title', 'domain', 'project'];
+
+// Browsers whose window titles describe the current page
+const BROWSER_APPS = /^(Google Chrome|Chrome|Chromium|chromium-browser|Safari|Firefox|firefox-bin|Arc|Brave|Brave Browser|brave-browser|Microsoft Edge|msedge|Vivaldi|Opera)$/i;
+
+// Suffix browsers append to page titles ("Docs - Google Chrome")
+const BROWSER_TITLE_SUFFIX = /\s+[-—–]\s+(Google Chrome|Chromium|Mozilla Firefox|Firefox|Safari|Brave|Microsoft\S* Edge|Vivaldi|Opera)$/i;
+
+const URL_HOST = /\bhttps?:\/\/([^/\s:?#]+)/i;
+const HOSTNAME = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+const TITLE_SEPARATOR = /\s+[-—–|]\s+/;
+
+// Filesystem path in a title ("user@host: ~/src/app", "/home/me/app - vim")
+const TITLE_PATH = /(?:^|[\s:])((?:~|\/)[\w.\-/]*[\w-])/;
+
+// Editors that put the project last ("file.ts — project — Visual Studio Code")
+const PROJECT_LAST_APPS = /^(Code|Visual Studio Code|VSCodium|Cursor|Sublime Text|Zed)$/i;
+
+export function isBrowser(info: WindowInfo): boolean {
+  return BROWSER_APPS.test(info.appName);
+}
+
+// Page title without the browser's name
+function pageTitle(title: string): string {
+  return title.replace(BROWSER_TITLE_SUFFIX, '').trim();
+}
+
+/**
+ * Domain of the page shown in a browser window: the one reported by the
+ * browser extension, else a URL or bare hostname segment in its title.
+ * Returns null for other apps.
+ */
+export function extractDomain(info: WindowInfo): string | null {
+  if (!isBrowser(info)) return null;
+  if (info.domain) return info.domain;
+
+  const title = pageTitle(info.windowTitle);
+  const url = title.match(URL_HOST);
+  if (url) {
+    return url[1].toLowerCase().replace(/^www\./, '');
+  }
+
+  for (const segment of title.split(TITLE_SEPARATOR)) {
+    if (HOSTNAME.test(segment)) {
+      return segment.toLowerCase().replace(/^www\./, '');
+    }
+  }
+  return null;
+}
+
+/**
+ * Project an editor or terminal window belongs to: a path in the title,
+ * otherwise the project segment of the editor's title.
+ */
+export function extractProject(info: WindowInfo): string | null {
+  const title = info.windowTitle.replace(/^[●•*]\s*/, '');
+  if (!title) return null;
+
+  const path = title.match(TITLE_PATH);
+  if (path) {
+    return path[1];
+  }
+
+  // Drop the app's own name, keep the remaining segments
+  const segments = title.split(TITLE_SEPARATOR)
+    .filter((segment) => segment && segment.toLowerCase() !== info.appName.toLowerCase() &&
+      !PROJECT_LAST_APPS.test(segment));
+  if (segments.length < 2) return null;
+
+  return PROJECT_LAST_APPS.test(info.appName) || info.appBundleId === 'com.microsoft.VSCode'
+    ? segments[segments.length - 1]
+    : segments[0];
+}
+
+/**
+ * Key identifying a tracking context. Windows with the same key extend the
+ * current entry; a different key starts a new one.
+ * - app: the application
+ * - title: application and window title
+ * - domain: application and page domain (browsers), else the application
+ * - project: application and project path, else the application
+ */
+export function getContextKey(info: WindowInfo, mode: ContextKeyMode): string {
+  const app = `${info.appName}\u0000${info.appBundleId}`;
+
+  switch (mode) {
+    case 'title':
+      return `${app}\u0000${info.windowTitle}`;
+    case 'domain': {
+      if (!isBrowser(info)) return app;
+      // No domain in the title: the page title is the closest stand-in
+      return `${app}\u0000${extractDomain(info) ?? pageTitle(info.windowTitle)}`;
+    }
+    case 'project': {
+      const project = extractProject(info);
+      return project ? `${app}\u0000${project}` : app;
+    }
+    default:
+      return app;
+  }
+}
@@ -1,2 +1,3 @@
 export * from './patterns.js';
 export * from './rules.js';
+export * from './context.js';
@@ -5,6 +5,7 @@ export interface CategoryPattern {
   appName?: string | RegExp;
   appBundleId?: string | RegExp;
   windowTitle?: string | RegExp;
+  domain?: string | RegExp;
   // Category to assign
   category: string;
   // Higher priority patterns are checked first
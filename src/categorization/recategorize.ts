@@ -0,0 +1,165 @@
+/**
+ * Retroactive Categorization
+ *
+ * Re-runs the categorizer over stored daemon entries so rule changes reach
+ * history. Planning is read-only; applying writes every change in one
+ * transaction and records it as a single undo step.
+ */
+
+import { getDatabase } from '../storage/database.js';
+import { pushUndoAction } from '../core/undo.js';
+import { categorize, getCategoryIdByName } from './rules.js';
+import { loadConfig } from '../config/settings.js';
+
+export interface RecategorizeOptions {
+  from?: string; // YYYY-MM-DD
+  to?: string;   // YYYY-MM-DD
+  onlyUncategorized?: boolean;
+}
+
+export interface RecategorizeChange {
+  id: number;
+  appName: string | null;
+  windowTitle: string | null;
+  startTime: string;
+  durationSeconds: number;
+  oldCategoryId: number | null;
+  oldCategory: string | null;
+  newCategoryId: number | null;
+  newCategory: string | null;
+}
+
+// Hours per category before and after the change
+export interface CategoryDiff {
+  category: string | null;
+  beforeSeconds: number;
+  afterSeconds: number;
+}
+
+export interface RecategorizePlan {
+  examined: number;
+  changes: RecategorizeChange[];
+  diff: CategoryDiff[];
+}
+
+interface CandidateRow {
+  id: number;
+  app_name: string | null;
+  app_bundle_id: string | null;
+  window_title: string | null;
+  domain: string | null;
+  start_time: string;
+  duration_seconds: number | null;
+  category_id: number | null;
+  category_name: string | null;
+}
+
+/**
+ * Work out which entries a re-run of the categorizer would change.
+ * Only finished daemon entries with stored app data are considered;
+ * manual entries and categories set by hand are left alone.
+ */
+export function planRecategorization(options: RecategorizeOptions = {}): RecategorizePlan {
+  const db = getDatabase();
+  const { classifierThreshold } = loadConfig();
+  const conditions = [
+    'e.is_manual = 0',
+    'e.manually_categorized = 0',
+    'e.end_time IS NOT NULL',
+    'e.deleted_at IS NULL',
+    'e.app_name IS NOT NULL',
+    // Anonymous mode stores placeholders that cannot be categorized
+    "e.app_name != '[anonymous]'",
+  ];
+  const params: string[] = [];
+
+  if (options.from) {
+    conditions.push('date(e.start_time) >= date(?)');
+    params.push(options.from);
+  }
+  if (options.to) {
+    conditions.push('date(e.start_time) <= date(?)');
+    params.push(options.to);
+  }
+  if (options.onlyUncategorized) {
+    conditions.push('e.category_id IS NULL');
+  }
+
+  const rows = db.prepare(`
+    SELECT e.id, e.app_name, e.app_bundle_id, e.window_title, e.domain,
+      e.start_time, e.duration_seconds, e.category_id, c.name as category_name
+    FROM time_entries e
+    LEFT JOIN categories c ON e.category_id = c.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY e.start_time
+  `).all(...params) as CandidateRow[];
+
+  const changes: RecategorizeChange[] = [];
+  const totals = new Map<string | null, CategoryDiff>();
+  const total = (category: string | null): CategoryDiff => {
+    let entry = totals.get(category);
+    if (!entry) {
+      entry = { category, beforeSeconds: 0, afterSeconds: 0 };
+      totals.set(category, entry);
+    }
+    return entry;
+  };
+
+  for (const row of rows) {
+    const newCategory = categorize({
+      appName: row.app_name ?? '',
+      appBundleId: row.app_bundle_id ?? '',
+      windowTitle: row.window_title ?? '',
+      domain: row.domain,
+      timestamp: new Date(row.start_time),
+    }, classifierThreshold);
+    const newCategoryId = newCategory ? getCategoryIdByName(newCategory) : null;
+    const seconds = row.duration_seconds ?? 0;
+
+    total(row.category_name).beforeSeconds += seconds;
+    total(newCategoryId === null ? null : newCategory).afterSeconds += seconds;
+
+    if (newCategoryId !== row.category_id) {
+      changes.push({
+        id: row.id,
+        appName: row.app_name,
+        windowTitle: row.window_title,
+        startTime: row.start_time,
+        durationSeconds: seconds,
+        oldCategoryId: row.category_id,
+        oldCategory: row.category_name,
+        newCategoryId,
+        newCategory: newCategoryId === null ? null : newCategory,
+      });
+    }
+  }
+
+  const diff = [...totals.values()]
+    .filter((entry) => entry.beforeSeconds !== entry.afterSeconds)
+    .sort((a, b) => Math.abs(b.afterSeconds - b.beforeSeconds) - Math.abs(a.afterSeconds - a.beforeSeconds));
+
+  return { examined: rows.length, changes, diff };
+}
+
+// Write a plan's changes as one transaction and one undo step
+export function applyRecategorization(changes: RecategorizeChange[]): number {
+  if (changes.length === 0) return 0;
+
+  const db = getDatabase();
+  const update = db.prepare('UPDATE time_entries SET category_id = ? WHERE id = ?');
+
+  db.transaction(() => {
+    for (const change of changes) {
+      update.run(change.newCategoryId, change.id);
+    }
+
+    pushUndoAction({
+      actionType: 'recategorize_entries',
+      entityType: 'time_entries',
+      oldData: changes.map((change) => ({ id: change.id, category_id: change.oldCategoryId })),
+      newData: changes.map((change) => ({ id: change.id, category_id: change.newCategoryId })),
+    });
+  })();
+
+  return changes.length;
+}
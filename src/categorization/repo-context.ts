@@ -0,0 +1,87 @@
+/**
+ * Repository Context
+ *
+ * Works out which git repository a window shows, its checked-out branch and
+ * the project the repository is linked to (`tt project link`). Tried in order:
+ *
+ *   1. a path in the window title (terminals, vim)
+ *   2. the working directory of the window's process (Linux /proc)
+ *   3. the project name in the title (VS Code, JetBrains) against the folder
+ *      or remote name of each linked repository
+ */
+
+import { basename } from 'path';
+import { findRepoRoot, readBranch, readRemoteUrl, normalizeRemoteUrl, expandPath } from '../integrations/git.js';
+import { getProjectRepos } from '../storage/repositories/projects.js';
+import { extractProject } from './context.js';
+import type { ProjectRepo, WindowInfo } from '../types/index.js';
+
+export interface RepoContext {
+  root: string | null; // null for a remote-only link matched by name
+  branch: string | null;
+  projectId: number | null;
+}
+
+// Remotes rarely change, so remember them per working tree
+const remoteCache = new Map<string, string | null>();
+
+function remoteOf(root: string): string | null {
+  if (!remoteCache.has(root)) {
+    const url = readRemoteUrl(root);
+    remoteCache.set(root, url ? normalizeRemoteUrl(url) : null);
+  }
+  return remoteCache.get(root) ?? null;
+}
+
+// Project linked to a working tree, by path first and then by remote
+export function findLinkedProject(root: string, links: ProjectRepo[] = getProjectRepos()): number | null {
+  const byPath = links.find((link) => link.path === root);
+  if (byPath) return byPath.project_id;
+
+  const remote = links.some((link) => link.remote) ? remoteOf(root) : null;
+  return (remote && links.find((link) => link.remote === remote)?.project_id) || null;
+}
+
+// Repository context of a directory (null outside a repository)
+function fromDirectory(path: string, links: ProjectRepo[]): RepoContext | null {
+  const root = findRepoRoot(path);
+  return root ? { root, branch: readBranch(root), projectId: findLinkedProject(root, links) } : null;
+}
+
+// Linked repository whose folder or remote is named like the title's project
+function fromProjectName(name: string, links: ProjectRepo[]): RepoContext | null {
+  const lower = name.toLowerCase();
+  const link = links.find((l) =>
+    (l.path && basename(l.path).toLowerCase() === lower) ||
+    (l.remote && l.remote.split('/').pop() === lower)
+  );
+  if (!link) return null;
+
+  return {
+    root: link.path,
+    branch: link.path ? readBranch(link.path) : null,
+    projectId: link.project_id,
+  };
+}
+
+export function resolveRepoContext(
+  info: WindowInfo,
+  getProcessCwd?: (pid: number) => string | null,
+  links: ProjectRepo[] = getProjectRepos()
+): RepoContext | null {
+  const project = extractProject(info);
+  const titlePath = project && /^[~/]/.test(project) ? expandPath(project) : null;
+
+  if (titlePath) {
+    const context = fromDirectory(titlePath, links);
+    if (context) return context;
+  }
+
+  const cwd = info.pid && getProcessCwd ? getProcessCwd(info.pid) : null;
+  if (cwd) {
+    const context = fromDirectory(cwd, links);
+    if (context) return context;
+  }
+
+  return project && !titlePath && links.length > 0 ? fromProjectName(project, links) : null;
+}
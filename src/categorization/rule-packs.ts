@@ -0,0 +1,408 @@
+/**
+ * Rule Packs
+ *
+ * A rule pack is a versioned JSON (or YAML, by file extension) file of
+ * categorization rules that can be shared, so everyone who imports it
+ * categorizes the same way:
+ *
+ *   {
+ *     "format": "timer-record-rules",
+ *     "name": "acme-team",
+ *     "version": "1.2.0",
+ *     "priority": 50,
+ *     "categories": [{ "name": "design", "color": "#ff6b6b", "productivity": 2 }],
+ *     "rules": [
+ *       { "app": "Figma", "category": "design" },
+ *       { "window": "acme-api", "project": "Acme", "tags": ["backend"], "priority": 5 }
+ *     ]
+ *   }
+ *
+ * A rule matches on any of app, bundle, window and domain (same meaning as
+ * the `tt rules add` options) and assigns any of category, project, tags and
+ * notes. The pack priority is added to each rule's own priority. Missing
+ * categories and projects are created on import.
+ *
+ * Imported rules remember their pack. Re-importing resolves rules of the same
+ * pack with the same patterns by the chosen strategy: update them, skip them,
+ * or replace every rule of the pack with the file's contents. Hand-written
+ * rules and other packs' rules are never changed.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import yaml from 'js-yaml';
+import { getDatabase } from '../storage/database.js';
+import { getCategoryByName, createCategory } from '../storage/repositories/categories.js';
+import { getProjectByName, getOrCreateProject } from '../storage/repositories/projects.js';
+import { ValidationError } from '../errors/index.js';
+import { parseProductivity } from '../core/productivity.js';
+import { isNameInTrash } from '../core/trash.js';
+import { listRules, parseRuleTags } from './rules.js';
+
+export const RULE_PACK_FORMAT = 'timer-record-rules';
+
+export const CONFLICT_STRATEGIES = ['update', 'skip', 'replace'] as const;
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+export interface RulePackCategory {
+  name: string;
+  color?: string;
+  description?: string;
+  productivity?: number; // -2..2
+  productive?: boolean; // packs written before productivity levels
+}
+
+export interface RulePackRule {
+  app?: string;
+  bundle?: string;
+  window?: string;
+  domain?: string;
+  category?: string;
+  project?: string;
+  tags?: string[];
+  notes?: string;
+  priority?: number;
+}
+
+export interface RulePack {
+  format: typeof RULE_PACK_FORMAT;
+  name: string;
+  version: string;
+  description?: string;
+  priority?: number;
+  categories?: RulePackCategory[];
+  rules: RulePackRule[];
+}
+
+export interface RulePackImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+  createdCategories: string[];
+  createdProjects: string[];
+  restoredProjects: string[]; // taken back out of the trash
+}
+
+const MATCH_FIELDS = ['app', 'bundle', 'window', 'domain'] as const;
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new ValidationError(`"${field}" must be a string`, field);
+  }
+  return value;
+}
+
+function optionalNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new ValidationError(`"${field}" must be an integer`, field);
+  }
+  return value;
+}
+
+// A productivity level as a weight (-2..2) or level name
+function optionalProductivity(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' && typeof value !== 'string') {
+    throw new ValidationError(`"${field}" must be a number from -2 to 2 or a level name`, field);
+  }
+  try {
+    return parseProductivity(String(value));
+  } catch {
+    throw new ValidationError(`"${field}" must be a number from -2 to 2 or a level name`, field);
+  }
+}
+
+// Validate one rule of a pack
+function parseRule(value: unknown, index: number): RulePackRule {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`rules[${index}] must be an object`, 'rules');
+  }
+  const raw = value as Record<string, unknown>;
+  const field = (name: string): string => `rules[${index}].${name}`;
+
+  let tags: string[] | undefined;
+  if (raw.tags !== undefined) {
+    if (!Array.isArray(raw.tags) || raw.tags.some((tag) => typeof tag !== 'string')) {
+      throw new ValidationError(`"${field('tags')}" must be a list of tag names`, field('tags'));
+    }
+    tags = parseRuleTags((raw.tags as string[]).join(','));
+  }
+
+  const rule: RulePackRule = {
+    app: optionalString(raw.app, field('app')),
+    bundle: optionalString(raw.bundle, field('bundle')),
+    window: optionalString(raw.window, field('window')),
+    domain: optionalString(raw.domain, field('domain')),
+    category: optionalString(raw.category, field('category')),
+    project: optionalString(raw.project, field('project')),
+    tags: tags?.length ? tags : undefined,
+    notes: optionalString(raw.notes, field('notes')),
+    priority: optionalNumber(raw.priority, field('priority')),
+  };
+
+  if (!MATCH_FIELDS.some((name) => rule[name])) {
+    throw new ValidationError(`rules[${index}] needs one of: ${MATCH_FIELDS.join(', ')}`, 'rules');
+  }
+  if (!rule.category && !rule.project && !rule.tags && !rule.notes) {
+    throw new ValidationError(`rules[${index}] needs one of: category, project, tags, notes`, 'rules');
+  }
+  for (const name of ['app', 'window'] as const) {
+    const pattern = rule[name];
+    if (pattern && /[.*+?^${}()|[\]\\]/.test(pattern)) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new ValidationError(`"${field(name)}" is not a valid regular expression`, field(name));
+      }
+    }
+  }
+
+  return rule;
+}
+
+// Validate a parsed rule pack
+export function parseRulePack(data: unknown): RulePack {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ValidationError('A rule pack must be a JSON object');
+  }
+  const raw = data as Record<string, unknown>;
+
+  if (raw.format !== RULE_PACK_FORMAT) {
+    throw new ValidationError(`"format" must be "${RULE_PACK_FORMAT}"`, 'format');
+  }
+  const name = optionalString(raw.name, 'name');
+  if (!name) {
+    throw new ValidationError('"name" is required', 'name');
+  }
+  const version = optionalString(raw.version, 'version');
+  if (!version) {
+    throw new ValidationError('"version" is required', 'version');
+  }
+  if (!Array.isArray(raw.rules)) {
+    throw new ValidationError('"rules" must be a list', 'rules');
+  }
+
+  const categories: RulePackCategory[] = [];
+  if (raw.categories !== undefined) {
+    if (!Array.isArray(raw.categories)) {
+      throw new ValidationError('"categories" must be a list', 'categories');
+    }
+    raw.categories.forEach((value: unknown, index) => {
+      const category = (value ?? {}) as Record<string, unknown>;
+      const categoryName = optionalString(category.name, `categories[${index}].name`);
+      if (!categoryName) {
+        throw new ValidationError(`categories[${index}].name is required`, 'categories');
+      }
+      categories.push({
+        name: categoryName,
+        color: optionalString(category.color, `categories[${index}].color`),
+        description: optionalString(category.description, `categories[${index}].description`),
+        productivity: optionalProductivity(category.productivity, `categories[${index}].productivity`),
+        productive: category.productive === undefined ? undefined : category.productive !== false,
+      });
+    });
+  }
+
+  return {
+    format: RULE_PACK_FORMAT,
+    name,
+    version,
+    description: optionalString(raw.description, 'description'),
+    priority: optionalNumber(raw.priority, 'priority'),
+    categories,
+    rules: raw.rules.map(parseRule),
+  };
+}
+
+function isYamlPath(filePath: string): boolean {
+  return ['.yaml', '.yml'].includes(extname(filePath).toLowerCase());
+}
+
+// Read and validate a rule pack file (.yaml/.yml as YAML, anything else as JSON)
+export function readRulePack(filePath: string): RulePack {
+  const format = isYamlPath(filePath) ? 'YAML' : 'JSON';
+  let data: unknown;
+  try {
+    const text = readFileSync(filePath, 'utf-8');
+    data = format === 'YAML' ? yaml.load(text, { schema: yaml.JSON_SCHEMA }) : JSON.parse(text);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ValidationError(`File not found: ${filePath}`);
+    }
+    throw new ValidationError(`Invalid ${format} in ${filePath}: ${(err as Error).message}`);
+  }
+  return parseRulePack(data);
+}
+
+// Build a pack from the current rules (optionally only one imported pack)
+export function buildRulePack(options: { name: string; version: string; fromPack?: string }): RulePack {
+  const rules = listRules().filter((rule) => !options.fromPack || rule.pack_name === options.fromPack);
+
+  const categories = new Map<string, RulePackCategory>();
+  for (const rule of rules) {
+    if (!rule.category_name || categories.has(rule.category_name)) continue;
+    const category = getCategoryByName(rule.category_name);
+    categories.set(rule.category_name, {
+      name: rule.category_name,
+      color: category?.color ?? undefined,
+      productivity: category?.productivity,
+    });
+  }
+
+  return {
+    format: RULE_PACK_FORMAT,
+    name: options.name,
+    version: options.version,
+    categories: [...categories.values()],
+    rules: rules.map((rule) => ({
+      app: rule.app_name_pattern ?? undefined,
+      bundle: rule.app_bundle_id ?? undefined,
+      window: rule.window_title_pattern ?? undefined,
+      domain: rule.domain_pattern ?? undefined,
+      category: rule.category_name ?? undefined,
+      project: rule.project_name ?? undefined,
+      tags: rule.tags ? parseRuleTags(rule.tags) : undefined,
+      notes: rule.note_template ?? undefined,
+      priority: rule.priority || undefined,
+    })),
+  };
+}
+
+export function writeRulePack(pack: RulePack, filePath: string): void {
+  const text = isYamlPath(filePath) ? yaml.dump(pack, { schema: yaml.JSON_SCHEMA }) : JSON.stringify(pack, null, 2) + '\n';
+  writeFileSync(filePath, text);
+}
+
+// Thrown to roll back a dry-run import
+class DryRunRollback extends Error {}
+
+// Rules with the same patterns are the same rule
+function matchKey(rule: {
+  app_name_pattern: string | null;
+  app_bundle_id: string | null;
+  window_title_pattern: string | null;
+  domain_pattern: string | null;
+}): string {
+  return JSON.stringify([
+    rule.app_name_pattern?.toLowerCase() ?? null,
+    rule.app_bundle_id?.toLowerCase() ?? null,
+    rule.window_title_pattern?.toLowerCase() ?? null,
+    rule.domain_pattern?.toLowerCase() ?? null,
+  ]);
+}
+
+/**
+ * Import a rule pack in one transaction. With `dryRun` the changes are
+ * counted and rolled back.
+ */
+export function importRulePack(
+  pack: RulePack,
+  options: { strategy?: ConflictStrategy; dryRun?: boolean } = {}
+): RulePackImportResult {
+  const strategy = options.strategy ?? 'update';
+  const db = getDatabase();
+  const result: RulePackImportResult = {
+    added: 0,
+    updated: 0,
+    skipped: 0,
+    removed: 0,
+    createdCategories: [],
+    createdProjects: [],
+    restoredProjects: [],
+  };
+
+  const categoryId = (name: string): number => {
+    const existing = getCategoryByName(name);
+    if (existing) return existing.id;
+    const declared = pack.categories?.find((category) => category.name === name);
+    result.createdCategories.push(name);
+    const productivity = declared?.productivity ?? (declared?.productive === false ? 0 : 1);
+    return createCategory(name, declared?.color, declared?.description, productivity).id;
+  };
+  const projectId = (name: string): number => {
+    const existing = getProjectByName(name);
+    if (existing) return existing.id;
+    // A trashed project keeps its name, so it is restored rather than created again
+    (isNameInTrash('project', name) ? result.restoredProjects : result.createdProjects).push(name);
+    return getOrCreateProject(name).id;
+  };
+
+  const insert = db.prepare(`
+    INSERT INTO categorization_rules
+    (app_name_pattern, app_bundle_id, window_title_pattern, domain_pattern,
+     category_id, project_id, tags, note_template, priority, pack_name, pack_version)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const update = db.prepare(`
+    UPDATE categorization_rules
+    SET category_id = ?, project_id = ?, tags = ?, note_template = ?, priority = ?,
+      pack_name = ?, pack_version = ?
+    WHERE id = ?
+  `);
+
+  const run = db.transaction(() => {
+    if (strategy === 'replace') {
+      result.removed = db.prepare('DELETE FROM categorization_rules WHERE pack_name = ?').run(pack.name).changes;
+    }
+
+    // Declared categories are created even when no rule uses them yet
+    for (const category of pack.categories ?? []) {
+      categoryId(category.name);
+    }
+
+    // Only rules this pack installed can conflict; the user's own rules are left alone
+    const existing = new Map(
+      listRules().filter((rule) => rule.pack_name === pack.name).map((rule) => [matchKey(rule), rule.id])
+    );
+    for (const rule of pack.rules) {
+      const patterns = {
+        app_name_pattern: rule.app ?? null,
+        app_bundle_id: rule.bundle ?? null,
+        window_title_pattern: rule.window ?? null,
+        domain_pattern: rule.domain ?? null,
+      };
+      const values = [
+        rule.category ? categoryId(rule.category) : null,
+        rule.project ? projectId(rule.project) : null,
+        rule.tags?.length ? rule.tags.join(',') : null,
+        rule.notes ?? null,
+        (pack.priority ?? 0) + (rule.priority ?? 0),
+        pack.name,
+        pack.version,
+      ];
+
+      const conflictId = existing.get(matchKey(patterns));
+      if (conflictId !== undefined && strategy === 'skip') {
+        result.skipped++;
+      } else if (conflictId !== undefined) {
+        update.run(...values, conflictId);
+        result.updated++;
+      } else {
+        const inserted = insert.run(
+          patterns.app_name_pattern,
+          patterns.app_bundle_id,
+          patterns.window_title_pattern,
+          patterns.domain_pattern,
+          ...values
+        );
+        existing.set(matchKey(patterns), Number(inserted.lastInsertRowid));
+        result.added++;
+      }
+    }
+
+    if (options.dryRun) {
+      throw new DryRunRollback();
+    }
+  });
+
+  try {
+    run();
+  } catch (err) {
+    if (!(err instanceof DryRunRollback)) throw err;
+  }
+
+  return result;
+}
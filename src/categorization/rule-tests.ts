@@ -0,0 +1,96 @@
+/**
+ * Rule Tests
+ *
+ * Regression tests for categorization rules: a JSON list of window samples
+ * and the category each should get.
+ *
+ *   [
+ *     { "appName": "Figma", "expected": "design" },
+ *     { "appName": "Google Chrome", "windowTitle": "PROJ-12 - Jira", "domain": "acme.atlassian.net", "expected": "research" },
+ *     { "appName": "Calculator", "expected": null }
+ *   ]
+ *
+ * Samples are checked against user rules and default patterns only, so the
+ * result does not depend on what the local classifier has learned.
+ */
+
+import { readFileSync } from 'fs';
+import { ValidationError } from '../errors/index.js';
+import { explainCategorization, type TraceStep } from './rules.js';
+import type { WindowInfo } from '../types/index.js';
+
+export interface RuleSample {
+  name?: string;
+  appName: string;
+  appBundleId?: string;
+  windowTitle?: string;
+  domain?: string;
+  expected: string | null; // null = uncategorized
+}
+
+export interface RuleSampleResult {
+  sample: RuleSample;
+  actual: string | null;
+  passed: boolean;
+  winner: TraceStep | null;
+}
+
+// Validate a parsed list of samples (a bare array or { "samples": [...] })
+export function parseRuleSamples(data: unknown): RuleSample[] {
+  const list = Array.isArray(data) ? data : (data as { samples?: unknown } | null)?.samples;
+  if (!Array.isArray(list)) {
+    throw new ValidationError('Expected a list of samples');
+  }
+
+  return list.map((value: unknown, index) => {
+    const raw = (value ?? {}) as Record<string, unknown>;
+    if (typeof raw.appName !== 'string' || raw.appName === '') {
+      throw new ValidationError(`samples[${index}].appName is required`, 'appName');
+    }
+    if (!('expected' in raw) || (raw.expected !== null && typeof raw.expected !== 'string')) {
+      throw new ValidationError(`samples[${index}].expected must be a category name or null`, 'expected');
+    }
+    for (const field of ['name', 'appBundleId', 'windowTitle', 'domain']) {
+      if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+        throw new ValidationError(`samples[${index}].${field} must be a string`, field);
+      }
+    }
+    return raw as unknown as RuleSample;
+  });
+}
+
+export function readRuleSamples(filePath: string): RuleSample[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ValidationError(`File not found: ${filePath}`);
+    }
+    throw new ValidationError(`Invalid JSON in ${filePath}: ${(err as Error).message}`);
+  }
+  return parseRuleSamples(data);
+}
+
+export function sampleToWindow(sample: RuleSample): WindowInfo {
+  return {
+    appName: sample.appName,
+    appBundleId: sample.appBundleId ?? '',
+    windowTitle: sample.windowTitle ?? '',
+    domain: sample.domain,
+    timestamp: new Date(),
+  };
+}
+
+// Categorize every sample and compare with what was expected
+export function runRuleSamples(samples: RuleSample[]): RuleSampleResult[] {
+  return samples.map((sample) => {
+    const trace = explainCategorization(sampleToWindow(sample));
+    return {
+      sample,
+      actual: trace.category,
+      passed: trace.category === sample.expected,
+      winner: trace.winner,
+    };
+  });
+}
@@ -2,6 +2,10 @@ import type { WindowInfo } from '../types/index.js';
 import { SORTED_PATTERNS, type CategoryPattern } from './patterns.js';
 import { getDatabase } from '../storage/database.js';
 import { getCategoryByName } from '../storage/repositories/categories.js';
+import { getProjectByName } from '../storage/repositories/projects.js';
+import { extractProject } from './context.js';
+import { loadConfig } from '../config/settings.js';
+import { classifyWindow } from '../ml/classifier.js';
 
 // Check if a value matches a pattern (string or RegExp)
 function matchesPattern(value: string, pattern: string | RegExp): boolean {
@@ -11,33 +15,62 @@ function matchesPattern(value: string, pattern: string | RegExp): boolean {
   return pattern.test(value);
 }
 
-// Check if window info matches a category pattern
-function matchesCategoryPattern(
+// First criterion of a pattern the window fails, or null when it matches
+function mismatchedField(
   info: WindowInfo,
   pattern: CategoryPattern
-): boolean {
+): 'app' | 'bundle' | 'window' | 'domain' | null {
   // Check app name
   if (pattern.appName !== undefined) {
     if (!matchesPattern(info.appName, pattern.appName)) {
-      return false;
+      return 'app';
     }
   }
 
   // Check bundle ID
   if (pattern.appBundleId !== undefined) {
     if (!matchesPattern(info.appBundleId, pattern.appBundleId)) {
-      return false;
+      return 'bundle';
     }
   }
 
   // Check window title
   if (pattern.windowTitle !== undefined) {
     if (!matchesPattern(info.windowTitle, pattern.windowTitle)) {
-      return false;
+      return 'window';
     }
   }
 
-  return true;
+  // Check browser domain (only known when the extension reports it)
+  if (pattern.domain !== undefined) {
+    if (!info.domain || !matchesPattern(info.domain, pattern.domain)) {
+      return 'domain';
+    }
+  }
+
+  return null;
+}
+
+// Check if window info matches a category pattern
+function matchesCategoryPattern(
+  info: WindowInfo,
+  pattern: CategoryPattern
+): boolean {
+  return mismatchedField(info, pattern) === null;
+}
+
+/**
+ * Convert a domain pattern to a RegExp. "github.com" matches the domain
+ * and its subdomains; "*" matches within one label ("*.atlassian.net").
+ */
+export function domainPatternToRegExp(pattern: string): RegExp {
+  const body = pattern
+    .toLowerCase()
+    .replace(/^www\./, '')
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^.]*');
+  return new RegExp(`^(?:[^.]+\\.)*${body}$`, 'i');
 }
 
 // Get user-defined rules from database
@@ -46,25 +79,33 @@ interface UserRule {
   app_name_pattern: string | null;
   app_bundle_id: string | null;
   window_title_pattern: string | null;
-  category_id: number;
+  domain_pattern: string | null;
+  category_id: number | null;
+  project_id: number | null;
+  tags: string | null;  // Comma-separated tag names
+  note_template: string | null;
   priority: number;
-  category_name: string;
+  pack_name: string | null;     // rule pack it was imported from
+  pack_version: string | null;
+  category_name: string | null;
+  project_name: string | null;
 }
 
 function getUserRules(): UserRule[] {
   const db = getDatabase();
   return db.prepare(`
-    SELECT r.*, c.name as category_name
+    SELECT r.*, c.name as category_name, p.name as project_name
     FROM categorization_rules r
-    JOIN categories c ON r.category_id = c.id
-    ORDER BY r.priority DESC
+    LEFT JOIN categories c ON r.category_id = c.id
+    LEFT JOIN projects p ON r.project_id = p.id AND p.deleted_at IS NULL
+    ORDER BY r.priority DESC, r.id
   `).all() as UserRule[];
 }
 
 // Convert user rule to category pattern
 function ruleToPattern(rule: UserRule): CategoryPattern & { category: string } {
   const pattern: CategoryPattern = {
-    category: rule.category_name,
+    category: rule.category_name ?? '',
     priority: rule.priority + 100, // User rules get higher priority
   };
 
@@ -89,32 +130,295 @@ function ruleToPattern(rule: UserRule): CategoryPattern & { category: string } {
     }
   }
 
+  if (rule.domain_pattern) {
+    pattern.domain = domainPatternToRegExp(rule.domain_pattern);
+  }
+
   return pattern;
 }
 
-// Main categorization function
-export function categorize(info: WindowInfo): string | null {
-  // First check user-defined rules
-  const userRules = getUserRules();
-  for (const rule of userRules) {
-    const pattern = ruleToPattern(rule);
-    if (matchesCategoryPattern(info, pattern)) {
+// A user rule with its patterns compiled
+interface CompiledRule {
+  order: number; // position in priority order
+  rule: UserRule;
+  pattern: CategoryPattern & { category: string };
+  tags: string[];
+}
+
+/**
+ * User rules and default patterns ready to match. Rules with an exact app
+ * name or bundle ID are indexed by it, so only the rules that can apply
+ * to a window are tried; the rest are checked in order.
+ */
+interface CompiledRuleSet {
+  database: ReturnType<typeof getDatabase>;
+  version: number;
+  rules: CompiledRule[];
+  byApp: Map<string, CompiledRule[]>;
+  byBundle: Map<string, CompiledRule[]>;
+  unindexed: CompiledRule[];
+  defaults: Array<{ pattern: CategoryPattern; exists: boolean }>;
+  categories: Set<string>;
+}
+
+let compiledRules: CompiledRuleSet | null = null;
+
+function compileRules(database: ReturnType<typeof getDatabase>, version: number): CompiledRuleSet {
+  const set: CompiledRuleSet = {
+    database,
+    version,
+    rules: [],
+    byApp: new Map(),
+    byBundle: new Map(),
+    unindexed: [],
+    defaults: [],
+    categories: new Set(),
+  };
+  const index = (map: Map<string, CompiledRule[]>, key: string, rule: CompiledRule): void => {
+    const list = map.get(key.toLowerCase());
+    if (list) {
+      list.push(rule);
+    } else {
+      map.set(key.toLowerCase(), [rule]);
+    }
+  };
+
+  for (const rule of getUserRules()) {
+    const compiled: CompiledRule = {
+      order: set.rules.length,
+      rule,
+      pattern: ruleToPattern(rule),
+      tags: parseRuleTags(rule.tags),
+    };
+    set.rules.push(compiled);
+
+    if (typeof compiled.pattern.appName === 'string') {
+      index(set.byApp, compiled.pattern.appName, compiled);
+    } else if (typeof compiled.pattern.appBundleId === 'string' && compiled.pattern.appName === undefined) {
+      index(set.byBundle, compiled.pattern.appBundleId, compiled);
+    } else {
+      set.unindexed.push(compiled);
+    }
+  }
+
+  set.categories = new Set(
+    (database.prepare('SELECT name FROM categories').all() as { name: string }[]).map((row) => row.name)
+  );
+  set.defaults = SORTED_PATTERNS.map((pattern) => ({ pattern, exists: set.categories.has(pattern.category) }));
+
+  return set;
+}
+
+/**
+ * The compiled rule set, rebuilt when rules or categories change. Triggers
+ * bump `rule_set_version` on every change, so edits made by another
+ * process (the CLI while the daemon runs) are picked up on the next call.
+ */
+function getCompiledRules(): CompiledRuleSet {
+  const database = getDatabase();
+  const { version } = database.prepare('SELECT version FROM rule_set_version WHERE id = 1').get() as { version: number };
+  if (compiledRules?.database !== database || compiledRules.version !== version) {
+    compiledRules = compileRules(database, version);
+  }
+  return compiledRules;
+}
+
+// User rules that could match a window, in priority order
+function candidateRules(set: CompiledRuleSet, info: WindowInfo): CompiledRule[] {
+  const byApp = set.byApp.get(info.appName.toLowerCase());
+  const byBundle = info.appBundleId ? set.byBundle.get(info.appBundleId.toLowerCase()) : undefined;
+  if (!byApp && !byBundle) {
+    return set.unindexed;
+  }
+  return [...(byApp ?? []), ...(byBundle ?? []), ...set.unindexed].sort((a, b) => a.order - b.order);
+}
+
+// Categorize with user rules and default patterns only
+export function categorizeByRules(info: WindowInfo): string | null {
+  const set = getCompiledRules();
+
+  // First check user-defined rules (some only set project, tags or notes)
+  for (const { rule, pattern } of candidateRules(set, info)) {
+    if (rule.category_name && matchesCategoryPattern(info, pattern)) {
       return pattern.category;
     }
   }
 
-  // Then check default patterns
-  for (const pattern of SORTED_PATTERNS) {
-    if (matchesCategoryPattern(info, pattern)) {
-      // Verify category exists
-      const category = getCategoryByName(pattern.category);
-      if (category) {
-        return pattern.category;
+  // Then check default patterns whose category exists
+  for (const { pattern, exists } of set.defaults) {
+    if (exists && matchesCategoryPattern(info, pattern)) {
+      return pattern.category;
+    }
+  }
+
+  return null;
+}
+
+// Main categorization function; callers that categorize often pass the classifier threshold in
+export function categorize(
+  info: WindowInfo,
+  classifierThreshold?: number
+): string | null {
+  const category = categorizeByRules(info);
+  if (category) {
+    return category;
+  }
+
+  // Finally fall back to what was learned from manual corrections
+  const prediction = classifyWindow(info);
+  if (!prediction || !getCompiledRules().categories.has(prediction.category)) {
+    return null; // Uncategorized
+  }
+  const threshold = classifierThreshold ?? loadConfig().classifierThreshold;
+  return prediction.confidence >= threshold ? prediction.category : null;
+}
+
+// One pattern tried while categorizing a window
+export interface TraceStep {
+  source: 'rule' | 'default' | 'classifier';
+  ruleId?: number;          // user rule ID
+  pattern: string;          // e.g. app="Figma" window=/jira/i
+  category: string;
+  priority: number;
+  outcome: 'matched' | 'no-match' | 'missing-category' | 'below-threshold' | 'shadowed';
+  mismatch?: 'app' | 'bundle' | 'window' | 'domain';
+  confidence?: number;      // classifier only
+}
+
+export interface CategorizationTrace {
+  steps: TraceStep[];       // in evaluation order
+  winner: TraceStep | null;
+  category: string | null;
+}
+
+// Human-readable criteria of a pattern
+export function describePattern(pattern: CategoryPattern): string {
+  const show = (value: string | RegExp): string => (typeof value === 'string' ? `"${value}"` : value.toString());
+  const parts: string[] = [];
+  if (pattern.appName !== undefined) parts.push(`app=${show(pattern.appName)}`);
+  if (pattern.appBundleId !== undefined) parts.push(`bundle=${show(pattern.appBundleId)}`);
+  if (pattern.windowTitle !== undefined) parts.push(`window=${show(pattern.windowTitle)}`);
+  if (pattern.domain !== undefined) parts.push(`domain=${show(pattern.domain)}`);
+  return parts.join(' ') || '*';
+}
+
+/**
+ * Categorize a window the way categorize() does, recording every pattern
+ * on the way. Patterns after the winner are still evaluated so that
+ * matches it shadows show up. The classifier is consulted only when
+ * `useClassifier` is set and nothing else matched.
+ */
+export function explainCategorization(info: WindowInfo, options: { useClassifier?: boolean } = {}): CategorizationTrace {
+  const steps: TraceStep[] = [];
+  let winner: TraceStep | null = null;
+
+  const evaluate = (step: Omit<TraceStep, 'outcome' | 'mismatch'>, pattern: CategoryPattern, exists: boolean): void => {
+    const mismatch = mismatchedField(info, pattern);
+    let outcome: TraceStep['outcome'];
+    if (mismatch) {
+      outcome = 'no-match';
+    } else if (winner) {
+      outcome = 'shadowed';
+    } else {
+      outcome = exists ? 'matched' : 'missing-category';
+    }
+
+    const traced: TraceStep = { ...step, outcome, ...(mismatch ? { mismatch } : {}) };
+    steps.push(traced);
+    if (outcome === 'matched') winner = traced;
+  };
+
+  const set = getCompiledRules();
+  for (const { rule, pattern } of set.rules.filter((compiled) => compiled.rule.category_name)) {
+    evaluate(
+      { source: 'rule', ruleId: rule.id, pattern: describePattern(pattern), category: pattern.category, priority: rule.priority },
+      pattern,
+      true
+    );
+  }
+
+  for (const { pattern, exists } of set.defaults) {
+    evaluate(
+      { source: 'default', pattern: describePattern(pattern), category: pattern.category, priority: pattern.priority ?? 0 },
+      pattern,
+      exists
+    );
+  }
+
+  if (!winner && options.useClassifier) {
+    const prediction = classifyWindow(info);
+    if (prediction) {
+      const confident = prediction.confidence >= loadConfig().classifierThreshold;
+      const step: TraceStep = {
+        source: 'classifier',
+        pattern: 'learned from corrections',
+        category: prediction.category,
+        priority: 0,
+        confidence: prediction.confidence,
+        outcome: !confident ? 'below-threshold' : set.categories.has(prediction.category) ? 'matched' : 'missing-category',
+      };
+      steps.push(step);
+      if (step.outcome === 'matched') winner = step;
+    }
+  }
+
+  const won = winner as TraceStep | null;
+  return { steps, winner: won, category: won?.category ?? null };
+}
+
+// What matching rules add to an entry besides its category
+export interface RuleAttribution {
+  projectId: number | null;
+  tags: string[];
+  noteTemplate: string | null;
+}
+
+/**
+ * Collect project, tags and note template from the user rules matching a
+ * window. Project and note come from the highest-priority rule that sets
+ * them; tags are merged from every matching rule.
+ */
+export function attributeByRules(info: WindowInfo): RuleAttribution {
+  const attribution: RuleAttribution = { projectId: null, tags: [], noteTemplate: null };
+
+  for (const { rule, pattern, tags } of candidateRules(getCompiledRules(), info)) {
+    // project_name is only joined for a live project, so a trashed one is never assigned
+    const projectId = rule.project_name !== null ? rule.project_id : null;
+    if (!projectId && tags.length === 0 && !rule.note_template) continue;
+    if (!matchesCategoryPattern(info, pattern)) continue;
+
+    attribution.projectId ??= projectId;
+    attribution.noteTemplate ??= rule.note_template;
+    for (const tag of tags) {
+      if (!attribution.tags.includes(tag)) {
+        attribution.tags.push(tag);
       }
     }
   }
 
-  return null; // Uncategorized
+  return attribution;
+}
+
+// Split a rule's comma-separated tag names
+export function parseRuleTags(tags: string | null): string[] {
+  return (tags ?? '')
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Fill in a note template from the window: {app}, {title}, {domain} and
+ * {project} (the project path from editor and terminal titles).
+ */
+export function renderNoteTemplate(template: string, info: WindowInfo): string {
+  const values: Record<string, string> = {
+    app: info.appName,
+    title: info.windowTitle,
+    domain: info.domain ?? '',
+    project: extractProject(info) ?? '',
+  };
+  return template.replace(/\{(app|title|domain|project)\}/g, (_, key: string) => values[key]).trim();
 }
 
 // Get category ID from name (helper for entries)
@@ -128,24 +432,42 @@ export function addRule(options: {
   appNamePattern?: string;
   appBundleId?: string;
   windowTitlePattern?: string;
-  categoryName: string;
+  domainPattern?: string;
+  categoryName?: string;
+  projectName?: string;
+  tags?: string[];
+  noteTemplate?: string;
   priority?: number;
 }): boolean {
-  const category = getCategoryByName(options.categoryName);
-  if (!category) {
+  if (!options.categoryName && !options.projectName && !options.tags?.length && !options.noteTemplate) {
+    throw new Error('A rule needs a category, project, tags or note');
+  }
+
+  const category = options.categoryName ? getCategoryByName(options.categoryName) : null;
+  if (options.categoryName && !category) {
     throw new Error(`Category not found: ${options.categoryName}`);
   }
 
+  const project = options.projectName ? getProjectByName(options.projectName) : null;
+  if (options.projectName && !project) {
+    throw new Error(`Project not found: ${options.projectName}`);
+  }
+
   const db = getDatabase();
   db.prepare(`
     INSERT INTO categorization_rules
-    (app_name_pattern, app_bundle_id, window_title_pattern, category_id, priority)
-    VALUES (?, ?, ?, ?, ?)
+    (app_name_pattern, app_bundle_id, window_title_pattern, domain_pattern,
+     category_id, project_id, tags, note_template, priority)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     options.appNamePattern || null,
     options.appBundleId || null,
     options.windowTitlePattern || null,
-    category.id,
+    options.domainPattern || null,
+    category?.id ?? null,
+    project?.id ?? null,
+    options.tags?.length ? options.tags.join(',') : null,
+    options.noteTemplate || null,
     options.priority || 0
   );
 
@@ -3,6 +3,7 @@ import Table from 'cli-table3';
 import asciichart from 'asciichart';
 import {
   getCategorySummary,
+  getCategorySummaryFiltered,
   getDailyTotals,
   getHourlyBreakdown,
   getMonthRange,
@@ -10,38 +11,51 @@ import {
   getWeeklyTotals,
   getMonthlyTotals,
   getStreakData,
-  getProductivityScore,
   getAverageStats,
 } from '../../storage/repositories/entries.js';
-import { formatDuration, formatCategory, formatBar } from '../utils/format.js';
+import { getProductivityScore } from '../../core/productivity.js';
+import { formatDuration } from '../utils/format.js';
+import { categoryRows, checkCategoryView, renderCategoryTable, type CategoryViewOptions } from '../utils/category-table.js';
+import { parseWhereOption } from '../utils/where.js';
 
 const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
 /**
  * Monthly summary (similar to week command)
  */
-export function monthCommand(options?: { monthsAgo?: number }): void {
+export function monthCommand(options?: { monthsAgo?: number; where?: string } & CategoryViewOptions): void {
   const monthsAgo = options?.monthsAgo || 0;
   const { start, end } = getMonthRange(monthsAgo);
+  checkCategoryView(options);
+  const where = parseWhereOption(options?.where);
 
-  const summary = getCategorySummary(start, end);
-  const dailyTotals = getDailyTotals(start, end);
-  const hourlyData = getHourlyBreakdown(start, end);
+  const summary = where
+    ? getCategorySummaryFiltered(start, end, { where })
+    : getCategorySummary(start, end);
+  const dailyTotals = getDailyTotals(start, end, where);
+  const hourlyData = getHourlyBreakdown(start, end, where);
 
-  // Calculate total seconds
-  const totalSeconds = summary.reduce((acc, s) => acc + s.total_seconds, 0);
+  // Roll child categories up into their parents
+  const rows = categoryRows(summary, options);
+  const totalSeconds = rows
+    .filter((row) => row.depth === 0)
+    .reduce((acc, row) => acc + row.node.total_seconds, 0);
 
   // Format date range
   const startDate = new Date(start);
   const monthName = startDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
 
   console.log();
-  console.log(chalk.bold('Monthly Summary'));
+  const filterDescription = (options?.where ? ` [where: ${options.where}]` : '')
+    + (options?.category ? ` [category: ${options.category}]` : '');
+  console.log(chalk.bold('Monthly Summary') + chalk.dim(filterDescription));
   console.log(chalk.dim(monthName));
   console.log();
 
-  if (summary.length === 0) {
-    console.log(chalk.dim('  No time tracked this month.'));
+  if (rows.length === 0) {
+    console.log(chalk.dim(options?.category
+      ? `  No time tracked under ${options.category} this month.`
+      : '  No time tracked this month.'));
     console.log();
     return;
   }
@@ -56,34 +70,7 @@ export function monthCommand(options?: { monthsAgo?: number }): void {
   console.log(chalk.bold('By Category'));
   console.log();
 
-  const table = new Table({
-    head: [
-      chalk.bold('Category'),
-      chalk.bold('Time'),
-      chalk.bold('%'),
-      chalk.bold(''),
-    ],
-    colWidths: [22, 12, 8, 24],
-    style: { head: [], border: [] },
-    chars: {
-      top: '─', 'top-mid': '─', 'top-left': '', 'top-right': '',
-      bottom: '─', 'bottom-mid': '─', 'bottom-left': '', 'bottom-right': '',
-      left: '', 'left-mid': '', mid: '─', 'mid-mid': '─',
-      right: '', 'right-mid': '', middle: ' ',
-    },
-  });
-
-  for (const item of summary) {
-    const percentage = totalSeconds > 0 ? (item.total_seconds / totalSeconds) * 100 : 0;
-    table.push([
-      '  ' + formatCategory(item.category, item.color),
-      formatDuration(item.total_seconds),
-      `${percentage.toFixed(1)}%`,
-      formatBar(percentage, 20),
-    ]);
-  }
-
-  console.log(table.toString());
+  console.log(renderCategoryTable(rows, totalSeconds));
   console.log();
 
   // Hourly heatmap
@@ -396,6 +383,6 @@ export function statsCommand(): void {
   renderProductivityBar(weekProductivity.score, 'This week:');
   renderProductivityBar(monthProductivity.score, 'This month:');
   console.log();
-  console.log(chalk.dim('  Productivity = productive time / total tracked time'));
+  console.log(chalk.dim('  Productivity = time weighted by category level (-2..+2) / total tracked time'));
   console.log();
 }
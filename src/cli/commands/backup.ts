@@ -0,0 +1,166 @@
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { createBackup, restoreBackup, diffBackup, type EntryRow } from '../../core/backups.js';
+import { checkBackup, findBackup, listBackups, type BackupRecord } from '../../storage/backup.js';
+import { getEncryptionConfig, unlockEncryption, lockEncryption } from '../../security/encryption.js';
+import { loadConfig } from '../../config/settings.js';
+import { promptPassword } from './encryption.js';
+import { isDaemonRunning } from './daemon.js';
+import { success, error, info, warn, formatDuration } from '../utils/format.js';
+
+const HEALTH_LABELS = {
+  ok: chalk.green('ok'),
+  missing: chalk.red('missing'),
+  corrupt: chalk.red('corrupt'),
+};
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Unlock with a password prompt, or exit
+async function unlockOrExit(reason: string): Promise<void> {
+  if (!getEncryptionConfig().enabled) {
+    error(`${reason}, but encryption is not set up (tt encrypt init)`);
+    process.exit(1);
+  }
+  const result = unlockEncryption(await promptPassword('  Enter encryption password: '));
+  if (!result.success) {
+    error(result.error || 'Failed to unlock');
+    process.exit(1);
+  }
+}
+
+// Look a backup up by id or time, unlocking first when it is encrypted
+async function resolveBackup(ref: string): Promise<BackupRecord> {
+  let record: BackupRecord;
+  try {
+    record = findBackup(ref);
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  }
+  if (record.encrypted) {
+    await unlockOrExit(`Backup #${record.id} is encrypted`);
+  }
+  return record;
+}
+
+// List backups with a checksum check of each
+export function backupListCommand(): void {
+  const backups = listBackups();
+  const config = loadConfig();
+
+  console.log();
+  console.log(chalk.bold('Backups'));
+  console.log();
+
+  if (backups.length === 0) {
+    console.log(chalk.dim('  No backups yet. The daemon takes one every hour, or run "tt backup now".'));
+    console.log();
+    return;
+  }
+
+  for (const b of backups) {
+    const entries = b.entryCount === null ? '' : `${b.entryCount} entries`;
+    const lock = b.encrypted ? chalk.yellow(' encrypted') : '';
+    console.log(
+      `  ${chalk.cyan(`#${b.id}`.padEnd(5))} ${b.createdAt}  ${b.kind.padEnd(12)} ` +
+      `${formatSize(b.size).padStart(8)}  ${entries.padEnd(14)} ${HEALTH_LABELS[checkBackup(b)]}${lock}`
+    );
+  }
+
+  console.log();
+  console.log(chalk.dim(
+    `  Scheduled backups keep ${config['backup.hourly']} hourly, ${config['backup.daily']} daily ` +
+    `and ${config['backup.weekly']} weekly${config['backup.enabled'] ? '' : ' (schedule disabled)'}`
+  ));
+  console.log();
+}
+
+// Take a manual backup now
+export async function backupNowCommand(options: { encrypt?: boolean }): Promise<void> {
+  if (options.encrypt) {
+    await unlockOrExit('Encrypted backups need the encryption password');
+  }
+
+  try {
+    const backup = await createBackup('manual', { encrypt: options.encrypt });
+    success(`Backup #${backup.id} written${backup.encrypted ? ' (encrypted)' : ''}`);
+    console.log(chalk.dim(`  ${backup.file}, ${formatSize(backup.size)}, ${backup.entryCount ?? 0} entries`));
+  } catch (err) {
+    error(`Backup failed: ${(err as Error).message}`);
+    process.exit(1);
+  } finally {
+    lockEncryption();
+  }
+}
+
+// Replace the database with a backup, by id or point in time
+export async function backupRestoreCommand(ref: string): Promise<void> {
+  if (isDaemonRunning().running) {
+    error('Stop the daemon before restoring (tt daemon stop)');
+    process.exit(1);
+  }
+
+  await resolveBackup(ref);
+  try {
+    const { restored, safety } = restoreBackup(ref);
+    success(`Restored backup #${restored.id} from ${restored.createdAt}`);
+    info(`The database as it was is kept as backup #${safety.id}; restore it to undo this`);
+  } catch (err) {
+    error(`Restore failed: ${(err as Error).message}`);
+    process.exit(1);
+  } finally {
+    lockEncryption();
+  }
+}
+
+function describeEntry(row: EntryRow): string {
+  const label = [row.app_name, row.notes].filter(Boolean).join(' - ') || chalk.dim('(no details)');
+  const duration = typeof row.duration_seconds === 'number' ? formatDuration(row.duration_seconds) : 'running';
+  return `#${row.id}  ${dayjs(String(row.start_time)).format('YYYY-MM-DD HH:mm')}  ${duration.padEnd(8)} ${label}`;
+}
+
+// Show which entries changed since a backup
+export async function backupDiffCommand(ref: string): Promise<void> {
+  await resolveBackup(ref);
+
+  let diff;
+  try {
+    diff = diffBackup(ref);
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  } finally {
+    lockEncryption();
+  }
+
+  console.log();
+  console.log(chalk.bold(`Changes since backup #${diff.backup.id} (${diff.backup.createdAt})`));
+  console.log();
+
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    info('No entries have changed');
+    console.log();
+    return;
+  }
+
+  for (const row of diff.added) console.log(chalk.green(`  + ${describeEntry(row)}`));
+  for (const row of diff.removed) console.log(chalk.red(`  - ${describeEntry(row)}`));
+  for (const change of diff.changed) {
+    console.log(chalk.yellow(`  ~ #${change.id}`));
+    for (const field of change.fields) {
+      console.log(chalk.dim(`      ${field.name}: ${String(field.before)} → ${String(field.after)}`));
+    }
+  }
+
+  console.log();
+  console.log(chalk.dim(
+    `  ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`
+  ));
+  if (diff.removed.length > 0) {
+    warn(`Restoring #${diff.backup.id} brings removed entries back but drops everything added since`);
+  }
+  console.log();
+}
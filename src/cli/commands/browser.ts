@@ -0,0 +1,110 @@
+import chalk from 'chalk';
+import { success, error, warn, info } from '../utils/format.js';
+import {
+  BROWSER_NAMES,
+  detectBrowsers,
+  installNativeHost,
+  uninstallNativeHost,
+  getNativeHostStatus,
+  getExtensionDir,
+  type BrowserName,
+} from '../../browser/install.js';
+import { readTabState } from '../../browser/tab-state.js';
+import { isPrivacyLockdownEnabled, isAnonymousModeEnabled } from '../../privacy/index.js';
+
+// Resolve --browser, defaulting to every browser found on this machine
+function resolveBrowsers(browser?: string): BrowserName[] | null {
+  if (!browser) {
+    return detectBrowsers();
+  }
+  if (!BROWSER_NAMES.includes(browser as BrowserName)) {
+    error(`Unknown browser: ${browser}`);
+    console.log(chalk.dim(`  Supported: ${BROWSER_NAMES.join(', ')}`));
+    return null;
+  }
+  return [browser as BrowserName];
+}
+
+// Register the native messaging host with the browsers
+export function browserInstall(options: { browser?: string; extensionId?: string[] }): void {
+  const browsers = resolveBrowsers(options.browser);
+  if (!browsers) {
+    process.exit(1);
+  }
+  if (browsers.length === 0) {
+    warn('No supported browser found');
+    console.log(chalk.dim(`  Pick one with --browser (${BROWSER_NAMES.join(', ')})`));
+    return;
+  }
+
+  const result = installNativeHost(browsers, options.extensionId ?? []);
+  if (!result.success) {
+    error(result.message);
+    process.exit(1);
+  }
+
+  success(result.message);
+  console.log();
+  console.log(chalk.bold('Load the extension:'));
+  console.log(`  ${getExtensionDir()}`);
+  console.log(chalk.dim('  Chrome/Edge/Brave: chrome://extensions → Developer mode → Load unpacked'));
+  console.log(chalk.dim('  Firefox: about:debugging → This Firefox → Load Temporary Add-on (manifest.json)'));
+  console.log();
+  console.log(chalk.dim('Only the active tab\'s domain is shared, and only with this machine.'));
+
+  if (isPrivacyLockdownEnabled()) {
+    console.log();
+    warn('Privacy lockdown is on: domains will not be recorded until it is turned off.');
+  }
+  console.log();
+}
+
+// Remove the native messaging host
+export function browserUninstall(options: { browser?: string }): void {
+  const browsers = options.browser ? resolveBrowsers(options.browser) : [...BROWSER_NAMES];
+  if (!browsers) {
+    process.exit(1);
+  }
+
+  const result = uninstallNativeHost(browsers);
+  if (result.success) {
+    success(result.message);
+  } else {
+    error(result.message);
+    process.exit(1);
+  }
+}
+
+// Show where the host is registered and what the extension last reported
+export function browserStatus(): void {
+  console.log();
+  console.log(chalk.bold('Browser Companion'));
+  console.log();
+
+  for (const status of getNativeHostStatus()) {
+    if (!status.detected && !status.installed) continue;
+
+    const marker = status.installed ? chalk.green('●') : chalk.dim('○');
+    const label = status.installed ? 'host registered' : 'not registered';
+    console.log(`  ${marker} ${status.browser.padEnd(10)} ${label}`);
+  }
+
+  console.log();
+  const tabs = Object.entries(readTabState());
+  if (tabs.length === 0) {
+    console.log(chalk.dim('  No active tab reported. Is the extension loaded and the browser open?'));
+  } else {
+    for (const [browser, tab] of tabs) {
+      const domain = isAnonymousModeEnabled() ? '[anonymous]' : tab?.domain ?? chalk.dim('(no site)');
+      console.log(`  ${browser.padEnd(10)} ${domain} ${chalk.dim(`(since ${tab?.updatedAt})`)}`);
+    }
+  }
+
+  if (isPrivacyLockdownEnabled()) {
+    console.log();
+    warn('Privacy lockdown is on: tab domains are ignored.');
+  }
+  console.log();
+  info('Use `tt browser install` to register the native host.');
+  console.log();
+}
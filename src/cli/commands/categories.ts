@@ -5,8 +5,36 @@ import {
   createCategory,
   deleteCategory,
   getCategoryByName,
+  getChildCategories,
+  isCategoryAncestor,
+  updateCategory,
 } from '../../storage/repositories/categories.js';
-import { success, error, warn, formatCategory } from '../utils/format.js';
+import { success, error, warn, info, formatCategory } from '../utils/format.js';
+import { formatProductivity, parseProductivity } from '../../core/productivity.js';
+import type { Category } from '../../types/index.js';
+
+// Categories in tree order (each parent followed by its children) with their depth
+function categoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  const ids = new Set(categories.map((c) => c.id));
+  const rows: { category: Category; depth: number }[] = [];
+  const seen = new Set<number>();
+
+  const visit = (category: Category, depth: number): void => {
+    if (seen.has(category.id)) return;
+    seen.add(category.id);
+    rows.push({ category, depth });
+    for (const child of categories.filter((c) => c.parent_id === category.id)) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const category of categories) {
+    if (category.parent_id === null || !ids.has(category.parent_id)) visit(category, 0);
+  }
+  // Anything left is part of a cycle; show it at the top level rather than hide it
+  for (const category of categories) visit(category, 0);
+  return rows;
+}
 
 // List all categories
 export function listCategories(): void {
@@ -20,7 +48,7 @@ export function listCategories(): void {
     head: [
       chalk.bold('Name'),
       chalk.bold('Color'),
-      chalk.bold('Productive'),
+      chalk.bold('Productivity'),
       chalk.bold('Description'),
     ],
     style: { head: [], border: [] },
@@ -32,11 +60,12 @@ export function listCategories(): void {
     },
   });
 
-  for (const cat of categories) {
+  for (const { category: cat, depth } of categoryTree(categories)) {
+    const indent = depth > 0 ? '  '.repeat(depth - 1) + chalk.dim('└ ') : '';
     table.push([
-      formatCategory(cat.name, cat.color),
+      indent + formatCategory(cat.name, cat.color),
       cat.color ? chalk.hex(cat.color)('██') : chalk.dim('--'),
-      cat.is_productive ? chalk.green('yes') : chalk.dim('no'),
+      productivityCell(cat.productivity),
       cat.description || chalk.dim('--'),
     ]);
   }
@@ -45,10 +74,34 @@ export function listCategories(): void {
   console.log();
 }
 
+// Productivity level colored by sign
+function productivityCell(weight: number): string {
+  const text = formatProductivity(weight);
+  if (weight > 0) return chalk.green(text);
+  if (weight < 0) return chalk.red(text);
+  return chalk.dim(text);
+}
+
+// Parse a --productivity option, exiting on bad input
+function productivityOption(value: string): number {
+  try {
+    return parseProductivity(value);
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  }
+}
+
 // Add a new category
 export function addCategory(
   name: string,
-  options?: { color?: string; description?: string; unproductive?: boolean }
+  options?: {
+    color?: string;
+    description?: string;
+    unproductive?: boolean;
+    productivity?: string;
+    parent?: string;
+  }
 ): void {
   // Check if category already exists
   if (getCategoryByName(name)) {
@@ -56,14 +109,28 @@ export function addCategory(
     process.exit(1);
   }
 
+  const productivity = options?.productivity !== undefined
+    ? productivityOption(options.productivity)
+    : options?.unproductive ? 0 : 1;
+
+  const parent = options?.parent ? getCategoryByName(options.parent) : undefined;
+  if (options?.parent && !parent) {
+    error(`Parent category "${options.parent}" not found`);
+    process.exit(1);
+  }
+
   try {
     const category = createCategory(
       name,
       options?.color,
       options?.description,
-      !options?.unproductive
+      productivity,
+      parent?.id
+    );
+    success(
+      `Created category: ${formatCategory(category.name, category.color)}` +
+      (parent ? chalk.dim(` (under ${parent.name})`) : '')
     );
-    success(`Created category: ${formatCategory(category.name, category.color)}`);
   } catch (err) {
     error('Failed to create category');
     process.exit(1);
@@ -90,10 +157,69 @@ export function removeCategory(name: string): void {
     process.exit(1);
   }
 
+  const children = getChildCategories(category.id);
+
   if (deleteCategory(name)) {
     success(`Removed category: ${name}`);
+    if (children.length > 0) {
+      info(`Moved ${children.map((c) => c.name).join(', ')} up one level`);
+    }
   } else {
     error('Failed to remove category');
     process.exit(1);
   }
 }
+
+// Edit a category
+export function editCategory(
+  name: string,
+  options: { color?: string; description?: string; productivity?: string }
+): void {
+  const category = getCategoryByName(name);
+  if (!category) {
+    error(`Category "${name}" not found`);
+    process.exit(1);
+  }
+
+  const updates: Parameters<typeof updateCategory>[1] = {};
+
+  if (options.color !== undefined) updates.color = options.color || null;
+  if (options.description !== undefined) updates.description = options.description || null;
+  if (options.productivity !== undefined) updates.productivity = productivityOption(options.productivity);
+
+  if (Object.keys(updates).length === 0) {
+    warn('No updates specified');
+    return;
+  }
+
+  const updated = updateCategory(category.id, updates);
+  if (updated) {
+    success(`Updated category: ${formatCategory(updated.name, updated.color)} (${formatProductivity(updated.productivity)})`);
+  } else {
+    error('Failed to update category');
+    process.exit(1);
+  }
+}
+
+// Move a category under another one, or back to the top level
+export function moveCategory(name: string, parentName?: string): void {
+  const category = getCategoryByName(name);
+  if (!category) {
+    error(`Category "${name}" not found`);
+    process.exit(1);
+  }
+
+  const parent = parentName ? getCategoryByName(parentName) : undefined;
+  if (parentName && !parent) {
+    error(`Parent category "${parentName}" not found`);
+    process.exit(1);
+  }
+
+  if (parent && isCategoryAncestor(category.id, parent.id)) {
+    error(`Cannot move "${name}" under "${parent.name}": it would be nested under itself`);
+    process.exit(1);
+  }
+
+  updateCategory(category.id, { parent_id: parent?.id ?? null });
+  success(parent ? `Moved ${name} under ${parent.name}` : `Moved ${name} to the top level`);
+}
@@ -1,10 +1,11 @@
 import { spawn, execSync } from 'child_process';
-import { existsSync, readFileSync, unlinkSync, createWriteStream } from 'fs';
+import { existsSync, readFileSync, unlinkSync, createWriteStream, rmSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { platform } from 'os';
 import chalk from 'chalk';
-import { success, error, warn, info } from '../utils/format.js';
+import Table from 'cli-table3';
+import { success, error, warn, info, formatDuration, formatCategory } from '../utils/format.js';
 import {
   checkAccessibilityPermission,
   getPermissionInstructions,
@@ -24,6 +25,9 @@ import {
   uninstallWindowsService,
   getWindowsServiceStatus,
 } from '../../daemon/windows-service.js';
+import { simulateTimeline } from '../../daemon/simulate.js';
+import { parseTimeline } from '../../detection/replay.js';
+import { getDatabase, closeDatabase, useScratchDatabase } from '../../storage/database.js';
 
 const currentPlatform = platform();
 
@@ -52,7 +56,7 @@ function getDaemonPath(): string {
 }
 
 // Check if daemon is running
-function isDaemonRunning(): { running: boolean; pid: number | null } {
+export function isDaemonRunning(): { running: boolean; pid: number | null } {
   if (!existsSync(PID_FILE)) {
     return { running: false, pid: null };
   }
@@ -303,3 +307,104 @@ export function daemonStatusFull(): void {
   console.log(chalk.dim(`Log file: ${LOG_FILE}`));
   console.log();
 }
+
+/**
+ * Replay a recorded timeline through the tracker.
+ * Runs against a throwaway copy of the database (or an empty one with
+ * --fresh), so categorization uses your rules without touching your data.
+ */
+export async function daemonSimulate(file: string, options: {
+  speed?: string;
+  interval?: string;
+  fresh?: boolean;
+}): Promise<void> {
+  if (!existsSync(file)) {
+    error(`File not found: ${file}`);
+    process.exit(1);
+  }
+
+  const speed = options.speed ? parseFloat(options.speed) : 0;
+  const pollInterval = options.interval ? parseInt(options.interval, 10) : undefined;
+  if (isNaN(speed) || speed < 0) {
+    error('Speed must be a non-negative number');
+    process.exit(1);
+  }
+  if (pollInterval !== undefined && (isNaN(pollInterval) || pollInterval < 1)) {
+    error('Interval must be a positive number of seconds');
+    process.exit(1);
+  }
+
+  let events;
+  try {
+    events = parseTimeline(readFileSync(file, 'utf-8'));
+  } catch (err) {
+    error(`Invalid timeline: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  // Point the database at a scratch copy for the rest of this process
+  const scratchDir = useScratchDatabase({ fresh: options.fresh });
+
+  try {
+    const db = getDatabase();
+    // Keep the copy quiet and start without a running timer
+    db.prepare('DELETE FROM webhooks').run();
+    db.prepare('DELETE FROM time_entries WHERE end_time IS NULL').run();
+
+    console.log(chalk.dim(`Replaying ${events.length} events${speed > 0 ? ` at ${speed}x` : ''}...`));
+    const result = await simulateTimeline(events, {
+      config: pollInterval ? { pollInterval } : undefined,
+      speed,
+    });
+
+    console.log();
+    console.log(chalk.bold(`Simulated ${formatDuration(Math.round((result.endTime.getTime() - result.startTime.getTime()) / 1000))} (${result.ticks} ticks)`));
+    console.log();
+
+    if (result.entries.length === 0) {
+      console.log(chalk.dim('  No entries were recorded.'));
+      console.log();
+      return;
+    }
+
+    const table = new Table({
+      head: [
+        chalk.bold('Start'),
+        chalk.bold('Duration'),
+        chalk.bold('App'),
+        chalk.bold('Category'),
+      ],
+      style: { head: [], border: [] },
+      chars: {
+        top: '', 'top-mid': '', 'top-left': '', 'top-right': '',
+        bottom: '', 'bottom-mid': '', 'bottom-left': '', 'bottom-right': '',
+        left: '', 'left-mid': '', mid: '', 'mid-mid': '',
+        right: '', 'right-mid': '', middle: ' ',
+      },
+    });
+
+    const totals = new Map<string, number>();
+    for (const entry of result.entries) {
+      const category = entry.category_name || 'uncategorized';
+      const seconds = entry.duration_seconds ?? 0;
+      totals.set(category, (totals.get(category) ?? 0) + seconds);
+      table.push([
+        chalk.dim(entry.start_time),
+        formatDuration(seconds),
+        entry.app_name || chalk.dim('-'),
+        entry.category_name ? formatCategory(entry.category_name) : chalk.dim('uncategorized'),
+      ]);
+    }
+
+    console.log(table.toString());
+    console.log();
+    console.log(chalk.bold('By category:'));
+    for (const [category, seconds] of [...totals].sort((a, b) => b[1] - a[1])) {
+      console.log(`  ${category.padEnd(20)} ${formatDuration(seconds)}`);
+    }
+    console.log();
+  } finally {
+    closeDatabase();
+    rmSync(scratchDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,94 @@
+import chalk from 'chalk';
+import { getDatabase } from '../../storage/database.js';
+import {
+  getMigrationStatus,
+  migrateTo,
+  rollbackMigrations,
+  type MigrationResult,
+} from '../../storage/migrations.js';
+import { success, error, info, warn } from '../utils/format.js';
+
+interface MigrateOptions {
+  status?: boolean;
+  to?: string;
+  // true when given without a count
+  rollback?: boolean | string;
+}
+
+const STATE_COLORS = {
+  applied: chalk.green,
+  pending: chalk.yellow,
+  changed: chalk.red,
+  unknown: chalk.magenta,
+};
+
+// Apply pending migrations, move to one with --to, or roll back the latest
+export function dbMigrateCommand(options: MigrateOptions): void {
+  if ([options.status, options.to !== undefined, options.rollback !== undefined].filter(Boolean).length > 1) {
+    error('Use only one of --status, --to and --rollback');
+    process.exit(1);
+  }
+
+  if (options.status) {
+    printStatus();
+    return;
+  }
+
+  const steps = typeof options.rollback === 'string' ? parseInt(options.rollback, 10) : 1;
+  if (options.rollback !== undefined && (isNaN(steps) || steps < 1)) {
+    error('Rollback steps must be a positive number');
+    process.exit(1);
+  }
+
+  let result: MigrationResult;
+  try {
+    const db = getDatabase();
+    result = options.rollback !== undefined ? rollbackMigrations(db, steps) : migrateTo(db, options.to);
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  }
+
+  console.log();
+  if (result.applied.length === 0 && result.rolledBack.length === 0) {
+    info('Schema is already there; nothing to do');
+  }
+  for (const name of result.applied) success(`Applied ${name}`);
+  for (const name of result.rolledBack) success(`Rolled back ${name}`);
+  if (result.backup) {
+    console.log(chalk.dim(`  Backup taken first: ${result.backup}`));
+  }
+
+  const { pinned } = getMigrationStatus(getDatabase());
+  if (pinned) {
+    console.log();
+    warn(`Schema pinned at ${pinned}; newer migrations are skipped until "tt db migrate" is run`);
+  }
+  console.log();
+}
+
+function printStatus(): void {
+  const { migrations, pinned } = getMigrationStatus(getDatabase());
+
+  console.log();
+  console.log(chalk.bold('Migrations'));
+  console.log();
+
+  for (const m of migrations) {
+    const when = m.appliedAt ? chalk.dim(m.appliedAt) : '';
+    const reversible = m.reversible ? '' : chalk.dim(' (no rollback)');
+    const pin = m.name === pinned ? chalk.yellow(' ← pinned') : '';
+    console.log(`  ${m.name.padEnd(28)} ${STATE_COLORS[m.state](m.state.padEnd(8))} ${when}${reversible}${pin}`);
+  }
+
+  const pending = migrations.filter((m) => m.state === 'pending').length;
+  const changed = migrations.filter((m) => m.state === 'changed');
+  console.log();
+  if (changed.length > 0) {
+    warn(`Edited since applied: ${changed.map((m) => m.name).join(', ')}`);
+  }
+  if (pending > 0) {
+    console.log(chalk.dim(`  ${pending} pending. Run "tt db migrate" to apply.`));
+    console.log();
+  }
+}
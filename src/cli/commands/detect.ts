@@ -4,21 +4,32 @@ import {
   checkAccessibilityPermission,
   getPermissionInstructions,
   getIdleTime,
+  getIdleBackend,
+  getWindowBackend,
 } from '../../detection/index.js';
 import { categorize } from '../../categorization/rules.js';
 import { formatCategory } from '../utils/format.js';
 import { getCategoryByName } from '../../storage/repositories/categories.js';
 
+// Describe the idle backend, with a hint when none works
+function formatIdleBackend(backend: string): string {
+  if (backend !== 'none') return backend;
+  return chalk.yellow('unavailable') + chalk.dim(' (Linux: install xprintidle on X11; Wayland needs logind IdleHint)');
+}
+
 // Show current detected window and category
 export function detectCommand(): void {
   // Check permissions
   if (!checkAccessibilityPermission()) {
     console.log(chalk.yellow(getPermissionInstructions()));
+    console.log(`  Idle detection: ${formatIdleBackend(getIdleBackend())}`);
+    console.log();
     return;
   }
 
   const windowInfo = getActiveWindow();
   const idleTime = getIdleTime();
+  const idleBackend = getIdleBackend();
   const categoryName = categorize(windowInfo);
   const category = categoryName ? getCategoryByName(categoryName) : null;
 
@@ -29,11 +40,12 @@ export function detectCommand(): void {
   console.log(`  App:       ${chalk.bold(windowInfo.appName)}`);
   console.log(`  Bundle:    ${chalk.dim(windowInfo.appBundleId || '(none)')}`);
   console.log(`  Window:    ${chalk.dim(windowInfo.windowTitle.slice(0, 50) || '(none)')}`);
+  console.log(`  Source:    ${chalk.dim(getWindowBackend())}`);
   console.log();
   console.log(
     `  Category:  ${categoryName ? formatCategory(categoryName, category?.color) : chalk.dim('uncategorized')}`
   );
-  console.log(`  Idle:      ${idleTime}s`);
+  console.log(`  Idle:      ${idleBackend === 'none' ? formatIdleBackend(idleBackend) : `${idleTime}s ${chalk.dim(`via ${idleBackend}`)}`}`);
   console.log();
 }
 
@@ -18,7 +18,7 @@ import {
 } from '../../security/encryption.js';
 
 // Prompt for password (hidden input)
-function promptPassword(prompt: string): Promise<string> {
+export function promptPassword(prompt: string): Promise<string> {
   return new Promise((resolve) => {
     const rl = readline.createInterface({
       input: process.stdin,
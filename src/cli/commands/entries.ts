@@ -9,8 +9,11 @@ import {
   deleteEntry,
 } from '../../storage/repositories/entries.js';
 import { getCategoryByName, getAllCategories } from '../../storage/repositories/categories.js';
-import { success, error, warn, formatDuration, formatCategory } from '../utils/format.js';
+import { getCommitsForEntries } from '../../storage/repositories/commits.js';
+import { success, error, warn, formatDuration, formatCategory, formatCommit } from '../utils/format.js';
+import { parseWhereOption } from '../utils/where.js';
 import type { EntryWithCategory } from '../../storage/repositories/entries.js';
+import type { GitCommit } from '../../types/index.js';
 
 dayjs.extend(relativeTime);
 
@@ -116,7 +119,7 @@ function formatEntryDate(isoString: string): string {
 /**
  * List recent time entries
  */
-export function listCommand(options: { limit?: string }): void {
+export function listCommand(options: { limit?: string; commits?: boolean; where?: string }): void {
   const limit = options.limit ? parseInt(options.limit, 10) : 20;
 
   if (isNaN(limit) || limit < 1 || limit > 100) {
@@ -124,10 +127,11 @@ export function listCommand(options: { limit?: string }): void {
     process.exit(1);
   }
 
-  const entries = getRecentEntriesWithCategories(limit);
+  const where = parseWhereOption(options.where);
+  const entries = getRecentEntriesWithCategories(limit, where);
 
   if (entries.length === 0) {
-    console.log(chalk.dim('\nNo time entries found.\n'));
+    console.log(chalk.dim(where ? '\nNo time entries match the filter.\n' : '\nNo time entries found.\n'));
     return;
   }
 
@@ -144,6 +148,8 @@ export function listCommand(options: { limit?: string }): void {
     colWidths: [8, 20, 12, 18, 25],
   });
 
+  const commits = options.commits ? getCommitsForEntries(entries.map((e) => e.id)) : new Map<number, GitCommit[]>();
+
   for (const entry of entries) {
     const duration = entry.duration_seconds
       ? formatDuration(entry.duration_seconds)
@@ -164,6 +170,16 @@ export function listCommand(options: { limit?: string }): void {
       category,
       app,
     ]);
+
+    // Commits made during the entry, on a row of their own
+    const entryCommits = commits.get(entry.id) ?? [];
+    if (entryCommits.length > 0) {
+      const lines = entryCommits.map((commit) => {
+        const line = formatCommit(commit);
+        return line.length > 76 ? line.slice(0, 75) + '…' : line;
+      });
+      table.push([{ colSpan: 5, content: chalk.dim(lines.join('\n')) }]);
+    }
   }
 
   console.log(table.toString());
@@ -221,6 +237,7 @@ export function editCommand(idStr: string, options: EditOptions): void {
       process.exit(1);
     }
     updates.categoryId = category.id;
+    updates.manuallyCategorized = true;
   }
 
   // Handle duration change
@@ -342,6 +359,7 @@ export function deleteCommand(idStr: string, options: DeleteOptions): void {
     process.exit(1);
   }
 
-  success(`Deleted entry #${id}`);
+  success(`Moved entry #${id} to the trash`);
+  console.log(chalk.dim(`  Restore it with: tt trash restore entry ${id}`));
   console.log();
 }
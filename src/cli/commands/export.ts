@@ -5,7 +5,11 @@ import {
   getWeekRange,
   type EntryWithCategory,
 } from '../../storage/repositories/entries.js';
-import { success, error, info } from '../utils/format.js';
+import { getCommitsForEntries } from '../../storage/repositories/commits.js';
+import { buildCategoryTree, flattenCategoryTree, getCategoryPaths } from '../../core/category-tree.js';
+import { success, error, info, formatCommit } from '../utils/format.js';
+import { parseWhereOption } from '../utils/where.js';
+import type { CategorySummary, EntryQuery } from '../../types/index.js';
 
 interface ExportOptions {
   from?: string;
@@ -13,9 +17,15 @@ interface ExportOptions {
   week?: boolean;
   today?: boolean;
   output?: string;
+  // Include the git commits made during each entry
+  commits?: boolean;
+  where?: string;
 }
 
-function getDateRange(options: ExportOptions): { start: string; end: string } {
+// No date limit of our own; --where sets the dates
+const OPEN_RANGE = { start: '0001-01-01', end: '9999-12-31' };
+
+function getDateRange(options: ExportOptions, where?: EntryQuery): { start: string; end: string } {
   if (options.today) {
     const today = new Date().toISOString().split('T')[0];
     return { start: today, end: today };
@@ -29,6 +39,10 @@ function getDateRange(options: ExportOptions): { start: string; end: string } {
     return { start: options.from, end: options.to };
   }
 
+  if (where?.bounded) {
+    return OPEN_RANGE;
+  }
+
   // Default: last 30 days
   const end = new Date();
   const start = new Date();
@@ -42,14 +56,18 @@ function getDateRange(options: ExportOptions): { start: string; end: string } {
 
 // Export to CSV
 export function exportCsv(options: ExportOptions): void {
-  const { start, end } = getDateRange(options);
-  const entries = getEntriesWithCategories(start, end);
+  const where = parseWhereOption(options.where);
+  const { start, end } = getDateRange(options, where);
+  const entries = getEntriesWithCategories(start, end, where);
 
   if (entries.length === 0) {
-    info('No entries found for the specified date range.');
+    info(options.where ? 'No entries match the filter.' : 'No entries found for the specified date range.');
     return;
   }
 
+  const paths = getCategoryPaths();
+  const commits = options.commits ? getCommitsForEntries(entries.map((e) => e.id)) : null;
+
   // CSV header
   const header = [
     'id',
@@ -62,6 +80,8 @@ export function exportCsv(options: ExportOptions): void {
     'window_title',
     'is_manual',
     'notes',
+    'category_path',
+    ...(commits ? ['commits'] : []),
   ].join(',');
 
   // CSV rows
@@ -82,6 +102,8 @@ export function exportCsv(options: ExportOptions): void {
       csvEscape(e.window_title || ''),
       e.is_manual ? 'true' : 'false',
       csvEscape(e.notes || ''),
+      categoryPath(e, paths),
+      ...(commits ? [csvEscape((commits.get(e.id) ?? []).map(formatCommit).join('\n'))] : []),
     ].join(',');
   });
 
@@ -98,30 +120,51 @@ export function exportCsv(options: ExportOptions): void {
 
 // Export to JSON
 export function exportJson(options: ExportOptions): void {
-  const { start, end } = getDateRange(options);
-  const entries = getEntriesWithCategories(start, end);
+  const where = parseWhereOption(options.where);
+  const range = getDateRange(options, where);
+  const entries = getEntriesWithCategories(range.start, range.end, where);
 
   if (entries.length === 0) {
-    info('No entries found for the specified date range.');
+    info(options.where ? 'No entries match the filter.' : 'No entries found for the specified date range.');
     return;
   }
 
+  const paths = getCategoryPaths();
+  const commits = options.commits ? getCommitsForEntries(entries.map((e) => e.id)) : null;
+
   // Transform entries
   const data = {
     exported_at: new Date().toISOString(),
-    date_range: { start, end },
+    // Entries are newest first
+    date_range: range === OPEN_RANGE
+      ? { start: entries[entries.length - 1].start_time.split(' ')[0], end: entries[0].start_time.split(' ')[0] }
+      : range,
+    ...(options.where && { where: options.where }),
     entry_count: entries.length,
     total_seconds: entries.reduce((acc, e) => acc + (e.duration_seconds || 0), 0),
+    categories: categoryTotals(entries, paths),
     entries: entries.map((e) => ({
       id: e.id,
       start_time: e.start_time,
       end_time: e.end_time,
       duration_seconds: e.duration_seconds,
       category: e.category_name || 'uncategorized',
+      category_path: categoryPath(e, paths),
       app_name: e.app_name,
       window_title: e.window_title,
       is_manual: Boolean(e.is_manual),
       notes: e.notes,
+      ...(commits && {
+        commits: (commits.get(e.id) ?? []).map((c) => ({
+          sha: c.sha,
+          message: c.message,
+          repo: c.repo,
+          branch: c.branch,
+          committed_at: c.committed_at,
+          github_issue: c.github_issue,
+          jira_key: c.jira_key,
+        })),
+      }),
     })),
   };
 
@@ -136,6 +179,33 @@ export function exportJson(options: ExportOptions): void {
   }
 }
 
+// Category of an entry with its parents, e.g. "programming/code-review"
+function categoryPath(entry: EntryWithCategory, paths: Map<string, string>): string {
+  const name = entry.category_name || 'uncategorized';
+  return paths.get(name) ?? name;
+}
+
+// Per-category totals rolled up to parents, in tree order
+function categoryTotals(entries: EntryWithCategory[], paths: Map<string, string>) {
+  const summary = new Map<string, CategorySummary>();
+  for (const e of entries) {
+    const name = e.category_name || 'uncategorized';
+    const item = summary.get(name) ?? { category: name, color: null, total_seconds: 0, entry_count: 0 };
+    item.total_seconds += e.duration_seconds || 0;
+    item.entry_count += 1;
+    summary.set(name, item);
+  }
+
+  return flattenCategoryTree(buildCategoryTree([...summary.values()])).map(({ node, depth }) => ({
+    category: node.category,
+    path: paths.get(node.category) ?? node.category,
+    depth,
+    own_seconds: node.own_seconds,
+    total_seconds: node.total_seconds,
+    entry_count: node.entry_count,
+  }));
+}
+
 // Escape CSV field
 function csvEscape(value: string): string {
   if (value.includes(',') || value.includes('"') || value.includes('\n')) {
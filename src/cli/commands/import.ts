@@ -2,7 +2,7 @@ import { readFileSync, existsSync } from 'fs';
 import chalk from 'chalk';
 import { getDatabase } from '../../storage/database.js';
 import { getCategoryByName, createCategory } from '../../storage/repositories/categories.js';
-import { getProjectByName, createProject } from '../../storage/repositories/projects.js';
+import { getProjectByName, getOrCreateProject } from '../../storage/repositories/projects.js';
 import { success, error, info } from '../utils/format.js';
 
 interface ImportEntry {
@@ -67,8 +67,9 @@ export function importJson(filePath: string, options?: { dryRun?: boolean }): vo
       let projectId: number | null = null;
       if (entry.project) {
         let project = getProjectByName(entry.project);
+        // A project in the trash is restored, since its name is still taken
         if (!project && !options?.dryRun) {
-          project = createProject({ name: entry.project });
+          project = getOrCreateProject(entry.project);
         }
         projectId = project?.id || null;
       }
@@ -213,8 +214,9 @@ export function importCsv(filePath: string, options?: { dryRun?: boolean }): voi
       let projectId: number | null = null;
       if (projectName) {
         let project = getProjectByName(projectName);
+        // A project in the trash is restored, since its name is still taken
         if (!project && !options?.dryRun) {
-          project = createProject({ name: projectName });
+          project = getOrCreateProject(projectName);
         }
         projectId = project?.id || null;
       }
@@ -1,9 +1,11 @@
 /**
- * Integration commands for GitHub and Jira
+ * Integration commands for GitHub, Jira and git
  */
 
+import { realpathSync } from 'fs';
 import chalk from 'chalk';
-import { success, error, info } from '../utils/format.js';
+import dayjs from 'dayjs';
+import { success, error, info, formatCommit } from '../utils/format.js';
 import {
   saveGitHubConfig,
   getGitHubConfig,
@@ -25,6 +27,16 @@ import {
   parseJiraKey,
   JiraConfig,
 } from '../../integrations/jira.js';
+import {
+  findRepoRoot,
+  readBranch,
+  readHeadCommit,
+  commitIssueRefs,
+  installCommitHook,
+  uninstallCommitHook,
+} from '../../integrations/git.js';
+import { recordCommit, getCommitStats } from '../../storage/repositories/commits.js';
+import { isAnonymousModeEnabled } from '../../privacy/index.js';
 import { getDatabase } from '../../storage/database.js';
 
 // GitHub commands
@@ -327,6 +339,79 @@ export async function jiraLogCommand(
   console.log();
 }
 
+// Git commands
+
+// Repository root for a command, from the given path or the current directory
+function repoRootOrExit(repo?: string): string {
+  const root = findRepoRoot(repo ?? process.cwd());
+  if (!root) {
+    error(`Not a git repository: ${repo ?? process.cwd()}`);
+    process.exit(1);
+  }
+  return root;
+}
+
+// Single-quote a path for sh, so "$" and backticks in it are not expanded
+function shSingleQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// What the hook runs: this Node.js binary and CLI, so it works without tt on PATH
+function hookCommand(): string {
+  const script = realpathSync(process.argv[1]);
+  return `${shSingleQuote(process.execPath)} ${shSingleQuote(script)} integrate git record >/dev/null 2>&1 || true`;
+}
+
+export function gitInstallHookCommand(repo?: string): void {
+  const root = repoRootOrExit(repo);
+
+  try {
+    const { path, status } = installCommitHook(root, hookCommand());
+    const verb = { installed: 'Installed', updated: 'Updated', appended: 'Added to the existing' }[status];
+    success(`${verb} post-commit hook in ${root}`);
+    console.log(chalk.dim(`  ${path}`));
+    console.log(chalk.dim('  Commits are now recorded against the running time entry.'));
+  } catch (err) {
+    error(`Failed to install hook: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+export function gitUninstallHookCommand(repo?: string): void {
+  const root = repoRootOrExit(repo);
+
+  if (uninstallCommitHook(root)) {
+    success(`Removed post-commit hook from ${root}`);
+  } else {
+    info(`No Timer Record hook installed in ${root}`);
+  }
+}
+
+// Run by the post-commit hook; records HEAD quietly
+export function gitRecordCommand(repo?: string): void {
+  // Commit messages are content, so anonymous mode records none
+  if (isAnonymousModeEnabled()) return;
+
+  const root = findRepoRoot(repo ?? process.cwd());
+  const commit = root ? readHeadCommit(root) : null;
+  if (!root || !commit) return;
+
+  const branch = readBranch(root);
+  const { githubIssue, jiraKey } = commitIssueRefs(commit.message, branch);
+  const recorded = recordCommit({
+    sha: commit.sha,
+    message: commit.message,
+    repo: root,
+    branch,
+    committedAt: dayjs(commit.committedAt).format('YYYY-MM-DD HH:mm:ss'),
+    githubIssue,
+    jiraKey,
+  });
+
+  const entry = recorded.entry_id ? `entry ${recorded.entry_id}` : 'no running entry';
+  console.log(`${formatCommit(recorded)} → ${entry}`);
+}
+
 // Status command - show all integrations
 export function integrateStatusCommand(): void {
   console.log();
@@ -351,5 +436,14 @@ export function integrateStatusCommand(): void {
     console.log(`    ${chalk.dim('○')} Not configured`);
   }
 
+  const commits = getCommitStats();
+  console.log();
+  console.log('  Git:');
+  if (commits.last) {
+    console.log(`    ${chalk.green('●')} ${commits.count} commits recorded, last ${chalk.cyan(formatCommit(commits.last))}`);
+  } else {
+    console.log(`    ${chalk.dim('○')} No commits recorded ${chalk.dim('(tt integrate git install-hook)')}`);
+  }
+
   console.log();
 }
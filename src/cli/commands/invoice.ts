@@ -13,10 +13,12 @@ import {
   getInvoiceLineItems,
   deleteInvoice,
   updateInvoiceStatus,
-  ensureInvoicesTable,
   Invoice,
 } from '../../storage/repositories/invoices.js';
-import { success, error, info, formatDuration } from '../utils/format.js';
+import { getCommitsForEntries } from '../../storage/repositories/commits.js';
+import { success, error, info, formatDuration, formatCommit } from '../utils/format.js';
+import { parseWhereOption } from '../utils/where.js';
+import type { EntryQuery } from '../../types/index.js';
 
 // Get package version for footer
 function getPackageVersion(): string {
@@ -39,6 +41,7 @@ function getFooterText(): string {
 }
 
 interface InvoiceEntry {
+  entryId?: number;
   date: string;
   category: string;
   project: string | null;
@@ -46,6 +49,8 @@ interface InvoiceEntry {
   rate: number;
   amount: number;
   notes: string | null;
+  // Git commits listed under the line item
+  commits?: string[];
 }
 
 interface InvoiceData {
@@ -64,6 +69,7 @@ function generateInvoiceData(options: {
   from?: string;
   to?: string;
   rate?: number;
+  where?: EntryQuery;
 }): InvoiceData | null {
   const db = getDatabase();
 
@@ -91,6 +97,7 @@ function generateInvoiceData(options: {
   // Get entries
   const entries = db.prepare(`
     SELECT
+      e.id,
       date(e.start_time) as date,
       COALESCE(c.name, 'uncategorized') as category,
       p.name as project,
@@ -99,12 +106,15 @@ function generateInvoiceData(options: {
       COALESCE(p.hourly_rate, 0) as rate
     FROM time_entries e
     LEFT JOIN categories c ON e.category_id = c.id
-    LEFT JOIN projects p ON e.project_id = p.id
+    LEFT JOIN projects p ON e.project_id = p.id AND p.deleted_at IS NULL
     WHERE date(e.start_time) BETWEEN ? AND ?
     AND e.duration_seconds IS NOT NULL
+    AND e.deleted_at IS NULL
     ${projectFilter}
+    ${options.where ? `AND (${options.where.sql})` : ''}
     ORDER BY e.start_time
-  `).all(...params) as {
+  `).all(...params, ...(options.where?.params ?? [])) as {
+    id: number;
     date: string;
     category: string;
     project: string | null;
@@ -120,6 +130,7 @@ function generateInvoiceData(options: {
   const rate = options.rate || project?.hourly_rate || 0;
 
   const invoiceEntries: InvoiceEntry[] = entries.map(e => ({
+    entryId: e.id,
     date: e.date,
     category: e.category,
     project: e.project,
@@ -170,6 +181,9 @@ function generateTextInvoice(data: InvoiceData): string {
     const hours = entry.hours.toFixed(2).padStart(6);
     const amount = ('$' + entry.amount.toFixed(2)).padStart(12);
     output += `${date}${categoryPadded}${hours}${amount}\n`;
+    for (const commit of entry.commits ?? []) {
+      output += `${' '.repeat(12)}- ${commit.length > 44 ? commit.slice(0, 43) + '…' : commit}\n`;
+    }
   }
 
   output += '─'.repeat(60) + '\n';
@@ -179,12 +193,24 @@ function generateTextInvoice(data: InvoiceData): string {
   return output;
 }
 
+// Escape text for the HTML invoice
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#039;' };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+// Commits under a line item's description
+function commitList(commits?: string[]): string {
+  if (!commits || commits.length === 0) return '';
+  return `<ul class="commits">${commits.map((c) => `<li>${escapeHtml(c)}</li>`).join('')}</ul>`;
+}
+
 // Generate HTML invoice (professional template)
 function generateHtmlInvoice(data: InvoiceData, invoiceNumber?: string): string {
   const entriesHtml = data.entries.map(e => `
     <tr>
       <td>${e.date}</td>
-      <td>${e.category}</td>
+      <td>${e.category}${commitList(e.commits)}</td>
       <td class="number">${e.hours.toFixed(2)}</td>
       <td class="number">$${e.rate.toFixed(2)}</td>
       <td class="number">$${e.amount.toFixed(2)}</td>
@@ -322,6 +348,12 @@ function generateHtmlInvoice(data: InvoiceData, invoiceNumber?: string): string
     }
     tr:hover { background: #fafafa; }
     .number { text-align: right; font-variant-numeric: tabular-nums; }
+    .commits {
+      list-style: none;
+      margin-top: 4px;
+      font-size: 12px;
+      color: #6b7280;
+    }
     .total-row {
       background: #f9fafb;
       font-weight: 600;
@@ -584,7 +616,10 @@ export function invoiceCreateCommand(options: {
   to?: string;
   month?: string;
   rate?: string;
+  where?: string;
 }): void {
+  const where = parseWhereOption(options.where);
+
   // Handle --month option
   // Get date range - use consistent Date instance
   const today = new Date();
@@ -623,12 +658,15 @@ export function invoiceCreateCommand(options: {
     from: fromDate,
     to: toDate,
     rate,
+    where,
   });
 
   if (!data) {
     console.log();
     if (options.project) {
       error(`Project "${options.project}" not found or no entries in period`);
+    } else if (where) {
+      error('No billable entries in the specified period match the filter');
     } else {
       error('No billable entries found in the specified period');
     }
@@ -661,6 +699,7 @@ export function invoiceCreateCommand(options: {
     hourlyRate: data.rate,
     totalAmount: data.totalAmount,
     lineItems: data.entries.map(e => ({
+      entryId: e.entryId,
       date: e.date,
       category: e.category,
       hours: e.hours,
@@ -682,7 +721,6 @@ export function invoiceCreateCommand(options: {
 
 // List all invoices
 export function invoiceListCommand(): void {
-  ensureInvoicesTable();
   const invoices = getAllInvoices();
 
   console.log();
@@ -729,8 +767,6 @@ export function invoiceListCommand(): void {
 
 // Show invoice details
 export function invoiceShowCommand(idOrNumber: string): void {
-  ensureInvoicesTable();
-
   // Try to find by number or ID
   let invoice: Invoice | null = null;
   if (idOrNumber.startsWith('INV-')) {
@@ -792,9 +828,8 @@ export function invoiceShowCommand(idOrNumber: string): void {
 export function invoiceExportCommand(idOrNumber: string, options: {
   format?: string;
   output?: string;
+  commits?: boolean;
 }): void {
-  ensureInvoicesTable();
-
   // Try to find by number or ID
   let invoice: Invoice | null = null;
   if (idOrNumber.startsWith('INV-')) {
@@ -815,6 +850,9 @@ export function invoiceExportCommand(idOrNumber: string, options: {
 
   const lineItems = getInvoiceLineItems(invoice.id);
   const format = options.format || 'html';
+  const commits = options.commits
+    ? getCommitsForEntries(lineItems.flatMap((item) => (item.entry_id ? [item.entry_id] : [])))
+    : null;
 
   // Build InvoiceData compatible structure
   const data: InvoiceData = {
@@ -829,6 +867,7 @@ export function invoiceExportCommand(idOrNumber: string, options: {
       rate: item.rate,
       amount: item.amount,
       notes: item.notes,
+      commits: commits?.get(item.entry_id)?.map(formatCommit),
     })),
     totalHours: invoice.total_hours,
     totalAmount: invoice.total_amount,
@@ -860,8 +899,6 @@ export function invoiceExportCommand(idOrNumber: string, options: {
 
 // Delete invoice
 export function invoiceDeleteCommand(idOrNumber: string): void {
-  ensureInvoicesTable();
-
   // Try to find by number or ID
   let invoice: Invoice | null = null;
   if (idOrNumber.startsWith('INV-')) {
@@ -883,7 +920,8 @@ export function invoiceDeleteCommand(idOrNumber: string): void {
   const deleted = deleteInvoice(invoice.id);
   if (deleted) {
     console.log();
-    success(`Invoice ${invoice.invoice_number} deleted`);
+    success(`Moved invoice ${invoice.invoice_number} to the trash`);
+    console.log(chalk.dim(`  Restore it with: tt trash restore invoice ${invoice.invoice_number}`));
     console.log();
   } else {
     console.log();
@@ -5,8 +5,9 @@ import { getCategoryByName, getAllCategories } from '../../storage/repositories/
 import { getProjectByName, getDefaultProject } from '../../storage/repositories/projects.js';
 import { parseAndGetTags, attachTagsToEntry } from '../../storage/repositories/tags.js';
 import { getEntryById } from '../../storage/repositories/entries.js';
+import { attachCommitsToEntry, getCommitsForEntries } from '../../storage/repositories/commits.js';
 import { pushUndoAction } from '../../core/undo.js';
-import { success, error, formatDuration, formatCategory } from '../utils/format.js';
+import { success, error, formatDuration, formatCategory, formatCommit } from '../utils/format.js';
 
 interface LogOptions {
   category: string;
@@ -220,6 +221,10 @@ export function logCommand(options: LogOptions): void {
     }
   }
 
+  // Commits made during the logged time that no tracked entry holds
+  attachCommitsToEntry(entryId, formatDbTime(startTime), formatDbTime(endTime));
+  const commits = getCommitsForEntries([entryId]).get(entryId) ?? [];
+
   success(`Logged ${formatDuration(durationSeconds)} of ${formatCategory(category.name, category.color)}`);
   console.log();
   console.log(chalk.dim(`  From: ${dayjs(startTime).format('MMM D, h:mm A')}`));
@@ -233,5 +238,11 @@ export function logCommand(options: LogOptions): void {
   if (options.notes) {
     console.log(chalk.dim(`  Note: ${options.notes}`));
   }
+  if (commits.length > 0) {
+    console.log(chalk.dim(`  Commits:`));
+    for (const commit of commits) {
+      console.log(chalk.dim(`    ${formatCommit(commit)}`));
+    }
+  }
   console.log();
 }
@@ -195,6 +195,7 @@ export function privacyWipeCommand(options: { confirm?: boolean; keepConfig?: bo
     console.log();
     console.log(chalk.gray('  This operation:'));
     console.log(chalk.gray('  - Securely deletes the database'));
+    console.log(chalk.gray('  - Securely deletes all backups'));
     console.log(chalk.gray('  - Removes configuration files (unless --keep-config)'));
     console.log(chalk.gray('  - Deletes log files'));
     console.log(chalk.gray('  - Uninstalls system services'));
@@ -13,8 +13,14 @@ import {
   updateProject,
   getClients,
   getProjectsByClient,
+  getProjectRepos,
+  linkProjectRepo,
+  unlinkProjectRepos,
 } from '../../storage/repositories/projects.js';
-import { success, error, warn, formatDuration, formatCategory } from '../utils/format.js';
+import { success, error, warn, info, formatDuration, formatCategory } from '../utils/format.js';
+import { findRepoRoot, readRemoteUrl, normalizeRemoteUrl, expandPath } from '../../integrations/git.js';
+import { formatProductivity, parseProductivityOverride } from '../../core/productivity.js';
+import { isNameInTrash } from '../../core/trash.js';
 
 // List all projects
 export function listProjects(options?: { all?: boolean; client?: string }): void {
@@ -104,6 +110,11 @@ export function addProject(
     error(`Project "${name}" already exists`);
     throw new Error(`Project "${name}" already exists`);
   }
+  if (isNameInTrash('project', name)) {
+    error(`Project "${name}" is in the trash`);
+    console.log(chalk.dim(`  Restore it with: tt trash restore project "${name}" (or empty the trash first)`));
+    throw new Error(`Project "${name}" is in the trash`);
+  }
 
   try {
     // Validate rate if provided
@@ -149,7 +160,8 @@ export function removeProject(name: string, options?: { force?: boolean }): void
 
   if (options?.force) {
     if (deleteProject(project.id)) {
-      success(`Deleted project: ${name}`);
+      success(`Moved project to the trash: ${name}`);
+      console.log(chalk.dim(`  Restore it with: tt trash restore project "${name}"`));
     } else {
       error('Failed to delete project');
       process.exit(1);
@@ -157,7 +169,7 @@ export function removeProject(name: string, options?: { force?: boolean }): void
   } else {
     if (archiveProject(project.id)) {
       success(`Archived project: ${name}`);
-      console.log(chalk.dim('  Use --force to permanently delete'));
+      console.log(chalk.dim('  Use --force to move it to the trash'));
     } else {
       error('Failed to archive project');
       process.exit(1);
@@ -210,12 +222,74 @@ export function showProject(name: string): void {
   if (project.hourly_rate) {
     console.log(`  ${chalk.dim('Rate:')}       $${project.hourly_rate}/hr`);
   }
+  if (project.productivity !== null) {
+    console.log(`  ${chalk.dim('Productivity:')} ${formatProductivity(project.productivity)}`);
+  }
   console.log(`  ${chalk.dim('Active:')}     ${project.is_active ? chalk.green('yes') : chalk.red('no')}`);
   console.log(`  ${chalk.dim('Default:')}    ${project.is_default ? chalk.yellow('yes') : 'no'}`);
   console.log(`  ${chalk.dim('Created:')}    ${new Date(project.created_at).toLocaleDateString()}`);
+
+  const repos = getProjectRepos(project.id);
+  if (repos.length > 0) {
+    console.log();
+    console.log(`  ${chalk.dim('Repositories:')}`);
+    for (const repo of repos) {
+      console.log(`    ${repo.path ?? chalk.dim('(any clone)')}${repo.remote ? chalk.dim(`  ${repo.remote}`) : ''}`);
+    }
+  }
   console.log();
 }
 
+// Link a git repository to a project (by working tree, or by remote for every clone)
+export function linkProject(name: string, options: { repo?: string; remote?: string }): void {
+  const project = getProjectByName(name);
+  if (!project) {
+    error(`Project "${name}" not found`);
+    process.exit(1);
+  }
+
+  if (options.remote) {
+    const remote = normalizeRemoteUrl(options.remote);
+    linkProjectRepo(project.id, { remote });
+    success(`Linked ${remote} to ${formatCategory(project.name, project.color)}`);
+    return;
+  }
+
+  const root = findRepoRoot(options.repo ?? process.cwd());
+  if (!root) {
+    error(`Not inside a git repository: ${expandPath(options.repo ?? '.')}`);
+    process.exit(1);
+  }
+
+  const url = readRemoteUrl(root);
+  const remote = url ? normalizeRemoteUrl(url) : null;
+  linkProjectRepo(project.id, { path: root, remote });
+  success(`Linked ${root} to ${formatCategory(project.name, project.color)}`);
+  if (remote) {
+    info(`Other clones of ${remote} match too`);
+  }
+}
+
+// Unlink one repository, or all of a project's repositories
+export function unlinkProject(name: string, repo?: string): void {
+  const project = getProjectByName(name);
+  if (!project) {
+    error(`Project "${name}" not found`);
+    process.exit(1);
+  }
+
+  // Accept the same forms as link: a path (even of a deleted clone) or a remote URL
+  const match = repo
+    ? findRepoRoot(repo) ?? (/^[~./]/.test(repo) ? expandPath(repo) : normalizeRemoteUrl(repo))
+    : undefined;
+  const removed = unlinkProjectRepos(project.id, match);
+  if (removed === 0) {
+    warn(repo ? `${repo} is not linked to ${project.name}` : `${project.name} has no linked repositories`);
+    return;
+  }
+  success(`Unlinked ${removed} repositor${removed === 1 ? 'y' : 'ies'} from ${project.name}`);
+}
+
 // Update project
 export function editProject(
   name: string,
@@ -227,6 +301,7 @@ export function editProject(
     rate?: string;
     billable?: boolean;
     notBillable?: boolean;
+    productivity?: string;
   }
 ): void {
   const project = getProjectByName(name);
@@ -244,6 +319,14 @@ export function editProject(
   if (options.rate !== undefined) updates.hourlyRate = options.rate ? parseFloat(options.rate) : null;
   if (options.billable) updates.isBillable = true;
   if (options.notBillable) updates.isBillable = false;
+  if (options.productivity !== undefined) {
+    try {
+      updates.productivity = parseProductivityOverride(options.productivity);
+    } catch (err) {
+      error((err as Error).message);
+      process.exit(1);
+    }
+  }
 
   if (Object.keys(updates).length === 0) {
     warn('No updates specified');
@@ -1,8 +1,33 @@
+import { rmSync } from 'fs';
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import { addRule, removeRule, listRules } from '../../categorization/rules.js';
-import { getAllCategories } from '../../storage/repositories/categories.js';
-import { success, error, warn, formatCategory } from '../utils/format.js';
+import {
+  addRule,
+  removeRule,
+  listRules,
+  parseRuleTags,
+  explainCategorization,
+  attributeByRules,
+  renderNoteTemplate,
+  type TraceStep,
+} from '../../categorization/rules.js';
+import { readRuleSamples, runRuleSamples, type RuleSample } from '../../categorization/rule-tests.js';
+import { planRecategorization, applyRecategorization } from '../../categorization/recategorize.js';
+import {
+  CONFLICT_STRATEGIES,
+  buildRulePack,
+  readRulePack,
+  writeRulePack,
+  importRulePack,
+  type ConflictStrategy,
+} from '../../categorization/rule-packs.js';
+import { suggestRules, suggestionToRuleArgs } from '../../ml/rule-suggestions.js';
+import { getAllCategories, getCategoryById } from '../../storage/repositories/categories.js';
+import { getProjectByName, getProjectById } from '../../storage/repositories/projects.js';
+import { getEntryById } from '../../storage/repositories/entries.js';
+import { closeDatabase, useScratchDatabase } from '../../storage/database.js';
+import type { WindowInfo } from '../../types/index.js';
+import { success, error, warn, info, formatCategory, formatDuration } from '../utils/format.js';
 
 // List all user-defined rules
 export function rulesList(): void {
@@ -25,7 +50,11 @@ export function rulesList(): void {
       chalk.bold('ID'),
       chalk.bold('App Pattern'),
       chalk.bold('Window Pattern'),
+      chalk.bold('Domain'),
       chalk.bold('Category'),
+      chalk.bold('Project'),
+      chalk.bold('Tags'),
+      chalk.bold('Note'),
     ],
     style: { head: [], border: [] },
     chars: {
@@ -41,7 +70,11 @@ export function rulesList(): void {
       chalk.dim(rule.id.toString()),
       rule.app_name_pattern || rule.app_bundle_id || chalk.dim('*'),
       rule.window_title_pattern || chalk.dim('*'),
-      formatCategory(rule.category_name, null),
+      rule.domain_pattern || chalk.dim('*'),
+      rule.category_name ? formatCategory(rule.category_name, null) : chalk.dim('-'),
+      rule.project_name || chalk.dim('-'),
+      rule.tags ? rule.tags.split(',').map((tag) => chalk.cyan(`#${tag}`)).join(' ') : chalk.dim('-'),
+      rule.note_template || chalk.dim('-'),
     ]);
   }
 
@@ -54,23 +87,35 @@ export function rulesAdd(options: {
   app?: string;
   bundle?: string;
   window?: string;
-  category: string;
+  domain?: string;
+  category?: string;
+  project?: string;
+  tags?: string;
+  notes?: string;
   priority?: string;
 }): void {
   // Validate at least one pattern is provided
-  if (!options.app && !options.bundle && !options.window) {
-    error('At least one pattern is required: --app, --bundle, or --window');
+  if (!options.app && !options.bundle && !options.window && !options.domain) {
+    error('At least one pattern is required: --app, --bundle, --window, or --domain');
     console.log();
     console.log('Examples:');
     console.log('  tt rules add --app "Figma" --category design');
     console.log('  tt rules add --app "Chrome" --window "Jira" --category project-management');
     console.log('  tt rules add --bundle "com.spotify.client" --category breaks');
+    console.log('  tt rules add --domain "github.com" --category code-review');
+    console.log('  tt rules add --window "acme-api" --project Acme --tags backend');
+    process.exit(1);
+  }
+
+  const tags = options.tags ? parseRuleTags(options.tags) : [];
+  if (!options.category && !options.project && tags.length === 0 && !options.notes) {
+    error('Nothing to assign: use --category, --project, --tags, or --notes');
     process.exit(1);
   }
 
   // Validate category exists
   const categories = getAllCategories();
-  const categoryExists = categories.some((c) => c.name === options.category);
+  const categoryExists = !options.category || categories.some((c) => c.name === options.category);
   if (!categoryExists) {
     error(`Category not found: ${options.category}`);
     console.log();
@@ -81,22 +126,48 @@ export function rulesAdd(options: {
     process.exit(1);
   }
 
+  // Validate project exists
+  if (options.project && !getProjectByName(options.project)) {
+    error(`Project not found: ${options.project}`);
+    console.log(chalk.dim(`  Create it with: tt project add "${options.project}"`));
+    process.exit(1);
+  }
+
   try {
     addRule({
       appNamePattern: options.app,
       appBundleId: options.bundle,
       windowTitlePattern: options.window,
+      domainPattern: options.domain,
       categoryName: options.category,
+      projectName: options.project,
+      tags,
+      noteTemplate: options.notes,
       priority: options.priority ? parseInt(options.priority, 10) : 0,
     });
 
-    success(`Rule added: ${options.app || options.bundle || '*'} → ${options.category}`);
+    const target = options.category || options.project || tags.map((tag) => `#${tag}`).join(' ') || 'note';
+    success(`Rule added: ${options.app || options.bundle || options.domain || options.window || '*'} → ${target}`);
     console.log();
 
+    if (options.category && options.project) {
+      console.log(chalk.dim(`  Project: ${options.project}`));
+    }
+    if (tags.length > 0 && (options.category || options.project)) {
+      console.log(chalk.dim(`  Tags: ${tags.join(', ')}`));
+    }
+    if (options.notes) {
+      console.log(chalk.dim(`  Note: ${options.notes}`));
+    }
+
     if (options.window) {
       console.log(chalk.dim(`  Window pattern: ${options.window}`));
     }
+    if (options.domain) {
+      console.log(chalk.dim(`  Domain: ${options.domain} (needs \`tt browser install\`)`));
+    }
     console.log(chalk.dim('  This rule will be used for auto-categorization.'));
+    console.log(chalk.dim('  Run `tt rules apply --dry-run` to see how it changes past entries.'));
     console.log();
   } catch (err) {
     error(`Failed to add rule: ${err}`);
@@ -104,6 +175,419 @@ export function rulesAdd(options: {
   }
 }
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Table chars for the borderless tables below
+const BORDERLESS = {
+  top: '', 'top-mid': '', 'top-left': '', 'top-right': '',
+  bottom: '', 'bottom-mid': '', 'bottom-left': '', 'bottom-right': '',
+  left: '', 'left-mid': '', mid: '', 'mid-mid': '',
+  right: '', 'right-mid': '', middle: ' ',
+};
+
+// Signed duration for the diff table
+function formatChange(seconds: number): string {
+  if (seconds === 0) return chalk.dim('0s');
+  const text = formatDuration(Math.abs(seconds));
+  return seconds > 0 ? chalk.green(`+${text}`) : chalk.red(`-${text}`);
+}
+
+// Re-run categorization over past entries
+export function rulesApply(options: {
+  from?: string;
+  to?: string;
+  onlyUncategorized?: boolean;
+  dryRun?: boolean;
+}): void {
+  for (const [flag, value] of [['--from', options.from], ['--to', options.to]] as const) {
+    if (value && !DATE_PATTERN.test(value)) {
+      error(`Invalid ${flag} date: ${value} (expected YYYY-MM-DD)`);
+      process.exit(1);
+    }
+  }
+
+  const plan = planRecategorization({
+    from: options.from,
+    to: options.to,
+    onlyUncategorized: options.onlyUncategorized,
+  });
+
+  console.log();
+  console.log(chalk.bold(options.dryRun ? 'Re-categorization Preview' : 'Re-categorization'));
+  console.log(chalk.dim(`Examined ${plan.examined} auto-tracked entries; ${plan.changes.length} would change.`));
+  console.log();
+
+  if (plan.changes.length === 0) {
+    console.log(chalk.dim('  Nothing to change. Entries already match the current rules.'));
+    console.log();
+    return;
+  }
+
+  const diffTable = new Table({
+    head: [chalk.bold('Category'), chalk.bold('Before'), chalk.bold('After'), chalk.bold('Change')],
+    style: { head: [], border: [] },
+    chars: BORDERLESS,
+  });
+  for (const row of plan.diff) {
+    diffTable.push([
+      row.category ? formatCategory(row.category) : chalk.dim('uncategorized'),
+      formatDuration(row.beforeSeconds),
+      formatDuration(row.afterSeconds),
+      formatChange(row.afterSeconds - row.beforeSeconds),
+    ]);
+  }
+  console.log(diffTable.toString());
+  console.log();
+
+  if (options.dryRun) {
+    const shown = plan.changes.slice(0, 20);
+    const entryTable = new Table({
+      head: [chalk.bold('ID'), chalk.bold('Start'), chalk.bold('App'), chalk.bold('From'), chalk.bold('To')],
+      style: { head: [], border: [] },
+      chars: BORDERLESS,
+    });
+    for (const change of shown) {
+      entryTable.push([
+        chalk.dim(change.id.toString()),
+        change.startTime,
+        change.appName || chalk.dim('-'),
+        change.oldCategory || chalk.dim('uncategorized'),
+        change.newCategory ? formatCategory(change.newCategory) : chalk.dim('uncategorized'),
+      ]);
+    }
+    console.log(entryTable.toString());
+    if (plan.changes.length > shown.length) {
+      console.log(chalk.dim(`  ...and ${plan.changes.length - shown.length} more`));
+    }
+    console.log();
+    info('Dry run: nothing was changed. Run without --dry-run to apply.');
+    console.log();
+    return;
+  }
+
+  const count = applyRecategorization(plan.changes);
+  success(`Re-categorized ${count} entries`);
+  console.log(chalk.dim('  Use `tt undo` to revert the whole batch.'));
+  console.log();
+}
+
+// Quote a value for copy-pasting into a shell
+function shellQuote(value: string): string {
+  if (/^[\w.@-]+$/.test(value)) return value;
+  if (!/["$`\\]/.test(value)) return `"${value}"`;
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Propose rules learned from manual category corrections
+export function rulesSuggest(options: { minSupport?: string }): void {
+  const minSupport = options.minSupport ? parseInt(options.minSupport, 10) : undefined;
+  if (minSupport !== undefined && (isNaN(minSupport) || minSupport < 1)) {
+    error('--min-support must be a positive number');
+    process.exit(1);
+  }
+
+  const suggestions = suggestRules({ minSupport });
+
+  console.log();
+  console.log(chalk.bold('Suggested Rules'));
+  console.log(chalk.dim('Learned from entries re-categorized with `tt edit <id> --category`.\n'));
+
+  if (suggestions.length === 0) {
+    console.log(chalk.dim('  No suggestions yet. Correct a few more auto-tracked entries first.'));
+    console.log();
+    return;
+  }
+
+  for (const suggestion of suggestions) {
+    const command = ['tt', 'rules', 'add', ...suggestionToRuleArgs(suggestion).map(shellQuote)].join(' ');
+    const evidence = `${suggestion.support} corrections, ${Math.round(suggestion.precision * 100)}% agree`;
+    console.log(`  ${command}`);
+    console.log(chalk.dim(`    ${formatCategory(suggestion.category)} · ${evidence}`));
+  }
+
+  console.log();
+  info('Run `tt rules apply --dry-run` after adding rules to preview past entries.');
+  console.log();
+}
+
+// Export rules as a shareable rule pack
+export function rulesExport(options: { output?: string; name?: string; packVersion?: string; pack?: string }): void {
+  const source = options.pack ? listRules().find((rule) => rule.pack_name === options.pack) : undefined;
+  if (options.pack && !source) {
+    error(`No rules imported from pack: ${options.pack}`);
+    process.exit(1);
+  }
+
+  const pack = buildRulePack({
+    name: options.name ?? options.pack ?? 'my-rules',
+    version: options.packVersion ?? source?.pack_version ?? '1.0.0',
+    fromPack: options.pack,
+  });
+
+  if (!options.output) {
+    console.log(JSON.stringify(pack, null, 2));
+    return;
+  }
+
+  writeRulePack(pack, options.output);
+  success(`Exported ${pack.rules.length} rules to ${options.output}`);
+  console.log(chalk.dim(`  Pack ${pack.name} v${pack.version}. Import it with: tt rules import ${options.output}`));
+}
+
+// Import a rule pack
+export function rulesImport(file: string, options: { onConflict?: string; dryRun?: boolean }): void {
+  const strategy = (options.onConflict ?? 'update') as ConflictStrategy;
+  if (!CONFLICT_STRATEGIES.includes(strategy)) {
+    error(`Invalid --on-conflict: ${options.onConflict}`);
+    console.log(chalk.dim(`  Use one of: ${CONFLICT_STRATEGIES.join(', ')}`));
+    process.exit(1);
+  }
+
+  let pack;
+  try {
+    pack = readRulePack(file);
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  }
+
+  const previous = listRules().find((rule) => rule.pack_name === pack.name);
+  const result = importRulePack(pack, { strategy, dryRun: options.dryRun });
+
+  console.log();
+  console.log(chalk.bold(`Rule pack ${pack.name} v${pack.version}`));
+  if (pack.description) {
+    console.log(chalk.dim(pack.description));
+  }
+  if (previous?.pack_version) {
+    console.log(chalk.dim(`Currently installed: v${previous.pack_version}`));
+  }
+  console.log();
+
+  const counts: Array<[string, string, number]> = [
+    ['Added', 'add', result.added],
+    ['Updated', 'update', result.updated],
+    ['Skipped', 'skip', result.skipped],
+    ['Removed', 'remove', result.removed],
+  ];
+  for (const [done, planned, count] of counts) {
+    if (count > 0) {
+      console.log(`  ${options.dryRun ? `Would ${planned}` : done}: ${count}`);
+    }
+  }
+  if (result.createdCategories.length > 0) {
+    console.log(chalk.dim(`  New categories: ${result.createdCategories.join(', ')}`));
+  }
+  if (result.createdProjects.length > 0) {
+    console.log(chalk.dim(`  New projects: ${result.createdProjects.join(', ')}`));
+  }
+  if (result.restoredProjects.length > 0) {
+    console.log(chalk.dim(`  Restored from the trash: ${result.restoredProjects.join(', ')}`));
+  }
+  console.log();
+
+  if (options.dryRun) {
+    info('Dry run: nothing was changed. Run without --dry-run to import.');
+  } else {
+    success(`Imported ${pack.rules.length} rules from ${pack.name}`);
+    console.log(chalk.dim('  Run `tt rules apply --dry-run` to see how they change past entries.'));
+  }
+  console.log();
+}
+
+// Where a trace step came from
+function formatSource(step: TraceStep): string {
+  if (step.source === 'rule') return `rule ${step.ruleId}`;
+  if (step.source === 'classifier') return 'learned';
+  return 'default';
+}
+
+// What happened to a trace step
+function formatOutcome(step: TraceStep): string {
+  switch (step.outcome) {
+    case 'matched':
+      return chalk.green('✓ matched');
+    case 'shadowed':
+      return chalk.yellow('✓ shadowed');
+    case 'missing-category':
+      return chalk.yellow('✓ category missing');
+    case 'below-threshold':
+      return chalk.yellow(`${Math.round((step.confidence ?? 0) * 100)}% < threshold`);
+    default:
+      return chalk.dim(`✗ ${step.mismatch}`);
+  }
+}
+
+// Show how a window (or a stored entry) gets its category
+export function rulesExplain(options: {
+  app?: string;
+  bundle?: string;
+  title?: string;
+  domain?: string;
+  entry?: string;
+  all?: boolean;
+}): void {
+  let window: WindowInfo;
+  let storedCategory: string | null | undefined;
+
+  if (options.entry) {
+    const entry = getEntryById(parseInt(options.entry, 10));
+    if (!entry) {
+      error(`Entry not found: ${options.entry}`);
+      process.exit(1);
+    }
+    if (!entry.app_name) {
+      error(`Entry ${entry.id} has no app data (manual entries are not auto-categorized)`);
+      process.exit(1);
+    }
+    window = {
+      appName: entry.app_name,
+      appBundleId: entry.app_bundle_id ?? '',
+      windowTitle: entry.window_title ?? '',
+      domain: entry.domain ?? undefined,
+      timestamp: new Date(),
+    };
+    storedCategory = entry.category_id ? getCategoryById(entry.category_id)?.name ?? null : null;
+  } else if (options.app) {
+    window = {
+      appName: options.app,
+      appBundleId: options.bundle ?? '',
+      windowTitle: options.title ?? '',
+      domain: options.domain,
+      timestamp: new Date(),
+    };
+  } else {
+    error('Describe a window with --app (plus --bundle, --title, --domain) or pick one with --entry');
+    process.exit(1);
+  }
+
+  const trace = explainCategorization(window, { useClassifier: true });
+
+  console.log();
+  console.log(chalk.bold('Categorization Trace'));
+  console.log(chalk.dim([
+    `app="${window.appName}"`,
+    window.appBundleId && `bundle="${window.appBundleId}"`,
+    window.windowTitle && `title="${window.windowTitle}"`,
+    window.domain && `domain="${window.domain}"`,
+  ].filter(Boolean).join(' ')));
+  console.log();
+
+  // Everything up to the winner, then only the matches it shadows
+  const winnerIndex = trace.winner ? trace.steps.indexOf(trace.winner) : trace.steps.length - 1;
+  const shown = options.all
+    ? trace.steps
+    : trace.steps.filter((step, index) => index <= winnerIndex || step.outcome === 'shadowed');
+
+  const table = new Table({
+    head: [chalk.bold('#'), chalk.bold('Source'), chalk.bold('Pattern'), chalk.bold('Category'), chalk.bold('Result')],
+    style: { head: [], border: [] },
+    chars: BORDERLESS,
+  });
+  for (const step of shown) {
+    table.push([
+      chalk.dim(String(trace.steps.indexOf(step) + 1)),
+      formatSource(step),
+      step.pattern,
+      step.category,
+      formatOutcome(step),
+    ]);
+  }
+  console.log(table.toString());
+  console.log();
+
+  if (trace.winner) {
+    const via = trace.winner.source === 'classifier'
+      ? `learned, ${Math.round((trace.winner.confidence ?? 0) * 100)}% confident`
+      : `${formatSource(trace.winner)}, priority ${trace.winner.priority}`;
+    console.log(`${chalk.bold('Category:')} ${formatCategory(trace.winner.category)} ${chalk.dim(`(${via})`)}`);
+  } else {
+    console.log(`${chalk.bold('Category:')} ${chalk.dim('uncategorized')}`);
+  }
+
+  const attribution = attributeByRules(window);
+  if (attribution.projectId) {
+    console.log(`${chalk.bold('Project:')}  ${getProjectById(attribution.projectId)?.name ?? attribution.projectId}`);
+  }
+  if (attribution.tags.length > 0) {
+    console.log(`${chalk.bold('Tags:')}     ${attribution.tags.map((tag) => `#${tag}`).join(' ')}`);
+  }
+  if (attribution.noteTemplate) {
+    console.log(`${chalk.bold('Note:')}     ${renderNoteTemplate(attribution.noteTemplate, window)}`);
+  }
+
+  if (storedCategory !== undefined && storedCategory !== trace.category) {
+    console.log();
+    warn(`Entry ${options.entry} is stored as ${storedCategory ?? 'uncategorized'}`);
+    console.log(chalk.dim('  Rules changed since, or the category was set by hand. See `tt rules apply --dry-run`.'));
+  }
+  if (!options.all && shown.length < trace.steps.length) {
+    console.log(chalk.dim(`\n  ${trace.steps.length - shown.length} more patterns were not reached. Use --all to list them.`));
+  }
+  console.log();
+}
+
+// Label a sample in test output
+function sampleLabel(sample: RuleSample): string {
+  return sample.name ?? [sample.appName, sample.windowTitle, sample.domain].filter(Boolean).join(' · ');
+}
+
+// Check samples against the rules (or against a rule pack on its own)
+export function rulesTest(file: string, options: { pack?: string }): void {
+  let samples: RuleSample[];
+  try {
+    samples = readRuleSamples(file);
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  }
+
+  // A pack is tested alone: default patterns plus the pack, in a scratch database
+  let scratchDir: string | null = null;
+  if (options.pack) {
+    try {
+      const pack = readRulePack(options.pack);
+      scratchDir = useScratchDatabase({ fresh: true });
+      importRulePack(pack);
+    } catch (err) {
+      error((err as Error).message);
+      process.exit(1);
+    }
+  }
+
+  let results;
+  try {
+    results = runRuleSamples(samples);
+  } finally {
+    if (scratchDir) {
+      closeDatabase();
+      rmSync(scratchDir, { recursive: true, force: true });
+    }
+  }
+
+  console.log();
+  for (const result of results) {
+    if (result.passed) {
+      console.log(`  ${chalk.green('✓')} ${sampleLabel(result.sample)} ${chalk.dim(`→ ${result.actual ?? 'uncategorized'}`)}`);
+    } else {
+      console.log(`  ${chalk.red('✗')} ${sampleLabel(result.sample)}`);
+      console.log(chalk.dim(`      expected ${result.sample.expected ?? 'uncategorized'}, got ${result.actual ?? 'uncategorized'}` +
+        (result.winner ? ` (${formatSource(result.winner)}: ${result.winner.pattern})` : '')));
+    }
+  }
+
+  const failed = results.filter((result) => !result.passed).length;
+  console.log();
+  if (failed > 0) {
+    error(`${failed} of ${results.length} samples failed`);
+    console.log(chalk.dim('  Trace one with: tt rules explain --app "<app>" --title "<title>"'));
+    console.log();
+    process.exit(1);
+  }
+  success(`All ${results.length} samples passed`);
+  console.log();
+}
+
 // Remove a rule
 export function rulesRemove(id: string): void {
   const ruleId = parseInt(id, 10);
@@ -144,10 +628,18 @@ export function rulesExamples(): void {
       cmd: 'tt rules add --bundle "com.spotify.client" --category breaks',
       desc: 'Track Spotify as break time (using bundle ID)',
     },
+    {
+      cmd: 'tt rules add --domain "*.atlassian.net" --category project-management',
+      desc: 'Any Jira/Confluence tab → project management (browser extension)',
+    },
     {
       cmd: 'tt rules add --app "Terminal" --window "npm test" --category testing',
       desc: 'Terminal running tests → testing category',
     },
+    {
+      cmd: 'tt rules add --window "acme-api" --project Acme --tags backend --notes "{project}"',
+      desc: 'Any acme-api window → project Acme, tagged backend, path as note',
+    },
   ];
 
   for (const ex of examples) {
@@ -1,51 +1,47 @@
 import chalk from 'chalk';
-import { getDatabase } from '../../storage/database.js';
 import { info } from '../utils/format.js';
+import { getProductivityBreakdown, productivityScore } from '../../core/productivity.js';
 
 interface ScoreData {
   date: string;
   totalSeconds: number;
   productiveSeconds: number;
+  distractingSeconds: number;
   score: number;
-  breakdown: { category: string; seconds: number; isProductive: boolean }[];
+  breakdown: { category: string; seconds: number; weight: number }[];
 }
 
 // Calculate productivity score for a date
 function calculateDayScore(date: string): ScoreData {
-  const db = getDatabase();
-
-  const entries = db.prepare(`
-    SELECT
-      COALESCE(c.name, 'uncategorized') as category,
-      COALESCE(SUM(e.duration_seconds), 0) as seconds,
-      COALESCE(c.is_productive, 0) as is_productive
-    FROM time_entries e
-    LEFT JOIN categories c ON e.category_id = c.id
-    WHERE date(e.start_time) = ?
-    AND e.duration_seconds IS NOT NULL
-    GROUP BY c.id
-  `).all(date) as { category: string; seconds: number; is_productive: number }[];
-
-  const totalSeconds = entries.reduce((sum, e) => sum + e.seconds, 0);
-  const productiveSeconds = entries
-    .filter(e => e.is_productive)
-    .reduce((sum, e) => sum + e.seconds, 0);
-
-  const score = totalSeconds > 0 ? Math.round((productiveSeconds / totalSeconds) * 100) : 0;
+  const rows = getProductivityBreakdown(date, date);
+
+  const totalSeconds = rows.reduce((sum, r) => sum + r.seconds, 0);
+  const weightedSeconds = rows.reduce((sum, r) => sum + r.weightedSeconds, 0);
 
   return {
     date,
     totalSeconds,
-    productiveSeconds,
-    score,
-    breakdown: entries.map(e => ({
-      category: e.category,
-      seconds: e.seconds,
-      isProductive: !!e.is_productive,
+    productiveSeconds: rows.reduce((sum, r) => sum + r.productiveSeconds, 0),
+    distractingSeconds: rows.reduce((sum, r) => sum + r.distractingSeconds, 0),
+    score: Math.round(productivityScore(weightedSeconds, totalSeconds)),
+    breakdown: rows.map(r => ({
+      category: r.category,
+      seconds: r.seconds,
+      // Average level; overrides can mix levels within one category
+      weight: r.seconds > 0 ? r.weightedSeconds / r.seconds : 0,
     })),
   };
 }
 
+// Indicator for an (average) productivity weight
+function weightIndicator(weight: number): string {
+  if (weight >= 1.5) return chalk.green('●●');
+  if (weight > 0) return chalk.green('● ');
+  if (weight <= -1.5) return chalk.red('●●');
+  if (weight < 0) return chalk.red('● ');
+  return chalk.dim('○ ');
+}
+
 // Calculate weekly average score
 function calculateWeekScore(): { average: number; days: ScoreData[] } {
   const days: ScoreData[] = [];
@@ -122,16 +118,18 @@ export function scoreTodayCommand(): void {
   console.log(`  ${emoji} Score: ${chalk.bold(colorFn(data.score.toString() + '%'))}`);
   console.log(`  [${bar}]`);
   console.log();
-  console.log(`  Total time:      ${formatDuration(data.totalSeconds)}`);
-  console.log(`  Productive time: ${formatDuration(data.productiveSeconds)}`);
+  console.log(`  Total time:       ${formatDuration(data.totalSeconds)}`);
+  console.log(`  Productive time:  ${formatDuration(data.productiveSeconds)}`);
+  if (data.distractingSeconds > 0) {
+    console.log(`  Distracting time: ${chalk.red(formatDuration(data.distractingSeconds))}`);
+  }
   console.log();
 
   // Show breakdown
   if (data.breakdown.length > 0) {
     console.log(chalk.dim('  Breakdown:'));
     for (const item of data.breakdown.sort((a, b) => b.seconds - a.seconds)) {
-      const indicator = item.isProductive ? chalk.green('●') : chalk.dim('○');
-      console.log(`    ${indicator} ${item.category}: ${formatDuration(item.seconds)}`);
+      console.log(`    ${weightIndicator(item.weight)} ${item.category}: ${formatDuration(item.seconds)}`);
     }
     console.log();
   }
@@ -1,44 +1,57 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import { getDatabase } from '../../storage/database.js';
-import { formatDuration, formatCategory, formatTime, formatDate } from '../utils/format.js';
+import { searchEntries, MATCH_START, MATCH_END, type SearchHit } from '../../core/search.js';
+import { getEncryptionConfig, unlockEncryption, lockEncryption } from '../../security/encryption.js';
+import { promptPassword } from './encryption.js';
+import { formatDuration, formatCategory, formatDate, error } from '../utils/format.js';
+import { parseWhereOption } from '../utils/where.js';
 
-interface SearchResult {
-  id: number;
-  category_name: string | null;
-  category_color: string | null;
-  project_name: string | null;
-  start_time: string;
-  duration_seconds: number | null;
-  notes: string | null;
+interface SearchCommandOptions {
+  limit?: string;
+  from?: string;
+  to?: string;
+  // Prompt for the encryption password so encrypted notes are searched too
+  unlock?: boolean;
+  where?: string;
 }
 
-// Notes column width constant (used for both display and truncation)
-const NOTES_COL_WIDTH = 60;
+// Match column width constant
+const MATCH_COL_WIDTH = 60;
 
-// Search entries by note content
-export function searchCommand(query: string, options?: { limit?: string }): void {
-  const db = getDatabase();
+// Search entries by notes, window titles, apps, projects and tags
+export async function searchCommand(query: string, options?: SearchCommandOptions): Promise<void> {
   const limit = options?.limit ? parseInt(options.limit, 10) : 20;
+  if (isNaN(limit) || limit < 1) {
+    error('Limit must be a positive number');
+    process.exit(1);
+  }
+
+  for (const date of [options?.from, options?.to]) {
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      error(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+      process.exit(1);
+    }
+  }
+
+  const where = parseWhereOption(options?.where);
+
+  if (options?.unlock && getEncryptionConfig().enabled) {
+    const result = unlockEncryption(await promptPassword('  Enter encryption password: '));
+    if (!result.success) {
+      error(result.error || 'Failed to unlock');
+      process.exit(1);
+    }
+  }
 
-  // Note: For large datasets, consider implementing FTS5 virtual table
-  // For now, using LIKE which works but may be slow on very large databases
-  const results = db.prepare(`
-    SELECT
-      e.id,
-      c.name as category_name,
-      c.color as category_color,
-      p.name as project_name,
-      e.start_time,
-      e.duration_seconds,
-      e.notes
-    FROM time_entries e
-    LEFT JOIN categories c ON e.category_id = c.id
-    LEFT JOIN projects p ON e.project_id = p.id
-    WHERE e.notes LIKE ? COLLATE NOCASE
-    ORDER BY e.start_time DESC
-    LIMIT ?
-  `).all(`%${query}%`, limit) as SearchResult[];
+  let results: SearchHit[];
+  try {
+    results = searchEntries(query, { from: options?.from, to: options?.to, limit, where });
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  } finally {
+    lockEncryption();
+  }
 
   console.log();
   console.log(chalk.bold(`Search: "${query}"`));
@@ -59,9 +72,9 @@ export function searchCommand(query: string, options?: { limit?: string }): void
       chalk.bold('Date'),
       chalk.bold('Category'),
       chalk.bold('Duration'),
-      chalk.bold('Notes'),
+      chalk.bold('Match'),
     ],
-    colWidths: [6, 12, 15, 10, NOTES_COL_WIDTH],
+    colWidths: [6, 12, 15, 10, MATCH_COL_WIDTH],
     style: { head: [], border: [] },
     chars: {
       top: '', 'top-mid': '', 'top-left': '', 'top-right': '',
@@ -73,31 +86,21 @@ export function searchCommand(query: string, options?: { limit?: string }): void
   });
 
   for (const entry of results) {
-    // Highlight the search term in notes
-    const notes = entry.notes || '';
-    const highlightedNotes = notes.replace(
-      new RegExp(`(${escapeRegex(query)})`, 'gi'),
-      chalk.yellow('$1')
+    // Highlight the matched words
+    const match = entry.snippet.replace(
+      new RegExp(`${MATCH_START}(.*?)${MATCH_END}`, 'g'),
+      (_, words: string) => chalk.yellow(words)
     );
 
-    // Truncate notes if too long (using same constant as colWidths)
-    const truncatedNotes = highlightedNotes.length > NOTES_COL_WIDTH
-      ? highlightedNotes.substring(0, NOTES_COL_WIDTH - 3) + '...'
-      : highlightedNotes;
-
     table.push([
       chalk.dim(`#${entry.id}`),
       formatDate(entry.start_time),
       formatCategory(entry.category_name || 'uncategorized', entry.category_color),
       entry.duration_seconds ? formatDuration(entry.duration_seconds) : chalk.dim('--'),
-      truncatedNotes || chalk.dim('--'),
+      match || chalk.dim('--'),
     ]);
   }
 
   console.log(table.toString());
   console.log();
 }
-
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
@@ -3,14 +3,29 @@
  */
 
 import chalk from 'chalk';
-import { success, error, info } from '../utils/format.js';
+import Table from 'cli-table3';
+import { join } from 'path';
+import { success, error, info, warn } from '../utils/format.js';
 import {
   getSyncConfig,
   saveSyncConfig,
   getSyncState,
   performSync,
+  listSyncConflicts,
+  getSyncConflict,
+  resolveSyncConflict,
+  hasSyncPassphrase,
+  isSyncPassphrasePublished,
+  setSyncPassphrase,
+  clearSyncPassphrase,
   SyncConfig,
+  SyncConflict,
+  ConflictResolution,
 } from '../../sync/sync-engine.js';
+import { startSyncServer, stopSyncServer, loadServerApiKey } from '../../sync/sync-server.js';
+import { generateSecureToken, getEncryptionConfig } from '../../security/encryption.js';
+import { promptPassword } from './encryption.js';
+import { getDataDir } from '../../config/paths.js';
 
 // Show sync status
 export function syncStatusCommand(): void {
@@ -45,6 +60,7 @@ export function syncStatusCommand(): void {
   console.log(`  Pending Changes:  ${state.pendingChanges > 0 ? chalk.yellow(state.pendingChanges.toString()) : '0'}`);
   console.log(`  Auto Sync:        ${config.autoSync ? 'Yes' : 'No'}`);
   console.log(`  Conflict Mode:    ${config.conflictResolution}`);
+  console.log(`  Encrypted:        ${hasSyncPassphrase() && getEncryptionConfig().encryptSync ? chalk.green('Yes') : chalk.dim('No')}`);
   console.log();
 }
 
@@ -54,7 +70,7 @@ export function syncEnableCommand(options: {
   server?: string;
   apiKey?: string;
   interval?: string;
-  conflict?: 'local' | 'remote' | 'newest';
+  conflict?: ConflictResolution;
 }): void {
   console.log();
 
@@ -81,6 +97,13 @@ export function syncEnableCommand(options: {
     config.backend = 'file';
     config.syncPath = options.path;
   } else if (options.server) {
+    if (!options.apiKey) {
+      error('Server sync requires an API key: --api-key <key>');
+      console.log();
+      info('The key is printed when you start a server with `tt sync serve`');
+      console.log();
+      return;
+    }
     config.backend = 'server';
     config.serverUrl = options.server;
     config.apiKey = options.apiKey;
@@ -95,6 +118,14 @@ export function syncEnableCommand(options: {
     console.log(`  Sync folder: ${options.path}`);
     console.log();
     info('Run `tt sync now` to sync immediately');
+  } else if (options.server) {
+    console.log(`  Sync server: ${options.server}`);
+    console.log();
+    info('Run `tt sync now` to sync immediately');
+  }
+
+  if (!hasSyncPassphrase()) {
+    console.log(chalk.dim('  Encrypt synced data with: tt sync passphrase'));
   }
 
   console.log();
@@ -141,17 +172,29 @@ export async function syncNowCommand(): Promise<void> {
       }
 
       if (result.conflicts > 0) {
-        console.log(`  ${chalk.yellow('!')} ${result.conflicts} conflicts resolved (${config.conflictResolution})`);
+        const open = listSyncConflicts().length;
+        console.log(`  ${chalk.yellow('!')} ${result.conflicts} conflicts (${config.conflictResolution})`);
+        if (open > 0) {
+          console.log(`  ${chalk.yellow('!')} ${open} waiting for review: ${chalk.dim('tt sync conflicts')}`);
+        }
       }
 
       if (!result.pushed && result.imported === 0) {
         console.log(`  ${chalk.dim('○')} No changes to sync`);
       }
     } else {
+      if (result.imported > 0) {
+        console.log(`  ${chalk.green('✓')} Imported ${result.imported} changes before the failure`);
+      }
       error(`Sync failed: ${result.error}`);
+      console.log(chalk.dim('  Changes that failed to apply are retried on the next sync'));
+      console.log();
+      process.exit(1);
     }
   } catch (e) {
     error(`Sync error: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    console.log();
+    process.exit(1);
   }
 
   console.log();
@@ -160,7 +203,7 @@ export async function syncNowCommand(): Promise<void> {
 // Configure sync settings
 export function syncConfigCommand(options: {
   interval?: string;
-  conflict?: 'local' | 'remote' | 'newest';
+  conflict?: ConflictResolution;
   autoSync?: string;
 }): void {
   console.log();
@@ -193,9 +236,266 @@ export function syncConfigCommand(options: {
     console.log();
     console.log('Configure with:');
     console.log(`  ${chalk.dim('tt sync config --interval 30')}`);
-    console.log(`  ${chalk.dim('tt sync config --conflict newest|local|remote')}`);
+    console.log(`  ${chalk.dim('tt sync config --conflict newest|local|remote|manual')}`);
     console.log(`  ${chalk.dim('tt sync config --auto-sync true|false')}`);
   }
 
   console.log();
 }
+
+// Set or remove the shared sync passphrase
+export async function syncPassphraseCommand(options: { remove?: boolean }): Promise<void> {
+  console.log();
+
+  if (options.remove) {
+    clearSyncPassphrase();
+    success('Sync passphrase removed from this device');
+    console.log();
+    return;
+  }
+
+  if (!getSyncConfig().enabled) {
+    error('Sync is not enabled. Run: tt sync enable --path <folder>');
+    console.log();
+    return;
+  }
+
+  let joining: boolean;
+  try {
+    joining = await isSyncPassphrasePublished();
+  } catch (e) {
+    error(`Could not reach the sync location: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    console.log();
+    return;
+  }
+
+  console.log(chalk.bold(joining ? 'Join Encrypted Sync' : 'Encrypt Sync Data'));
+  console.log();
+  console.log(chalk.dim(joining
+    ? '  Enter the sync passphrase used on your other devices.'
+    : '  Choose a passphrase; other devices join with it. It cannot be recovered.'));
+  console.log();
+
+  const passphrase = await promptPassword('Passphrase: ');
+  if (passphrase.length < 8) {
+    error('Passphrase must be at least 8 characters');
+    console.log();
+    return;
+  }
+
+  if (!joining) {
+    const confirm = await promptPassword('Confirm passphrase: ');
+    if (confirm !== passphrase) {
+      error('Passphrases do not match');
+      console.log();
+      return;
+    }
+  }
+
+  console.log();
+  console.log(chalk.dim('Deriving key...'));
+
+  const result = await setSyncPassphrase(passphrase);
+  if (!result.success) {
+    error(result.error || 'Failed to set sync passphrase');
+    console.log();
+    return;
+  }
+
+  success(result.created ? 'Sync data is now end-to-end encrypted' : 'Joined encrypted sync');
+  if (!getEncryptionConfig().encryptSync) {
+    warn('Sync encryption is turned off: tt encrypt config --sync true');
+  }
+  console.log();
+}
+
+// Short human-readable label for a conflicting row
+function describeConflictRow(conflict: SyncConflict): string {
+  const data = conflict.local || conflict.remote || {};
+  const label = data.name || data.notes || data.start_time || Object.values(conflict.rowKey).join('/');
+  return String(label);
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return chalk.dim('—');
+  return String(value);
+}
+
+// List sync conflicts
+export function syncConflictsListCommand(options: { all?: boolean }): void {
+  console.log();
+
+  const conflicts = listSyncConflicts(options.all);
+
+  console.log(chalk.bold(options.all ? 'Sync Conflicts' : 'Sync Conflicts (open)'));
+  console.log();
+
+  if (conflicts.length === 0) {
+    console.log(chalk.dim(options.all ? '  No conflicts recorded.' : '  No conflicts waiting for review.'));
+    console.log();
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.bold('ID'),
+      chalk.bold('Table'),
+      chalk.bold('Row'),
+      chalk.bold('Remote'),
+      chalk.bold('Status'),
+    ],
+    style: { head: [], border: [] },
+    chars: {
+      top: '', 'top-mid': '', 'top-left': '', 'top-right': '',
+      bottom: '', 'bottom-mid': '', 'bottom-left': '', 'bottom-right': '',
+      left: '', 'left-mid': '', mid: '', 'mid-mid': '',
+      right: '', 'right-mid': '', middle: ' ',
+    },
+  });
+
+  for (const conflict of conflicts) {
+    const status = conflict.status === 'open'
+      ? chalk.yellow('open')
+      : chalk.dim(`${conflict.resolution} (${conflict.resolvedBy})`);
+    table.push([
+      chalk.dim(conflict.id.toString()),
+      conflict.table,
+      describeConflictRow(conflict).slice(0, 40),
+      conflict.operation === 'delete' ? chalk.red('deleted') : 'edited',
+      status,
+    ]);
+  }
+
+  console.log(table.toString());
+  console.log();
+  console.log(chalk.dim('  Review with: tt sync conflicts show <id>'));
+  console.log();
+}
+
+// Show both versions of a conflicting row
+export function syncConflictsShowCommand(id: string): void {
+  console.log();
+
+  const conflict = getSyncConflict(parseInt(id, 10));
+  if (!conflict) {
+    error(`Conflict #${id} not found`);
+    console.log();
+    return;
+  }
+
+  console.log(chalk.bold(`Conflict #${conflict.id}: ${conflict.table}`));
+  console.log();
+  console.log(`  Row:          ${describeConflictRow(conflict)}`);
+  console.log(`  Remote:       ${conflict.remoteDeviceId.slice(0, 8)}... ${conflict.operation === 'delete' ? chalk.red('deleted the row') : 'edited the row'}`);
+  console.log(`  Local edit:   ${conflict.localChangedAt ? new Date(conflict.localChangedAt).toLocaleString() : chalk.dim('unknown')}`);
+  console.log(`  Remote edit:  ${conflict.remoteChangedAt ? new Date(conflict.remoteChangedAt).toLocaleString() : chalk.dim('unknown')}`);
+  console.log(`  Status:       ${conflict.status === 'open' ? chalk.yellow('open') : `${conflict.resolution} (${conflict.resolvedBy})`}`);
+  console.log();
+
+  const table = new Table({
+    head: [chalk.bold('Field'), chalk.bold('Local'), chalk.bold('Remote')],
+    style: { head: [], border: [] },
+    colWidths: [18, 32, 32],
+    wordWrap: true,
+  });
+
+  const fields = new Set([...Object.keys(conflict.local || {}), ...Object.keys(conflict.remote || {})]);
+  for (const field of fields) {
+    if (field === 'uuid') continue;
+    const localValue = conflict.local?.[field];
+    const remoteValue = conflict.remote ? conflict.remote[field] : undefined;
+    const differs = conflict.remote !== null && localValue !== remoteValue;
+    table.push([
+      differs ? chalk.yellow(field) : field,
+      formatFieldValue(localValue),
+      conflict.remote ? formatFieldValue(remoteValue) : chalk.red('deleted'),
+    ]);
+  }
+
+  console.log(table.toString());
+  console.log();
+
+  if (conflict.status === 'open') {
+    info(`Resolve with: tt sync conflicts resolve ${conflict.id} --take local|remote|merge`);
+    console.log();
+  }
+}
+
+// Resolve a conflict by picking a version
+export function syncConflictsResolveCommand(id: string, options: { take?: string }): void {
+  console.log();
+
+  if (options.take !== 'local' && options.take !== 'remote' && options.take !== 'merge') {
+    error('Choose a version with --take local, --take remote or --take merge');
+    console.log();
+    return;
+  }
+
+  const result = resolveSyncConflict(parseInt(id, 10), options.take);
+  if (!result.success) {
+    error(result.error || 'Failed to resolve conflict');
+    console.log();
+    return;
+  }
+
+  success(`Resolved conflict #${id} (${options.take})`);
+  info('The chosen version is sent to other devices on the next sync');
+  console.log();
+}
+
+// Run the reference sync server
+export async function syncServeCommand(options: {
+  port?: string;
+  host?: string;
+  apiKey?: string;
+  data?: string;
+}): Promise<void> {
+  console.log();
+
+  const port = options.port ? parseInt(options.port, 10) : 7878;
+  if (isNaN(port) || port < 1 || port > 65535) {
+    error('Invalid port number');
+    return;
+  }
+
+  const host = options.host || '127.0.0.1';
+  const dbPath = options.data || join(getDataDir(), 'sync-server.db');
+  const givenKey = options.apiKey || process.env.TIMER_RECORD_SYNC_API_KEY;
+
+  try {
+    // Without a key, reuse the one saved on first start so clients keep working
+    const saved = givenKey ? null : loadServerApiKey(dbPath, () => generateSecureToken());
+    const apiKey = givenKey || saved!.apiKey;
+    const { port: actualPort } = await startSyncServer({ port, host, apiKey, dbPath });
+
+    success('Sync server started');
+    console.log();
+    console.log(`  URL:      ${chalk.cyan(`http://${host}:${actualPort}`)}`);
+    console.log(`  Store:    ${dbPath}`);
+    if (saved?.created) {
+      console.log(`  API key:  ${chalk.yellow(apiKey)} ${chalk.dim('(saved in the store, shown once)')}`);
+    } else if (saved) {
+      console.log(`  API key:  ${chalk.dim('saved in the store')}`);
+    }
+    console.log();
+
+    if (host !== '127.0.0.1' && host !== 'localhost') {
+      warn('Server is reachable from the network; put it behind HTTPS before exposing it');
+      console.log();
+    }
+
+    info(`Connect devices with: tt sync enable --server http://${host}:${actualPort} --api-key <key>`);
+    console.log(chalk.dim('  Press Ctrl+C to stop'));
+    console.log();
+
+    const shutdown = async () => {
+      await stopSyncServer();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (e) {
+    error(`Failed to start sync server: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
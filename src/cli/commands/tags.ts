@@ -3,6 +3,7 @@ import Table from 'cli-table3';
 import {
   getAllTags,
   createTag,
+  getOrCreateTag,
   deleteTag,
   getTagByName,
   getTagsWithCount,
@@ -14,6 +15,8 @@ import {
 } from '../../storage/repositories/tags.js';
 import { getEntryById } from '../../storage/repositories/entries.js';
 import { success, error, warn, formatDuration, formatCategory } from '../utils/format.js';
+import { parseProductivityOverride } from '../../core/productivity.js';
+import { isNameInTrash } from '../../core/trash.js';
 
 // List all tags
 export function listTags(options?: { usage?: boolean }): void {
@@ -78,6 +81,11 @@ export function addTag(
     error(`Tag "${name}" already exists`);
     process.exit(1);
   }
+  if (isNameInTrash('tag', name)) {
+    error(`Tag "${name}" is in the trash`);
+    console.log(chalk.dim(`  Restore it with: tt trash restore tag "${name}" (or empty the trash first)`));
+    process.exit(1);
+  }
 
   try {
     const tag = createTag({
@@ -100,7 +108,8 @@ export function removeTag(name: string): void {
   }
 
   if (deleteTag(tag.id)) {
-    success(`Removed tag: ${name}`);
+    success(`Moved tag to the trash: ${name}`);
+    console.log(chalk.dim(`  Restore it with: tt trash restore tag "${name}"`));
   } else {
     error('Failed to remove tag');
     process.exit(1);
@@ -110,7 +119,7 @@ export function removeTag(name: string): void {
 // Update tag
 export function editTag(
   name: string,
-  options: { rename?: string; color?: string }
+  options: { rename?: string; color?: string; productivity?: string }
 ): void {
   const tag = getTagByName(name);
   if (!tag) {
@@ -118,10 +127,18 @@ export function editTag(
     process.exit(1);
   }
 
-  const updates: { name?: string; color?: string | null } = {};
+  const updates: Parameters<typeof updateTag>[1] = {};
 
   if (options.rename) updates.name = options.rename;
   if (options.color !== undefined) updates.color = options.color || null;
+  if (options.productivity !== undefined) {
+    try {
+      updates.productivity = parseProductivityOverride(options.productivity);
+    } catch (err) {
+      error((err as Error).message);
+      process.exit(1);
+    }
+  }
 
   if (Object.keys(updates).length === 0) {
     warn('No updates specified');
@@ -153,9 +170,10 @@ export function attachTag(entryId: string, tagName: string): void {
 
   let tag = getTagByName(tagName);
   if (!tag) {
-    // Create tag if it doesn't exist
-    tag = createTag({ name: tagName });
-    console.log(chalk.dim(`Created tag: ${tagName}`));
+    // Create tag if it doesn't exist, or bring it back from the trash (its name is still taken)
+    const trashed = isNameInTrash('tag', tagName);
+    tag = getOrCreateTag(tagName);
+    console.log(chalk.dim(`${trashed ? 'Restored tag from the trash' : 'Created tag'}: ${tagName}`));
   }
 
   try {
@@ -96,9 +96,10 @@ function generateTeamExportData(options: {
       e.notes
       FROM time_entries e
       LEFT JOIN categories c ON e.category_id = c.id
-      LEFT JOIN projects p ON e.project_id = p.id
+      LEFT JOIN projects p ON e.project_id = p.id AND p.deleted_at IS NULL
       WHERE date(e.start_time) BETWEEN ? AND ?
       AND e.duration_seconds IS NOT NULL
+      AND e.deleted_at IS NULL
       ORDER BY e.start_time
     `).all(fromDate, toDate) as {
       date: string;
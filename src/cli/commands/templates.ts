@@ -13,6 +13,7 @@ import {
   updateTemplate,
   Template,
 } from '../../storage/repositories/templates.js';
+import { isNameInTrash } from '../../core/trash.js';
 import { success, error, info, formatCategory } from '../utils/format.js';
 
 // List all templates
@@ -79,6 +80,11 @@ export function addTemplate(name: string, options: {
     error(`Template "${name}" already exists`);
     return;
   }
+  if (isNameInTrash('template', name)) {
+    error(`Template "${name}" is in the trash`);
+    console.log(chalk.dim(`  Restore it with: tt trash restore template "${name}" (or empty the trash first)`));
+    return;
+  }
 
   // Validate category
   let categoryId: number | undefined;
@@ -125,7 +131,8 @@ export function removeTemplate(name: string): void {
 
   deleteTemplate(template.id);
   console.log();
-  success(`Template "${name}" removed`);
+  success(`Moved template "${name}" to the trash`);
+  console.log(chalk.dim(`  Restore it with: tt trash restore template "${name}"`));
   console.log();
 }
 
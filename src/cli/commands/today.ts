@@ -1,30 +1,42 @@
 import chalk from 'chalk';
-import Table from 'cli-table3';
 import {
   getTodaySummary,
   getTodayTotalSeconds,
   getCategorySummaryFiltered,
   getTotalSecondsFiltered,
   getEntryById,
+  getEntriesWithCategories,
+  entryMatchesQuery,
   type FilterOptions,
 } from '../../storage/repositories/entries.js';
+import { getCommitsByDateRange } from '../../storage/repositories/commits.js';
 import { getTimerStatus, getActiveDuration } from '../../core/timer.js';
 import { getProjectByName } from '../../storage/repositories/projects.js';
 import { getTagByName } from '../../storage/repositories/tags.js';
-import { formatDuration, formatCategory, formatBar } from '../utils/format.js';
+import { formatDuration, formatCommit } from '../utils/format.js';
+import { parseWhereOption } from '../utils/where.js';
+import {
+  categoryRows,
+  checkCategoryView,
+  renderCategoryTable,
+  type CategoryViewOptions,
+} from '../utils/category-table.js';
 
-interface TodayOptions {
+interface TodayOptions extends CategoryViewOptions {
   project?: string;
   tag?: string;
   tags?: string;
+  commits?: boolean;
+  where?: string;
 }
 
 export function todayCommand(options?: TodayOptions): void {
   const today = new Date().toISOString().split('T')[0];
+  checkCategoryView(options);
 
   // Build filters
-  const filters: FilterOptions = {};
-  let filterDescription = '';
+  const filters: FilterOptions = { where: parseWhereOption(options?.where) };
+  let filterDescription = options?.where ? ` [where: ${options.where}]` : '';
 
   if (options?.project) {
     const project = getProjectByName(options.project);
@@ -48,7 +60,11 @@ export function todayCommand(options?: TodayOptions): void {
     }
   }
 
-  const hasFilters = filters.projectId || (filters.tagIds && filters.tagIds.length > 0);
+  if (options?.category) {
+    filterDescription += ` [category: ${options.category}]`;
+  }
+
+  const hasFilters = filters.projectId || (filters.tagIds && filters.tagIds.length > 0) || filters.where;
 
   // Get summary (with or without filters)
   const summary = hasFilters
@@ -78,6 +94,10 @@ export function todayCommand(options?: TodayOptions): void {
     if (filters.tagIds && filters.tagIds.length > 0) {
       return false;
     }
+
+    if (filters.where && !entryMatchesQuery(active.id, filters.where)) {
+      return false;
+    }
     
     return true;
   };
@@ -114,14 +134,6 @@ export function todayCommand(options?: TodayOptions): void {
     return;
   }
 
-  console.log(`  Total: ${chalk.bold(formatDuration(totalSeconds))}`);
-
-  if (active) {
-    console.log(`  ${chalk.green('●')} Currently tracking: ${chalk.bold(active.category_name || 'uncategorized')}`);
-  }
-
-  console.log();
-
   // Build summary including active timer (only if it matches filters)
   const summaryMap = new Map(
     summary.map((s) => [s.category, { ...s }])
@@ -143,41 +155,66 @@ export function todayCommand(options?: TodayOptions): void {
     }
   }
 
-  // Sort by total time
-  const sortedSummary = Array.from(summaryMap.values()).sort(
-    (a, b) => b.total_seconds - a.total_seconds
-  );
+  // Roll child categories up into their parents
+  const rows = categoryRows(Array.from(summaryMap.values()), options);
+  if (options?.category) {
+    totalSeconds = rows[0]?.node.total_seconds ?? 0;
+  }
 
-  // Create table
-  const table = new Table({
-    head: [
-      chalk.bold('Category'),
-      chalk.bold('Time'),
-      chalk.bold('%'),
-      chalk.bold(''),
-    ],
-    colWidths: [22, 12, 8, 24],
-    style: { head: [], border: [] },
-    chars: {
-      top: '─', 'top-mid': '─', 'top-left': '', 'top-right': '',
-      bottom: '─', 'bottom-mid': '─', 'bottom-left': '', 'bottom-right': '',
-      left: '', 'left-mid': '', mid: '─', 'mid-mid': '─',
-      right: '', 'right-mid': '', middle: ' ',
-    },
-  });
+  console.log(`  Total: ${chalk.bold(formatDuration(totalSeconds))}`);
+
+  if (active) {
+    console.log(`  ${chalk.green('●')} Currently tracking: ${chalk.bold(active.category_name || 'uncategorized')}`);
+  }
 
-  for (const item of sortedSummary) {
-    const percentage = totalSeconds > 0 ? (item.total_seconds / totalSeconds) * 100 : 0;
-    const isActive = active?.category_name === item.category;
+  console.log();
 
-    table.push([
-      (isActive ? chalk.green('● ') : '  ') + formatCategory(item.category, item.color),
-      formatDuration(item.total_seconds),
-      `${percentage.toFixed(1)}%`,
-      formatBar(percentage, 20),
-    ]);
+  if (rows.length === 0 && options?.category) {
+    console.log(chalk.dim(`  No time tracked under ${options.category} today.`));
+    console.log();
+    return;
   }
 
-  console.log(table.toString());
+  // A timer started this second has no time to show yet
+  if (rows.length > 0) {
+    console.log(renderCategoryTable(rows, totalSeconds, active?.category_name));
+    console.log();
+  }
+
+  if (options?.commits) {
+    printCommits(today);
+  }
+}
+
+// Commits recorded today, under the entry each was made in
+function printCommits(today: string): void {
+  const commits = getCommitsByDateRange(today, today);
+  console.log(chalk.bold('  Commits'));
+
+  if (commits.length === 0) {
+    console.log(chalk.dim('  No commits recorded today (tt integrate git install-hook).'));
+    console.log();
+    return;
+  }
+
+  const entries = new Map(getEntriesWithCategories(today, today).map((e) => [e.id, e]));
+  const groups = new Map<number | null, typeof commits>();
+  for (const commit of commits) {
+    const key = commit.entry_id && entries.has(commit.entry_id) ? commit.entry_id : null;
+    groups.set(key, [...(groups.get(key) ?? []), commit]);
+  }
+
+  for (const [entryId, list] of groups) {
+    const entry = entryId ? entries.get(entryId) : undefined;
+    if (entry) {
+      const duration = entry.duration_seconds ? formatDuration(entry.duration_seconds) : chalk.green('running');
+      console.log(`  ${chalk.dim(entry.start_time.slice(11, 16))}  ${entry.category_name || 'uncategorized'}  ${chalk.dim(duration)}`);
+    } else {
+      console.log(`  ${chalk.dim('Outside tracked time')}`);
+    }
+    for (const commit of list) {
+      console.log(`    ${formatCommit(commit)}`);
+    }
+  }
   console.log();
 }
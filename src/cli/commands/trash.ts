@@ -0,0 +1,82 @@
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { purgeExpiredTrash, restoreFromTrash, trashRetentionDays } from '../../core/trash.js';
+import { getTrashItems, purgeTrash, TRASH_KINDS } from '../../storage/repositories/trash.js';
+import { success, error, info, warn } from '../utils/format.js';
+import type { TrashKind } from '../../types/index.js';
+
+// Accept "entry" or "entries", "project" or "projects", and so on
+function parseKind(value: string | undefined): TrashKind | undefined {
+  if (value === undefined) return undefined;
+  const kind = value.toLowerCase().replace(/(ies|s)$/, (m) => (m === 'ies' ? 'y' : '')) as TrashKind;
+  if (!TRASH_KINDS.includes(kind)) {
+    error(`Unknown kind "${value}". Use one of: ${TRASH_KINDS.join(', ')}`);
+    process.exit(1);
+  }
+  return kind;
+}
+
+// List what is in the trash, after purging anything that has expired
+export function trashListCommand(kindArg?: string): void {
+  const kind = parseKind(kindArg);
+  purgeExpiredTrash();
+  const items = getTrashItems(kind);
+  const days = trashRetentionDays();
+
+  console.log();
+  console.log(chalk.bold('Trash'));
+  console.log();
+
+  if (items.length === 0) {
+    console.log(chalk.dim('  The trash is empty'));
+    console.log();
+    return;
+  }
+
+  for (const item of items) {
+    const expires = days === null ? '' : chalk.dim(`  purged ${dayjs(item.deleted_at).add(days, 'day').format('YYYY-MM-DD')}`);
+    console.log(
+      `  ${item.kind.padEnd(9)} ${chalk.cyan(`#${item.id}`.padEnd(6))} ${item.label.padEnd(32)} ` +
+      `${chalk.dim(`deleted ${item.deleted_at}`)}${expires}`
+    );
+  }
+
+  console.log();
+  console.log(chalk.dim(
+    days === null
+      ? '  Items stay until the trash is emptied (tt trash empty)'
+      : `  Items are purged ${days} day(s) after deletion (trash.days)`
+  ));
+  console.log();
+}
+
+// Put an item back where it was
+export function trashRestoreCommand(kindArg: string, ref: string): void {
+  const kind = parseKind(kindArg)!;
+  try {
+    const item = restoreFromTrash(kind, ref);
+    success(`Restored ${kind} #${item.id}: ${item.label}`);
+  } catch (err) {
+    error((err as Error).message);
+    process.exit(1);
+  }
+}
+
+// Delete everything in the trash (or one kind of it) for good
+export function trashEmptyCommand(kindArg: string | undefined, options: { force?: boolean }): void {
+  const kind = parseKind(kindArg);
+  const items = getTrashItems(kind);
+
+  if (items.length === 0) {
+    info('The trash is already empty');
+    return;
+  }
+
+  if (!options.force) {
+    warn(`This permanently deletes ${items.length} item(s). Use --force (-f) to confirm`);
+    return;
+  }
+
+  const purged = purgeTrash({ kind });
+  success(`Permanently deleted ${purged} item(s)`);
+}
@@ -65,6 +65,7 @@ export function undoHistoryCommand(options?: { limit?: string }): void {
       case 'update_entry': return 'Updated entry';
       case 'stop_timer': return 'Stopped timer';
       case 'start_timer': return 'Started timer';
+      case 'recategorize_entries': return 'Re-categorized entries';
       default: return action.action_type;
     }
   };
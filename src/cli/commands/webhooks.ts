@@ -5,13 +5,11 @@ import {
   getWebhookById,
   deleteWebhook,
   getWebhookLogs,
-  ensureWebhooksTable,
 } from '../../storage/repositories/webhooks.js';
 import { success, error, info } from '../utils/format.js';
 
 // List webhooks
 export function webhooksListCommand(): void {
-  ensureWebhooksTable();
   const webhooks = getAllWebhooks();
 
   console.log();
@@ -69,8 +67,6 @@ export function webhooksAddCommand(name: string, url: string, options: {
 
 // Delete webhook
 export function webhooksDeleteCommand(nameOrId: string): void {
-  ensureWebhooksTable();
-
   // Try to find by ID or name
   const id = parseInt(nameOrId, 10);
   let found = false;
@@ -96,7 +92,6 @@ export function webhooksDeleteCommand(nameOrId: string): void {
 
 // Show webhook logs
 export function webhooksLogsCommand(options: { limit?: string; webhookId?: string }): void {
-  ensureWebhooksTable();
   const limit = options.limit ? parseInt(options.limit, 10) : 20;
   const webhookId = options.webhookId ? parseInt(options.webhookId, 10) : undefined;
   const logs = getWebhookLogs(webhookId, limit);
@@ -1,5 +1,4 @@
 import chalk from 'chalk';
-import Table from 'cli-table3';
 import asciichart from 'asciichart';
 import {
   getCategorySummary,
@@ -11,23 +10,32 @@ import {
 } from '../../storage/repositories/entries.js';
 import { getProjectByName } from '../../storage/repositories/projects.js';
 import { getTagByName } from '../../storage/repositories/tags.js';
-import { formatDuration, formatCategory, formatBar } from '../utils/format.js';
+import { formatDuration } from '../utils/format.js';
+import { parseWhereOption } from '../utils/where.js';
+import {
+  categoryRows,
+  checkCategoryView,
+  renderCategoryTable,
+  type CategoryViewOptions,
+} from '../utils/category-table.js';
 
-interface WeekOptions {
+interface WeekOptions extends CategoryViewOptions {
   weeksAgo?: number;
   previous?: string;
   project?: string;
   tag?: string;
   tags?: string;
+  where?: string;
 }
 
 export function weekCommand(options?: WeekOptions): void {
   const weeksAgo = options?.weeksAgo || (options?.previous ? parseInt(options.previous, 10) : 0);
   const { start, end } = getWeekRange(weeksAgo);
+  checkCategoryView(options);
 
   // Build filters
-  const filters: FilterOptions = {};
-  let filterDescription = '';
+  const filters: FilterOptions = { where: parseWhereOption(options?.where) };
+  let filterDescription = options?.where ? ` [where: ${options.where}]` : '';
 
   if (options?.project) {
     const project = getProjectByName(options.project);
@@ -60,16 +68,24 @@ export function weekCommand(options?: WeekOptions): void {
     }
   }
 
-  const hasFilters = filters.projectId || (filters.tagIds && filters.tagIds.length > 0);
+  if (options?.category) {
+    filterDescription += ` [category: ${options.category}]`;
+  }
+
+  const hasFilters = filters.projectId || (filters.tagIds && filters.tagIds.length > 0) || filters.where;
 
   const summary = hasFilters
     ? getCategorySummaryFiltered(start, end, filters)
     : getCategorySummary(start, end);
-  const dailyTotals = getDailyTotals(start, end);  // Note: daily/hourly charts don't filter
-  const hourlyData = getHourlyBreakdown(start, end);
+  // Note: daily/hourly charts only follow --where, not --project/--tag
+  const dailyTotals = getDailyTotals(start, end, filters.where);
+  const hourlyData = getHourlyBreakdown(start, end, filters.where);
 
-  // Calculate total seconds
-  const totalSeconds = summary.reduce((acc, s) => acc + s.total_seconds, 0);
+  // Roll child categories up into their parents
+  const rows = categoryRows(summary, options);
+  const totalSeconds = rows
+    .filter((row) => row.depth === 0)
+    .reduce((acc, row) => acc + row.node.total_seconds, 0);
 
   // Format date range
   const startDate = new Date(start);
@@ -81,8 +97,10 @@ export function weekCommand(options?: WeekOptions): void {
   console.log(chalk.dim(dateRange));
   console.log();
 
-  if (summary.length === 0) {
-    console.log(chalk.dim('  No time tracked this week.'));
+  if (rows.length === 0) {
+    console.log(chalk.dim(options?.category
+      ? `  No time tracked under ${options.category} this week.`
+      : '  No time tracked this week.'));
     console.log();
     return;
   }
@@ -97,34 +115,7 @@ export function weekCommand(options?: WeekOptions): void {
   console.log(chalk.bold('By Category'));
   console.log();
 
-  const table = new Table({
-    head: [
-      chalk.bold('Category'),
-      chalk.bold('Time'),
-      chalk.bold('%'),
-      chalk.bold(''),
-    ],
-    colWidths: [22, 12, 8, 24],
-    style: { head: [], border: [] },
-    chars: {
-      top: '─', 'top-mid': '─', 'top-left': '', 'top-right': '',
-      bottom: '─', 'bottom-mid': '─', 'bottom-left': '', 'bottom-right': '',
-      left: '', 'left-mid': '', mid: '─', 'mid-mid': '─',
-      right: '', 'right-mid': '', middle: ' ',
-    },
-  });
-
-  for (const item of summary) {
-    const percentage = totalSeconds > 0 ? (item.total_seconds / totalSeconds) * 100 : 0;
-    table.push([
-      '  ' + formatCategory(item.category, item.color),
-      formatDuration(item.total_seconds),
-      `${percentage.toFixed(1)}%`,
-      formatBar(percentage, 20),
-    ]);
-  }
-
-  console.log(table.toString());
+  console.log(renderCategoryTable(rows, totalSeconds));
   console.log();
 
   // Hourly heatmap
@@ -3,12 +3,12 @@ import chalk from 'chalk';
 import { startCommand } from './commands/start.js';
 import { stopCommand } from './commands/stop.js';
 import { statusCommand } from './commands/status.js';
-import { listCategories, addCategory, removeCategory } from './commands/categories.js';
+import { listCategories, addCategory, removeCategory, moveCategory, editCategory } from './commands/categories.js';
 import { todayCommand } from './commands/today.js';
 import { weekCommand } from './commands/week.js';
 import { exportCsv, exportJson } from './commands/export.js';
 import { logCommand } from './commands/log.js';
-import { rulesList, rulesAdd, rulesRemove, rulesExamples } from './commands/rules.js';
+import { rulesList, rulesAdd, rulesRemove, rulesExamples, rulesApply, rulesSuggest, rulesExport, rulesImport, rulesExplain, rulesTest } from './commands/rules.js';
 import {
   daemonStart,
   daemonStop,
@@ -17,7 +17,9 @@ import {
   daemonInstall,
   daemonUninstall,
   daemonStatusFull,
+  daemonSimulate,
 } from './commands/daemon.js';
+import { browserInstall, browserUninstall, browserStatus } from './commands/browser.js';
 import { detectCommand, detectWatch } from './commands/detect.js';
 import {
   configListCommand,
@@ -52,6 +54,8 @@ import {
   showProject,
   editProject,
   listClients,
+  linkProject,
+  unlinkProject,
 } from './commands/projects.js';
 import {
   listTags,
@@ -158,15 +162,31 @@ import {
   jiraConfigCommand,
   jiraIssuesCommand,
   jiraLogCommand,
+  gitInstallHookCommand,
+  gitUninstallHookCommand,
+  gitRecordCommand,
   integrateStatusCommand,
 } from './commands/integrate.js';
 import { setupWizard, quickSetupCommand } from './commands/setup.js';
+import { dbMigrateCommand } from './commands/db.js';
+import {
+  backupListCommand,
+  backupNowCommand,
+  backupRestoreCommand,
+  backupDiffCommand,
+} from './commands/backup.js';
+import { trashListCommand, trashRestoreCommand, trashEmptyCommand } from './commands/trash.js';
 import {
   syncStatusCommand,
   syncEnableCommand,
   syncDisableCommand,
   syncNowCommand,
   syncConfigCommand,
+  syncServeCommand,
+  syncConflictsListCommand,
+  syncConflictsShowCommand,
+  syncConflictsResolveCommand,
+  syncPassphraseCommand,
 } from './commands/sync.js';
 import {
   predictTodayCommand,
@@ -234,6 +254,8 @@ export function createCLI(): Command {
     .command('list')
     .description('Show recent time entries with IDs')
     .option('-n, --limit <number>', 'Number of entries to show', '20')
+    .option('--commits', 'Show the git commits made during each entry')
+    .option('-w, --where <expr>', 'Filter entries, e.g. "tag:review manual:true"')
     .action((options) => {
       listCommand(options);
     });
@@ -254,7 +276,7 @@ export function createCLI(): Command {
   // Delete entry
   program
     .command('delete <id>')
-    .description('Delete a time entry')
+    .description('Move a time entry to the trash')
     .option('-f, --force', 'Skip confirmation')
     .action((id, options) => {
       deleteCommand(id, options);
@@ -294,10 +316,14 @@ export function createCLI(): Command {
   // Search entries
   program
     .command('search <query>')
-    .description('Search entries by note content')
+    .description('Search entries ("phrase", prefix*, AND/OR/NOT, title: app: project: tag: notes:)')
     .option('-n, --limit <number>', 'Maximum results to show', '20')
-    .action((query, options) => {
-      searchCommand(query, options);
+    .option('--from <date>', 'Only entries on or after this date (YYYY-MM-DD)')
+    .option('--to <date>', 'Only entries on or before this date (YYYY-MM-DD)')
+    .option('--unlock', 'Ask for the encryption password and search encrypted notes too')
+    .option('-w, --where <expr>', 'Narrow the results, e.g. "category:programming duration>30m"')
+    .action(async (query, options) => {
+      await searchCommand(query, options);
     });
 
   // Today's summary
@@ -307,6 +333,10 @@ export function createCLI(): Command {
     .option('-p, --project <project>', 'Filter by project')
     .option('--tag <tag>', 'Filter by tag')
     .option('--tags <tags>', 'Filter by tags (comma-separated)')
+    .option('--category <category>', 'Drill down into one category and its subcategories')
+    .option('--depth <n>', 'Subcategory levels to show (0 = top level only)')
+    .option('--commits', 'List the git commits made during each entry')
+    .option('-w, --where <expr>', 'Filter entries, e.g. "project:acme tag:review duration>30m"')
     .action((options) => {
       todayCommand(options);
     });
@@ -319,6 +349,9 @@ export function createCLI(): Command {
     .option('-p, --project <project>', 'Filter by project')
     .option('--tag <tag>', 'Filter by tag')
     .option('--tags <tags>', 'Filter by tags (comma-separated)')
+    .option('--category <category>', 'Drill down into one category and its subcategories')
+    .option('--depth <n>', 'Subcategory levels to show (0 = top level only)')
+    .option('-w, --where <expr>', 'Filter entries, e.g. "project:acme tag:review duration>30m"')
     .action((options) => {
       weekCommand(options);
     });
@@ -328,8 +361,16 @@ export function createCLI(): Command {
     .command('month')
     .description('Show monthly summary with charts')
     .option('-p, --previous <months>', 'Show previous month (1 = last month)', '0')
+    .option('--category <category>', 'Drill down into one category and its subcategories')
+    .option('--depth <n>', 'Subcategory levels to show (0 = top level only)')
+    .option('-w, --where <expr>', 'Filter entries, e.g. "project:acme tag:review duration>30m"')
     .action((options) => {
-      monthCommand({ monthsAgo: parseInt(options.previous, 10) });
+      monthCommand({
+        monthsAgo: parseInt(options.previous, 10),
+        category: options.category,
+        depth: options.depth,
+        where: options.where,
+      });
     });
 
   // Period comparison
@@ -418,8 +459,8 @@ export function createCLI(): Command {
 
   projects
     .command('remove <name>')
-    .description('Archive or delete a project')
-    .option('-f, --force', 'Permanently delete')
+    .description('Archive a project, or move it to the trash')
+    .option('-f, --force', 'Move to the trash instead of archiving')
     .action((name, options) => {
       removeProject(name, options);
     });
@@ -441,6 +482,7 @@ export function createCLI(): Command {
     .option('-r, --rate <rate>', 'Change hourly rate')
     .option('-b, --billable', 'Mark as billable')
     .option('--not-billable', 'Mark as not billable')
+    .option('--productivity <level>', 'Override category productivity (-2..2, or "none")')
     .action((name, options) => {
       editProject(name, options);
     });
@@ -456,6 +498,22 @@ export function createCLI(): Command {
       }
     });
 
+  projects
+    .command('link <name>')
+    .description('Link a git repository to a project (daemon entries in it get the project)')
+    .option('--repo <path>', 'Path inside the repository (default: current directory)')
+    .option('--remote <url>', 'Match any clone of this remote URL instead of a path')
+    .action((name, options) => {
+      linkProject(name, options);
+    });
+
+  projects
+    .command('unlink <name> [repo]')
+    .description('Unlink a repository (path or remote), or all of them')
+    .action((name, repo) => {
+      unlinkProject(name, repo);
+    });
+
   projects
     .command('clients')
     .description('List all clients')
@@ -492,7 +550,7 @@ export function createCLI(): Command {
 
   tags
     .command('remove <name>')
-    .description('Remove a tag')
+    .description('Move a tag to the trash')
     .action((name) => {
       removeTag(name);
     });
@@ -502,6 +560,7 @@ export function createCLI(): Command {
     .description('Edit a tag')
     .option('--rename <name>', 'Rename tag')
     .option('-c, --color <color>', 'Change color')
+    .option('--productivity <level>', 'Override productivity of tagged entries (-2..2, or "none")')
     .action((name, options) => {
       editTag(name, options);
     });
@@ -766,7 +825,7 @@ export function createCLI(): Command {
 
   template
     .command('remove <name>')
-    .description('Remove a template')
+    .description('Move a template to the trash')
     .action((name) => {
       removeTemplate(name);
     });
@@ -825,6 +884,8 @@ export function createCLI(): Command {
     .option('--week', 'Export current week')
     .option('--today', 'Export today only')
     .option('-o, --output <file>', 'Output file path')
+    .option('--commits', 'Add the git commits made during each entry')
+    .option('-w, --where <expr>', 'Filter entries, e.g. "category:programming after:2026-09-01"')
     .action((options) => {
       exportCsv(options);
     });
@@ -837,6 +898,8 @@ export function createCLI(): Command {
     .option('--week', 'Export current week')
     .option('--today', 'Export today only')
     .option('-o, --output <file>', 'Output file path')
+    .option('--commits', 'Add the git commits made during each entry')
+    .option('-w, --where <expr>', 'Filter entries, e.g. "category:programming after:2026-09-01"')
     .action((options) => {
       exportJson(options);
     });
@@ -858,11 +921,30 @@ export function createCLI(): Command {
     .description('Add a new category')
     .option('-c, --color <color>', 'Hex color code (e.g., #61AFEF)')
     .option('-d, --description <description>', 'Category description')
-    .option('-u, --unproductive', 'Mark as unproductive')
+    .option('-u, --unproductive', 'Mark as not productive (same as --productivity neutral)')
+    .option('--productivity <level>', 'Productivity level: -2 (very distracting) to 2 (very productive)')
+    .option('-p, --parent <parent>', 'Nest under an existing category')
     .action((name, options) => {
       addCategory(name, options);
     });
 
+  categories
+    .command('edit <name>')
+    .description('Edit a category')
+    .option('-c, --color <color>', 'Change color')
+    .option('-d, --description <description>', 'Change description')
+    .option('--productivity <level>', 'Productivity level: -2 (very distracting) to 2 (very productive)')
+    .action((name, options) => {
+      editCategory(name, options);
+    });
+
+  categories
+    .command('move <name> [parent]')
+    .description('Move a category under a parent (omit parent for top level)')
+    .action((name, parent) => {
+      moveCategory(name, parent);
+    });
+
   categories
     .command('remove <name>')
     .description('Remove a category')
@@ -890,15 +972,79 @@ export function createCLI(): Command {
   rules
     .command('add')
     .description('Add a new categorization rule')
-    .requiredOption('-c, --category <category>', 'Category to assign')
     .option('-a, --app <pattern>', 'App name pattern')
     .option('-b, --bundle <id>', 'App bundle ID')
     .option('-w, --window <pattern>', 'Window title pattern')
+    .option('-d, --domain <pattern>', 'Browser tab domain (e.g. github.com, *.atlassian.net)')
+    .option('-c, --category <category>', 'Category to assign')
+    .option('--project <project>', 'Project to assign')
+    .option('-t, --tags <tags>', 'Tags to add (comma-separated)')
+    .option('-n, --notes <template>', 'Note template ({app}, {title}, {domain}, {project})')
     .option('-p, --priority <number>', 'Rule priority (higher = checked first)')
     .action((options) => {
       rulesAdd(options);
     });
 
+  rules
+    .command('apply')
+    .description('Re-run the rules over past auto-tracked entries')
+    .option('--from <date>', 'Start date (YYYY-MM-DD)')
+    .option('--to <date>', 'End date (YYYY-MM-DD)')
+    .option('--only-uncategorized', 'Only entries without a category')
+    .option('--dry-run', 'Show the changes without applying them')
+    .action((options) => {
+      rulesApply(options);
+    });
+
+  rules
+    .command('suggest')
+    .description('Suggest rules learned from manual category corrections')
+    .option('--min-support <count>', 'Corrections needed to back a rule (default: 3)')
+    .action((options) => {
+      rulesSuggest(options);
+    });
+
+  rules
+    .command('explain')
+    .description('Show which rules and patterns decide a window\'s category')
+    .option('-a, --app <name>', 'App name')
+    .option('-b, --bundle <id>', 'App bundle ID')
+    .option('-t, --title <title>', 'Window title')
+    .option('-d, --domain <domain>', 'Browser tab domain')
+    .option('-e, --entry <id>', 'Explain a stored entry instead')
+    .option('--all', 'List every pattern, including those not reached')
+    .action((options) => {
+      rulesExplain(options);
+    });
+
+  rules
+    .command('test <file>')
+    .description('Check window samples against their expected categories')
+    .option('--pack <file>', 'Test a rule pack on its own instead of the current rules')
+    .action((file, options) => {
+      rulesTest(file, options);
+    });
+
+  rules
+    .command('export')
+    .description('Export rules as a shareable rule pack')
+    .option('-o, --output <file>', 'Output file path (.yaml or .yml writes YAML, otherwise JSON)')
+    .option('--name <name>', 'Pack name (default: my-rules)')
+    .option('--pack-version <version>', 'Pack version (default: 1.0.0)')
+    .option('--pack <name>', 'Only rules imported from this pack')
+    .action((options) => {
+      rulesExport(options);
+    });
+
+  rules
+    .command('import <file>')
+    .description('Import a rule pack (JSON, or YAML for .yaml/.yml files)')
+    .option('--on-conflict <strategy>', "The pack's rules with the same patterns: update, skip or replace (default: update)")
+    .option('--dry-run', 'Show the changes without importing')
+    .action((file, options) => {
+      rulesImport(file, options);
+    });
+
   rules
     .command('remove <id>')
     .description('Remove a rule by ID')
@@ -966,11 +1112,54 @@ export function createCLI(): Command {
       daemonUninstall();
     });
 
+  daemon
+    .command('simulate <file>')
+    .description('Replay a JSONL window timeline through the tracker (uses a scratch database)')
+    .option('-s, --speed <factor>', 'Virtual seconds per real second (default: as fast as possible)')
+    .option('-i, --interval <seconds>', 'Poll interval override')
+    .option('--fresh', 'Start from an empty database instead of a copy of yours')
+    .action(async (file, options) => {
+      await daemonSimulate(file, options);
+    });
+
   // Default: show daemon status if no subcommand
   daemon.action(() => {
     daemonStatusFull();
   });
 
+  // Browser companion (active tab domains)
+  const browser = program
+    .command('browser')
+    .description('Report browser tab domains to the daemon (local only)');
+
+  browser
+    .command('install')
+    .description('Register the native messaging host with your browsers')
+    .option('-b, --browser <name>', 'Only this browser (chrome, chromium, brave, edge, firefox)')
+    .option('--extension-id <ids...>', 'Also allow these extension IDs')
+    .action((options) => {
+      browserInstall(options);
+    });
+
+  browser
+    .command('uninstall')
+    .description('Remove the native messaging host')
+    .option('-b, --browser <name>', 'Only this browser')
+    .action((options) => {
+      browserUninstall(options);
+    });
+
+  browser
+    .command('status')
+    .description('Show host registration and the last reported tabs')
+    .action(() => {
+      browserStatus();
+    });
+
+  browser.action(() => {
+    browserStatus();
+  });
+
   // Configuration management
   const config = program
     .command('config')
@@ -1164,6 +1353,7 @@ export function createCLI(): Command {
     .option('--to <date>', 'End date (YYYY-MM-DD)')
     .option('--month <month>', 'Invoice for a month (YYYY-MM)')
     .option('-r, --rate <rate>', 'Hourly rate')
+    .option('-w, --where <expr>', 'Only bill matching entries, e.g. "tag:billable -category:meetings"')
     .action((options) => {
       invoiceCreateCommand(options);
     });
@@ -1187,13 +1377,14 @@ export function createCLI(): Command {
     .description('Export invoice to file')
     .option('-f, --format <format>', 'Format (html or text)', 'html')
     .option('-o, --output <file>', 'Output file path')
+    .option('--commits', 'List the git commits of each line item')
     .action((id, options) => {
       invoiceExportCommand(id, options);
     });
 
   invoiceCmd
     .command('delete <id>')
-    .description('Delete an invoice')
+    .description('Move an invoice to the trash')
     .action((id) => {
       invoiceDeleteCommand(id);
     });
@@ -1365,10 +1556,10 @@ export function createCLI(): Command {
     webhooksListCommand();
   });
 
-  // Integration commands (GitHub, Jira)
+  // Integration commands (GitHub, Jira, git)
   const integrate = program
     .command('integrate')
-    .description('External integrations (GitHub, Jira)');
+    .description('External integrations (GitHub, Jira, git)');
 
   integrate
     .command('status')
@@ -1455,6 +1646,32 @@ export function createCLI(): Command {
     jiraConfigCommand({});
   });
 
+  // Git subcommands
+  const git = integrate
+    .command('git')
+    .description('Record git commits against time entries');
+
+  git
+    .command('install-hook [repo]')
+    .description('Install a post-commit hook in a repository (default: current)')
+    .action((repo) => {
+      gitInstallHookCommand(repo);
+    });
+
+  git
+    .command('uninstall-hook [repo]')
+    .description('Remove the post-commit hook from a repository')
+    .action((repo) => {
+      gitUninstallHookCommand(repo);
+    });
+
+  git
+    .command('record [repo]')
+    .description('Record the latest commit (run by the hook)')
+    .action((repo) => {
+      gitRecordCommand(repo);
+    });
+
   // Default: show integration status
   integrate.action(() => {
     integrateStatusCommand();
@@ -1551,6 +1768,90 @@ export function createCLI(): Command {
     privacyStatusCommand();
   });
 
+  // Database maintenance
+  const dbCmd = program
+    .command('db')
+    .description('Database maintenance');
+
+  dbCmd
+    .command('migrate')
+    .description('Apply pending schema migrations (a backup is taken first)')
+    .option('--status', 'List migrations and whether each is applied')
+    .option('--to <migration>', 'Migrate forward or back to a migration (e.g. 018) and pin the schema there')
+    .option('--rollback [steps]', 'Roll back the most recent migrations (default 1)')
+    .action((options) => {
+      dbMigrateCommand(options);
+    });
+
+  // Local backups (taken hourly by the daemon)
+  const backup = program
+    .command('backup')
+    .description('Local database backups and point-in-time restore');
+
+  backup
+    .command('list')
+    .description('List backups and verify their checksums')
+    .action(() => {
+      backupListCommand();
+    });
+
+  backup
+    .command('now')
+    .description('Take a backup now')
+    .option('--encrypt', 'Encrypt the backup (asks for the encryption password)')
+    .action(async (options) => {
+      await backupNowCommand(options);
+    });
+
+  backup
+    .command('restore <backup>')
+    .description('Restore a backup by id, or the newest at or before a time (e.g. "2026-10-18 14:00")')
+    .action(async (ref) => {
+      await backupRestoreCommand(ref);
+    });
+
+  backup
+    .command('diff <backup>')
+    .description('Show entries added, removed or edited since a backup')
+    .action(async (ref) => {
+      await backupDiffCommand(ref);
+    });
+
+  backup.action(() => {
+    backupListCommand();
+  });
+
+  // Trash (deleted items, purged after trash.days)
+  const trash = program
+    .command('trash')
+    .description('Restore or permanently delete trashed entries, projects, tags, templates and invoices');
+
+  trash
+    .command('list [kind]')
+    .description('List trashed items, optionally of one kind')
+    .action((kind) => {
+      trashListCommand(kind);
+    });
+
+  trash
+    .command('restore <kind> <item>')
+    .description('Restore an item by id or name (e.g. "tt trash restore project Website")')
+    .action((kind, item) => {
+      trashRestoreCommand(kind, item);
+    });
+
+  trash
+    .command('empty [kind]')
+    .description('Permanently delete trashed items')
+    .option('-f, --force', 'Skip confirmation')
+    .action((kind, options) => {
+      trashEmptyCommand(kind, options);
+    });
+
+  trash.action(() => {
+    trashListCommand();
+  });
+
   // Sync commands (multi-device synchronization)
   const sync = program
     .command('sync')
@@ -1570,7 +1871,7 @@ export function createCLI(): Command {
     .option('-s, --server <url>', 'Sync server URL')
     .option('-k, --api-key <key>', 'API key for server sync')
     .option('-i, --interval <minutes>', 'Sync interval in minutes')
-    .option('-c, --conflict <mode>', 'Conflict resolution (local, remote, newest)')
+    .option('-c, --conflict <mode>', 'Conflict resolution (local, remote, newest, manual)')
     .action((options) => {
       syncEnableCommand(options);
     });
@@ -1593,12 +1894,63 @@ export function createCLI(): Command {
     .command('config')
     .description('Configure sync settings')
     .option('-i, --interval <minutes>', 'Sync interval in minutes')
-    .option('-c, --conflict <mode>', 'Conflict resolution (local, remote, newest)')
+    .option('-c, --conflict <mode>', 'Conflict resolution (local, remote, newest, manual)')
     .option('-a, --auto-sync <bool>', 'Enable/disable auto-sync')
     .action((options) => {
       syncConfigCommand(options);
     });
 
+  sync
+    .command('serve')
+    .description('Run a self-hosted sync server')
+    .option('-p, --port <port>', 'Port to listen on', '7878')
+    .option('-H, --host <host>', 'Host to bind (default: 127.0.0.1)')
+    .option('-k, --api-key <key>', 'API key clients must send (generated if omitted)')
+    .option('-d, --data <path>', 'Path to the server store database')
+    .action(async (options) => {
+      await syncServeCommand(options);
+    });
+
+  sync
+    .command('passphrase')
+    .description('Set the shared passphrase that encrypts sync data')
+    .option('--remove', 'Forget the passphrase on this device')
+    .action(async (options) => {
+      await syncPassphraseCommand(options);
+    });
+
+  const syncConflicts = sync
+    .command('conflicts')
+    .description('Review conflicting edits from other devices');
+
+  syncConflicts
+    .command('list')
+    .description('List conflicts waiting for review')
+    .option('-a, --all', 'Include resolved conflicts')
+    .action((options) => {
+      syncConflictsListCommand(options);
+    });
+
+  syncConflicts
+    .command('show <id>')
+    .description('Show both versions of a conflicting row')
+    .action((id) => {
+      syncConflictsShowCommand(id);
+    });
+
+  syncConflicts
+    .command('resolve <id>')
+    .description('Resolve a conflict')
+    .option('-t, --take <version>', 'Version to keep (local, remote, merge)')
+    .action((id, options) => {
+      syncConflictsResolveCommand(id, options);
+    });
+
+  // Default: list open conflicts
+  syncConflicts.action(() => {
+    syncConflictsListCommand({});
+  });
+
   // Default: show sync status
   sync.action(() => {
     syncStatusCommand();
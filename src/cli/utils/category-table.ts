@@ -0,0 +1,81 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  buildCategoryTree,
+  findCategoryNode,
+  flattenCategoryTree,
+  type CategoryTreeRow,
+} from '../../core/category-tree.js';
+import { getCategoryByName } from '../../storage/repositories/categories.js';
+import { formatDuration, formatCategory, formatBar, error } from './format.js';
+import type { CategorySummary } from '../../types/index.js';
+
+// Drill-down options shared by today, week and month
+export interface CategoryViewOptions {
+  category?: string;
+  depth?: string;
+}
+
+// Roll a summary up into tree rows, optionally narrowed to one category's subtree
+export function categoryRows(summary: CategorySummary[], options?: CategoryViewOptions): CategoryTreeRow[] {
+  let nodes = buildCategoryTree(summary);
+
+  if (options?.category) {
+    const node = findCategoryNode(nodes, options.category);
+    nodes = node ? [node] : [];
+  }
+
+  const maxDepth = options?.depth !== undefined ? parseInt(options.depth, 10) : Infinity;
+  return flattenCategoryTree(nodes, maxDepth);
+}
+
+// Check drill-down options before any output is printed
+export function checkCategoryView(options?: CategoryViewOptions): void {
+  if (options?.category && !getCategoryByName(options.category) && options.category !== 'uncategorized') {
+    error(`Category "${options.category}" not found`);
+    process.exit(1);
+  }
+  if (options?.depth !== undefined && !/^\d+$/.test(options.depth)) {
+    error('Depth must be a whole number (0 = top-level categories only)');
+    process.exit(1);
+  }
+}
+
+// Category breakdown table; child categories are indented under their parent
+export function renderCategoryTable(
+  rows: CategoryTreeRow[],
+  totalSeconds: number,
+  activeCategory?: string | null
+): string {
+  const table = new Table({
+    head: [
+      chalk.bold('Category'),
+      chalk.bold('Time'),
+      chalk.bold('%'),
+      chalk.bold(''),
+    ],
+    colWidths: [22, 12, 8, 24],
+    style: { head: [], border: [] },
+    chars: {
+      top: '─', 'top-mid': '─', 'top-left': '', 'top-right': '',
+      bottom: '─', 'bottom-mid': '─', 'bottom-left': '', 'bottom-right': '',
+      left: '', 'left-mid': '', mid: '─', 'mid-mid': '─',
+      right: '', 'right-mid': '', middle: ' ',
+    },
+  });
+
+  for (const { node, depth } of rows) {
+    const percentage = totalSeconds > 0 ? (node.total_seconds / totalSeconds) * 100 : 0;
+    const marker = activeCategory === node.category ? chalk.green('● ') : '  ';
+    const indent = depth > 0 ? '  '.repeat(depth - 1) + chalk.dim('└ ') : '';
+
+    table.push([
+      marker + indent + formatCategory(node.category, node.color),
+      formatDuration(node.total_seconds),
+      `${percentage.toFixed(1)}%`,
+      formatBar(percentage, 20),
+    ]);
+  }
+
+  return table.toString();
+}
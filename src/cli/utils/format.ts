@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import type { GitCommit } from '../../types/index.js';
 
 // Format seconds as human-readable duration
 export function formatDuration(seconds: number): string {
@@ -67,6 +68,13 @@ export function formatDate(isoString: string): string {
   });
 }
 
+// Commit as "a1b2c3d Fix login redirect (#12, PROJ-4)": first line of the message and issues it doesn't name
+export function formatCommit(commit: GitCommit): string {
+  const subject = commit.message.split('\n')[0];
+  const issues = [commit.github_issue, commit.jira_key].filter((issue) => issue && !subject.includes(issue));
+  return `${commit.sha.slice(0, 7)} ${subject}${issues.length > 0 ? ` (${issues.join(', ')})` : ''}`;
+}
+
 // Success message
 export function success(message: string): void {
   console.log(chalk.green('✓'), message);
@@ -0,0 +1,17 @@
+import chalk from 'chalk';
+import { parseEntryQuery } from '../../core/entry-query.js';
+import { error } from './format.js';
+import type { EntryQuery } from '../../types/index.js';
+
+// Compile a --where option, or exit with the syntax error before any output
+export function parseWhereOption(expression?: string): EntryQuery | undefined {
+  if (expression === undefined) return undefined;
+
+  try {
+    return parseEntryQuery(expression);
+  } catch (err) {
+    error(`Invalid --where: ${(err as Error).message}`);
+    console.log(chalk.dim('  e.g. --where "category:programming project:acme after:2026-09-01 duration>30m"'));
+    process.exit(1);
+  }
+}
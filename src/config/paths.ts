@@ -32,6 +32,22 @@ export function getDatabasePath(): string {
   return join(getDataDir(), 'timer-record.db');
 }
 
+// Get directory for local database snapshots
+export function getBackupDir(): string {
+  const backupDir = join(getDataDir(), 'backups');
+
+  if (!existsSync(backupDir)) {
+    mkdirSync(backupDir, { recursive: true });
+  }
+
+  return backupDir;
+}
+
+// Get path of the active browser tabs reported by the extension
+export function getBrowserTabsPath(): string {
+  return join(getDataDir(), 'browser-tabs.json');
+}
+
 // Get socket path for daemon IPC
 export function getSocketPath(): string {
   return '/tmp/timer-record.sock';
@@ -1,7 +1,8 @@
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { getConfigDir } from './paths.js';
-import type { Config } from '../types/index.js';
+import { CONTEXT_KEY_MODES } from '../categorization/context.js';
+import type { Config, ContextKeyMode } from '../types/index.js';
 
 const CONFIG_FILE = 'config.json';
 
@@ -15,7 +16,15 @@ export const DEFAULT_CONFIG: Config = {
   'pomodoro.break': 5,       // 5 minutes break duration
   'pomodoro.longBreak': 15,  // 15 minutes long break
   'pomodoro.sessionsBeforeLongBreak': 4, // 4 sessions before long break
+  contextKey: 'app',         // same app = same entry
+  contextDebounce: 10,       // ignore switches shorter than 10 seconds
+  classifierThreshold: 0.8,  // learned categories need 80% confidence
   autoPauseEnabled: true,    // auto-pause on idle detection (default: true)
+  'backup.enabled': true,    // hourly snapshots while the daemon runs
+  'backup.hourly': 24,       // keep the last 24 hours
+  'backup.daily': 7,         // then one a day for a week
+  'backup.weekly': 4,        // then one a week for a month
+  'trash.days': 30,          // deleted items are purged after 30 days
 };
 
 // Valid config keys for validation
@@ -28,7 +37,15 @@ export const CONFIG_KEYS = [
   'pomodoro.break',
   'pomodoro.longBreak',
   'pomodoro.sessionsBeforeLongBreak',
+  'contextKey',
+  'contextDebounce',
+  'classifierThreshold',
   'autoPauseEnabled',
+  'backup.enabled',
+  'backup.hourly',
+  'backup.daily',
+  'backup.weekly',
+  'trash.days',
 ] as const;
 export type ConfigKey = (typeof CONFIG_KEYS)[number];
 
@@ -156,13 +173,33 @@ export function parseConfigValue(key: ConfigKey, value: string): Config[ConfigKe
       }
       return num;
     }
+    case 'contextKey':
+      if (!CONTEXT_KEY_MODES.includes(value as ContextKeyMode)) {
+        throw new Error(`contextKey must be one of: ${CONTEXT_KEY_MODES.join(', ')}`);
+      }
+      return value as ContextKeyMode;
+    case 'contextDebounce': {
+      const num = parseInt(value, 10);
+      if (isNaN(num) || num < 0 || num > 300) {
+        throw new Error('contextDebounce must be between 0 and 300 seconds');
+      }
+      return num;
+    }
+    case 'classifierThreshold': {
+      const num = parseFloat(value);
+      if (isNaN(num) || num < 0 || num > 1) {
+        throw new Error('classifierThreshold must be between 0 and 1');
+      }
+      return num;
+    }
     case 'defaultCategory':
       // Empty string or "null" means no default category
       if (value === '' || value.toLowerCase() === 'null') {
         return null;
       }
       return value;
-    case 'autoPauseEnabled': {
+    case 'autoPauseEnabled':
+    case 'backup.enabled': {
       const normalized = value.toLowerCase();
       if (normalized === 'true' || normalized === '1' || normalized === 'yes') {
         return true;
@@ -170,7 +207,24 @@ export function parseConfigValue(key: ConfigKey, value: string): Config[ConfigKe
       if (normalized === 'false' || normalized === '0' || normalized === 'no') {
         return false;
       }
-      throw new Error('autoPauseEnabled must be true or false');
+      throw new Error(`${key} must be true or false`);
+    }
+    case 'backup.hourly':
+    case 'backup.daily':
+    case 'backup.weekly': {
+      const num = parseInt(value, 10);
+      if (isNaN(num) || num < 0 || num > 365) {
+        throw new Error(`${key} must be between 0 and 365 backups`);
+      }
+      return num;
+    }
+    case 'trash.days': {
+      // 0 keeps trashed items until the trash is emptied
+      const num = parseInt(value, 10);
+      if (isNaN(num) || num < 0 || num > 3650) {
+        throw new Error('trash.days must be between 0 and 3650 days');
+      }
+      return num;
     }
     default:
       throw new Error(`Unknown config key: ${key}`);
@@ -192,6 +246,7 @@ export function formatConfigValue(key: ConfigKey, value: Config[ConfigKey]): str
       case 'idleThreshold':
         return `${value} seconds (${Math.floor(value / 60)} min)`;
       case 'minEntryDuration':
+      case 'contextDebounce':
         return `${value} seconds`;
       case 'pomodoro.work':
       case 'pomodoro.break':
@@ -199,6 +254,12 @@ export function formatConfigValue(key: ConfigKey, value: Config[ConfigKey]): str
         return `${value} minutes`;
       case 'pomodoro.sessionsBeforeLongBreak':
         return `${value} sessions`;
+      case 'backup.hourly':
+      case 'backup.daily':
+      case 'backup.weekly':
+        return `${value} backups`;
+      case 'trash.days':
+        return value === 0 ? 'kept until emptied' : `${value} days`;
       default:
         return String(value);
     }
@@ -14,7 +14,7 @@ export interface PauseResult {
 /**
  * Get current timestamp in SQLite format (YYYY-MM-DD HH:MM:SS)
  */
-function getSQLTimestamp(date = new Date()): string {
+export function getSQLTimestamp(date = new Date()): string {
   const pad = (value: number): string => value.toString().padStart(2, '0');
   return [
     date.getFullYear(),
@@ -44,16 +44,15 @@ function parseSQLTimestamp(timestamp: string): Date | null {
 /**
  * Calculate seconds elapsed since a given timestamp
  */
-function getSecondsSince(timestamp: string): number {
+function getSecondsSince(timestamp: string, now = new Date()): number {
   const past = parseSQLTimestamp(timestamp) ?? new Date(timestamp);
-  const now = new Date();
   return Math.floor((now.getTime() - past.getTime()) / 1000);
 }
 
 /**
  * Pause the currently active entry (auto-pause on idle detection)
  */
-export function pauseActiveEntry(): TimeEntry | null {
+export function pauseActiveEntry(now = new Date()): TimeEntry | null {
   const active = getActiveEntry();
   if (!active) {
     return null;
@@ -71,7 +70,7 @@ export function pauseActiveEntry(): TimeEntry | null {
 
   // Update entry to paused state
   const entry = updateEntry(active.id, {
-    pausedAt: getSQLTimestamp(),
+    pausedAt: getSQLTimestamp(now),
     autoPaused: true,
   });
 
@@ -104,7 +103,7 @@ export function pauseActiveEntry(): TimeEntry | null {
 /**
  * Resume from paused entry (calculate and accumulate pause duration)
  */
-export function resumeFromPause(): TimeEntry | null {
+export function resumeFromPause(now = new Date()): TimeEntry | null {
   const active = getActiveEntry();
   if (!active || !active.auto_paused || !active.paused_at) {
     return null;
@@ -116,7 +115,7 @@ export function resumeFromPause(): TimeEntry | null {
   }
 
   // Calculate pause duration
-  const pauseDurationSeconds = getSecondsSince(active.paused_at);
+  const pauseDurationSeconds = getSecondsSince(active.paused_at, now);
 
   // Update entry to resumed state
   const entry = updateEntry(active.id, {
@@ -154,9 +153,10 @@ export function resumeFromPause(): TimeEntry | null {
 /**
  * Check idle state and automatically pause/resume as needed
  * @param idleTime Optional pre-calculated idle time to avoid redundant checks
+ * @param now Time of the check (the tracker passes its detector's clock)
  * @returns {PauseResult} Information about pause state change
  */
-export function checkAndHandleIdle(idleTime?: number): PauseResult {
+export function checkAndHandleIdle(idleTime?: number, now = new Date()): PauseResult {
   const config = loadConfig();
   const autoPauseEnabled = config.autoPauseEnabled ?? true;
 
@@ -175,13 +175,13 @@ export function checkAndHandleIdle(idleTime?: number): PauseResult {
 
   // User is idle - pause if not already paused
   if (currentIdleTime > idleThreshold && !active.auto_paused) {
-    const entry = pauseActiveEntry();
+    const entry = pauseActiveEntry(now);
     return { paused: true, entry, action: 'paused' };
   }
 
   // User is active - resume if currently paused
   if (currentIdleTime <= idleThreshold && active.auto_paused) {
-    const entry = resumeFromPause();
+    const entry = resumeFromPause(now);
     return { paused: false, entry, action: 'resumed' };
   }
 
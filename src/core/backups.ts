@@ -0,0 +1,177 @@
+/**
+ * Scheduled Backups and Point-in-Time Restore
+ *
+ * The daemon calls runScheduledBackup() every few minutes; it writes a backup
+ * when the last scheduled one is an hour old and then thins older ones to the
+ * `backup.hourly`, `backup.daily` and `backup.weekly` tiers. Backups are
+ * encrypted with the encryption key when it is unlocked in the process taking
+ * them (notes encrypted field by field stay encrypted either way).
+ *
+ * A restore verifies the checksum and integrity of the backup, snapshots the
+ * current database as `pre-restore`, then swaps the file in. Restored
+ * databases from before a schema change are migrated when reopened.
+ */
+
+import Database from 'better-sqlite3';
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import dayjs from 'dayjs';
+import { getDatabase, closeDatabase } from '../storage/database.js';
+import {
+  backupDatabase,
+  backupPath,
+  checkBackup,
+  checkIntegrity,
+  findBackup,
+  listBackups,
+  pruneScheduledBackups,
+  snapshotDatabase,
+  type BackupRecord,
+} from '../storage/backup.js';
+import { getDatabasePath } from '../config/paths.js';
+import { loadConfig } from '../config/settings.js';
+import { decryptBuffer, encryptBuffer, isEncryptionUnlocked } from '../security/encryption.js';
+import { ValidationError } from '../errors/index.js';
+
+// Minutes between scheduled backups
+const SCHEDULE_MINUTES = 60;
+
+// Columns that change with every edit and say nothing on their own
+const IGNORED_COLUMNS = ['updated_at'];
+
+export type EntryRow = Record<string, unknown> & { id: number };
+
+export interface EntryChange {
+  id: number;
+  fields: { name: string; before: unknown; after: unknown }[];
+}
+
+// Entries added, removed and edited since a backup was taken
+export interface BackupDiff {
+  backup: BackupRecord;
+  added: EntryRow[];
+  removed: EntryRow[];
+  changed: EntryChange[];
+}
+
+// Back up now with the online backup API
+export async function createBackup(
+  kind: 'scheduled' | 'manual',
+  options: { encrypt?: boolean } = {}
+): Promise<BackupRecord> {
+  if (options.encrypt && !isEncryptionUnlocked()) {
+    throw new ValidationError('Unlock encryption to write an encrypted backup', 'encrypt');
+  }
+
+  const record = await backupDatabase(getDatabase(), kind, options.encrypt ? encryptBuffer : undefined);
+  if (kind === 'scheduled') {
+    const config = loadConfig();
+    pruneScheduledBackups({
+      hourly: config['backup.hourly'],
+      daily: config['backup.daily'],
+      weekly: config['backup.weekly'],
+    });
+  }
+  return record;
+}
+
+// Write a scheduled backup if one is due; returns null when it is not
+export async function runScheduledBackup(): Promise<BackupRecord | null> {
+  if (!loadConfig()['backup.enabled']) return null;
+
+  const last = listBackups().find((b) => b.kind === 'scheduled');
+  if (last && dayjs().diff(dayjs(last.createdAt), 'minute') < SCHEDULE_MINUTES) return null;
+
+  return createBackup('scheduled', { encrypt: isEncryptionUnlocked() });
+}
+
+// Hand a verified, decrypted scratch copy of a backup to `use`
+function withVerifiedCopy<T>(record: BackupRecord, use: (path: string) => T): T {
+  const health = checkBackup(record);
+  if (health !== 'ok') {
+    throw new Error(
+      health === 'missing'
+        ? `Backup #${record.id} is missing (${record.file})`
+        : `Backup #${record.id} does not match its checksum; it has been damaged or edited`
+    );
+  }
+  if (record.encrypted && !isEncryptionUnlocked()) {
+    throw new ValidationError(`Backup #${record.id} is encrypted; unlock encryption first`, 'backup');
+  }
+
+  const dir = mkdtempSync(join(tmpdir(), 'timer-record-backup-'));
+  try {
+    const path = join(dir, 'backup.db');
+    const data = readFileSync(backupPath(record));
+    if (record.encrypted) {
+      try {
+        writeFileSync(path, decryptBuffer(data));
+      } catch {
+        throw new Error(`Backup #${record.id} could not be decrypted; was it taken before a password change?`);
+      }
+    } else {
+      writeFileSync(path, data);
+    }
+    checkIntegrity(path);
+    return use(path);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Replace the database with a backup (by id or point in time), keeping a pre-restore snapshot
+export function restoreBackup(ref: string): { restored: BackupRecord; safety: BackupRecord } {
+  const record = findBackup(ref);
+
+  return withVerifiedCopy(record, (path) => {
+    const safety = snapshotDatabase(getDatabase(), 'pre-restore');
+    closeDatabase();
+
+    const dbPath = getDatabasePath();
+    copyFileSync(path, dbPath);
+    for (const suffix of ['-wal', '-shm']) {
+      if (existsSync(`${dbPath}${suffix}`)) unlinkSync(`${dbPath}${suffix}`);
+    }
+
+    // Reopening migrates a backup taken before a schema change
+    getDatabase();
+    return { restored: record, safety };
+  });
+}
+
+function entriesById(database: Database.Database): Map<number, EntryRow> {
+  const rows = database.prepare('SELECT * FROM time_entries ORDER BY id').all() as EntryRow[];
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+// Compare time entries in a backup with the database as it is now
+export function diffBackup(ref: string): BackupDiff {
+  const record = findBackup(ref);
+  const then = withVerifiedCopy(record, (path) => {
+    const copy = new Database(path, { readonly: true });
+    try {
+      return entriesById(copy);
+    } finally {
+      copy.close();
+    }
+  });
+  const now = entriesById(getDatabase());
+
+  const added = [...now.values()].filter((row) => !then.has(row.id));
+  const removed = [...then.values()].filter((row) => !now.has(row.id));
+  const changed: EntryChange[] = [];
+
+  for (const [id, after] of now) {
+    const before = then.get(id);
+    if (!before) continue;
+
+    // Columns added by later migrations are not changes
+    const fields = Object.keys(after)
+      .filter((name) => name in before && !IGNORED_COLUMNS.includes(name) && before[name] !== after[name])
+      .map((name) => ({ name, before: before[name], after: after[name] }));
+    if (fields.length > 0) changed.push({ id, fields });
+  }
+
+  return { backup: record, added, removed, changed };
+}
@@ -0,0 +1,133 @@
+/**
+ * Category Tree
+ *
+ * Categories can nest under a parent (programming → code-review). Reports
+ * still query time per category; this module rolls those totals up so a
+ * parent shows its own time plus everything tracked under its children.
+ */
+
+import { getAllCategories } from '../storage/repositories/categories.js';
+import type { Category, CategorySummary } from '../types/index.js';
+
+export interface CategoryTreeNode {
+  category: string;
+  color: string | null;
+  own_seconds: number; // tracked directly on this category
+  total_seconds: number; // own time plus all descendants
+  entry_count: number; // rolled up like total_seconds
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryTreeRow {
+  node: CategoryTreeNode;
+  depth: number;
+  parent: string | null;
+}
+
+// Parent name of each category (null at the top level)
+function parentNames(categories: Category[]): Map<string, string | null> {
+  const byId = new Map(categories.map((c) => [c.id, c.name]));
+  return new Map(
+    categories.map((c) => [c.name, c.parent_id !== null ? byId.get(c.parent_id) ?? null : null])
+  );
+}
+
+// Full path of every category, e.g. "programming/code-review"
+export function getCategoryPaths(categories: Category[] = getAllCategories()): Map<string, string> {
+  const parents = parentNames(categories);
+  const paths = new Map<string, string>();
+
+  for (const name of parents.keys()) {
+    const chain = [name];
+    let parent = parents.get(name) ?? null;
+    // Stop at a repeated name so a bad sync can't loop forever
+    while (parent !== null && !chain.includes(parent)) {
+      chain.unshift(parent);
+      parent = parents.get(parent) ?? null;
+    }
+    paths.set(name, chain.join('/'));
+  }
+
+  return paths;
+}
+
+// Roll a per-category summary up into a tree, largest totals first
+export function buildCategoryTree(
+  summary: CategorySummary[],
+  categories: Category[] = getAllCategories()
+): CategoryTreeNode[] {
+  const parents = parentNames(categories);
+  const colors = new Map(categories.map((c) => [c.name, c.color]));
+  const nodes = new Map<string, CategoryTreeNode>();
+  const roots: CategoryTreeNode[] = [];
+
+  // Create a node and, on first sight, attach it under its (created) parent
+  const nodeFor = (name: string, visiting: Set<string>): CategoryTreeNode => {
+    const existing = nodes.get(name);
+    if (existing) return existing;
+
+    const node: CategoryTreeNode = {
+      category: name,
+      color: colors.get(name) ?? null,
+      own_seconds: 0,
+      total_seconds: 0,
+      entry_count: 0,
+      children: [],
+    };
+    nodes.set(name, node);
+
+    const parent = parents.get(name) ?? null;
+    if (parent !== null && !visiting.has(parent)) {
+      visiting.add(name);
+      nodeFor(parent, visiting).children.push(node);
+    } else {
+      roots.push(node);
+    }
+    return node;
+  };
+
+  for (const item of summary) {
+    const node = nodeFor(item.category, new Set());
+    node.own_seconds += item.total_seconds;
+    node.entry_count += item.entry_count;
+    if (item.color) node.color = item.color;
+  }
+
+  const rollUp = (node: CategoryTreeNode): void => {
+    node.total_seconds = node.own_seconds;
+    for (const child of node.children) {
+      rollUp(child);
+      node.total_seconds += child.total_seconds;
+      node.entry_count += child.entry_count;
+    }
+    node.children.sort((a, b) => b.total_seconds - a.total_seconds);
+  };
+
+  roots.forEach(rollUp);
+  return roots.sort((a, b) => b.total_seconds - a.total_seconds);
+}
+
+// Find a category anywhere in the tree
+export function findCategoryNode(nodes: CategoryTreeNode[], name: string): CategoryTreeNode | undefined {
+  for (const node of nodes) {
+    if (node.category === name) return node;
+    const found = findCategoryNode(node.children, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Depth-first rows for display; children deeper than maxDepth are folded into their parent
+export function flattenCategoryTree(nodes: CategoryTreeNode[], maxDepth = Infinity): CategoryTreeRow[] {
+  const rows: CategoryTreeRow[] = [];
+
+  const visit = (node: CategoryTreeNode, depth: number, parent: string | null): void => {
+    rows.push({ node, depth, parent });
+    if (depth < maxDepth) {
+      for (const child of node.children) visit(child, depth + 1, node.category);
+    }
+  };
+
+  for (const node of nodes) visit(node, 0, null);
+  return rows;
+}
@@ -0,0 +1,171 @@
+/**
+ * Entry Query Language
+ *
+ * One filter expression shared by reports, exports, invoices, the entry list
+ * and the dashboard API (`--where`). Clauses are separated by spaces and must
+ * all match:
+ *
+ *   category:programming   category or any of its subcategories ("uncategorized" for none)
+ *   project:acme           project name ("none" for entries without one)
+ *   tag:review             has the tag
+ *   app:code, title:pr, notes:invoice   text contains (case-insensitive)
+ *   after:2026-09-01       started on or after the date (also before:, on:)
+ *   duration>30m           compare with >, >=, <, <=, = (h, m, s; plain numbers are minutes)
+ *   manual:false           logged by hand or not
+ *
+ * A leading `-` negates a clause, commas match any of several values
+ * (`tag:review,pairing`) and values with spaces go in quotes
+ * (`project:"Acme Corp"`). The expression is compiled to a parameterized SQL
+ * condition on `time_entries` aliased as `e`; names are matched without case.
+ */
+
+import dayjs from 'dayjs';
+import { ValidationError } from '../errors/index.js';
+import type { EntryQuery } from '../types/index.js';
+
+type Compile = (value: string) => { sql: string; params: (string | number)[] };
+
+// Subcategories are matched through the parent chain
+const CATEGORY_SQL = `e.category_id IN (
+  WITH RECURSIVE tree(id) AS (
+    SELECT id FROM categories WHERE name = ? COLLATE NOCASE
+    UNION SELECT c.id FROM categories c JOIN tree ON c.parent_id = tree.id
+  )
+  SELECT id FROM tree
+)`;
+
+const DATE_FIELDS = ['after', 'before', 'on'];
+
+// Escape LIKE wildcards so text filters match literally
+function contains(column: string): Compile {
+  return (value) => ({
+    sql: `${column} LIKE ? ESCAPE '\\'`,
+    params: [`%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`],
+  });
+}
+
+// YYYY-MM-DD, today or yesterday
+function parseDate(field: string, value: string): string {
+  const lower = value.toLowerCase();
+  if (lower === 'today') return dayjs().format('YYYY-MM-DD');
+  if (lower === 'yesterday') return dayjs().subtract(1, 'day').format('YYYY-MM-DD');
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || dayjs(value).format('YYYY-MM-DD') !== value) {
+    throw new ValidationError(`${field}: expects a date like 2026-09-01, got "${value}"`, 'where');
+  }
+  return value;
+}
+
+// "1h30m", "90m", "45s", "1.5h" or plain minutes, in seconds
+export function parseQueryDuration(value: string): number {
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.round(parseFloat(value) * 60);
+
+  const parts = value.toLowerCase().match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+)s)?$/);
+  if (!parts || !value) {
+    throw new ValidationError(`duration: expects a length like 30m, 1h30m or 45s, got "${value}"`, 'where');
+  }
+  const [, hours, minutes, seconds] = parts;
+  return Math.round(parseFloat(hours ?? '0') * 3600 + parseFloat(minutes ?? '0') * 60 + parseInt(seconds ?? '0', 10));
+}
+
+const FIELDS: Record<string, Compile> = {
+  category: (value) => value.toLowerCase() === 'uncategorized'
+    ? { sql: 'e.category_id IS NULL', params: [] }
+    : { sql: CATEGORY_SQL, params: [value] },
+  // A project in the trash no longer counts as the entry's project
+  project: (value) => value.toLowerCase() === 'none'
+    ? { sql: 'e.project_id IS NULL OR e.project_id IN (SELECT id FROM projects WHERE deleted_at IS NOT NULL)', params: [] }
+    : { sql: 'e.project_id IN (SELECT id FROM projects WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL)', params: [value] },
+  tag: (value) => ({
+    sql: `EXISTS (
+      SELECT 1 FROM entry_tags et JOIN tags t ON t.id = et.tag_id
+      WHERE et.entry_id = e.id AND t.name = ? COLLATE NOCASE AND t.deleted_at IS NULL
+    )`,
+    params: [value],
+  }),
+  app: contains('e.app_name'),
+  title: contains('e.window_title'),
+  notes: contains('e.notes'),
+  after: (value) => ({ sql: 'date(e.start_time) >= date(?)', params: [parseDate('after', value)] }),
+  before: (value) => ({ sql: 'date(e.start_time) < date(?)', params: [parseDate('before', value)] }),
+  on: (value) => ({ sql: 'date(e.start_time) = date(?)', params: [parseDate('on', value)] }),
+  manual: (value) => {
+    const flag = { true: 1, yes: 1, false: 0, no: 0 }[value.toLowerCase()];
+    if (flag === undefined) {
+      throw new ValidationError(`manual: expects true or false, got "${value}"`, 'where');
+    }
+    return { sql: 'e.is_manual = ?', params: [flag] };
+  },
+};
+
+const ALIASES: Record<string, string> = { categories: 'category', tags: 'tag', note: 'notes' };
+
+// Split "a,b" into values, keeping commas inside quotes
+function splitValues(raw: string): string[] {
+  const values = (raw.match(/"[^"]*"|[^,]+/g) ?? []).map((v) => v.replace(/^"|"$/g, '').trim());
+  return values.filter((v) => v.length > 0);
+}
+
+// Compile a --where expression into a SQL condition on time_entries (alias e)
+export function parseEntryQuery(expression: string): EntryQuery {
+  const tokens = expression.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? [];
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  let bounded = false;
+
+  for (const token of tokens) {
+    if (/"[^"]*$/.test(token.replace(/"[^"]*"/g, ''))) {
+      throw new ValidationError(`Unclosed quote in "${token}"`, 'where');
+    }
+
+    const clause = token.match(/^(-?)([a-z]+)(:|>=|<=|>|<|=)(.*)$/i);
+    if (!clause) {
+      throw new ValidationError(
+        `Expected field:value or duration>30m, got "${token}". Fields: ${Object.keys(FIELDS).join(', ')}, duration`,
+        'where'
+      );
+    }
+
+    const [, negate, rawField, op, raw] = clause;
+    const field = ALIASES[rawField.toLowerCase()] ?? rawField.toLowerCase();
+    const values = splitValues(raw);
+    if (values.length === 0) {
+      throw new ValidationError(`${rawField}${op} needs a value`, 'where');
+    }
+
+    let parts: { sql: string; params: (string | number)[] }[];
+    if (field === 'duration') {
+      if (op === ':') {
+        throw new ValidationError(`Compare durations with >, >=, <, <= or =, e.g. duration>30m`, 'where');
+      }
+      if (values.length > 1) {
+        throw new ValidationError('duration takes a single value', 'where');
+      }
+      parts = [{ sql: `e.duration_seconds ${op} ?`, params: [parseQueryDuration(values[0])] }];
+    } else {
+      const compile = FIELDS[field];
+      if (!compile) {
+        throw new ValidationError(
+          `Unknown field "${rawField}". Use: ${Object.keys(FIELDS).join(', ')}, duration`,
+          'where'
+        );
+      }
+      if (op !== ':') {
+        throw new ValidationError(`Only duration can be compared with ${op}; use ${rawField}:value`, 'where');
+      }
+      if (DATE_FIELDS.includes(field)) bounded = true;
+      parts = values.map(compile);
+    }
+
+    const sql = parts.length === 1 ? parts[0].sql : `(${parts.map((p) => p.sql).join(' OR ')})`;
+    // NULL would make a negated clause drop rows it should keep
+    conditions.push(negate ? `NOT COALESCE(${sql}, 0)` : sql);
+    for (const part of parts) params.push(...part.params);
+  }
+
+  if (conditions.length === 0) {
+    throw new ValidationError('Filter expression is empty', 'where');
+  }
+
+  return { sql: conditions.map((c) => `(${c})`).join(' AND '), params, bounded };
+}
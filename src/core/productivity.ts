@@ -0,0 +1,124 @@
+/**
+ * Productivity Levels
+ *
+ * Every category has a weight from -2 (very distracting) to +2 (very
+ * productive). A project or tag can override it for the entries it covers:
+ * a weighted tag beats the project, which beats the category. With several
+ * weighted tags on one entry the lowest wins.
+ *
+ * The score is weighted time over total time, clamped to 0-100. Time at +1
+ * counts fully, 0 not at all, +2 double (so it can make up for distractions)
+ * and negative weights subtract. Categories used to be either productive or
+ * not; those migrate to +1 and 0, so existing data keeps its old score.
+ */
+
+import { getDatabase } from '../storage/database.js';
+import { ValidationError } from '../errors/index.js';
+
+export const PRODUCTIVITY_LEVELS = [
+  { weight: -2, name: 'very-distracting' },
+  { weight: -1, name: 'distracting' },
+  { weight: 0, name: 'neutral' },
+  { weight: 1, name: 'productive' },
+  { weight: 2, name: 'very-productive' },
+] as const;
+
+// Effective weight of time entry `e`, joined as `c` (categories) and `p` (projects)
+export const ENTRY_PRODUCTIVITY_SQL = `COALESCE(
+  (SELECT MIN(t.productivity) FROM entry_tags et JOIN tags t ON t.id = et.tag_id
+    WHERE et.entry_id = e.id AND t.deleted_at IS NULL),
+  p.productivity,
+  c.productivity,
+  0
+)`;
+
+export interface ProductivityBreakdown {
+  category: string;
+  seconds: number;
+  weightedSeconds: number;
+  productiveSeconds: number; // weight above zero
+  distractingSeconds: number; // weight below zero
+}
+
+// Parse a level given by name ("distracting") or weight ("-1", "+2")
+export function parseProductivity(value: string): number {
+  const level = PRODUCTIVITY_LEVELS.find((l) => l.name === value.toLowerCase());
+  if (level) return level.weight;
+
+  if (/^[+-]?\d+$/.test(value)) {
+    const weight = parseInt(value, 10);
+    if (weight >= -2 && weight <= 2) return weight;
+  }
+
+  throw new ValidationError(
+    `Invalid productivity level "${value}". Use -2..2 or one of: ${PRODUCTIVITY_LEVELS.map((l) => l.name).join(', ')}`,
+    'productivity'
+  );
+}
+
+// Parse a project or tag override; "none" clears it
+export function parseProductivityOverride(value: string): number | null {
+  return value.toLowerCase() === 'none' ? null : parseProductivity(value);
+}
+
+// Name for a weight, e.g. "+2 very-productive"
+export function formatProductivity(weight: number): string {
+  const level = PRODUCTIVITY_LEVELS.find((l) => l.weight === weight);
+  const sign = weight > 0 ? '+' : '';
+  return level ? `${sign}${weight} ${level.name}` : `${sign}${weight}`;
+}
+
+// Weighted time as a 0-100 score
+export function productivityScore(weightedSeconds: number, totalSeconds: number): number {
+  if (totalSeconds <= 0) return 0;
+  return Math.min(100, Math.max(0, (weightedSeconds / totalSeconds) * 100));
+}
+
+// Tracked and weighted time per category between two dates (inclusive)
+export function getProductivityBreakdown(startDate: string, endDate: string): ProductivityBreakdown[] {
+  const db = getDatabase();
+
+  return db.prepare(`
+    SELECT
+      category,
+      SUM(seconds) AS seconds,
+      SUM(seconds * weight) AS weightedSeconds,
+      SUM(CASE WHEN weight > 0 THEN seconds ELSE 0 END) AS productiveSeconds,
+      SUM(CASE WHEN weight < 0 THEN seconds ELSE 0 END) AS distractingSeconds
+    FROM (
+      SELECT
+        COALESCE(c.name, 'uncategorized') AS category,
+        e.duration_seconds AS seconds,
+        ${ENTRY_PRODUCTIVITY_SQL} AS weight
+      FROM time_entries e
+      LEFT JOIN categories c ON e.category_id = c.id
+      LEFT JOIN projects p ON e.project_id = p.id AND p.deleted_at IS NULL
+      WHERE date(e.start_time) >= date(?)
+        AND date(e.start_time) <= date(?)
+        AND e.duration_seconds IS NOT NULL
+        AND e.deleted_at IS NULL
+    )
+    GROUP BY category
+    ORDER BY seconds DESC
+  `).all(startDate, endDate) as ProductivityBreakdown[];
+}
+
+// Productivity score (weighted vs total time)
+export function getProductivityScore(startDate: string, endDate: string): {
+  productiveSeconds: number;
+  unproductiveSeconds: number;
+  distractingSeconds: number;
+  score: number;
+} {
+  const rows = getProductivityBreakdown(startDate, endDate);
+  const total = rows.reduce((sum, r) => sum + r.seconds, 0);
+  const weighted = rows.reduce((sum, r) => sum + r.weightedSeconds, 0);
+  const productive = rows.reduce((sum, r) => sum + r.productiveSeconds, 0);
+
+  return {
+    productiveSeconds: productive,
+    unproductiveSeconds: total - productive,
+    distractingSeconds: rows.reduce((sum, r) => sum + r.distractingSeconds, 0),
+    score: productivityScore(weighted, total),
+  };
+}
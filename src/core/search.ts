@@ -0,0 +1,233 @@
+/**
+ * Full-Text Search
+ *
+ * Entries are indexed in the `entry_search` FTS5 table (notes, window title,
+ * app, project and tag names), kept current by triggers. Queries use a small
+ * language that is turned into a safe FTS5 expression:
+ *
+ *   login bug           both words (AND is implied)
+ *   "fix login"         phrase
+ *   log*                prefix
+ *   a OR b, a NOT b     boolean operators (upper case), with ( ) for grouping
+ *   title:acme          field filter: notes, title, app, project, tag
+ *
+ * Encrypted notes are never written to the index. While the store is unlocked
+ * they are decrypted into a temporary index that lives only in memory for
+ * this connection, and dropped again once it is locked.
+ */
+
+import { getDatabase } from '../storage/database.js';
+import { ValidationError } from '../errors/index.js';
+import { decryptValue, isEncryptionUnlocked } from '../security/encryption.js';
+import type { EntryQuery } from '../types/index.js';
+
+const FIELDS: Record<string, string> = {
+  notes: 'notes',
+  note: 'notes',
+  title: 'title',
+  app: 'app',
+  project: 'project',
+  tag: 'tags',
+  tags: 'tags',
+};
+
+// Marks around matched words in snippets
+export const MATCH_START = '\u0002';
+export const MATCH_END = '\u0003';
+
+export interface SearchOptions {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  limit?: number;
+  where?: EntryQuery; // see core/entry-query.ts
+}
+
+export interface SearchHit {
+  id: number;
+  start_time: string;
+  duration_seconds: number | null;
+  category_name: string | null;
+  category_color: string | null;
+  project_name: string | null;
+  snippet: string;
+  rank: number; // bm25, lower is better
+}
+
+// Quote a term or phrase so FTS5 reads it literally
+function quote(text: string, prefix: boolean): string {
+  return `"${text.replace(/"/g, '""')}"${prefix ? '*' : ''}`;
+}
+
+// Turn a search query into an FTS5 match expression
+export function parseSearchQuery(query: string): string {
+  const tokens = query.match(/"[^"]*"\*?|"[^"]*$|\(|\)|[^\s()"]+/g) ?? [];
+  const out: string[] = [];
+  let depth = 0;
+  let operand = false; // the last item can be followed by AND
+  let field: string | null = null;
+
+  const pushOperand = (expr: string) => {
+    if (operand) out.push('AND');
+    out.push(field ? `${field} : ${expr}` : expr);
+    field = null;
+    operand = true;
+  };
+
+  for (let token of tokens) {
+    if (token === '(') {
+      if (operand) out.push('AND');
+      out.push(field ? `${field} : (` : '(');
+      field = null;
+      operand = false;
+      depth++;
+      continue;
+    }
+
+    if (token === ')') {
+      if (depth === 0 || !operand || field) {
+        throw new ValidationError('Unbalanced parentheses in search query', 'query');
+      }
+      out.push(')');
+      depth--;
+      continue;
+    }
+
+    if (token === 'AND' || token === 'OR' || token === 'NOT') {
+      if (!operand || field) {
+        throw new ValidationError(`${token} needs a term on each side`, 'query');
+      }
+      out.push(token);
+      operand = false;
+      continue;
+    }
+
+    const filter = token.match(/^([a-z]+):(?!\/\/)(.*)$/i);
+    if (filter) {
+      const column = FIELDS[filter[1].toLowerCase()];
+      if (!column) {
+        throw new ValidationError(
+          `Unknown search field "${filter[1]}". Use: ${Object.keys(FIELDS).join(', ')}`,
+          'query'
+        );
+      }
+      field = column;
+      token = filter[2];
+      if (!token) continue;
+    }
+
+    if (token.startsWith('"')) {
+      const prefix = token.endsWith('"*');
+      const phrase = token.replace(/^"/, '').replace(/"\*?$/, '');
+      if (phrase.trim()) pushOperand(quote(phrase, prefix));
+      continue;
+    }
+
+    const prefix = token.length > 1 && token.endsWith('*');
+    const term = prefix ? token.slice(0, -1) : token;
+    // Punctuation on its own matches nothing
+    if (/[\p{L}\p{N}]/u.test(term)) pushOperand(quote(term, prefix));
+  }
+
+  if (field) {
+    throw new ValidationError('A field filter needs a term after it, e.g. title:acme', 'query');
+  }
+  if (depth > 0) {
+    throw new ValidationError('Unbalanced parentheses in search query', 'query');
+  }
+  if (out.length === 0) {
+    throw new ValidationError('Search query is empty', 'query');
+  }
+  if (!operand) {
+    throw new ValidationError(`${out[out.length - 1]} needs a term on each side`, 'query');
+  }
+
+  return out.join(' ');
+}
+
+/**
+ * Index encrypted notes in a temporary table while the store is unlocked.
+ * Returns false (and removes any left-over copy) when it is locked.
+ */
+function preparePrivateIndex(): boolean {
+  const db = getDatabase();
+  db.exec('DROP TABLE IF EXISTS temp.entry_search_private');
+  if (!isEncryptionUnlocked()) return false;
+
+  db.exec(`
+    CREATE VIRTUAL TABLE temp.entry_search_private USING fts5(
+      notes, title, app, project, tags,
+      tokenize = 'unicode61 remove_diacritics 2'
+    )
+  `);
+
+  const rows = db.prepare(`
+    SELECT s.*, e.notes AS raw_notes
+    FROM entry_search_source s
+    JOIN time_entries e ON e.id = s.id
+    WHERE json_valid(e.notes) AND json_extract(e.notes, '$.encrypted') IS NOT NULL
+      AND e.deleted_at IS NULL
+  `).all() as { id: number; title: string | null; app: string | null; project: string | null; tags: string | null; raw_notes: string }[];
+
+  const insert = db.prepare(`
+    INSERT INTO temp.entry_search_private (rowid, notes, title, app, project, tags) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const row of rows) {
+      insert.run(row.id, decryptValue(row.raw_notes), row.title, row.app, row.project, row.tags);
+    }
+  })();
+  return true;
+}
+
+// Ranked search over entries, best match first
+export function searchEntries(query: string, options: SearchOptions = {}): SearchHit[] {
+  const db = getDatabase();
+  const match = parseSearchQuery(query);
+  const withPrivate = preparePrivateIndex();
+
+  // Notes weigh most, then titles, projects and tags, then app names
+  const hits = (table: string) => `
+    SELECT rowid AS id,
+      snippet(${table}, -1, @matchStart, @matchEnd, '…', 12) AS snippet,
+      bm25(${table}, 4.0, 2.0, 1.0, 2.0, 2.0) AS rank
+    FROM ${table}
+    WHERE ${table} MATCH @match
+  `;
+
+  const params = {
+    match,
+    matchStart: MATCH_START,
+    matchEnd: MATCH_END,
+    from: options.from ?? null,
+    to: options.to ?? null,
+    limit: options.limit ?? 20,
+  };
+
+  return db.prepare(`
+    WITH hits AS (
+      ${withPrivate
+        ? `${hits('entry_search')} AND rowid NOT IN (SELECT rowid FROM entry_search_private)
+           UNION ALL ${hits('entry_search_private')}`
+        : hits('entry_search')}
+    )
+    SELECT
+      h.id,
+      e.start_time,
+      e.duration_seconds,
+      c.name AS category_name,
+      c.color AS category_color,
+      p.name AS project_name,
+      h.snippet,
+      h.rank
+    FROM hits h
+    JOIN time_entries e ON e.id = h.id
+    LEFT JOIN categories c ON c.id = e.category_id
+    LEFT JOIN projects p ON p.id = e.project_id AND p.deleted_at IS NULL
+    WHERE e.deleted_at IS NULL
+      AND (@from IS NULL OR date(e.start_time) >= date(@from))
+      AND (@to IS NULL OR date(e.start_time) <= date(@to))
+      ${options.where ? `AND (${options.where.sql})` : ''}
+    ORDER BY h.rank, e.start_time DESC
+    LIMIT @limit
+  `).all(...(options.where?.params ?? []), params) as SearchHit[];
+}
@@ -0,0 +1,57 @@
+/**
+ * Trash
+ *
+ * Deleting an entry, project, tag, template or invoice sets its `deleted_at`
+ * and every read path leaves it out; links to it are kept, so restoring brings
+ * it back as it was. Trashed rows are purged for good after `trash.days`, or
+ * sooner when data retention keeps less than that.
+ */
+
+import dayjs from 'dayjs';
+import { getDatabase } from '../storage/database.js';
+import { getActiveEntry } from '../storage/repositories/entries.js';
+import { findTrashItem, purgeTrash, restoreTrashItem } from '../storage/repositories/trash.js';
+import { loadConfig } from '../config/settings.js';
+import { getDataRetentionSettings } from '../privacy/index.js';
+import { ValidationError } from '../errors/index.js';
+import type { TrashItem, TrashKind } from '../types/index.js';
+
+// Days trashed items are kept, or null to keep them until the trash is emptied
+export function trashRetentionDays(): number | null {
+  const days = loadConfig()['trash.days'] || null;
+  const retention = getDataRetentionSettings();
+  if (!retention.enabled || !retention.days) return days;
+  return days === null ? retention.days : Math.min(days, retention.days);
+}
+
+// Purge items that have been in the trash longer than they are kept
+export function purgeExpiredTrash(): number {
+  const days = trashRetentionDays();
+  if (days === null) return 0;
+  return purgeTrash({ before: dayjs().subtract(days, 'day').format('YYYY-MM-DD HH:mm:ss') });
+}
+
+// Restore an item by id or name; a running entry can't come back while another timer runs
+export function restoreFromTrash(kind: TrashKind, idOrLabel: string): TrashItem {
+  const item = findTrashItem(kind, /^\d+$/.test(idOrLabel) ? parseInt(idOrLabel, 10) : idOrLabel);
+  if (!item) {
+    throw new ValidationError(`No ${kind} "${idOrLabel}" in the trash`, 'trash');
+  }
+
+  if (kind === 'entry' && getActiveEntry()) {
+    const running = getDatabase()
+      .prepare('SELECT 1 FROM time_entries WHERE id = ? AND end_time IS NULL')
+      .get(item.id);
+    if (running) {
+      throw new ValidationError(`Entry #${item.id} was still running; stop the current timer first`, 'trash');
+    }
+  }
+
+  restoreTrashItem(kind, item.id);
+  return item;
+}
+
+// Names stay taken while in the trash, so a new project, tag or template can't reuse one
+export function isNameInTrash(kind: 'project' | 'tag' | 'template', name: string): boolean {
+  return findTrashItem(kind, name)?.label === name;
+}
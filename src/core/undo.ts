@@ -1,6 +1,13 @@
 import { getDatabase } from '../storage/database.js';
+import { deleteEntry } from '../storage/repositories/entries.js';
 
-export type UndoActionType = 'create_entry' | 'update_entry' | 'delete_entry' | 'start_timer' | 'stop_timer';
+export type UndoActionType =
+  | 'create_entry'
+  | 'update_entry'
+  | 'delete_entry'
+  | 'start_timer'
+  | 'stop_timer'
+  | 'recategorize_entries';
 
 export interface UndoAction {
   id: number;
@@ -12,33 +19,6 @@ export interface UndoAction {
   created_at: string;
 }
 
-// Ensure undo and redo tables exist
-function ensureUndoTable(): void {
-  const db = getDatabase();
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS undo_stack (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      action_type TEXT NOT NULL,
-      entity_type TEXT NOT NULL,
-      entity_id INTEGER,
-      old_data TEXT,
-      new_data TEXT,
-      created_at TEXT DEFAULT (datetime('now'))
-    )
-  `);
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS redo_stack (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      action_type TEXT NOT NULL,
-      entity_type TEXT NOT NULL,
-      entity_id INTEGER,
-      old_data TEXT,
-      new_data TEXT,
-      created_at TEXT DEFAULT (datetime('now'))
-    )
-  `);
-}
-
 // Add an action to the undo stack
 export function pushUndoAction(action: {
   actionType: UndoActionType;
@@ -47,7 +27,6 @@ export function pushUndoAction(action: {
   oldData?: unknown;
   newData?: unknown;
 }): void {
-  ensureUndoTable();
   const db = getDatabase();
 
   db.prepare(`
@@ -73,16 +52,24 @@ export function pushUndoAction(action: {
 
 // Get the last undo action
 export function getLastUndoAction(): UndoAction | null {
-  ensureUndoTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT * FROM undo_stack ORDER BY id DESC LIMIT 1
   `).get() as UndoAction | null;
 }
 
+// Set the categories recorded by a recategorize_entries action
+function restoreCategories(data: string | null): void {
+  if (!data) return;
+  const db = getDatabase();
+  const update = db.prepare('UPDATE time_entries SET category_id = ? WHERE id = ?');
+  for (const row of JSON.parse(data) as { id: number; category_id: number | null }[]) {
+    update.run(row.category_id, row.id);
+  }
+}
+
 // Pop and execute the last undo action
 export function popAndExecuteUndo(): { success: boolean; message: string } {
-  ensureUndoTable();
   const db = getDatabase();
   const action = getLastUndoAction();
 
@@ -102,8 +89,11 @@ export function popAndExecuteUndo(): { success: boolean; message: string } {
       }
 
       case 'delete_entry': {
-        // Undo delete by recreating the entry
-        if (action.old_data) {
+        // Undo delete by taking the entry out of the trash, or recreating it if it was purged
+        const restored = action.entity_id
+          ? db.prepare('UPDATE time_entries SET deleted_at = NULL WHERE id = ?').run(action.entity_id).changes
+          : 0;
+        if (restored === 0 && action.old_data) {
           const data = JSON.parse(action.old_data);
           db.prepare(`
             INSERT INTO time_entries (
@@ -184,6 +174,12 @@ export function popAndExecuteUndo(): { success: boolean; message: string } {
         }
         break;
       }
+
+      case 'recategorize_entries': {
+        // Undo a batch re-categorization by restoring every old category
+        restoreCategories(action.old_data);
+        break;
+      }
     }
 
     // Push to redo stack before removing from undo stack
@@ -213,6 +209,7 @@ export function popAndExecuteUndo(): { success: boolean; message: string } {
       case 'update_entry': message += 'entry update'; break;
       case 'stop_timer': message += 'timer stop'; break;
       case 'start_timer': message += 'timer start'; break;
+      case 'recategorize_entries': message += 're-categorization'; break;
     }
 
     return { success: true, message };
@@ -223,7 +220,6 @@ export function popAndExecuteUndo(): { success: boolean; message: string } {
 
 // Get undo history
 export function getUndoHistory(limit: number = 10): UndoAction[] {
-  ensureUndoTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT * FROM undo_stack ORDER BY id DESC LIMIT ?
@@ -232,7 +228,6 @@ export function getUndoHistory(limit: number = 10): UndoAction[] {
 
 // Clear undo history
 export function clearUndoHistory(): void {
-  ensureUndoTable();
   const db = getDatabase();
   db.prepare('DELETE FROM undo_stack').run();
   db.prepare('DELETE FROM redo_stack').run();
@@ -240,7 +235,6 @@ export function clearUndoHistory(): void {
 
 // Get the last redo action
 export function getLastRedoAction(): UndoAction | null {
-  ensureUndoTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT * FROM redo_stack ORDER BY id DESC LIMIT 1
@@ -249,7 +243,6 @@ export function getLastRedoAction(): UndoAction | null {
 
 // Pop and execute the last redo action
 export function popAndExecuteRedo(): { success: boolean; message: string } {
-  ensureUndoTable();
   const db = getDatabase();
   const action = getLastRedoAction();
 
@@ -293,9 +286,9 @@ export function popAndExecuteRedo(): { success: boolean; message: string } {
       }
 
       case 'delete_entry': {
-        // Redo delete by deleting the entry again
+        // Redo delete by moving the entry to the trash again
         if (action.entity_id) {
-          db.prepare('DELETE FROM time_entries WHERE id = ?').run(action.entity_id);
+          deleteEntry(action.entity_id);
         }
         break;
       }
@@ -366,6 +359,12 @@ export function popAndExecuteRedo(): { success: boolean; message: string } {
         }
         break;
       }
+
+      case 'recategorize_entries': {
+        // Redo a batch re-categorization by applying the new categories again
+        db.transaction(() => restoreCategories(action.new_data))();
+        break;
+      }
     }
 
     // Push back to undo stack
@@ -391,6 +390,7 @@ export function popAndExecuteRedo(): { success: boolean; message: string } {
       case 'update_entry': message += 'entry update'; break;
       case 'stop_timer': message += 'timer stop'; break;
       case 'start_timer': message += 'timer start'; break;
+      case 'recategorize_entries': message += 're-categorization'; break;
     }
 
     return { success: true, message };
@@ -2,12 +2,19 @@
 
 import { getTracker } from './tracker-service.js';
 import { closeDatabase } from '../storage/database.js';
+import { runScheduledBackup } from '../core/backups.js';
+import { purgeExpiredTrash } from '../core/trash.js';
 import { writeFileSync, unlinkSync, existsSync } from 'fs';
 import { getSocketPath } from '../config/paths.js';
 
 // PID file for daemon management
 const PID_FILE = '/tmp/timer-record.pid';
 
+// How often to check whether a scheduled backup is due and purge expired trash
+const MAINTENANCE_MS = 10 * 60 * 1000;
+
+let maintenanceTimer: NodeJS.Timeout | null = null;
+
 function writePidFile(): void {
   writeFileSync(PID_FILE, process.pid.toString());
 }
@@ -22,9 +29,31 @@ function removePidFile(): void {
   }
 }
 
+// Take hourly backups and empty expired trash while the daemon runs
+function scheduleMaintenance(): void {
+  const check = () => {
+    try {
+      const purged = purgeExpiredTrash();
+      if (purged > 0) console.log(`Purged ${purged} expired item(s) from the trash`);
+    } catch (err) {
+      console.error(`Trash purge failed: ${(err as Error).message}`);
+    }
+
+    runScheduledBackup()
+      .then((backup) => {
+        if (backup) console.log(`Backup #${backup.id} written (${backup.file})`);
+      })
+      .catch((err: Error) => console.error(`Scheduled backup failed: ${err.message}`));
+  };
+
+  check();
+  maintenanceTimer = setInterval(check, MAINTENANCE_MS);
+}
+
 // Graceful shutdown
 function shutdown(signal: string): void {
   console.log(`\nReceived ${signal}, shutting down...`);
+  if (maintenanceTimer) clearInterval(maintenanceTimer);
   const tracker = getTracker();
   tracker.stop();
   closeDatabase();
@@ -55,6 +84,8 @@ function main(): void {
     process.exit(1);
   }
 
+  scheduleMaintenance();
+
   console.log('Daemon running. Press Ctrl+C to stop.');
   console.log(`PID: ${process.pid}`);
   console.log(`PID file: ${PID_FILE}`);
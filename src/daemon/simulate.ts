@@ -0,0 +1,70 @@
+import { TrackerService } from './tracker-service.js';
+import type { TrackerConfig } from './tracker-service.js';
+import { ReplayDetector } from '../detection/replay.js';
+import type { TimelineEvent } from '../detection/replay.js';
+import { getDatabase } from '../storage/database.js';
+import type { EntryWithCategory } from '../storage/repositories/entries.js';
+
+export interface SimulationOptions {
+  config?: Partial<TrackerConfig>;
+  // Virtual seconds per real second (0 = as fast as possible)
+  speed?: number;
+}
+
+export interface SimulationResult {
+  ticks: number;
+  startTime: Date;
+  endTime: Date;
+  entries: EntryWithCategory[];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run the tracker against a recorded timeline.
+ * Ticks once per poll interval of virtual time and returns the entries
+ * the tracker created in the current database.
+ */
+export async function simulateTimeline(
+  events: TimelineEvent[],
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const detector = new ReplayDetector(events);
+  const tracker = new TrackerService(options.config, detector);
+  const { pollInterval } = tracker.getStatus().config;
+  const speed = options.speed ?? 0;
+
+  const db = getDatabase();
+  const { maxId } = db.prepare('SELECT COALESCE(MAX(id), 0) as maxId FROM time_entries').get() as { maxId: number };
+
+  let ticks = 0;
+  for (let time = detector.startTime.getTime(); time < detector.endTime.getTime(); time += pollInterval * 1000) {
+    detector.advanceTo(new Date(time));
+    tracker.tick();
+    ticks++;
+
+    if (speed > 0) {
+      await sleep((pollInterval * 1000) / speed);
+    }
+  }
+
+  detector.advanceTo(detector.endTime);
+  tracker.finalizeCurrentEntry();
+
+  const entries = db.prepare(`
+    SELECT e.*, c.name as category_name
+    FROM time_entries e
+    LEFT JOIN categories c ON e.category_id = c.id
+    WHERE e.id > ? AND e.is_manual = 0 AND e.deleted_at IS NULL
+    ORDER BY e.start_time
+  `).all(maxId) as EntryWithCategory[];
+
+  return {
+    ticks,
+    startTime: detector.startTime,
+    endTime: detector.endTime,
+    entries,
+  };
+}
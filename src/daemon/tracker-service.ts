@@ -1,29 +1,79 @@
-import { getActiveWindow, checkAccessibilityPermission } from '../detection/macos.js';
-import { getIdleTime } from '../detection/idle.js';
-import { categorize, getCategoryIdByName } from '../categorization/rules.js';
+import { systemDetector } from '../detection/detector.js';
+import type { WindowDetector } from '../detection/detector.js';
+import {
+  categorize,
+  getCategoryIdByName,
+  attributeByRules,
+  renderNoteTemplate,
+  type RuleAttribution,
+} from '../categorization/rules.js';
+import { getContextKey } from '../categorization/context.js';
+import { resolveRepoContext, type RepoContext } from '../categorization/repo-context.js';
 import { createEntry, getActiveEntry, stopActiveEntry } from '../storage/repositories/entries.js';
+import { getOrCreateTag, attachTagsToEntry } from '../storage/repositories/tags.js';
 import { getDatabase } from '../storage/database.js';
 import { loadConfig, DEFAULT_CONFIG } from '../config/settings.js';
 import { isAnonymousModeEnabled, anonymizeEntry } from '../privacy/index.js';
-import { checkAndHandleIdle } from '../core/auto-pause.js';
+import { checkAndHandleIdle, getSQLTimestamp } from '../core/auto-pause.js';
 import type { WindowInfo, ActiveSession, Config } from '../types/index.js';
 
-export type TrackerConfig = Pick<Config, 'pollInterval' | 'idleThreshold' | 'minEntryDuration'>;
+export type TrackerConfig = Pick<
+  Config,
+  'pollInterval' | 'idleThreshold' | 'minEntryDuration' | 'contextKey' | 'contextDebounce' | 'classifierThreshold'
+>;
+
+// A window as the tracker sees it: its context, category, rule attribution and repository
+interface TrackedContext {
+  info: WindowInfo;
+  key: string;
+  categoryName: string | null;
+  attribution: RuleAttribution;
+  repo: RepoContext | null;
+}
+
+// Rules that assign a project win over the project a repository is linked to
+function projectOf(context: TrackedContext): number | null {
+  return context.attribution.projectId ?? context.repo?.projectId ?? null;
+}
+
+// Windows that would be recorded the same way
+function sameAttribution(a: TrackedContext, b: TrackedContext): boolean {
+  return (
+    a.key === b.key &&
+    a.categoryName === b.categoryName &&
+    projectOf(a) === projectOf(b) &&
+    (a.repo?.branch ?? null) === (b.repo?.branch ?? null) &&
+    a.attribution.tags.join(',') === b.attribution.tags.join(',')
+  );
+}
+
+// A context switch waiting out the debounce window
+interface PendingSwitch {
+  context: TrackedContext;
+  since: Date;
+}
 
 export class TrackerService {
   private config: TrackerConfig;
+  private detector: WindowDetector;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning = false;
-  private lastWindowInfo: WindowInfo | null = null;
+  private current: TrackedContext | null = null;
+  private pending: PendingSwitch | null = null;
   private currentEntryId: number | null = null;
 
-  constructor(config: Partial<TrackerConfig> = {}) {
+  constructor(config: Partial<TrackerConfig> = {}, detector: WindowDetector = systemDetector) {
+    this.detector = detector;
+
     // Load config from file, then apply any overrides
     const fileConfig = loadConfig();
     this.config = {
       pollInterval: config.pollInterval ?? fileConfig.pollInterval ?? DEFAULT_CONFIG.pollInterval,
       idleThreshold: config.idleThreshold ?? fileConfig.idleThreshold ?? DEFAULT_CONFIG.idleThreshold,
       minEntryDuration: config.minEntryDuration ?? fileConfig.minEntryDuration ?? DEFAULT_CONFIG.minEntryDuration,
+      contextKey: config.contextKey ?? fileConfig.contextKey ?? DEFAULT_CONFIG.contextKey,
+      contextDebounce: config.contextDebounce ?? fileConfig.contextDebounce ?? DEFAULT_CONFIG.contextDebounce,
+      classifierThreshold: config.classifierThreshold ?? fileConfig.classifierThreshold ?? DEFAULT_CONFIG.classifierThreshold,
     };
   }
 
@@ -35,7 +85,7 @@ export class TrackerService {
     }
 
     // Check accessibility permission
-    if (!checkAccessibilityPermission()) {
+    if (!this.detector.checkPermission()) {
       console.error('Accessibility permission not granted');
       return false;
     }
@@ -76,25 +126,27 @@ export class TrackerService {
     console.log('Tracker stopped');
   }
 
-  // Main tick function
-  private tick(): void {
+  // Main tick function (public so a replay can drive it without timers)
+  tick(): void {
     try {
+      const now = this.detector.now();
+
       // Get idle time once per tick to avoid redundant shell calls
-      const idleTime = getIdleTime();
+      const idleTime = this.detector.getIdleTime();
 
       // Check for auto-pause/resume based on idle detection
-      const pauseResult = checkAndHandleIdle(idleTime);
+      const pauseResult = checkAndHandleIdle(idleTime, now);
 
       if (pauseResult.paused) {
         if (pauseResult.action === 'paused') {
-          console.log(`[${new Date().toLocaleTimeString()}] Auto-paused (idle ${Math.floor(idleTime / 60)}m)`);
+          console.log(`[${this.detector.now().toLocaleTimeString()}] Auto-paused (idle ${Math.floor(idleTime / 60)}m)`);
         }
         // Don't finalize daemon entry yet, just pause
         return;
       }
 
       if (pauseResult.action === 'resumed' && pauseResult.entry) {
-        console.log(`[${new Date().toLocaleTimeString()}] Auto-resumed from pause`);
+        console.log(`[${this.detector.now().toLocaleTimeString()}] Auto-resumed from pause`);
       }
 
       // Check idle time for daemon-created entries
@@ -107,37 +159,66 @@ export class TrackerService {
       }
 
       // Get current window info
-      const windowInfo = getActiveWindow();
+      const context = this.resolveContext(this.detector.getActiveWindow());
+
+      if (!this.currentEntryId || !this.current) {
+        this.startNewEntry(context, now);
+        return;
+      }
+
+      if (this.isSameContext(context)) {
+        // Same context, continue current entry (a flicker away is forgotten)
+        this.current.info = context.info;
+        this.pending = null;
+        return;
+      }
 
-      // Check if context changed
-      if (this.isSameContext(windowInfo)) {
-        return; // Same context, continue current entry
+      // Context changed - wait out the debounce window before switching
+      if (!this.pending || !sameAttribution(this.pending.context, context)) {
+        this.pending = { context, since: now };
+      }
+      if (now.getTime() - this.pending.since.getTime() < this.config.contextDebounce * 1000) {
+        return;
       }
 
-      // Context changed - finalize old entry and start new one
-      this.finalizeCurrentEntry();
-      this.startNewEntry(windowInfo);
+      // The switch held - split at the moment it started
+      const { since } = this.pending;
+      this.finalizeCurrentEntry(since);
+      this.startNewEntry(context, since);
     } catch (error) {
       console.error('Tick error:', error);
     }
   }
 
-  // Check if window info is same context as current
-  private isSameContext(info: WindowInfo): boolean {
-    if (!this.lastWindowInfo) return false;
+  // Work out the context key, category and repository of a window
+  private resolveContext(info: WindowInfo): TrackedContext {
+    const key = getContextKey(info, this.config.contextKey);
+    const previous = this.current?.info;
+
+    // Checked every tick: a terminal can change directory or branch without changing its title
+    const repo = resolveRepoContext(info, (pid) => this.detector.getProcessCwd?.(pid) ?? null);
+
+    // Re-categorize only when the window changed (titles and domains can move a window between categories)
+    if (this.current && previous &&
+      previous.appName === info.appName &&
+      previous.appBundleId === info.appBundleId &&
+      previous.windowTitle === info.windowTitle &&
+      previous.domain === info.domain) {
+      return { ...this.current, info, key, repo };
+    }
 
-    // Same app is considered same context
-    // (could be made more granular with window title)
-    return (
-      this.lastWindowInfo.appName === info.appName &&
-      this.lastWindowInfo.appBundleId === info.appBundleId
-    );
+    // Categorize the window (always use real info for categorization)
+    return { info, key, categoryName: categorize(info, this.config.classifierThreshold), attribution: attributeByRules(info), repo };
+  }
+
+  // Same context key, category, project and tags as the current entry
+  private isSameContext(context: TrackedContext): boolean {
+    return this.current !== null && sameAttribution(this.current, context);
   }
 
   // Start a new tracking entry
-  private startNewEntry(info: WindowInfo): void {
-    // Categorize the window (always use real info for categorization)
-    const categoryName = categorize(info);
+  private startNewEntry(context: TrackedContext, startTime: Date): void {
+    const { info, categoryName, attribution, repo } = context;
     const categoryId = categoryName ? getCategoryIdByName(categoryName) : null;
 
     // Check if anonymous mode is enabled
@@ -145,6 +226,7 @@ export class TrackerService {
       appName: info.appName,
       appBundleId: info.appBundleId,
       windowTitle: info.windowTitle,
+      domain: info.domain ?? null,
     };
 
     if (isAnonymousModeEnabled()) {
@@ -152,28 +234,45 @@ export class TrackerService {
       entryData = anonymizeEntry(info);
     }
 
+    // Notes are filled in from what is stored, so anonymous mode stays anonymous
+    const notes = [
+      attribution.noteTemplate
+        ? renderNoteTemplate(attribution.noteTemplate, { ...info, ...entryData, domain: entryData.domain ?? undefined })
+        : null,
+      repo?.branch && !isAnonymousModeEnabled() ? `branch: ${repo.branch}` : null,
+    ].filter(Boolean).join(' · ');
+
     const entry = createEntry({
       categoryId,
+      projectId: projectOf(context),
       appName: entryData.appName,
       appBundleId: entryData.appBundleId,
       windowTitle: entryData.windowTitle,
+      domain: entryData.domain,
       isManual: false,
+      notes: notes || null,
+      startTime: getSQLTimestamp(startTime),
     });
 
+    if (attribution.tags.length > 0) {
+      attachTagsToEntry(entry.id, attribution.tags.map((name) => getOrCreateTag(name).id));
+    }
+
     this.currentEntryId = entry.id;
-    this.lastWindowInfo = info;
+    this.current = context;
+    this.pending = null;
 
     const displayName = isAnonymousModeEnabled() ? '[anonymous]' : info.appName;
     console.log(
-      `[${new Date().toLocaleTimeString()}] Tracking: ${displayName} → ${categoryName || 'uncategorized'}`
+      `[${startTime.toLocaleTimeString()}] Tracking: ${displayName} → ${categoryName || 'uncategorized'}`
     );
   }
 
-  // Finalize current entry
-  private finalizeCurrentEntry(): void {
+  // Finalize current entry (at the detector's current time unless given)
+  finalizeCurrentEntry(endTime = this.detector.now()): void {
     if (!this.currentEntryId) return;
 
-    const entry = stopActiveEntry();
+    const entry = stopActiveEntry(getSQLTimestamp(endTime));
 
     if (entry && entry.duration_seconds !== null) {
       // Delete if too short
@@ -185,7 +284,8 @@ export class TrackerService {
     }
 
     this.currentEntryId = null;
-    this.lastWindowInfo = null;
+    this.current = null;
+    this.pending = null;
   }
 
   // Get current status
@@ -1,7 +1,18 @@
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { getDatabase } from '../storage/database.js';
 import { getTimerStatus, getActiveDuration } from '../core/timer.js';
-import { getTodayTotalSeconds, getCategorySummary } from '../storage/repositories/entries.js';
+import {
+  getTodayTotalSeconds,
+  getCategorySummary,
+  getCategorySummaryFiltered,
+  getTotalSecondsFiltered,
+  entryMatchesQuery,
+} from '../storage/repositories/entries.js';
+import { buildCategoryTree, flattenCategoryTree } from '../core/category-tree.js';
+import { getProductivityScore } from '../core/productivity.js';
+import { parseEntryQuery } from '../core/entry-query.js';
+import { ValidationError } from '../errors/index.js';
+import type { EntryQuery } from '../types/index.js';
 
 let server: ReturnType<typeof createServer> | null = null;
 let serverPort: number | null = null;
@@ -15,7 +26,16 @@ interface DashboardData {
   };
   today: {
     totalSeconds: number;
-    categories: { name: string; seconds: number; color: string | null }[];
+    productivityScore: number; // 0-100, completed entries only
+    // Tree order; seconds include subcategories, parent is null at the top level
+    categories: {
+      name: string;
+      seconds: number;
+      ownSeconds: number;
+      color: string | null;
+      depth: number;
+      parent: string | null;
+    }[];
   };
   week: {
     days: { date: string; seconds: number }[];
@@ -35,12 +55,15 @@ function escapeHtml(text: string): string {
   return text.replace(/[&<>"'/]/g, (m) => map[m]);
 }
 
-// Get dashboard data
-function getDashboardData(): DashboardData {
+// Get dashboard data, optionally narrowed by a --where style filter
+function getDashboardData(where?: EntryQuery): DashboardData {
   const active = getTimerStatus();
-  const todayTotal = getTodayTotalSeconds();
   const todayDate = new Date().toISOString().split('T')[0];
-  const categorySummary = getCategorySummary(todayDate, todayDate);
+  const todayTotal = where ? getTotalSecondsFiltered(todayDate, todayDate, { where }) : getTodayTotalSeconds();
+  const categorySummary = where
+    ? getCategorySummaryFiltered(todayDate, todayDate, { where })
+    : getCategorySummary(todayDate, todayDate);
+  const activeDuration = active && (!where || entryMatchesQuery(active.id, where)) ? getActiveDuration() : 0;
 
   // Get week data - use single query instead of N+1 pattern
   const db = getDatabase();
@@ -57,10 +80,12 @@ function getDashboardData(): DashboardData {
     SELECT 
       date(start_time) as date,
       COALESCE(SUM(duration_seconds), 0) as total
-    FROM time_entries
+    FROM time_entries e
     WHERE date(start_time) >= date(?) AND date(start_time) <= date(?)
+      AND deleted_at IS NULL
+    ${where ? `AND (${where.sql})` : ''}
     GROUP BY date(start_time)
-  `).all(weekStartStr, weekEndStr) as { date: string; total: number }[];
+  `).all(weekStartStr, weekEndStr, ...(where?.params ?? [])) as { date: string; total: number }[];
   
   // Create map for quick lookup
   const weekDataMap = new Map(weekData.map(d => [d.date, d.total]));
@@ -82,11 +107,15 @@ function getDashboardData(): DashboardData {
       startTime: active?.start_time || null,
     },
     today: {
-      totalSeconds: todayTotal + (active ? getActiveDuration() : 0),
-      categories: categorySummary.map(c => ({
-        name: c.category,
-        seconds: c.total_seconds,
-        color: c.color,
+      totalSeconds: todayTotal + activeDuration,
+      productivityScore: Math.round(getProductivityScore(todayDate, todayDate).score),
+      categories: flattenCategoryTree(buildCategoryTree(categorySummary)).map(({ node, depth, parent }) => ({
+        name: node.category,
+        seconds: node.total_seconds,
+        ownSeconds: node.own_seconds,
+        color: node.color,
+        depth,
+        parent,
       })),
     },
     week: {
@@ -103,12 +132,20 @@ function generateHTML(data: DashboardData): string {
     return h > 0 ? `${h}h ${m}m` : `${m}m`;
   };
 
-  const categoriesHTML = data.today.categories.map(c => `
-    <div class="category-row">
-      <span class="category-name" style="color: ${escapeHtml(c.color || '#888')}">${escapeHtml(c.name)}</span>
-      <span class="category-time">${formatDuration(c.seconds)}</span>
-    </div>
-  `).join('');
+  // Parents with subcategories expand to show them
+  const categoryHTML = (parent: string | null): string => data.today.categories
+    .filter(c => c.parent === parent)
+    .map(c => {
+      const row = `
+        <span class="category-name" style="color: ${escapeHtml(c.color || '#888')}">${escapeHtml(c.name)}</span>
+        <span class="category-time">${formatDuration(c.seconds)}</span>`;
+      const children = categoryHTML(c.name);
+      return children
+        ? `<details class="category-group"><summary class="category-row">${row}</summary><div class="category-children">${children}</div></details>`
+        : `<div class="category-row">${row}</div>`;
+    })
+    .join('');
+  const categoriesHTML = categoryHTML(null);
 
   const weekChartHTML = data.week.days.map(d => {
     const maxSeconds = Math.max(...data.week.days.map(x => x.seconds), 1);
@@ -183,6 +220,10 @@ function generateHTML(data: DashboardData): string {
       color: #fff;
       margin-bottom: 15px;
     }
+    .today-score {
+      color: #888;
+      margin: -10px 0 15px;
+    }
     .category-row {
       display: flex;
       justify-content: space-between;
@@ -190,6 +231,11 @@ function generateHTML(data: DashboardData): string {
       border-bottom: 1px solid #2a2a4a;
     }
     .category-row:last-child { border-bottom: none; }
+    summary.category-row { cursor: pointer; list-style: none; }
+    summary.category-row::-webkit-details-marker { display: none; }
+    .category-group[open] > summary .category-name::after { content: ' ▾'; color: #666; }
+    .category-group:not([open]) > summary .category-name::after { content: ' ▸'; color: #666; }
+    .category-children { padding-left: 16px; font-size: 0.95em; }
     .chart-container {
       display: flex;
       justify-content: space-between;
@@ -240,6 +286,7 @@ function generateHTML(data: DashboardData): string {
     <div class="card">
       <h2>Today</h2>
       <div class="today-total">${formatDuration(data.today.totalSeconds)}</div>
+      <div class="today-score">Productivity score: ${data.today.productivityScore}%</div>
       ${categoriesHTML || '<p style="color: #666">No time tracked today</p>'}
     </div>
 
@@ -258,7 +305,7 @@ function generateHTML(data: DashboardData): string {
 
 // Handle HTTP requests
 function handleRequest(req: IncomingMessage, res: ServerResponse): void {
-  const url = req.url || '/';
+  const { pathname: url, searchParams } = new URL(req.url || '/', 'http://localhost');
 
   if (url === '/' || url === '/index.html') {
     const data = getDashboardData();
@@ -266,7 +313,18 @@ function handleRequest(req: IncomingMessage, res: ServerResponse): void {
     res.writeHead(200, { 'Content-Type': 'text/html' });
     res.end(html);
   } else if (url === '/api/data') {
-    const data = getDashboardData();
+    // ?where=project:acme narrows the totals like --where does on the CLI
+    const expression = searchParams.get('where');
+    let where: EntryQuery | undefined;
+    try {
+      where = expression ? parseEntryQuery(expression) : undefined;
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: err.message }));
+      return;
+    }
+    const data = getDashboardData(where);
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify(data));
   } else if (url === '/api/status') {
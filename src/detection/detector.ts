@@ -0,0 +1,30 @@
+import type { WindowInfo } from '../types/index.js';
+import { getActiveWindow, getIdleTime, checkAccessibilityPermission, getProcessCwd } from './index.js';
+import { withBrowserDomain } from '../browser/tab-state.js';
+
+/**
+ * Source of window, idle and time information for the tracker.
+ * The daemon uses the system detector; tests and `tt daemon simulate`
+ * inject a replay detector with a virtual clock.
+ */
+export interface WindowDetector {
+  name: string;
+  getActiveWindow(): WindowInfo;
+  // Seconds since the last user input
+  getIdleTime(): number;
+  checkPermission(): boolean;
+  // Current time as seen by the detector
+  now(): Date;
+  // Working directory of a window's process, where the platform can tell
+  getProcessCwd?(pid: number): string | null;
+}
+
+// Detector backed by the platform detection modules and the browser extension
+export const systemDetector: WindowDetector = {
+  name: 'system',
+  getActiveWindow: () => withBrowserDomain(getActiveWindow()),
+  getIdleTime,
+  checkPermission: checkAccessibilityPermission,
+  now: () => new Date(),
+  getProcessCwd,
+};
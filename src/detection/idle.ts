@@ -1,26 +1,86 @@
-import { execSync } from 'child_process';
+import { platform } from 'os';
+import * as macosModule from './macos.js';
+import * as linuxModule from './linux.js';
+import * as windowsModule from './windows.js';
+
+export type IdleBackendName =
+  | 'ioreg'
+  | 'xprintidle'
+  | 'xssstate'
+  | 'logind'
+  | 'logind-dbus'
+  | 'windows'
+  | 'none';
+
+interface IdleBackend {
+  name: IdleBackendName;
+  // Idle seconds, or null when the backend is unavailable
+  read: () => number | null;
+}
+
+// Idle backends in order of preference for the current session
+function getIdleBackends(): IdleBackend[] {
+  const currentPlatform = platform();
+
+  if (currentPlatform === 'darwin') {
+    return [{ name: 'ioreg', read: macosModule.getMacIdleTime }];
+  }
+
+  if (currentPlatform === 'win32') {
+    return [{ name: 'windows', read: windowsModule.getWindowsIdleTime }];
+  }
+
+  if (currentPlatform === 'linux') {
+    const logind: IdleBackend[] = [
+      { name: 'logind', read: linuxModule.getLoginctlIdleTime },
+      { name: 'logind-dbus', read: linuxModule.getLogindDbusIdleTime },
+    ];
+
+    // XScreenSaver only sees X11 input; Wayland compositors report through logind
+    if (linuxModule.isX11()) {
+      return [
+        { name: 'xprintidle', read: linuxModule.getXprintidleTime },
+        { name: 'xssstate', read: linuxModule.getXssstateIdleTime },
+        ...logind,
+      ];
+    }
+    return logind;
+  }
+
+  return [];
+}
+
+// Backend that answered last (re-probed when it stops working)
+let activeBackend: IdleBackend | null = null;
+
+// Read idle time, falling back through the backends
+function readIdleTime(): { seconds: number; backend: IdleBackendName } {
+  if (activeBackend) {
+    const seconds = activeBackend.read();
+    if (seconds !== null) return { seconds, backend: activeBackend.name };
+  }
+
+  for (const backend of getIdleBackends()) {
+    if (backend.name === activeBackend?.name) continue;
+    const seconds = backend.read();
+    if (seconds !== null) {
+      activeBackend = backend;
+      return { seconds, backend: backend.name };
+    }
+  }
+
+  activeBackend = null;
+  return { seconds: 0, backend: 'none' };
+}
 
 // Get system idle time in seconds
 export function getIdleTime(): number {
-  try {
-    // Use ioreg to get HID idle time (in nanoseconds)
-    const result = execSync(
-      `ioreg -c IOHIDSystem | awk '/HIDIdleTime/ {print $NF; exit}'`,
-      {
-        encoding: 'utf-8',
-        timeout: 2000,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      }
-    ).trim();
-
-    // Convert nanoseconds to seconds
-    const nanoseconds = parseInt(result, 10);
-    if (isNaN(nanoseconds)) return 0;
-
-    return Math.floor(nanoseconds / 1000000000);
-  } catch {
-    return 0;
-  }
+  return readIdleTime().seconds;
+}
+
+// Get the idle detection backend in use ('none' if idle time is unavailable)
+export function getIdleBackend(): IdleBackendName {
+  return readIdleTime().backend;
 }
 
 // Check if system is idle (default: 5 minutes)
@@ -30,6 +30,19 @@ export function getActiveWindow(): WindowInfo {
   };
 }
 
+// Working directory of a window's process (Linux only, via /proc)
+export function getProcessCwd(pid: number): string | null {
+  return currentPlatform === 'linux' ? linuxModule.getProcessCwd(pid) : null;
+}
+
+// Name of the window detection backend in use
+export function getWindowBackend(): string {
+  if (currentPlatform === 'darwin') return 'accessibility';
+  if (currentPlatform === 'linux') return linuxModule.getWindowBackend();
+  if (currentPlatform === 'win32') return 'powershell';
+  return 'none';
+}
+
 export function checkAccessibilityPermission(): boolean {
   if (currentPlatform === 'darwin') {
     return macosModule.checkAccessibilityPermission();
@@ -54,7 +67,7 @@ Window detection is not supported on this platform.
 
 Supported platforms:
   - macOS (uses Accessibility API)
-  - Linux with X11 (uses xdotool)
+  - Linux with X11 (uses xdotool) or Wayland (GNOME, KDE, sway, Hyprland)
   - Windows (uses PowerShell)
 `;
 }
@@ -1,5 +1,7 @@
 import { execSync } from 'child_process';
+import { readFileSync, readlinkSync } from 'fs';
 import type { WindowInfo } from '../types/index.js';
+import { isWayland, selectWaylandBackend, getWaylandActiveWindow } from './wayland.js';
 
 // Check if running on X11 (not Wayland)
 export function isX11(): boolean {
@@ -22,8 +24,31 @@ export function isXdotoolInstalled(): boolean {
   }
 }
 
-// Get information about the currently active window using xdotool
+// Name of the window detection backend for this session
+export function getWindowBackend(): string {
+  if (isWayland()) {
+    return selectWaylandBackend()?.name || 'none';
+  }
+  return isX11() ? 'xdotool' : 'none';
+}
+
+// Get information about the currently active window
 export function getActiveWindow(): WindowInfo {
+  if (isWayland()) {
+    const backend = selectWaylandBackend();
+    return (backend && getWaylandActiveWindow(backend)) || {
+      appName: 'Unknown',
+      appBundleId: '',
+      windowTitle: '',
+      timestamp: new Date(),
+    };
+  }
+
+  return getX11ActiveWindow();
+}
+
+// Get information about the currently active window using xdotool
+function getX11ActiveWindow(): WindowInfo {
   try {
     // Get active window ID
     const windowId = execSync('xdotool getactivewindow', {
@@ -72,10 +97,12 @@ export function getActiveWindow(): WindowInfo {
       }
     }
 
+    const pid = parseInt(windowPid, 10);
     return {
       appName,
       appBundleId: '', // Linux doesn't have bundle IDs
       windowTitle,
+      pid: Number.isNaN(pid) ? null : pid,
       timestamp: new Date(),
     };
   } catch {
@@ -89,8 +116,11 @@ export function getActiveWindow(): WindowInfo {
   }
 }
 
-// Check if we can detect windows (xdotool available and X11 running)
+// Check if we can detect windows (a Wayland backend, or xdotool on X11)
 export function checkLinuxPermission(): boolean {
+  if (isWayland()) {
+    return selectWaylandBackend() !== null && getActiveWindow().appName !== 'Unknown';
+  }
   if (!isX11()) {
     return false;
   }
@@ -108,15 +138,32 @@ export function checkLinuxPermission(): boolean {
 
 // Get permission instructions for Linux
 export function getLinuxPermissionInstructions(): string {
-  if (!isX11()) {
+  if (isWayland()) {
+    const backend = selectWaylandBackend();
+    if (!backend) {
+      return `
+Wayland compositor not supported for window detection.
+
+Supported compositors: GNOME, KDE Plasma, sway and Hyprland.
+Detected desktop: ${process.env.XDG_CURRENT_DESKTOP || '(unknown)'}
+
+To check your session:
+  echo $XDG_SESSION_TYPE $XDG_CURRENT_DESKTOP
+`;
+    }
+
     return `
-Wayland detected - window detection requires X11.
+Wayland window detection (${backend.name}) is not working.
 
-Timer Record uses xdotool for window detection, which only works on X11.
-If you're using Wayland, consider:
-  - Running your desktop in X11 mode
-  - Using XWayland for specific applications
-  - Waiting for Wayland support in a future version
+${backend.requirements}
+
+Run 'tt detect' to test window detection.
+`;
+  }
+
+  if (!isX11()) {
+    return `
+No display server detected - window detection needs X11 or Wayland.
 
 To check your display server:
   echo $XDG_SESSION_TYPE
@@ -148,3 +195,139 @@ Make sure you have:
 Run 'tt detect' to test window detection.
 `;
 }
+
+// Run a command, returning its output or null if it fails or is missing
+function tryExec(command: string): string | null {
+  try {
+    return execSync(command, {
+      encoding: 'utf-8',
+      timeout: 2000,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+// Parse milliseconds printed by xprintidle / xssstate
+export function parseIdleMilliseconds(output: string | null): number | null {
+  if (output === null) return null;
+  const milliseconds = parseInt(output, 10);
+  if (isNaN(milliseconds) || milliseconds < 0) return null;
+  return Math.floor(milliseconds / 1000);
+}
+
+// Idle time from xprintidle (XScreenSaver extension) in seconds
+export function getXprintidleTime(): number | null {
+  return parseIdleMilliseconds(tryExec('xprintidle'));
+}
+
+// Idle time from xssstate (XScreenSaver extension, suckless-tools) in seconds
+export function getXssstateIdleTime(): number | null {
+  return parseIdleMilliseconds(tryExec('xssstate -i'));
+}
+
+// Current CLOCK_MONOTONIC time in microseconds (the clock logind timestamps use)
+function monotonicMicroseconds(): bigint {
+  return process.hrtime.bigint() / 1000n;
+}
+
+// Convert logind's IdleHint / IdleSinceHintMonotonic to idle seconds
+function logindIdleSeconds(idle: boolean, sinceMonotonic: bigint, nowMonotonic: bigint): number {
+  if (!idle || sinceMonotonic <= 0n) return 0;
+  const elapsed = nowMonotonic - sinceMonotonic;
+  return elapsed > 0n ? Number(elapsed / 1000000n) : 0;
+}
+
+/**
+ * Parse `loginctl show-session -p IdleHint -p IdleSinceHintMonotonic` output.
+ * The compositor sets IdleHint; the session is active whenever it is "no".
+ */
+export function parseLoginctlIdle(output: string | null, nowMonotonic: bigint): number | null {
+  if (output === null) return null;
+
+  const idle = output.match(/^IdleHint=(yes|no)$/m);
+  const since = output.match(/^IdleSinceHintMonotonic=(\d+)$/m);
+  if (!idle || !since) return null;
+
+  return logindIdleSeconds(idle[1] === 'yes', BigInt(since[1]), nowMonotonic);
+}
+
+/**
+ * Parse the two `gdbus call ... Properties.Get` replies for IdleHint
+ * ("(<true>,)") and IdleSinceHintMonotonic ("(<uint64 123>,)").
+ */
+export function parseLogindDbusIdle(
+  hintOutput: string | null,
+  sinceOutput: string | null,
+  nowMonotonic: bigint
+): number | null {
+  if (hintOutput === null || sinceOutput === null) return null;
+
+  const idle = hintOutput.match(/<(true|false)>/);
+  const since = sinceOutput.match(/<uint64 (\d+)>/);
+  if (!idle || !since) return null;
+
+  return logindIdleSeconds(idle[1] === 'true', BigInt(since[1]), nowMonotonic);
+}
+
+// Idle time from logind via loginctl in seconds
+export function getLoginctlIdleTime(): number | null {
+  const sessionId = process.env.XDG_SESSION_ID;
+  const session = sessionId && /^[\w-]+$/.test(sessionId) ? sessionId : 'self';
+  const output = tryExec(`loginctl show-session ${session} -p IdleHint -p IdleSinceHintMonotonic`);
+  return parseLoginctlIdle(output, monotonicMicroseconds());
+}
+
+// Escape a session ID for a D-Bus object path (as sd_bus_path_encode does)
+function busPathEscape(value: string): string {
+  return value.split('').map((c, i) =>
+    /[A-Za-z]/.test(c) || (i > 0 && /[0-9]/.test(c))
+      ? c
+      : `_${c.charCodeAt(0).toString(16).padStart(2, '0')}`
+  ).join('');
+}
+
+// Idle time from logind over D-Bus (when loginctl is unavailable) in seconds
+export function getLogindDbusIdleTime(): number | null {
+  const session = process.env.XDG_SESSION_ID ? busPathEscape(process.env.XDG_SESSION_ID) : 'auto';
+  const property = (name: string) => tryExec(
+    'gdbus call --system --dest org.freedesktop.login1 ' +
+    `--object-path /org/freedesktop/login1/session/${session} ` +
+    `--method org.freedesktop.DBus.Properties.Get org.freedesktop.login1.Session ${name}`
+  );
+  return parseLogindDbusIdle(property('IdleHint'), property('IdleSinceHintMonotonic'), monotonicMicroseconds());
+}
+
+/**
+ * Working directory of a window's process. Terminals keep their own cwd at
+ * $HOME, so follow the newest child down (terminal → shell → editor) and use
+ * the deepest one that can be read.
+ */
+export function getProcessCwd(pid: number): string | null {
+  let current = pid;
+  let cwd: string | null = null;
+
+  for (let depth = 0; depth < 8; depth++) {
+    try {
+      cwd = readlinkSync(`/proc/${current}/cwd`);
+    } catch {
+      break;
+    }
+
+    let children: number[] = [];
+    try {
+      children = readFileSync(`/proc/${current}/task/${current}/children`, 'utf-8')
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(Number);
+    } catch {
+      // No children file (older kernels): stay with this process
+    }
+    if (children.length === 0) break;
+    current = Math.max(...children);
+  }
+
+  return cwd;
+}
@@ -53,6 +53,28 @@ export function getActiveWindow(): WindowInfo {
   }
 }
 
+// Get HID idle time in seconds from ioreg (null if unavailable)
+export function getMacIdleTime(): number | null {
+  try {
+    const result = execSync(
+      `ioreg -c IOHIDSystem | awk '/HIDIdleTime/ {print $NF; exit}'`,
+      {
+        encoding: 'utf-8',
+        timeout: 2000,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      }
+    ).trim();
+
+    // Convert nanoseconds to seconds
+    const nanoseconds = parseInt(result, 10);
+    if (isNaN(nanoseconds)) return null;
+
+    return Math.floor(nanoseconds / 1000000000);
+  } catch {
+    return null;
+  }
+}
+
 // Check if we have accessibility permissions
 export function checkAccessibilityPermission(): boolean {
   try {
@@ -0,0 +1,148 @@
+/**
+ * Replay Detector
+ *
+ * Plays back a recorded timeline instead of asking the system, so the
+ * tracker can be exercised without a desktop. A timeline is JSONL, one
+ * event per line:
+ *
+ *   {"at": "2026-03-02T09:00:00", "appName": "Code", "windowTitle": "app.ts", "idle": 0}
+ *
+ * `at` is an ISO timestamp, or use `offset` (seconds since the first event).
+ * `domain` stands in for the browser extension's active-tab report.
+ * An event holds until the next one; the last event marks the end.
+ */
+
+import { ValidationError } from '../errors/index.js';
+import type { WindowInfo } from '../types/index.js';
+import type { WindowDetector } from './detector.js';
+
+export interface TimelineEvent {
+  at: Date;
+  window: WindowInfo;
+  idle: number;
+}
+
+interface TimelineLine {
+  at?: unknown;
+  offset?: unknown;
+  appName?: unknown;
+  appBundleId?: unknown;
+  windowTitle?: unknown;
+  domain?: unknown;
+  idle?: unknown;
+}
+
+// Parse a JSONL timeline, reporting the offending line on errors
+export function parseTimeline(content: string): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  let origin: Date | null = null;
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('//')) return;
+
+    const lineNumber = index + 1;
+    let parsed: TimelineLine;
+    try {
+      parsed = JSON.parse(line) as TimelineLine;
+    } catch {
+      throw new ValidationError(`Line ${lineNumber}: invalid JSON`);
+    }
+
+    let at: Date;
+    if (typeof parsed.at === 'string') {
+      at = new Date(parsed.at);
+      if (isNaN(at.getTime())) {
+        throw new ValidationError(`Line ${lineNumber}: invalid timestamp "${parsed.at}"`, 'at');
+      }
+    } else if (typeof parsed.offset === 'number') {
+      at = new Date((origin ?? new Date(0)).getTime() + parsed.offset * 1000);
+    } else {
+      throw new ValidationError(`Line ${lineNumber}: "at" or "offset" is required`, 'at');
+    }
+    origin = origin ?? at;
+
+    if (typeof parsed.appName !== 'string' || !parsed.appName) {
+      throw new ValidationError(`Line ${lineNumber}: "appName" is required`, 'appName');
+    }
+    if (parsed.idle !== undefined && (typeof parsed.idle !== 'number' || parsed.idle < 0)) {
+      throw new ValidationError(`Line ${lineNumber}: "idle" must be a non-negative number of seconds`, 'idle');
+    }
+
+    const previous = events[events.length - 1];
+    if (previous && at < previous.at) {
+      throw new ValidationError(`Line ${lineNumber}: events must be in chronological order`, 'at');
+    }
+
+    events.push({
+      at,
+      window: {
+        appName: parsed.appName,
+        appBundleId: typeof parsed.appBundleId === 'string' ? parsed.appBundleId : '',
+        windowTitle: typeof parsed.windowTitle === 'string' ? parsed.windowTitle : '',
+        domain: typeof parsed.domain === 'string' ? parsed.domain : null,
+        timestamp: at,
+      },
+      idle: typeof parsed.idle === 'number' ? parsed.idle : 0,
+    });
+  });
+
+  if (events.length === 0) {
+    throw new ValidationError('Timeline has no events');
+  }
+  return events;
+}
+
+export class ReplayDetector implements WindowDetector {
+  name = 'replay';
+  private events: TimelineEvent[];
+  private current: Date;
+
+  constructor(events: TimelineEvent[]) {
+    if (events.length === 0) {
+      throw new ValidationError('Timeline has no events');
+    }
+    this.events = events;
+    this.current = events[0].at;
+  }
+
+  get startTime(): Date {
+    return this.events[0].at;
+  }
+
+  get endTime(): Date {
+    return this.events[this.events.length - 1].at;
+  }
+
+  // Move the virtual clock
+  advanceTo(time: Date): void {
+    this.current = time;
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  // Latest event at or before the virtual clock
+  private currentEvent(): TimelineEvent {
+    let event = this.events[0];
+    for (const candidate of this.events) {
+      if (candidate.at > this.current) break;
+      event = candidate;
+    }
+    return event;
+  }
+
+  getActiveWindow(): WindowInfo {
+    const { window } = this.currentEvent();
+    return { ...window, timestamp: this.now() };
+  }
+
+  getIdleTime(): number {
+    return this.currentEvent().idle;
+  }
+
+  checkPermission(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Wayland Active Window Detection
+ *
+ * Wayland has no global window query like xdotool, so each compositor
+ * is asked through its own interface:
+ * - GNOME: Window Calls extension, or Shell.Eval where it is still enabled
+ * - KDE: a KWin script loaded once over D-Bus that prints window changes to the journal
+ * - sway: `swaymsg -t get_tree`
+ * - Hyprland: `hyprctl activewindow -j`
+ *
+ * Backends run commands through an injectable runner so they can be
+ * tested with recorded output.
+ */
+
+import { execSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { WindowInfo } from '../types/index.js';
+
+export type WaylandCompositor = 'gnome' | 'kde' | 'sway' | 'hyprland';
+
+// Runs a shell command, returning stdout or null on failure
+export type CommandRunner = (command: string) => string | null;
+
+// Window as reported by a compositor, before mapping to WindowInfo
+export interface CompositorWindow {
+  appId: string;
+  title: string;
+  pid: number | null;
+}
+
+export interface WaylandBackend {
+  name: WaylandCompositor;
+  // Whether the current session runs this compositor
+  matches: (env: NodeJS.ProcessEnv) => boolean;
+  getActiveWindow: (run: CommandRunner) => CompositorWindow | null;
+  // Release anything kept loaded between polls
+  stop?: (run: CommandRunner) => void;
+  // What the user needs installed when detection fails
+  requirements: string;
+}
+
+// Default runner: execSync with a short timeout
+export const runCommand: CommandRunner = (command) => {
+  try {
+    return execSync(command, {
+      encoding: 'utf-8',
+      timeout: 3000,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }).trim();
+  } catch {
+    return null;
+  }
+};
+
+// Check if the session is running under Wayland (XWayland included)
+export function isWayland(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.WAYLAND_DISPLAY) || env.XDG_SESSION_TYPE === 'wayland';
+}
+
+function currentDesktop(env: NodeJS.ProcessEnv): string[] {
+  return (env.XDG_CURRENT_DESKTOP || '').toLowerCase().split(':');
+}
+
+/**
+ * Extract the string values from GVariant text output such as
+ * `(true, '{"a": 1}')` or `('[...]',)`.
+ */
+export function parseGVariantStrings(output: string): string[] {
+  const strings: string[] = [];
+  const pattern = /'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(output)) !== null) {
+    const raw = match[1] ?? match[2];
+    strings.push(raw.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+      if (escape.length === 5) return String.fromCharCode(parseInt(escape.slice(1), 16));
+      if (escape === 'n') return '\n';
+      if (escape === 't') return '\t';
+      return escape;
+    }));
+  }
+
+  return strings;
+}
+
+// === GNOME ===
+
+const GNOME_WINDOWS_CALL = 'gdbus call --session --dest org.gnome.Shell ' +
+  '--object-path /org/gnome/Shell/Extensions/Windows --method org.gnome.Shell.Extensions.Windows';
+
+const GNOME_EVAL_SCRIPT = 'const w = global.display.focus_window; ' +
+  'w ? JSON.stringify({ wm_class: w.get_wm_class(), title: w.get_title(), pid: w.get_pid() }) : "null"';
+
+interface GnomeWindow {
+  wm_class?: string;
+  wm_class_instance?: string;
+  title?: string;
+  pid?: number;
+  id?: number;
+  focus?: boolean;
+}
+
+function fromGnomeWindow(window: GnomeWindow, title?: string): CompositorWindow {
+  return {
+    appId: window.wm_class || window.wm_class_instance || 'Unknown',
+    title: title ?? window.title ?? '',
+    pid: typeof window.pid === 'number' && window.pid > 0 ? window.pid : null,
+  };
+}
+
+// Parse the Window Calls extension List reply
+export function parseGnomeWindowList(output: string): GnomeWindow | null {
+  const [json] = parseGVariantStrings(output);
+  if (!json) return null;
+
+  const windows = JSON.parse(json) as GnomeWindow[];
+  return windows.find(w => w.focus) || null;
+}
+
+// Parse an org.gnome.Shell.Eval reply ("(false, '')" when Eval is disabled)
+export function parseGnomeEval(output: string): CompositorWindow | null {
+  if (!output.trim().startsWith('(true')) return null;
+
+  const [json] = parseGVariantStrings(output);
+  const window = json ? JSON.parse(json) as GnomeWindow | null : null;
+  return window ? fromGnomeWindow(window) : null;
+}
+
+export const gnomeBackend: WaylandBackend = {
+  name: 'gnome',
+  matches: (env) => currentDesktop(env).includes('gnome'),
+  getActiveWindow: (run) => {
+    const list = run(`${GNOME_WINDOWS_CALL}.List`);
+    if (list !== null) {
+      const window = parseGnomeWindowList(list);
+      if (!window) return null;
+
+      // Older extension versions leave the title out of List
+      if (window.title === undefined && window.id !== undefined) {
+        const title = run(`${GNOME_WINDOWS_CALL}.GetTitle ${window.id}`);
+        return fromGnomeWindow(window, title !== null ? parseGVariantStrings(title)[0] || '' : '');
+      }
+      return fromGnomeWindow(window);
+    }
+
+    // Shell.Eval only works in unsafe mode on GNOME 41+
+    const evalOutput = run(
+      `gdbus call --session --dest org.gnome.Shell --object-path /org/gnome/Shell ` +
+      `--method org.gnome.Shell.Eval '${GNOME_EVAL_SCRIPT}'`
+    );
+    return evalOutput !== null ? parseGnomeEval(evalOutput) : null;
+  },
+  requirements: 'Install the "Window Calls" GNOME Shell extension (extensions.gnome.org/extension/4724)',
+};
+
+// === KDE ===
+
+const KWIN_SCRIPTING = 'gdbus call --session --dest org.kde.KWin --object-path /Scripting';
+
+// Stays loaded: prints the active window now, and again whenever focus or the focused caption changes.
+// KWin 6 exposes activeWindow/windowActivated, KWin 5 activeClient/clientActivated.
+function kwinScript(marker: string): string {
+  return `function report() {
+  const w = workspace.activeWindow || workspace.activeClient;
+  print("${marker}" + JSON.stringify(w ? { resourceClass: String(w.resourceClass), caption: String(w.caption), pid: w.pid } : null));
+}
+let watched = null;
+function track() {
+  if (watched) watched.captionChanged.disconnect(report);
+  watched = workspace.activeWindow || workspace.activeClient;
+  if (watched) watched.captionChanged.connect(report);
+  report();
+}
+(workspace.windowActivated || workspace.clientActivated).connect(track);
+track();
+`;
+}
+
+// Find the line a KWin script printed to the journal
+export function parseKwinJournal(output: string, marker: string): CompositorWindow | null {
+  const line = output.split('\n').reverse().find(l => l.includes(marker));
+  if (!line) return null;
+
+  const window = JSON.parse(line.slice(line.indexOf(marker) + marker.length)) as
+    { resourceClass?: string; caption?: string; pid?: number } | null;
+  if (!window) return null;
+
+  return {
+    appId: window.resourceClass || 'Unknown',
+    title: window.caption || '',
+    pid: typeof window.pid === 'number' && window.pid > 0 ? window.pid : null,
+  };
+}
+
+// The loaded KWin script, the journal position read up to and the last window it reported
+interface KwinWatcher {
+  pluginName: string;
+  marker: string;
+  cursor: string | null;
+  window: CompositorWindow | null;
+  checkedAt: number;
+}
+
+let kwinWatcher: KwinWatcher | null = null;
+
+// How long the journal may lag behind the script's first report, and how often to check it is still loaded
+const KWIN_FIRST_REPORT_WAITS_MS = [50, 150, 300];
+const KWIN_LOADED_CHECK_MS = 60 * 1000;
+
+// Block briefly; detection is synchronous
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+// Read journal lines written since the watcher's cursor, moving the cursor past them
+function readKwinJournal(run: CommandRunner, watcher: KwinWatcher): boolean {
+  // Without a cursor yet, recent lines give one (and can't hold reports of a script not loaded yet)
+  const after = watcher.cursor ? ` --after-cursor '${watcher.cursor}'` : ' -n 200';
+  const journal = run(`journalctl --user -o cat --no-pager --show-cursor${after}`);
+  if (journal === null) return false;
+
+  const cursor = journal.match(/^-- cursor: (.+)$/m)?.[1];
+  if (cursor) watcher.cursor = cursor;
+  if (!journal.includes(watcher.marker)) return false;
+
+  watcher.window = parseKwinJournal(journal, watcher.marker);
+  return true;
+}
+
+// Load the script and wait for its first report
+function loadKwinWatcher(run: CommandRunner): KwinWatcher | null {
+  const nonce = crypto.randomBytes(6).toString('hex');
+  const watcher: KwinWatcher = {
+    pluginName: `timer-record-${nonce}`,
+    marker: `timer-record-window-${nonce}:`,
+    cursor: null,
+    window: null,
+    checkedAt: Date.now(),
+  };
+  const scriptPath = path.join(os.tmpdir(), `${watcher.pluginName}.js`);
+
+  // Start reading from here, so only this script's reports are seen
+  readKwinJournal(run, watcher);
+
+  fs.writeFileSync(scriptPath, kwinScript(watcher.marker));
+  try {
+    const loaded = run(`${KWIN_SCRIPTING} --method org.kde.kwin.Scripting.loadScript '${scriptPath}' '${watcher.pluginName}'`);
+    const id = loaded?.match(/int32 (\d+)/)?.[1];
+    if (!id) return null;
+
+    // Script objects live at /Scripting/Script<N> on KWin 6 and /<N> on KWin 5
+    const ran = run(`gdbus call --session --dest org.kde.KWin --object-path /Scripting/Script${id} --method org.kde.kwin.Script.run`) !== null ||
+      run(`gdbus call --session --dest org.kde.KWin --object-path /${id} --method org.kde.kwin.Script.run`) !== null;
+    if (!ran) {
+      run(`${KWIN_SCRIPTING} --method org.kde.kwin.Scripting.unloadScript '${watcher.pluginName}'`);
+      return null;
+    }
+  } finally {
+    fs.rmSync(scriptPath, { force: true });
+  }
+
+  process.once('exit', () => kdeBackend.stop!(run));
+  for (const wait of KWIN_FIRST_REPORT_WAITS_MS) {
+    if (readKwinJournal(run, watcher)) break;
+    sleepSync(wait);
+  }
+  return watcher;
+}
+
+export const kdeBackend: WaylandBackend = {
+  name: 'kde',
+  matches: (env) => currentDesktop(env).includes('kde') || env.KDE_FULL_SESSION === 'true',
+  getActiveWindow: (run) => {
+    if (!kwinWatcher) {
+      kwinWatcher = loadKwinWatcher(run);
+      return kwinWatcher?.window ?? null;
+    }
+
+    if (!readKwinJournal(run, kwinWatcher) && Date.now() - kwinWatcher.checkedAt > KWIN_LOADED_CHECK_MS) {
+      // Quiet for a while: make sure KWin hasn't restarted without the script
+      kwinWatcher.checkedAt = Date.now();
+      const loaded = run(`${KWIN_SCRIPTING} --method org.kde.kwin.Scripting.isScriptLoaded '${kwinWatcher.pluginName}'`);
+      if (loaded !== null && loaded.includes('false')) {
+        kwinWatcher = null;
+        return null;
+      }
+    }
+    return kwinWatcher.window;
+  },
+  stop: (run) => {
+    if (!kwinWatcher) return;
+    run(`${KWIN_SCRIPTING} --method org.kde.kwin.Scripting.unloadScript '${kwinWatcher.pluginName}'`);
+    kwinWatcher = null;
+  },
+  requirements: 'KWin scripting needs gdbus (glib2) and journalctl',
+};
+
+// === sway ===
+
+interface SwayNode {
+  focused?: boolean;
+  type?: string;
+  name?: string | null;
+  app_id?: string | null;
+  pid?: number;
+  window_properties?: { class?: string; instance?: string };
+  nodes?: SwayNode[];
+  floating_nodes?: SwayNode[];
+}
+
+// Find the focused window in `swaymsg -t get_tree` output
+export function parseSwayTree(output: string): CompositorWindow | null {
+  const find = (node: SwayNode): SwayNode | null => {
+    if (node.focused && (node.type === 'con' || node.type === 'floating_con')) return node;
+    for (const child of [...(node.nodes || []), ...(node.floating_nodes || [])]) {
+      const found = find(child);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const focused = find(JSON.parse(output) as SwayNode);
+  if (!focused) return null;
+
+  return {
+    // Native Wayland clients have app_id; XWayland clients only the X11 class
+    appId: focused.app_id || focused.window_properties?.class || 'Unknown',
+    title: focused.name || '',
+    pid: typeof focused.pid === 'number' && focused.pid > 0 ? focused.pid : null,
+  };
+}
+
+export const swayBackend: WaylandBackend = {
+  name: 'sway',
+  matches: (env) => Boolean(env.SWAYSOCK) || currentDesktop(env).includes('sway'),
+  getActiveWindow: (run) => {
+    const output = run('swaymsg -t get_tree -r');
+    return output !== null ? parseSwayTree(output) : null;
+  },
+  requirements: 'swaymsg must be on PATH',
+};
+
+// === Hyprland ===
+
+// Parse `hyprctl activewindow -j` ("{}" when nothing is focused)
+export function parseHyprctlActiveWindow(output: string): CompositorWindow | null {
+  const window = JSON.parse(output) as { class?: string; initialClass?: string; title?: string; pid?: number };
+  if (!window.class && !window.initialClass) return null;
+
+  return {
+    appId: window.class || window.initialClass || 'Unknown',
+    title: window.title || '',
+    pid: typeof window.pid === 'number' && window.pid > 0 ? window.pid : null,
+  };
+}
+
+export const hyprlandBackend: WaylandBackend = {
+  name: 'hyprland',
+  matches: (env) => Boolean(env.HYPRLAND_INSTANCE_SIGNATURE) || currentDesktop(env).includes('hyprland'),
+  getActiveWindow: (run) => {
+    const output = run('hyprctl activewindow -j');
+    return output !== null ? parseHyprctlActiveWindow(output) : null;
+  },
+  requirements: 'hyprctl must be on PATH',
+};
+
+// Most specific first: wlroots compositors often also set a generic desktop name
+export const WAYLAND_BACKENDS: WaylandBackend[] = [hyprlandBackend, swayBackend, kdeBackend, gnomeBackend];
+
+// Pick the backend for the running compositor
+export function selectWaylandBackend(env: NodeJS.ProcessEnv = process.env): WaylandBackend | null {
+  return WAYLAND_BACKENDS.find(backend => backend.matches(env)) || null;
+}
+
+// Read the process name the same way the X11 backend does
+function readProcessName(pid: number): string | null {
+  try {
+    return fs.readFileSync(`/proc/${pid}/comm`, 'utf-8').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a compositor window to WindowInfo: the process name becomes the app
+ * name (as with xdotool) and the Wayland app ID / window class fills the
+ * bundle ID slot.
+ */
+export function toWindowInfo(
+  window: CompositorWindow,
+  getProcessName: (pid: number) => string | null = readProcessName
+): WindowInfo {
+  const processName = window.pid !== null ? getProcessName(window.pid) : null;
+  return {
+    appName: processName || window.appId,
+    appBundleId: window.appId === 'Unknown' ? '' : window.appId,
+    windowTitle: window.title,
+    pid: window.pid,
+    timestamp: new Date(),
+  };
+}
+
+// Get the active window from a Wayland backend (null if it could not tell)
+export function getWaylandActiveWindow(
+  backend: WaylandBackend,
+  run: CommandRunner = runCommand
+): WindowInfo | null {
+  try {
+    const window = backend.getActiveWindow(run);
+    return window ? toWindowInfo(window) : null;
+  } catch {
+    return null;
+  }
+}
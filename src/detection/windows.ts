@@ -32,6 +32,32 @@ $appName = if ($process) { $process.ProcessName } else { "Unknown" }
 Write-Output "$appName|||$($title.ToString())"
 `;
 
+// PowerShell script to get milliseconds since the last keyboard/mouse input.
+// TickCount is signed, so it is reinterpreted as unsigned like dwTime.
+const GET_IDLE_TIME_PS = `
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+public class Win32Idle {
+    [StructLayout(LayoutKind.Sequential)]
+    public struct LASTINPUTINFO {
+        public uint cbSize;
+        public uint dwTime;
+    }
+
+    [DllImport("user32.dll")]
+    public static extern bool GetLastInputInfo(ref LASTINPUTINFO info);
+}
+"@
+
+$info = New-Object Win32Idle+LASTINPUTINFO
+$info.cbSize = [System.Runtime.InteropServices.Marshal]::SizeOf($info)
+[Win32Idle]::GetLastInputInfo([ref]$info) | Out-Null
+
+$tick = [BitConverter]::ToUInt32([BitConverter]::GetBytes([Environment]::TickCount), 0)
+Write-Output ($tick - $info.dwTime)
+`;
+
 // Check if running on Windows
 export function isWindows(): boolean {
   return process.platform === 'win32';
@@ -69,6 +95,28 @@ export function getActiveWindow(): WindowInfo {
   }
 }
 
+// Get idle time in seconds from GetLastInputInfo (null if unavailable)
+export function getWindowsIdleTime(): number | null {
+  try {
+    const result = execSync(
+      `powershell -NoProfile -Command "${GET_IDLE_TIME_PS.replace(/"/g, '\\"').replace(/\n/g, ' ')}"`,
+      {
+        encoding: 'utf-8',
+        timeout: 5000,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        windowsHide: true,
+      }
+    ).trim();
+
+    const milliseconds = parseInt(result, 10);
+    if (isNaN(milliseconds) || milliseconds < 0) return null;
+
+    return Math.floor(milliseconds / 1000);
+  } catch {
+    return null;
+  }
+}
+
 // Check if window detection is working
 export function checkWindowsPermission(): boolean {
   try {
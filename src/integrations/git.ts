@@ -0,0 +1,249 @@
+/**
+ * Git Integration
+ * Finds the repository a path belongs to and reads its branch and remote
+ * straight from the .git directory, so the daemon never has to run git.
+ * Also installs the post-commit hook that records commits (tt integrate git).
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { parseIssueReference } from './github.js';
+import { parseJiraKey } from './jira.js';
+
+// Expand a leading ~ and make a path absolute
+export function expandPath(path: string): string {
+  const expanded = path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+  return resolve(expanded);
+}
+
+// Working tree root containing a path (null outside a repository)
+export function findRepoRoot(path: string): string | null {
+  let dir = expandPath(path);
+  try {
+    if (!statSync(dir).isDirectory()) dir = dirname(dir);
+  } catch {
+    return null;
+  }
+
+  for (;;) {
+    if (existsSync(join(dir, '.git'))) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// Git directory of a working tree (.git, or where a worktree's .git file points)
+export function gitDir(root: string): string | null {
+  const dotGit = join(root, '.git');
+  try {
+    if (statSync(dotGit).isDirectory()) return dotGit;
+    const match = readFileSync(dotGit, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+    return match ? resolve(root, match[1].trim()) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Directory holding config and hooks (shared by all worktrees)
+export function commonGitDir(root: string): string | null {
+  const dir = gitDir(root);
+  if (!dir) return null;
+  try {
+    return resolve(dir, readFileSync(join(dir, 'commondir'), 'utf-8').trim());
+  } catch {
+    return dir;
+  }
+}
+
+// Checked-out branch, or the short commit hash when HEAD is detached
+export function readBranch(root: string): string | null {
+  const dir = gitDir(root);
+  if (!dir) return null;
+  try {
+    const head = readFileSync(join(dir, 'HEAD'), 'utf-8').trim();
+    const ref = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+    if (ref) return ref[1];
+    return /^[0-9a-f]{40}$/.test(head) ? head.slice(0, 7) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Value of a key in the repository config, e.g. ('remote "origin"', 'url')
+function readConfigValue(root: string, section: string, key: string): string | null {
+  const dir = commonGitDir(root);
+  if (!dir) return null;
+
+  let config: string;
+  try {
+    config = readFileSync(join(dir, 'config'), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const [name, sub] = section.split(/\s+"?|"$/);
+  let inSection = false;
+  for (const line of config.split(/\r?\n/)) {
+    const header = line.match(/^\s*\[\s*([^\]\s]+)(?:\s+"([^"]*)")?\s*\]/);
+    if (header) {
+      inSection = header[1].toLowerCase() === name.toLowerCase() && (header[2] ?? '') === (sub ?? '');
+      continue;
+    }
+    const value = inSection && line.match(/^\s*([\w-]+)\s*=\s*(.+?)\s*$/);
+    if (value && value[1].toLowerCase() === key.toLowerCase()) return value[2];
+  }
+  return null;
+}
+
+// URL of a remote (origin unless given) from the repository config
+export function readRemoteUrl(root: string, remote = 'origin'): string | null {
+  return readConfigValue(root, `remote "${remote}"`, 'url');
+}
+
+/**
+ * Compare remotes by host and path only, so the SSH and HTTPS forms of a
+ * repository match: git@github.com:acme/api.git → github.com/acme/api
+ */
+export function normalizeRemoteUrl(url: string): string {
+  let value = url.trim();
+
+  const scp = value.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/)(.+)$/);
+  if (scp && !/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    value = `${scp[1]}/${scp[2]}`;
+  } else {
+    value = value.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/^[^@/]+@/, '');
+  }
+
+  return value
+    .replace(/:\d+\//, '/')
+    .replace(/\.git\/?$/, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
+// Hooks directory, honouring core.hooksPath (git knows about global config too)
+export function hooksDir(root: string): string | null {
+  try {
+    const path = execFileSync('git', ['-C', root, 'rev-parse', '--git-path', 'hooks'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 5000,
+    }).trim();
+    if (path) return resolve(root, path);
+  } catch {
+    // No git on PATH; read the repository config instead
+  }
+
+  const custom = readConfigValue(root, 'core', 'hooksPath');
+  if (custom) return custom.startsWith('~') ? expandPath(custom) : resolve(root, custom);
+  const dir = commonGitDir(root);
+  return dir ? join(dir, 'hooks') : null;
+}
+
+const HOOK_START = '# >>> timer-record';
+const HOOK_END = '# <<< timer-record';
+const HOOK_BLOCK = new RegExp(`${HOOK_START}\\n[\\s\\S]*?${HOOK_END}\\n?`);
+
+export type HookInstall = 'installed' | 'updated' | 'appended';
+
+/**
+ * Add a post-commit hook that runs `command`. Our lines sit between marker
+ * comments, so an existing hook keeps working and a reinstall replaces them.
+ */
+export function installCommitHook(root: string, command: string): { path: string; status: HookInstall } {
+  const dir = hooksDir(root);
+  if (!dir) throw new Error(`Not a git repository: ${root}`);
+
+  if (existsSync(dir) && !statSync(dir).isDirectory()) {
+    throw new Error(`Git hooks are turned off for ${root} (core.hooksPath is ${dir})`);
+  }
+
+  const path = join(dir, 'post-commit');
+  const block = `${HOOK_START}\n${command}\n${HOOK_END}\n`;
+  let status: HookInstall;
+
+  if (!existsSync(path)) {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path, `#!/bin/sh\n${block}`);
+    status = 'installed';
+  } else {
+    const existing = readFileSync(path, 'utf-8');
+    if (HOOK_BLOCK.test(existing)) {
+      // A function replacer, so "$&" or "$1" in the command is kept as written
+      writeFileSync(path, existing.replace(HOOK_BLOCK, () => block));
+      status = 'updated';
+    } else {
+      const shebang = existing.match(/^#!(.*)/);
+      if (shebang && !/\b(sh|bash|dash|zsh)\b/.test(shebang[1])) {
+        throw new Error(`${path} is not a shell script; add this line to it yourself:\n  ${command}`);
+      }
+      writeFileSync(path, `${existing.replace(/\n?$/, '\n')}${block}`);
+      status = 'appended';
+    }
+  }
+
+  chmodSync(path, 0o755);
+  return { path, status };
+}
+
+// Remove our lines from the post-commit hook, and the hook if nothing else is left
+export function uninstallCommitHook(root: string): boolean {
+  const dir = hooksDir(root);
+  const path = dir ? join(dir, 'post-commit') : null;
+  if (!path || !existsSync(path)) return false;
+
+  const existing = readFileSync(path, 'utf-8');
+  if (!HOOK_BLOCK.test(existing)) return false;
+
+  const rest = existing.replace(HOOK_BLOCK, '');
+  if (rest.replace(/^#!.*\n?/, '').trim() === '') {
+    unlinkSync(path);
+  } else {
+    writeFileSync(path, rest);
+  }
+  return true;
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  committedAt: Date;
+}
+
+// The commit HEAD points at (run from the hook, so spawning git is fine here)
+export function readHeadCommit(root: string): CommitInfo | null {
+  try {
+    const output = execFileSync('git', ['-C', root, 'log', '-1', '--format=%H%x00%ct%x00%B'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 5000,
+    });
+    const [sha, time, message] = output.split('\0');
+    if (!/^[0-9a-f]{40}$/.test(sha)) return null;
+    return { sha, message: message.trim(), committedAt: new Date(parseInt(time, 10) * 1000) };
+  } catch {
+    return null;
+  }
+}
+
+// Issues a commit refers to, from its message or else its branch name
+export function commitIssueRefs(message: string, branch: string | null): {
+  githubIssue: string | null;
+  jiraKey: string | null;
+} {
+  let githubIssue: string | null = null;
+  let jiraKey: string | null = null;
+
+  for (const text of [message, branch ?? '']) {
+    const issue = parseIssueReference(text);
+    if (issue && !githubIssue) {
+      githubIssue = issue.owner ? `${issue.owner}/${issue.repo}#${issue.number}` : `#${issue.number}`;
+    }
+    jiraKey ??= parseJiraKey(text);
+  }
+
+  return { githubIssue, jiraKey };
+}
@@ -0,0 +1,166 @@
+/**
+ * Learned Categorization
+ *
+ * A multinomial naive Bayes classifier trained on daemon entries whose
+ * category was corrected by hand (`tt edit <id> --category`). Features are
+ * the app name, bundle ID, browser domain and window-title words.
+ *
+ * Also distills what it learned into plain rules for `tt rules suggest`.
+ */
+
+import { getDatabase } from '../storage/database.js';
+import type { WindowInfo } from '../types/index.js';
+
+// Too few corrections make for confident nonsense
+export const MIN_TRAINING_EXAMPLES = 5;
+
+// Laplace smoothing
+const ALPHA = 1;
+
+// Words that say nothing about the kind of work
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'new', 'tab', 'untitled', 'window',
+  'google', 'chrome', 'mozilla', 'firefox', 'safari', 'microsoft', 'edge',
+  'visual', 'studio', 'code', 'http', 'https', 'www', 'com',
+]);
+
+export interface TrainingExample {
+  id: number;
+  appName: string;
+  appBundleId: string;
+  windowTitle: string;
+  domain: string | null;
+  category: string;
+}
+
+export interface Prediction {
+  category: string;
+  confidence: number; // posterior probability of the category, 0-1
+}
+
+interface ClassStats {
+  documents: number;
+  tokens: Map<string, number>;
+  totalTokens: number;
+}
+
+export interface NaiveBayesModel {
+  classes: Map<string, ClassStats>;
+  vocabulary: Set<string>;
+  documents: number;
+}
+
+// Words of a window title worth learning from
+export function titleWords(title: string): string[] {
+  return [...new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length >= 3 && !/^\d+$/.test(word) && !STOP_WORDS.has(word))
+  )];
+}
+
+// Features of a window, prefixed by where they came from
+export function extractFeatures(info: Pick<WindowInfo, 'appName' | 'appBundleId' | 'windowTitle' | 'domain'>): string[] {
+  const features: string[] = [];
+  if (info.appName) features.push(`app:${info.appName.toLowerCase()}`);
+  if (info.appBundleId) features.push(`bundle:${info.appBundleId.toLowerCase()}`);
+  if (info.domain) features.push(`domain:${info.domain.toLowerCase()}`);
+  for (const word of titleWords(info.windowTitle)) {
+    features.push(`title:${word}`);
+  }
+  return features;
+}
+
+// Corrected daemon entries, newest first
+export function getTrainingExamples(): TrainingExample[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT e.id, e.app_name as appName, COALESCE(e.app_bundle_id, '') as appBundleId,
+      COALESCE(e.window_title, '') as windowTitle, e.domain, c.name as category
+    FROM time_entries e
+    JOIN categories c ON e.category_id = c.id
+    WHERE e.is_manual = 0
+      AND e.manually_categorized = 1
+      AND e.deleted_at IS NULL
+      AND e.app_name IS NOT NULL
+      AND e.app_name != '[anonymous]'
+    ORDER BY e.start_time DESC
+  `).all() as TrainingExample[];
+}
+
+export function trainModel(examples: TrainingExample[]): NaiveBayesModel {
+  const model: NaiveBayesModel = { classes: new Map(), vocabulary: new Set(), documents: 0 };
+
+  for (const example of examples) {
+    let stats = model.classes.get(example.category);
+    if (!stats) {
+      stats = { documents: 0, tokens: new Map(), totalTokens: 0 };
+      model.classes.set(example.category, stats);
+    }
+
+    stats.documents++;
+    model.documents++;
+    for (const feature of extractFeatures(example)) {
+      stats.tokens.set(feature, (stats.tokens.get(feature) ?? 0) + 1);
+      stats.totalTokens++;
+      model.vocabulary.add(feature);
+    }
+  }
+
+  return model;
+}
+
+// Most likely category and its posterior probability
+export function predict(model: NaiveBayesModel, features: string[]): Prediction | null {
+  if (model.classes.size === 0) return null;
+
+  // Unknown features carry no evidence either way
+  const known = features.filter((feature) => model.vocabulary.has(feature));
+  if (known.length === 0) return null;
+
+  const scores: Array<{ category: string; score: number }> = [];
+  for (const [category, stats] of model.classes) {
+    let score = Math.log(stats.documents / model.documents);
+    const denominator = stats.totalTokens + ALPHA * model.vocabulary.size;
+    for (const feature of known) {
+      score += Math.log(((stats.tokens.get(feature) ?? 0) + ALPHA) / denominator);
+    }
+    scores.push({ category, score });
+  }
+
+  // Normalize log scores into probabilities
+  const max = Math.max(...scores.map((entry) => entry.score));
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - max), 0);
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+
+  return { category: best.category, confidence: 1 / total };
+}
+
+/**
+ * Cached model, retrained when the corrections change. Triggers bump
+ * `training_version` whenever a hand-corrected entry (or a category name)
+ * changes, so checking it is a single-row read.
+ */
+let cachedModel: { database: ReturnType<typeof getDatabase>; version: number; model: NaiveBayesModel | null } | null = null;
+
+// The classifier for the current corrections (null until there are enough)
+export function getClassifier(): NaiveBayesModel | null {
+  const database = getDatabase();
+  const { version } = database.prepare('SELECT version FROM training_version WHERE id = 1').get() as { version: number };
+  if (cachedModel?.database !== database || cachedModel.version !== version) {
+    const examples = getTrainingExamples();
+    cachedModel = {
+      database,
+      version,
+      model: examples.length >= MIN_TRAINING_EXAMPLES ? trainModel(examples) : null,
+    };
+  }
+  return cachedModel.model;
+}
+
+// Predict a category for a window from past corrections
+export function classifyWindow(info: WindowInfo): Prediction | null {
+  const model = getClassifier();
+  return model ? predict(model, extractFeatures(info)) : null;
+}
@@ -9,6 +9,7 @@
  */
 
 import { getDatabase } from '../storage/database.js';
+import { ENTRY_PRODUCTIVITY_SQL, productivityScore } from '../core/productivity.js';
 
 export interface TimePattern {
   dayOfWeek: number; // 0-6 (Sunday-Saturday)
@@ -54,24 +55,26 @@ export function getTimePatterns(daysBack: number = 90): TimePattern[] {
   // Get all entries from the period
   const entries = db.prepare(`
     SELECT
-      te.id,
-      te.start_time,
-      te.end_time,
-      te.duration_seconds / 60.0 as duration_minutes,
+      e.id,
+      e.start_time,
+      e.end_time,
+      e.duration_seconds / 60.0 as duration_minutes,
       c.name as category_name,
-      c.is_productive
-    FROM time_entries te
-    LEFT JOIN categories c ON te.category_id = c.id
-    WHERE te.start_time >= ?
-      AND te.end_time IS NOT NULL
-    ORDER BY te.start_time
+      ${ENTRY_PRODUCTIVITY_SQL} as weight
+    FROM time_entries e
+    LEFT JOIN categories c ON e.category_id = c.id
+    LEFT JOIN projects p ON e.project_id = p.id AND p.deleted_at IS NULL
+    WHERE e.start_time >= ?
+      AND e.end_time IS NOT NULL
+      AND e.deleted_at IS NULL
+    ORDER BY e.start_time
   `).all(since.toISOString()) as Array<{
     id: number;
     start_time: string;
     end_time: string;
     duration_minutes: number;
     category_name: string;
-    is_productive: number;
+    weight: number;
   }>;
 
   for (const entry of entries) {
@@ -95,7 +98,7 @@ export function getTimePatterns(daysBack: number = 90): TimePattern[] {
     // Running average
     pattern.avgDuration = (pattern.avgDuration * pattern.frequency + entry.duration_minutes) / (pattern.frequency + 1);
     pattern.frequency += 1;
-    pattern.productivity = (pattern.productivity * (pattern.frequency - 1) + (entry.is_productive ? 100 : 0)) / pattern.frequency;
+    pattern.productivity = (pattern.productivity * (pattern.frequency - 1) + productivityScore(entry.weight, 1)) / pattern.frequency;
 
     // Track top category (simple mode)
     if (!pattern.topCategory || entry.category_name) {
@@ -250,20 +253,31 @@ export function getProductivityInsights(): ProductivityInsight[] {
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-  // Peak hours analysis
+  // Peak hours analysis (ranked by productivity-weighted time)
   const hourlyStats = db.prepare(`
     SELECT
-      CAST(strftime('%H', start_time) AS INTEGER) as hour,
-      SUM(duration_seconds / 60.0) as total_minutes,
+      hour,
+      SUM(minutes) as total_minutes,
+      SUM(minutes * weight) as weighted_minutes,
       COUNT(*) as session_count,
-      AVG(duration_seconds / 60.0) as avg_duration
-    FROM time_entries
-    WHERE start_time >= ? AND end_time IS NOT NULL
+      AVG(minutes) as avg_duration
+    FROM (
+      SELECT
+        CAST(strftime('%H', e.start_time) AS INTEGER) as hour,
+        e.duration_seconds / 60.0 as minutes,
+        ${ENTRY_PRODUCTIVITY_SQL} as weight
+      FROM time_entries e
+      LEFT JOIN categories c ON e.category_id = c.id
+      LEFT JOIN projects p ON e.project_id = p.id AND p.deleted_at IS NULL
+      WHERE e.start_time >= ? AND e.end_time IS NOT NULL AND e.deleted_at IS NULL
+    )
     GROUP BY hour
-    ORDER BY total_minutes DESC
+    HAVING weighted_minutes > 0
+    ORDER BY weighted_minutes DESC
   `).all(thirtyDaysAgo.toISOString()) as Array<{
     hour: number;
     total_minutes: number;
+    weighted_minutes: number;
     session_count: number;
     avg_duration: number;
   }>;
@@ -286,7 +300,7 @@ export function getProductivityInsights(): ProductivityInsight[] {
       SUM(duration_seconds / 60.0) as total_minutes,
       COUNT(DISTINCT date(start_time)) as days_worked
     FROM time_entries
-    WHERE start_time >= ? AND end_time IS NOT NULL
+    WHERE start_time >= ? AND end_time IS NOT NULL AND deleted_at IS NULL
     GROUP BY day_of_week
     ORDER BY total_minutes / CASE WHEN days_worked > 0 THEN days_worked ELSE 1 END ASC
   `).all(thirtyDaysAgo.toISOString()) as Array<{
@@ -312,34 +326,51 @@ export function getProductivityInsights(): ProductivityInsight[] {
   // Category efficiency
   const categoryStats = db.prepare(`
     SELECT
-      c.name as category_name,
-      c.is_productive,
-      SUM(te.duration_seconds / 60.0) as total_minutes,
-      AVG(te.duration_seconds / 60.0) as avg_session
-    FROM time_entries te
-    JOIN categories c ON te.category_id = c.id
-    WHERE te.start_time >= ? AND te.end_time IS NOT NULL
-    GROUP BY te.category_id
+      category_name,
+      SUM(minutes * weight) / SUM(minutes) as weight,
+      SUM(minutes) as total_minutes,
+      AVG(minutes) as avg_session
+    FROM (
+      SELECT
+        c.id as category_id,
+        c.name as category_name,
+        e.duration_seconds / 60.0 as minutes,
+        ${ENTRY_PRODUCTIVITY_SQL} as weight
+      FROM time_entries e
+      JOIN categories c ON e.category_id = c.id
+      LEFT JOIN projects p ON e.project_id = p.id AND p.deleted_at IS NULL
+      WHERE e.start_time >= ? AND e.end_time IS NOT NULL AND e.deleted_at IS NULL
+    )
+    GROUP BY category_id
     ORDER BY total_minutes DESC
   `).all(thirtyDaysAgo.toISOString()) as Array<{
     category_name: string;
-    is_productive: number;
+    weight: number;
     total_minutes: number;
     avg_session: number;
   }>;
 
-  // Find unproductive categories taking too much time
-  const unproductiveTime = categoryStats
-    .filter(c => !c.is_productive)
+  // Find unproductive (neutral or distracting) categories taking too much time
+  const unproductive = categoryStats.filter(c => c.weight <= 0);
+  const unproductiveTime = unproductive.reduce((sum, c) => sum + c.total_minutes, 0);
+  const distractingTime = unproductive
+    .filter(c => c.weight < 0)
     .reduce((sum, c) => sum + c.total_minutes, 0);
   const totalTime = categoryStats.reduce((sum, c) => sum + c.total_minutes, 0);
 
   if (totalTime > 0 && unproductiveTime / totalTime > 0.3) {
+    const distractingNote = distractingTime > 0
+      ? ` (${Math.round(distractingTime / totalTime * 100)}% on distractions)`
+      : '';
     insights.push({
       type: 'category_efficiency',
       title: 'Unproductive Time Alert',
-      description: `${Math.round(unproductiveTime / totalTime * 100)}% of your time is spent on unproductive activities. Consider setting limits.`,
-      data: { unproductivePercent: unproductiveTime / totalTime * 100, categories: categoryStats.filter(c => !c.is_productive) },
+      description: `${Math.round(unproductiveTime / totalTime * 100)}% of your time is spent on unproductive activities${distractingNote}. Consider setting limits.`,
+      data: {
+        unproductivePercent: unproductiveTime / totalTime * 100,
+        distractingPercent: distractingTime / totalTime * 100,
+        categories: unproductive,
+      },
       importance: 'high',
     });
   }
@@ -350,7 +381,7 @@ export function getProductivityInsights(): ProductivityInsight[] {
       strftime('%Y-%W', start_time) as week,
       SUM(duration_seconds / 60.0) / 60.0 as hours
     FROM time_entries
-    WHERE start_time >= ? AND end_time IS NOT NULL
+    WHERE start_time >= ? AND end_time IS NOT NULL AND deleted_at IS NULL
     GROUP BY week
     ORDER BY week DESC
     LIMIT 4
@@ -371,7 +402,7 @@ export function getProductivityInsights(): ProductivityInsight[] {
   const streakDays = db.prepare(`
     SELECT DISTINCT date(start_time) as work_date
     FROM time_entries
-    WHERE start_time >= ? AND end_time IS NOT NULL
+    WHERE start_time >= ? AND end_time IS NOT NULL AND deleted_at IS NULL
     ORDER BY work_date DESC
   `).all(thirtyDaysAgo.toISOString()) as Array<{ work_date: string }>;
 
@@ -458,7 +489,7 @@ export function estimateTimeNeeded(categoryName: string, targetMinutes?: number)
       SUM(duration_seconds / 60.0) as total_minutes
     FROM time_entries te
     JOIN categories c ON te.category_id = c.id
-    WHERE c.name = ? AND te.end_time IS NOT NULL
+    WHERE c.name = ? AND te.end_time IS NOT NULL AND te.deleted_at IS NULL
   `).get(categoryName) as { avg_duration: number; session_count: number; total_minutes: number } | undefined;
 
   if (!stats || stats.session_count < 3) {
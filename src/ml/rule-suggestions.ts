@@ -0,0 +1,121 @@
+/**
+ * Rule Suggestions
+ *
+ * Distills manual category corrections into plain rules: an app, a browser
+ * domain, or an app plus a window-title word that was corrected to the same
+ * category often enough and consistently enough to be worth writing down.
+ */
+
+import { categorizeByRules } from '../categorization/rules.js';
+import { getTrainingExamples, titleWords, type TrainingExample } from './classifier.js';
+
+export interface SuggestOptions {
+  minSupport?: number;   // corrections that must back a rule
+  minPrecision?: number; // share of matching corrections that agree, 0-1
+}
+
+export interface RuleSuggestion {
+  appName?: string;
+  windowTitle?: string;
+  domain?: string;
+  category: string;
+  support: number;
+  precision: number;
+}
+
+interface Candidate {
+  appName?: string;
+  windowTitle?: string;
+  domain?: string;
+  examples: TrainingExample[];
+}
+
+// Rule patterns with regex characters are read as regexes, so anchor them
+function appNamePattern(appName: string): string {
+  if (!/[.*+?^${}()|[\]\\]/.test(appName)) return appName;
+  return `^${appName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`;
+}
+
+// Group corrections by every rule that could describe them
+function collectCandidates(examples: TrainingExample[]): Candidate[] {
+  const candidates = new Map<string, Candidate>();
+  const add = (key: string, fields: Omit<Candidate, 'examples'>, example: TrainingExample): void => {
+    let candidate = candidates.get(key);
+    if (!candidate) {
+      candidate = { ...fields, examples: [] };
+      candidates.set(key, candidate);
+    }
+    candidate.examples.push(example);
+  };
+
+  for (const example of examples) {
+    const app = example.appName.toLowerCase();
+    add(`app:${app}`, { appName: example.appName }, example);
+    if (example.domain) {
+      add(`domain:${example.domain.toLowerCase()}`, { domain: example.domain.toLowerCase() }, example);
+    }
+    for (const word of titleWords(example.windowTitle)) {
+      add(`title:${app}:${word}`, { appName: example.appName, windowTitle: word }, example);
+    }
+  }
+
+  return [...candidates.values()];
+}
+
+/**
+ * Propose rules backed by manual corrections. A rule is suggested when its
+ * majority category has at least `minSupport` corrections and `minPrecision`
+ * of all matching corrections, and the current rules do not already
+ * categorize those entries that way.
+ */
+export function suggestRules(options: SuggestOptions = {}): RuleSuggestion[] {
+  const minSupport = options.minSupport ?? 3;
+  const minPrecision = options.minPrecision ?? 0.9;
+
+  const suggestions: RuleSuggestion[] = [];
+  for (const candidate of collectCandidates(getTrainingExamples())) {
+    const counts = new Map<string, number>();
+    for (const example of candidate.examples) {
+      counts.set(example.category, (counts.get(example.category) ?? 0) + 1);
+    }
+    const [category, support] = [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a));
+    const precision = support / candidate.examples.length;
+    if (support < minSupport || precision < minPrecision) continue;
+
+    const covered = candidate.examples
+      .filter((example) => example.category === category)
+      .every((example) => categorizeByRules({ ...example, timestamp: new Date() }) === category);
+    if (covered) continue;
+
+    suggestions.push({
+      appName: candidate.appName,
+      windowTitle: candidate.windowTitle,
+      domain: candidate.domain,
+      category,
+      support,
+      precision,
+    });
+  }
+
+  // A title rule adds nothing when the whole app already maps to the category
+  const appCategories = new Map(
+    suggestions
+      .filter((suggestion) => !suggestion.windowTitle && suggestion.appName)
+      .map((suggestion) => [suggestion.appName?.toLowerCase(), suggestion.category])
+  );
+
+  return suggestions
+    .filter((suggestion) => !suggestion.windowTitle
+      || appCategories.get(suggestion.appName?.toLowerCase()) !== suggestion.category)
+    .sort((a, b) => b.support - a.support || b.precision - a.precision);
+}
+
+// The `tt rules add` arguments for a suggestion
+export function suggestionToRuleArgs(suggestion: RuleSuggestion): string[] {
+  const args: string[] = [];
+  if (suggestion.appName) args.push('--app', appNamePattern(suggestion.appName));
+  if (suggestion.windowTitle) args.push('--window', suggestion.windowTitle);
+  if (suggestion.domain) args.push('--domain', suggestion.domain);
+  args.push('--category', suggestion.category);
+  return args;
+}
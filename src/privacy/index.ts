@@ -5,7 +5,7 @@ import { join, dirname } from 'path';
 import { randomBytes, createCipheriv, createDecipheriv, scrypt } from 'crypto';
 import { promisify } from 'util';
 import { getDatabase, closeDatabase } from '../storage/database.js';
-import { getDataDir, getConfigDir, getDatabasePath, getSocketPath } from '../config/paths.js';
+import { getDataDir, getConfigDir, getDatabasePath, getSocketPath, getBrowserTabsPath, getBackupDir } from '../config/paths.js';
 import { loadConfig, setConfigValue } from '../config/settings.js';
 
 const scryptAsync = promisify(scrypt);
@@ -292,7 +292,8 @@ export function wipeAllData(options: { keepConfig?: boolean } = {}): { success:
   const dbPath = getDatabasePath();
   const dataDir = getDataDir();
 
-  [dbPath, dbPath + '-wal', dbPath + '-shm'].forEach(path => {
+  // Includes the last tab domains reported by the browser extension
+  [dbPath, dbPath + '-wal', dbPath + '-shm', getBrowserTabsPath()].forEach(path => {
     if (existsSync(path)) {
       if (secureDeleteFile(path)) {
         deleted.push(path);
@@ -302,6 +303,22 @@ export function wipeAllData(options: { keepConfig?: boolean } = {}): { success:
     }
   });
 
+  // Backups are full copies of the database, so they go the same way, manifest included
+  const backupDir = getBackupDir();
+  readdirSync(backupDir).forEach(name => {
+    const path = join(backupDir, name);
+    if (secureDeleteFile(path)) {
+      deleted.push(path);
+    } else {
+      failed.push(path);
+    }
+  });
+  try {
+    rmSync(backupDir, { recursive: true, force: true });
+  } catch {
+    failed.push(backupDir);
+  }
+
   // Delete config if not keeping it
   if (!options.keepConfig) {
     const configDir = getConfigDir();
@@ -382,6 +399,7 @@ export interface FullDataExport {
   goals: unknown[];
   templates: unknown[];
   invoices: unknown[];
+  commits: unknown[];
   webhooks: unknown[];
   settings: unknown[];
   config: unknown;
@@ -401,6 +419,7 @@ export function exportAllData(): FullDataExport {
     goals: [],
     templates: [],
     invoices: [],
+    commits: [],
     webhooks: [],
     settings: [],
     config,
@@ -435,6 +454,10 @@ export function exportAllData(): FullDataExport {
     exportData.invoices = db.prepare('SELECT * FROM invoices').all();
   } catch { /* table might not exist */ }
 
+  try {
+    exportData.commits = db.prepare('SELECT * FROM git_commits ORDER BY committed_at DESC').all();
+  } catch { /* table might not exist */ }
+
   try {
     exportData.webhooks = db.prepare('SELECT id, name, url, events, is_active, created_at FROM webhooks').all();
   } catch { /* table might not exist */ }
@@ -462,6 +485,13 @@ export function enablePrivacyLockdown(): { success: boolean; changes: string[] }
     }
   } catch { /* table might not exist */ }
 
+  // Forget tab domains reported by the browser extension
+  const browserTabsPath = getBrowserTabsPath();
+  if (existsSync(browserTabsPath)) {
+    unlinkSync(browserTabsPath);
+    changes.push('Cleared browser tab domains');
+  }
+
   // Set lockdown config
   setConfigValue('privacy_lockdown', true);
   setConfigValue('webhooks_enabled', false);
@@ -519,15 +549,18 @@ export function anonymizeEntry(entry: {
   appName?: string;
   appBundleId?: string;
   windowTitle?: string;
+  domain?: string | null;
 }): {
   appName: string;
   appBundleId: string;
   windowTitle: string;
+  domain: string | null;
 } {
   return {
     appName: '[anonymous]',
     appBundleId: '[anonymous]',
     windowTitle: '[anonymous]',
+    domain: null,
   };
 }
 
@@ -569,6 +602,7 @@ export function runDataRetentionCleanup(): { deleted: number } {
     DELETE FROM time_entries
     WHERE start_time < ?
   `).run(cutoffStr);
+  db.prepare('DELETE FROM git_commits WHERE committed_at < ?').run(cutoffStr);
 
   return { deleted: result.changes };
 }
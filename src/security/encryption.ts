@@ -87,6 +87,43 @@ export function decrypt(data: EncryptedData, key: Buffer): string {
   return decrypted.toString('utf8');
 }
 
+// Marks files written by encryptBuffer
+const BUFFER_MAGIC = Buffer.from('TTENC1');
+
+// Encrypt a file's contents with the unlocked key: magic, iv, auth tag, ciphertext
+export function encryptBuffer(data: Buffer): Buffer {
+  if (!encryptionKey) {
+    throw new Error('Encryption is not unlocked.');
+  }
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey, iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([BUFFER_MAGIC, iv, cipher.getAuthTag(), encrypted]);
+}
+
+// Decrypt a buffer written by encryptBuffer; fails if the key differs
+export function decryptBuffer(data: Buffer): Buffer {
+  if (!encryptionKey) {
+    throw new Error('Encryption is not unlocked.');
+  }
+  if (!isEncryptedBuffer(data)) {
+    throw new Error('Not an encrypted file.');
+  }
+
+  const ivStart = BUFFER_MAGIC.length;
+  const tagStart = ivStart + IV_LENGTH;
+  const bodyStart = tagStart + AUTH_TAG_LENGTH;
+  const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey, data.subarray(ivStart, tagStart));
+  decipher.setAuthTag(data.subarray(tagStart, bodyStart));
+  return Buffer.concat([decipher.update(data.subarray(bodyStart)), decipher.final()]);
+}
+
+// Check if a buffer was written by encryptBuffer
+export function isEncryptedBuffer(data: Buffer): boolean {
+  return data.subarray(0, BUFFER_MAGIC.length).equals(BUFFER_MAGIC);
+}
+
 // Check if string is encrypted data
 export function isEncrypted(value: string): boolean {
   if (!value) return false;
@@ -0,0 +1,234 @@
+/**
+ * Local Database Backups
+ *
+ * Copies of the database live in <data dir>/backups, listed in manifest.json
+ * with a sha256 of each file as stored so a damaged or edited copy is caught
+ * before it is restored. Copies are switched out of WAL mode and checked with
+ * `PRAGMA integrity_check` when they are written, so they can be opened on
+ * their own.
+ *
+ * Scheduled backups are thinned to hourly, daily and weekly tiers; snapshots
+ * taken before a migration, rollback or restore keep the newest few per kind.
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import dayjs from 'dayjs';
+import { getBackupDir } from '../config/paths.js';
+
+export type BackupKind = 'scheduled' | 'manual' | 'pre-migrate' | 'pre-rollback' | 'pre-restore';
+
+export interface BackupRecord {
+  id: number;
+  file: string;              // name inside the backup directory
+  kind: BackupKind;
+  createdAt: string;         // local time, YYYY-MM-DD HH:mm:ss
+  sha256: string;            // of the file as stored (encrypted or not)
+  encrypted: boolean;
+  size: number;
+  entryCount: number | null;
+}
+
+export type BackupHealth = 'ok' | 'missing' | 'corrupt';
+
+// How many scheduled backups to keep in each tier
+export interface RetentionTiers {
+  hourly: number;
+  daily: number;
+  weekly: number;
+}
+
+interface Manifest {
+  nextId: number;
+  backups: BackupRecord[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Snapshots kept per kind outside the scheduled tiers; manual backups are kept
+const KEEP_SNAPSHOTS = 5;
+
+function readManifest(): Manifest {
+  const path = join(getBackupDir(), MANIFEST_FILE);
+  if (!existsSync(path)) return { nextId: 1, backups: [] };
+  return JSON.parse(readFileSync(path, 'utf-8')) as Manifest;
+}
+
+// Write through a temporary file so a crash never leaves half a manifest
+function writeManifest(manifest: Manifest): void {
+  const path = join(getBackupDir(), MANIFEST_FILE);
+  writeFileSync(`${path}.tmp`, JSON.stringify(manifest, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+function sha256File(path: string): string {
+  return createHash('sha256').update(readFileSync(path)).digest('hex');
+}
+
+// Full path of a backup file
+export function backupPath(record: BackupRecord): string {
+  return join(getBackupDir(), record.file);
+}
+
+// All backups, newest first
+export function listBackups(): BackupRecord[] {
+  return [...readManifest().backups].sort((a, b) => b.id - a.id);
+}
+
+// Look a backup up by id, or take the newest one at or before a point in time
+export function findBackup(ref: string): BackupRecord {
+  const backups = listBackups();
+
+  if (/^\d+$/.test(ref)) {
+    const byId = backups.find((b) => b.id === parseInt(ref, 10));
+    if (!byId) throw new Error(`No backup with id ${ref}`);
+    return byId;
+  }
+
+  const at = dayjs(ref);
+  if (!at.isValid()) {
+    throw new Error(`Expected a backup id or a time like "2026-10-18 14:00", got "${ref}"`);
+  }
+  const before = backups.find((b) => !dayjs(b.createdAt).isAfter(at));
+  if (!before) throw new Error(`No backup at or before ${at.format('YYYY-MM-DD HH:mm')}`);
+  return before;
+}
+
+// Compare a backup file with the checksum recorded when it was written
+export function checkBackup(record: BackupRecord): BackupHealth {
+  const path = backupPath(record);
+  if (!existsSync(path)) return 'missing';
+  return sha256File(path) === record.sha256 ? 'ok' : 'corrupt';
+}
+
+// Run SQLite's integrity check on a database file; throws on any problem
+export function checkIntegrity(path: string): void {
+  const copy = new Database(path, { readonly: true, fileMustExist: true });
+  try {
+    const result = copy.pragma('integrity_check', { simple: true });
+    if (result !== 'ok') throw new Error(`Integrity check failed: ${String(result)}`);
+  } finally {
+    copy.close();
+  }
+}
+
+// Leave a fresh copy in rollback-journal mode, verify it and count its entries
+function sealCopy(path: string): number | null {
+  const copy = new Database(path);
+  try {
+    copy.pragma('journal_mode = DELETE');
+    const result = copy.pragma('integrity_check', { simple: true });
+    if (result !== 'ok') throw new Error(`Backup failed its integrity check: ${String(result)}`);
+    const row = copy.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'time_entries'").get();
+    return row ? (copy.prepare('SELECT COUNT(*) AS n FROM time_entries').get() as { n: number }).n : null;
+  } finally {
+    copy.close();
+  }
+}
+
+// Seal a written copy, optionally encrypt it, and add it to the manifest
+function registerCopy(
+  path: string,
+  kind: BackupKind,
+  createdAt: dayjs.Dayjs,
+  encrypt?: (data: Buffer) => Buffer
+): BackupRecord {
+  let entryCount: number | null;
+  try {
+    entryCount = sealCopy(path);
+  } catch (err) {
+    unlinkSync(path);
+    throw err;
+  }
+
+  let file = path;
+  if (encrypt) {
+    file = `${path}.enc`;
+    writeFileSync(file, encrypt(readFileSync(path)));
+    unlinkSync(path);
+  }
+
+  const manifest = readManifest();
+  const record: BackupRecord = {
+    id: manifest.nextId,
+    file: file.slice(getBackupDir().length + 1),
+    kind,
+    createdAt: createdAt.format('YYYY-MM-DD HH:mm:ss'),
+    sha256: sha256File(file),
+    encrypted: Boolean(encrypt),
+    size: statSync(file).size,
+    entryCount,
+  };
+  writeManifest({ nextId: manifest.nextId + 1, backups: [...manifest.backups, record] });
+  return record;
+}
+
+function newBackupFile(kind: BackupKind, at: dayjs.Dayjs): string {
+  return join(getBackupDir(), `${kind}-${at.format('YYYYMMDD-HHmmss-SSS')}.db`);
+}
+
+// Delete backups from disk and the manifest
+export function removeBackups(records: BackupRecord[]): void {
+  if (records.length === 0) return;
+  const ids = new Set(records.map((r) => r.id));
+  for (const record of records) {
+    const path = backupPath(record);
+    if (existsSync(path)) unlinkSync(path);
+  }
+  const manifest = readManifest();
+  writeManifest({ ...manifest, backups: manifest.backups.filter((b) => !ids.has(b.id)) });
+}
+
+// Copy the database synchronously before a risky change; keeps the newest few per kind
+export function snapshotDatabase(database: Database.Database, kind: BackupKind): BackupRecord {
+  const now = dayjs();
+  const path = newBackupFile(kind, now);
+  database.prepare('VACUUM INTO ?').run(path);
+  const record = registerCopy(path, kind, now);
+
+  removeBackups(listBackups().filter((b) => b.kind === kind).slice(KEEP_SNAPSHOTS));
+  return record;
+}
+
+// Copy the database with SQLite's online backup API, which lets writers carry on
+export async function backupDatabase(
+  database: Database.Database,
+  kind: BackupKind,
+  encrypt?: (data: Buffer) => Buffer
+): Promise<BackupRecord> {
+  const now = dayjs();
+  const path = newBackupFile(kind, now);
+  await database.backup(path);
+  return registerCopy(path, kind, now, encrypt);
+}
+
+// Thin scheduled backups to the newest one per hour, day and week in each tier
+export function pruneScheduledBackups(tiers: RetentionTiers): BackupRecord[] {
+  const scheduled = listBackups().filter((b) => b.kind === 'scheduled');
+  if (scheduled.length === 0) return [];
+
+  // The newest is always kept so the schedule knows when it last ran
+  const keep = new Set<number>([scheduled[0].id]);
+  const buckets: [number, (at: dayjs.Dayjs) => string][] = [
+    [tiers.hourly, (at) => at.format('YYYY-MM-DD HH')],
+    [tiers.daily, (at) => at.format('YYYY-MM-DD')],
+    [tiers.weekly, (at) => at.startOf('week').format('YYYY-MM-DD')],
+  ];
+
+  for (const [count, bucketOf] of buckets) {
+    const seen = new Set<string>();
+    for (const record of scheduled) {
+      const bucket = bucketOf(dayjs(record.createdAt));
+      if (seen.has(bucket)) continue;
+      if (seen.size >= count) break;
+      seen.add(bucket);
+      keep.add(record.id);
+    }
+  }
+
+  const removed = scheduled.filter((b) => !keep.has(b.id));
+  removeBackups(removed);
+  return removed;
+}
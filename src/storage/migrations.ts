@@ -0,0 +1,1096 @@
+/**
+ * Schema Migrations
+ *
+ * Every schema change lives in the ordered MIGRATIONS registry below. Each one
+ * runs in its own transaction and is recorded in the `migrations` table with a
+ * checksum of its SQL, so `tt db migrate --status` shows when an applied
+ * migration has been edited since. The database is snapshotted (see
+ * backup.ts) before any migration or rollback changes it.
+ *
+ * Migrations with a `down` script can be rolled back. Rolling back, or
+ * migrating `--to` an earlier one, pins the schema there: opening the database
+ * does not re-apply the rest until `tt db migrate` is run without `--to`.
+ */
+
+import { createHash } from 'crypto';
+import type Database from 'better-sqlite3';
+import { backupPath, snapshotDatabase } from './backup.js';
+import { getLogger } from '../utils/logger.js';
+
+// Tables replicated by sync, with the columns that identify a row
+export const SYNC_TABLE_KEYS: Record<string, string[]> = {
+  categories: ['id'],
+  projects: ['id'],
+  tags: ['id'],
+  time_entries: ['id'],
+  entry_tags: ['entry_id', 'tag_id'],
+  goals: ['id'],
+};
+
+// Tables whose rows carry a globally unique identity for sync
+export const SYNC_UUID_TABLES = ['categories', 'projects', 'tags', 'time_entries', 'goals'];
+
+// SQL expression generating a random RFC 4122 version 4 UUID
+const SQL_UUID = `(
+  lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' ||
+  substr(lower(hex(randomblob(2))), 2) || '-' ||
+  substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' ||
+  lower(hex(randomblob(6)))
+)`;
+
+// Device a journal row is attributed to
+const SYNC_ORIGIN_DEVICE = `COALESCE(
+  (SELECT value FROM settings WHERE key = 'sync_origin_device'),
+  (SELECT value FROM settings WHERE key = 'device_id')
+)`;
+
+// Add a uuid column to a synced table, backfill it, and assign one to new rows
+function syncUuidColumn(table: string): string {
+  return `
+    ALTER TABLE ${table} ADD COLUMN uuid TEXT;
+    UPDATE ${table} SET uuid = ${SQL_UUID} WHERE uuid IS NULL;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_uuid ON ${table}(uuid);
+
+    CREATE TRIGGER IF NOT EXISTS ${table}_assign_uuid AFTER INSERT ON ${table}
+    WHEN NEW.uuid IS NULL
+    BEGIN
+      UPDATE ${table} SET uuid = ${SQL_UUID} WHERE rowid = NEW.rowid;
+    END;
+
+    DROP TRIGGER IF EXISTS sync_${table}_delete;
+    CREATE TRIGGER sync_${table}_delete AFTER DELETE ON ${table}
+    BEGIN
+      INSERT INTO sync_changes (table_name, operation, row_key, row_uuid, device_id)
+      VALUES ('${table}', 'delete', json_object('id', OLD.id), json_object('uuid', OLD.uuid), ${SYNC_ORIGIN_DEVICE});
+    END;
+  `;
+}
+
+// Build the triggers that record row changes into the sync journal.
+// Changes applied from another device are tagged with that device's ID
+// (set in sync_origin_device during import) so they are not shipped back.
+function syncJournalTriggers(table: string, keyColumns: string[]): string {
+  const rowKey = (prefix: string) =>
+    `json_object(${keyColumns.map(c => `'${c}', ${prefix}${c}`).join(', ')})`;
+
+  return `
+    CREATE TRIGGER IF NOT EXISTS sync_${table}_insert AFTER INSERT ON ${table}
+    BEGIN
+      INSERT INTO sync_changes (table_name, operation, row_key, device_id)
+      VALUES ('${table}', 'insert', ${rowKey('NEW.')}, ${SYNC_ORIGIN_DEVICE});
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS sync_${table}_update AFTER UPDATE ON ${table}
+    BEGIN
+      INSERT INTO sync_changes (table_name, operation, row_key, device_id)
+      VALUES ('${table}', 'update', ${rowKey('NEW.')}, ${SYNC_ORIGIN_DEVICE});
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS sync_${table}_delete AFTER DELETE ON ${table}
+    BEGIN
+      INSERT INTO sync_changes (table_name, operation, row_key, device_id)
+      VALUES ('${table}', 'delete', ${rowKey('OLD.')}, ${SYNC_ORIGIN_DEVICE});
+    END;
+
+    INSERT INTO sync_changes (table_name, operation, row_key, device_id)
+    SELECT '${table}', 'insert', ${rowKey('')}, (SELECT value FROM settings WHERE key = 'device_id')
+    FROM ${table};
+  `;
+}
+
+export interface Migration {
+  name: string;
+  sql: string;
+  // Undoes sql; migrations without one cannot be rolled back
+  down?: string;
+}
+
+// All schema changes, in the order they are applied
+export const MIGRATIONS: Migration[] = [
+  {
+    name: '001_initial',
+    sql: `
+      -- Categories table
+      CREATE TABLE IF NOT EXISTS categories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        color TEXT,
+        description TEXT,
+        is_productive INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Time entries table
+      CREATE TABLE IF NOT EXISTS time_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        category_id INTEGER REFERENCES categories(id),
+        app_name TEXT,
+        app_bundle_id TEXT,
+        window_title TEXT,
+        start_time TEXT NOT NULL,
+        end_time TEXT,
+        duration_seconds INTEGER,
+        is_manual INTEGER DEFAULT 0,
+        notes TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Indexes for queries
+      CREATE INDEX IF NOT EXISTS idx_entries_start_time ON time_entries(start_time);
+      CREATE INDEX IF NOT EXISTS idx_entries_category ON time_entries(category_id);
+      CREATE INDEX IF NOT EXISTS idx_entries_date ON time_entries(date(start_time));
+
+      -- Categorization rules table
+      CREATE TABLE IF NOT EXISTS categorization_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        app_name_pattern TEXT,
+        app_bundle_id TEXT,
+        window_title_pattern TEXT,
+        category_id INTEGER REFERENCES categories(id),
+        priority INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Settings table
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT,
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    name: '002_default_categories',
+    sql: `
+      -- Programming categories
+      INSERT OR IGNORE INTO categories (name, color, description, is_productive) VALUES
+        ('programming', '#61AFEF', 'General coding and development', 1),
+        ('debugging', '#E06C75', 'Bug fixing and troubleshooting', 1),
+        ('code-review', '#98C379', 'PR reviews and reading code', 1),
+        ('business-logic', '#C678DD', 'Feature development, core logic', 1),
+        ('testing', '#56B6C2', 'Writing and running tests', 1),
+        ('research', '#ABB2BF', 'Documentation, Stack Overflow', 1);
+
+      -- Finance categories
+      INSERT OR IGNORE INTO categories (name, color, description, is_productive) VALUES
+        ('excel-modeling', '#217346', 'Excel and financial models', 1),
+        ('presentations', '#D24726', 'PowerPoint and Keynote', 1),
+        ('financial-analysis', '#4472C4', 'Analysis work', 1),
+        ('valuation', '#7030A0', 'DCF, comparables, valuations', 1);
+
+      -- General categories
+      INSERT OR IGNORE INTO categories (name, color, description, is_productive) VALUES
+        ('communication', '#E5C07B', 'Slack, Teams, email', 0),
+        ('meetings', '#BE5046', 'Zoom, calendar', 0),
+        ('uncategorized', '#5C6370', 'Unmatched activities', 0);
+    `,
+  },
+  {
+    name: '003_goals',
+    sql: `
+      -- Goals table for time tracking targets
+      CREATE TABLE IF NOT EXISTS goals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        category_id INTEGER REFERENCES categories(id) ON DELETE CASCADE,
+        target_seconds INTEGER NOT NULL,
+        period TEXT NOT NULL CHECK (period IN ('daily', 'weekly', 'monthly')),
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Only one active goal per category/period combination
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_goals_category_period
+      ON goals(category_id, period) WHERE is_active = 1;
+    `,
+  },
+  {
+    name: '004_projects',
+    sql: `
+      -- Projects table for organizing work
+      CREATE TABLE IF NOT EXISTS projects (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        client TEXT,
+        color TEXT,
+        description TEXT,
+        hourly_rate REAL,
+        is_billable INTEGER DEFAULT 0,
+        is_active INTEGER DEFAULT 1,
+        is_default INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Add project_id to time_entries
+      ALTER TABLE time_entries ADD COLUMN project_id INTEGER REFERENCES projects(id);
+
+      -- Index for project queries
+      CREATE INDEX IF NOT EXISTS idx_entries_project ON time_entries(project_id);
+      CREATE INDEX IF NOT EXISTS idx_projects_client ON projects(client);
+    `,
+  },
+  {
+    name: '005_tags',
+    sql: `
+      -- Tags table for flexible labeling
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        color TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Junction table for many-to-many relationship
+      CREATE TABLE IF NOT EXISTS entry_tags (
+        entry_id INTEGER NOT NULL REFERENCES time_entries(id) ON DELETE CASCADE,
+        tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        created_at TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (entry_id, tag_id)
+      );
+
+      -- Indexes for tag queries
+      CREATE INDEX IF NOT EXISTS idx_entry_tags_entry ON entry_tags(entry_id);
+      CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags(tag_id);
+    `,
+  },
+  {
+    name: '006_pomodoro',
+    sql: `
+      -- Pomodoro sessions table
+      CREATE TABLE IF NOT EXISTS pomodoro_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id INTEGER REFERENCES time_entries(id) ON DELETE SET NULL,
+        category_id INTEGER REFERENCES categories(id),
+        work_duration INTEGER NOT NULL DEFAULT 1500,
+        break_duration INTEGER NOT NULL DEFAULT 300,
+        long_break_duration INTEGER NOT NULL DEFAULT 900,
+        sessions_until_long_break INTEGER NOT NULL DEFAULT 4,
+        current_session INTEGER NOT NULL DEFAULT 1,
+        state TEXT NOT NULL DEFAULT 'work' CHECK (state IN ('work', 'break', 'long_break', 'paused', 'completed')),
+        started_at TEXT NOT NULL,
+        paused_at TEXT,
+        completed_at TEXT,
+        notes TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Pomodoro settings table
+      CREATE TABLE IF NOT EXISTS pomodoro_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT,
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Default pomodoro settings
+      INSERT OR IGNORE INTO pomodoro_settings (key, value) VALUES
+        ('work_duration', '25'),
+        ('break_duration', '5'),
+        ('long_break_duration', '15'),
+        ('sessions_until_long_break', '4'),
+        ('auto_start_breaks', 'false'),
+        ('auto_start_work', 'false');
+    `,
+  },
+  {
+    name: '007_auto_pause',
+    sql: `
+      -- Add auto-pause columns to time_entries
+      ALTER TABLE time_entries ADD COLUMN paused_at TEXT;
+      ALTER TABLE time_entries ADD COLUMN paused_duration_seconds INTEGER DEFAULT 0;
+      ALTER TABLE time_entries ADD COLUMN auto_paused INTEGER DEFAULT 0;
+
+      -- Create index for fast pause entry lookups
+      CREATE INDEX IF NOT EXISTS idx_entries_paused ON time_entries(auto_paused, paused_at);
+    `,
+  },
+  {
+    name: '008_sync_journal',
+    sql: `
+      -- Stable device identity for tagging journal rows
+      INSERT OR IGNORE INTO settings (key, value) VALUES ('device_id', lower(hex(randomblob(16))));
+
+      -- Durable change journal for incremental sync
+      CREATE TABLE IF NOT EXISTS sync_changes (
+        version INTEGER PRIMARY KEY AUTOINCREMENT,
+        table_name TEXT NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+        row_key TEXT NOT NULL,
+        device_id TEXT NOT NULL,
+        changed_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sync_changes_row ON sync_changes(table_name, row_key);
+      CREATE INDEX IF NOT EXISTS idx_sync_changes_device ON sync_changes(device_id, version);
+
+      -- Journal triggers (existing rows are seeded as inserts, parents first)
+      ${Object.entries(SYNC_TABLE_KEYS).map(([table, keys]) => syncJournalTriggers(table, keys)).join('\n')}
+    `,
+  },
+  {
+    name: '009_sync_uuids',
+    sql: `
+      -- Deleted rows are identified to peers by their UUIDs
+      ALTER TABLE sync_changes ADD COLUMN row_uuid TEXT;
+
+      -- Globally unique row identities
+      ${SYNC_UUID_TABLES.map(syncUuidColumn).join('\n')}
+
+      DROP TRIGGER IF EXISTS sync_entry_tags_delete;
+      CREATE TRIGGER sync_entry_tags_delete AFTER DELETE ON entry_tags
+      BEGIN
+        INSERT INTO sync_changes (table_name, operation, row_key, row_uuid, device_id)
+        VALUES (
+          'entry_tags', 'delete',
+          json_object('entry_id', OLD.entry_id, 'tag_id', OLD.tag_id),
+          json_object(
+            'entry_id', (SELECT uuid FROM time_entries WHERE id = OLD.entry_id),
+            'tag_id', (SELECT uuid FROM tags WHERE id = OLD.tag_id)
+          ),
+          ${SYNC_ORIGIN_DEVICE}
+        );
+      END;
+
+      -- Remote UUIDs merged into an existing local row (e.g. same category name)
+      CREATE TABLE IF NOT EXISTS sync_uuid_aliases (
+        table_name TEXT NOT NULL,
+        remote_uuid TEXT NOT NULL,
+        local_uuid TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (table_name, remote_uuid)
+      );
+    `,
+  },
+  {
+    name: '010_sync_conflicts',
+    sql: `
+      -- Conflicting rows seen during sync, with both versions
+      CREATE TABLE IF NOT EXISTS sync_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        table_name TEXT NOT NULL,
+        row_key TEXT NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+        base_data TEXT,
+        local_data TEXT,
+        remote_data TEXT,
+        merged_data TEXT,
+        remote_device_id TEXT NOT NULL,
+        local_changed_at TEXT,
+        remote_changed_at TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+        resolution TEXT CHECK (resolution IN ('local', 'remote', 'merge')),
+        resolved_by TEXT CHECK (resolved_by IN ('auto', 'user')),
+        created_at TEXT DEFAULT (datetime('now')),
+        resolved_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sync_conflicts_status ON sync_conflicts(status);
+
+      -- Last state of each row both sides agreed on (base for field-level merges)
+      CREATE TABLE IF NOT EXISTS sync_row_base (
+        table_name TEXT NOT NULL,
+        row_key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (table_name, row_key)
+      );
+    `,
+  },
+  {
+    name: '011_browser_domains',
+    sql: `
+      -- Domain rules match the active tab reported by the browser extension
+      ALTER TABLE categorization_rules ADD COLUMN domain_pattern TEXT;
+      ALTER TABLE time_entries ADD COLUMN domain TEXT;
+    `,
+  },
+  {
+    name: '012_manual_categories',
+    sql: `
+      -- Categories chosen by hand are kept when rules are re-applied
+      ALTER TABLE time_entries ADD COLUMN manually_categorized INTEGER DEFAULT 0;
+    `,
+  },
+  {
+    name: '013_rule_attribution',
+    sql: `
+      -- Rules can also set project, tags and a note template
+      ALTER TABLE categorization_rules ADD COLUMN project_id INTEGER REFERENCES projects(id);
+      ALTER TABLE categorization_rules ADD COLUMN tags TEXT;
+      ALTER TABLE categorization_rules ADD COLUMN note_template TEXT;
+    `,
+  },
+  {
+    name: '014_rule_packs',
+    sql: `
+      -- Rules imported from a shared rule pack remember where they came from
+      ALTER TABLE categorization_rules ADD COLUMN pack_name TEXT;
+      ALTER TABLE categorization_rules ADD COLUMN pack_version TEXT;
+    `,
+  },
+  {
+    name: '015_rule_set_version',
+    sql: `
+      -- Bumped on every rule or category change so cached rule sets know they are stale
+      CREATE TABLE IF NOT EXISTS rule_set_version (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        version INTEGER NOT NULL DEFAULT 0
+      );
+      INSERT OR IGNORE INTO rule_set_version (id, version) VALUES (1, 0);
+
+      CREATE TRIGGER IF NOT EXISTS rule_set_rules_insert AFTER INSERT ON categorization_rules
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS rule_set_rules_update AFTER UPDATE ON categorization_rules
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS rule_set_rules_delete AFTER DELETE ON categorization_rules
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+
+      CREATE TRIGGER IF NOT EXISTS rule_set_categories_insert AFTER INSERT ON categories
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS rule_set_categories_update AFTER UPDATE OF name ON categories
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS rule_set_categories_delete AFTER DELETE ON categories
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS rule_set_rules_insert;
+      DROP TRIGGER IF EXISTS rule_set_rules_update;
+      DROP TRIGGER IF EXISTS rule_set_rules_delete;
+      DROP TRIGGER IF EXISTS rule_set_categories_insert;
+      DROP TRIGGER IF EXISTS rule_set_categories_update;
+      DROP TRIGGER IF EXISTS rule_set_categories_delete;
+      DROP TABLE IF EXISTS rule_set_version;
+    `,
+  },
+  {
+    name: '016_category_parents',
+    sql: `
+      -- Categories can nest under a parent; reports roll child time up into it
+      ALTER TABLE categories ADD COLUMN parent_id INTEGER REFERENCES categories(id);
+      CREATE INDEX IF NOT EXISTS idx_categories_parent ON categories(parent_id);
+    `,
+  },
+  {
+    name: '017_productivity_levels',
+    sql: `
+      -- Graded productivity from -2 (very distracting) to +2 (very productive).
+      -- is_productive stays in step (productivity > 0) for older clients.
+      ALTER TABLE categories ADD COLUMN productivity INTEGER NOT NULL DEFAULT 1;
+      UPDATE categories SET productivity = CASE WHEN is_productive = 1 THEN 1 ELSE 0 END;
+
+      -- Optional overrides for the entries of a project or with a tag
+      ALTER TABLE projects ADD COLUMN productivity INTEGER;
+      ALTER TABLE tags ADD COLUMN productivity INTEGER;
+    `,
+    down: `
+      ALTER TABLE categories DROP COLUMN productivity;
+      ALTER TABLE projects DROP COLUMN productivity;
+      ALTER TABLE tags DROP COLUMN productivity;
+    `,
+  },
+  {
+    name: '018_project_repos',
+    sql: `
+      -- Local repositories (by path and/or remote URL) that belong to a project
+      CREATE TABLE IF NOT EXISTS project_repos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id INTEGER NOT NULL REFERENCES projects(id),
+        path TEXT UNIQUE,
+        remote TEXT UNIQUE,
+        created_at TEXT DEFAULT (datetime('now')),
+        CHECK (path IS NOT NULL OR remote IS NOT NULL)
+      );
+      CREATE INDEX IF NOT EXISTS idx_project_repos_project ON project_repos(project_id);
+    `,
+    down: `
+      DROP TABLE IF EXISTS project_repos;
+    `,
+  },
+  {
+    name: '019_git_commits',
+    sql: `
+      -- Commits recorded by the post-commit hook, with the entry running at the time
+      CREATE TABLE IF NOT EXISTS git_commits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sha TEXT NOT NULL,
+        message TEXT NOT NULL,
+        repo TEXT NOT NULL,
+        branch TEXT,
+        committed_at TEXT NOT NULL,
+        entry_id INTEGER REFERENCES time_entries(id) ON DELETE SET NULL,
+        github_issue TEXT,
+        jira_key TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        UNIQUE (repo, sha)
+      );
+      CREATE INDEX IF NOT EXISTS idx_git_commits_entry ON git_commits(entry_id);
+      CREATE INDEX IF NOT EXISTS idx_git_commits_time ON git_commits(committed_at);
+    `,
+    down: `
+      DROP TABLE IF EXISTS git_commits;
+    `,
+  },
+  {
+    name: '020_entry_search',
+    sql: `
+      -- What the full-text index holds per entry. Encrypted notes stay out of it.
+      CREATE VIEW IF NOT EXISTS entry_search_source AS
+        SELECT
+          e.id,
+          CASE WHEN json_valid(e.notes) AND json_extract(e.notes, '$.encrypted') IS NOT NULL
+            THEN NULL ELSE e.notes END AS notes,
+          e.window_title AS title,
+          e.app_name AS app,
+          p.name AS project,
+          (SELECT group_concat(t.name, ' ') FROM entry_tags et JOIN tags t ON t.id = et.tag_id
+            WHERE et.entry_id = e.id) AS tags
+        FROM time_entries e
+        LEFT JOIN projects p ON p.id = e.project_id;
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS entry_search USING fts5(
+        notes, title, app, project, tags,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+      INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+        SELECT * FROM entry_search_source;
+
+      -- Keep the index in step with entries and the project and tag names they show
+      CREATE TRIGGER IF NOT EXISTS entry_search_insert AFTER INSERT ON time_entries
+        BEGIN
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id = new.id;
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_update
+        AFTER UPDATE OF notes, window_title, app_name, project_id ON time_entries
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (old.id, new.id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (old.id, new.id);
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_delete AFTER DELETE ON time_entries
+        BEGIN
+          DELETE FROM entry_search WHERE rowid = old.id;
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_tag_attach AFTER INSERT ON entry_tags
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (new.entry_id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (new.entry_id);
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_tag_detach AFTER DELETE ON entry_tags
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (old.entry_id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (old.entry_id);
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_tag_rename AFTER UPDATE OF name ON tags
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (SELECT entry_id FROM entry_tags WHERE tag_id = new.id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (SELECT entry_id FROM entry_tags WHERE tag_id = new.id);
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_tag_delete AFTER DELETE ON tags
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (SELECT entry_id FROM entry_tags WHERE tag_id = old.id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (SELECT entry_id FROM entry_tags WHERE tag_id = old.id);
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_project_rename AFTER UPDATE OF name ON projects
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (SELECT id FROM time_entries WHERE project_id = new.id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (SELECT id FROM time_entries WHERE project_id = new.id);
+        END;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS entry_search_insert;
+      DROP TRIGGER IF EXISTS entry_search_update;
+      DROP TRIGGER IF EXISTS entry_search_delete;
+      DROP TRIGGER IF EXISTS entry_search_tag_attach;
+      DROP TRIGGER IF EXISTS entry_search_tag_detach;
+      DROP TRIGGER IF EXISTS entry_search_tag_rename;
+      DROP TRIGGER IF EXISTS entry_search_tag_delete;
+      DROP TRIGGER IF EXISTS entry_search_project_rename;
+      DROP TABLE IF EXISTS entry_search;
+      DROP VIEW IF EXISTS entry_search_source;
+    `,
+  },
+  {
+    name: '021_invoices',
+    sql: `
+      -- Formerly created on first use by the invoice repository
+      CREATE TABLE IF NOT EXISTS invoices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_number TEXT UNIQUE NOT NULL,
+        project_id INTEGER,
+        client TEXT,
+        from_date TEXT NOT NULL,
+        to_date TEXT NOT NULL,
+        total_hours REAL NOT NULL,
+        hourly_rate REAL NOT NULL,
+        total_amount REAL NOT NULL,
+        status TEXT DEFAULT 'draft',
+        notes TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (project_id) REFERENCES projects(id)
+      );
+      CREATE TABLE IF NOT EXISTS invoice_line_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_id INTEGER NOT NULL,
+        entry_id INTEGER,
+        date TEXT NOT NULL,
+        category TEXT NOT NULL,
+        hours REAL NOT NULL,
+        rate REAL NOT NULL,
+        amount REAL NOT NULL,
+        notes TEXT,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE,
+        FOREIGN KEY (entry_id) REFERENCES time_entries(id)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS invoice_line_items;
+      DROP TABLE IF EXISTS invoices;
+    `,
+  },
+  {
+    name: '022_webhooks',
+    sql: `
+      -- Formerly created on first use by the webhook repository
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT,
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+      CREATE TABLE IF NOT EXISTS webhook_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id INTEGER NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        response_status INTEGER,
+        response_body TEXT,
+        success INTEGER DEFAULT 0,
+        retries INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS webhook_logs;
+      DROP TABLE IF EXISTS webhooks;
+    `,
+  },
+  {
+    name: '023_templates',
+    sql: `
+      -- Formerly created on first use by the template repository
+      CREATE TABLE IF NOT EXISTS templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        category_id INTEGER REFERENCES categories(id),
+        project_id INTEGER REFERENCES projects(id),
+        tags TEXT,
+        notes TEXT,
+        is_favorite INTEGER DEFAULT 0,
+        use_count INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS templates;
+    `,
+  },
+  {
+    name: '024_undo',
+    sql: `
+      -- Formerly created on first use by core/undo.ts
+      CREATE TABLE IF NOT EXISTS undo_stack (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action_type TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER,
+        old_data TEXT,
+        new_data TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+      CREATE TABLE IF NOT EXISTS redo_stack (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action_type TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER,
+        old_data TEXT,
+        new_data TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS redo_stack;
+      DROP TABLE IF EXISTS undo_stack;
+    `,
+  },
+  {
+    name: '025_trash',
+    sql: `
+      -- Deleting moves a row to the trash; it is removed for good when purged
+      ALTER TABLE time_entries ADD COLUMN deleted_at TEXT;
+      ALTER TABLE projects ADD COLUMN deleted_at TEXT;
+      ALTER TABLE tags ADD COLUMN deleted_at TEXT;
+      ALTER TABLE templates ADD COLUMN deleted_at TEXT;
+      ALTER TABLE invoices ADD COLUMN deleted_at TEXT;
+      CREATE INDEX IF NOT EXISTS idx_entries_deleted ON time_entries(deleted_at);
+    `,
+    // Rows still in the trash are purged first, as purgeTrash() would, so they don't come back as live data
+    down: `
+      DELETE FROM entry_tags WHERE entry_id IN (SELECT id FROM time_entries WHERE deleted_at IS NOT NULL);
+      UPDATE git_commits SET entry_id = NULL WHERE entry_id IN (SELECT id FROM time_entries WHERE deleted_at IS NOT NULL);
+      DELETE FROM time_entries WHERE deleted_at IS NOT NULL;
+
+      UPDATE time_entries SET project_id = NULL WHERE project_id IN (SELECT id FROM projects WHERE deleted_at IS NOT NULL);
+      UPDATE categorization_rules SET project_id = NULL WHERE project_id IN (SELECT id FROM projects WHERE deleted_at IS NOT NULL);
+      UPDATE templates SET project_id = NULL WHERE project_id IN (SELECT id FROM projects WHERE deleted_at IS NOT NULL);
+      DELETE FROM project_repos WHERE project_id IN (SELECT id FROM projects WHERE deleted_at IS NOT NULL);
+      DELETE FROM projects WHERE deleted_at IS NOT NULL;
+
+      DELETE FROM entry_tags WHERE tag_id IN (SELECT id FROM tags WHERE deleted_at IS NOT NULL);
+      DELETE FROM tags WHERE deleted_at IS NOT NULL;
+
+      DELETE FROM templates WHERE deleted_at IS NOT NULL;
+
+      DELETE FROM invoice_line_items WHERE invoice_id IN (SELECT id FROM invoices WHERE deleted_at IS NOT NULL);
+      DELETE FROM invoices WHERE deleted_at IS NOT NULL;
+
+      DROP INDEX IF EXISTS idx_entries_deleted;
+      ALTER TABLE time_entries DROP COLUMN deleted_at;
+      ALTER TABLE projects DROP COLUMN deleted_at;
+      ALTER TABLE tags DROP COLUMN deleted_at;
+      ALTER TABLE templates DROP COLUMN deleted_at;
+      ALTER TABLE invoices DROP COLUMN deleted_at;
+    `,
+  },
+  {
+    name: '026_training_version',
+    sql: `
+      -- Bumped when the corrections the classifier learns from change, so the model is retrained only then
+      CREATE TABLE IF NOT EXISTS training_version (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        version INTEGER NOT NULL DEFAULT 0
+      );
+      INSERT OR IGNORE INTO training_version (id, version) VALUES (1, 0);
+
+      CREATE TRIGGER IF NOT EXISTS training_entries_insert AFTER INSERT ON time_entries
+      WHEN NEW.manually_categorized = 1
+      BEGIN UPDATE training_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS training_entries_update
+      AFTER UPDATE OF category_id, manually_categorized, is_manual, deleted_at,
+        app_name, app_bundle_id, window_title, domain ON time_entries
+      WHEN NEW.manually_categorized = 1 OR OLD.manually_categorized = 1
+      BEGIN UPDATE training_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS training_entries_delete AFTER DELETE ON time_entries
+      WHEN OLD.manually_categorized = 1
+      BEGIN UPDATE training_version SET version = version + 1 WHERE id = 1; END;
+
+      CREATE TRIGGER IF NOT EXISTS training_categories_update AFTER UPDATE OF name ON categories
+      BEGIN UPDATE training_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS training_categories_delete AFTER DELETE ON categories
+      BEGIN UPDATE training_version SET version = version + 1 WHERE id = 1; END;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS training_entries_insert;
+      DROP TRIGGER IF EXISTS training_entries_update;
+      DROP TRIGGER IF EXISTS training_entries_delete;
+      DROP TRIGGER IF EXISTS training_categories_update;
+      DROP TRIGGER IF EXISTS training_categories_delete;
+      DROP TABLE IF EXISTS training_version;
+    `,
+  },
+  {
+    name: '027_rule_set_projects',
+    sql: `
+      -- Rules that set a project drop it while the project is trashed, so trashing,
+      -- restoring or renaming one makes cached rule sets stale too
+      CREATE TRIGGER IF NOT EXISTS rule_set_projects_update AFTER UPDATE OF deleted_at, name ON projects
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+      CREATE TRIGGER IF NOT EXISTS rule_set_projects_delete AFTER DELETE ON projects
+      BEGIN UPDATE rule_set_version SET version = version + 1 WHERE id = 1; END;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS rule_set_projects_update;
+      DROP TRIGGER IF EXISTS rule_set_projects_delete;
+    `,
+  },
+  {
+    name: '028_entry_search_trash',
+    sql: `
+      -- Trashed projects and tags no longer show in the full-text index
+      DROP VIEW IF EXISTS entry_search_source;
+      CREATE VIEW entry_search_source AS
+        SELECT
+          e.id,
+          CASE WHEN json_valid(e.notes) AND json_extract(e.notes, '$.encrypted') IS NOT NULL
+            THEN NULL ELSE e.notes END AS notes,
+          e.window_title AS title,
+          e.app_name AS app,
+          p.name AS project,
+          (SELECT group_concat(t.name, ' ') FROM entry_tags et JOIN tags t ON t.id = et.tag_id
+            WHERE et.entry_id = e.id AND t.deleted_at IS NULL) AS tags
+        FROM time_entries e
+        LEFT JOIN projects p ON p.id = e.project_id AND p.deleted_at IS NULL;
+
+      -- Reindex an entry when its project or a tag on it is trashed or restored
+      CREATE TRIGGER IF NOT EXISTS entry_search_project_trash AFTER UPDATE OF deleted_at ON projects
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (SELECT id FROM time_entries WHERE project_id = new.id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (SELECT id FROM time_entries WHERE project_id = new.id);
+        END;
+      CREATE TRIGGER IF NOT EXISTS entry_search_tag_trash AFTER UPDATE OF deleted_at ON tags
+        BEGIN
+          DELETE FROM entry_search WHERE rowid IN (SELECT entry_id FROM entry_tags WHERE tag_id = new.id);
+          INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+            SELECT * FROM entry_search_source WHERE id IN (SELECT entry_id FROM entry_tags WHERE tag_id = new.id);
+        END;
+
+      DELETE FROM entry_search;
+      INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+        SELECT * FROM entry_search_source;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS entry_search_project_trash;
+      DROP TRIGGER IF EXISTS entry_search_tag_trash;
+      DROP VIEW IF EXISTS entry_search_source;
+      CREATE VIEW entry_search_source AS
+        SELECT
+          e.id,
+          CASE WHEN json_valid(e.notes) AND json_extract(e.notes, '$.encrypted') IS NOT NULL
+            THEN NULL ELSE e.notes END AS notes,
+          e.window_title AS title,
+          e.app_name AS app,
+          p.name AS project,
+          (SELECT group_concat(t.name, ' ') FROM entry_tags et JOIN tags t ON t.id = et.tag_id
+            WHERE et.entry_id = e.id) AS tags
+        FROM time_entries e
+        LEFT JOIN projects p ON p.id = e.project_id;
+
+      DELETE FROM entry_search;
+      INSERT INTO entry_search (rowid, notes, title, app, project, tags)
+        SELECT * FROM entry_search_source;
+    `,
+  },
+];
+
+export interface MigrationStatus {
+  name: string;
+  // changed: edited since it was applied; unknown: applied by a newer version
+  state: 'applied' | 'pending' | 'changed' | 'unknown';
+  appliedAt: string | null;
+  reversible: boolean;
+}
+
+export interface MigrationResult {
+  applied: string[];
+  rolledBack: string[];
+  // Snapshot taken first, if anything changed
+  backup: string | null;
+}
+
+// Settings key holding the migration the schema is pinned at
+const PIN_KEY = 'schema_pin';
+
+// Checksum of a migration's SQL; indentation and blank lines don't count
+export function migrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\s+/g, ' ').trim()).digest('hex');
+}
+
+// Create the bookkeeping table, filling in checksums for rows recorded before they existed
+function prepareMigrationsTable(database: Database.Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  const columns = database.prepare('PRAGMA table_info(migrations)').all() as { name: string }[];
+  if (!columns.some((c) => c.name === 'checksum')) {
+    database.exec('ALTER TABLE migrations ADD COLUMN checksum TEXT');
+    const backfill = database.prepare('UPDATE migrations SET checksum = ? WHERE name = ?');
+    for (const migration of MIGRATIONS) {
+      backfill.run(migrationChecksum(migration.sql), migration.name);
+    }
+  }
+}
+
+// Applied migrations by name
+function getApplied(database: Database.Database): Map<string, { checksum: string | null; applied_at: string }> {
+  const rows = database
+    .prepare('SELECT name, checksum, applied_at FROM migrations ORDER BY id')
+    .all() as { name: string; checksum: string | null; applied_at: string }[];
+  return new Map(rows.map((row) => [row.name, row]));
+}
+
+// Index of the last migration to apply when the database is opened
+function getPinnedIndex(database: Database.Database, applied: Map<string, unknown>): number {
+  const latest = MIGRATIONS.length - 1;
+  // No settings table yet on a new database
+  if (!applied.has('001_initial')) return latest;
+
+  const row = database.prepare('SELECT value FROM settings WHERE key = ?').get(PIN_KEY) as { value: string } | undefined;
+  const index = row ? MIGRATIONS.findIndex((m) => m.name === row.value) : -1;
+  return index === -1 ? latest : index;
+}
+
+function setPin(database: Database.Database, name: string | null): void {
+  if (name) {
+    database.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')
+    `).run(PIN_KEY, name);
+  } else {
+    database.prepare('DELETE FROM settings WHERE key = ?').run(PIN_KEY);
+  }
+}
+
+// Position in the registry of a migration name or number ("18", "018", "018_project_repos")
+export function findMigration(ref: string): number {
+  const prefix = /^\d+$/.test(ref) ? `${ref.padStart(3, '0')}_` : null;
+  const index = MIGRATIONS.findIndex((m) => m.name === ref || (prefix !== null && m.name.startsWith(prefix)));
+  if (index === -1) {
+    throw new Error(`Unknown migration "${ref}". Run "tt db migrate --status" to list them.`);
+  }
+  return index;
+}
+
+// Apply the pending migrations up to and including an index, each in its own transaction
+function applyUpTo(
+  database: Database.Database,
+  last: number,
+  applied: Map<string, unknown>
+): MigrationResult {
+  const pending = MIGRATIONS.slice(0, last + 1).filter((m) => !applied.has(m.name));
+  if (pending.length === 0) return { applied: [], rolledBack: [], backup: null };
+
+  // A brand-new database has nothing to lose
+  const backup = applied.size > 0 ? backupPath(snapshotDatabase(database, 'pre-migrate')) : null;
+  const record = database.prepare('INSERT INTO migrations (name, checksum) VALUES (?, ?)');
+
+  for (const migration of pending) {
+    try {
+      database.transaction(() => {
+        database.exec(migration.sql);
+        record.run(migration.name, migrationChecksum(migration.sql));
+      })();
+    } catch (err) {
+      throw new Error(
+        `Migration ${migration.name} failed: ${(err as Error).message}` + (backup ? ` (backup: ${backup})` : '')
+      );
+    }
+    getLogger().info(`Applied migration ${migration.name}`);
+  }
+
+  return { applied: pending.map((m) => m.name), rolledBack: [], backup };
+}
+
+// Run the down scripts of applied migrations after an index, newest first
+function rollbackTo(
+  database: Database.Database,
+  target: number,
+  applied: Map<string, unknown>
+): MigrationResult {
+  const undo = MIGRATIONS.slice(target + 1).filter((m) => applied.has(m.name)).reverse();
+  if (undo.length === 0) return { applied: [], rolledBack: [], backup: null };
+
+  const blocked = undo.find((m) => !m.down);
+  if (blocked) {
+    throw new Error(
+      `${blocked.name} cannot be rolled back (it has no down script). Restore a backup taken before it instead (tt backup list).`
+    );
+  }
+
+  const backup = backupPath(snapshotDatabase(database, 'pre-rollback'));
+  const forget = database.prepare('DELETE FROM migrations WHERE name = ?');
+
+  for (const migration of undo) {
+    try {
+      database.transaction(() => {
+        database.exec(migration.down!);
+        forget.run(migration.name);
+      })();
+    } catch (err) {
+      throw new Error(`Rolling back ${migration.name} failed: ${(err as Error).message} (backup: ${backup})`);
+    }
+    getLogger().info(`Rolled back migration ${migration.name}`);
+  }
+
+  return { applied: [], rolledBack: undo.map((m) => m.name), backup };
+}
+
+// Move the schema to a registry index, pinning it there unless it is the latest
+function moveTo(database: Database.Database, target: number): MigrationResult {
+  const applied = getApplied(database);
+  const lastApplied = MIGRATIONS.reduce((last, m, i) => (applied.has(m.name) ? i : last), -1);
+
+  const result = lastApplied > target
+    ? rollbackTo(database, target, applied)
+    : applyUpTo(database, target, applied);
+
+  setPin(database, target === MIGRATIONS.length - 1 ? null : MIGRATIONS[target].name);
+  return result;
+}
+
+// Apply pending migrations when the database is opened (up to a pinned one)
+export function runMigrations(database: Database.Database): void {
+  prepareMigrationsTable(database);
+  const applied = getApplied(database);
+  applyUpTo(database, getPinnedIndex(database, applied), applied);
+}
+
+// Migrate forward or back to a migration (default: the latest) and pin the schema there
+export function migrateTo(database: Database.Database, ref?: string): MigrationResult {
+  prepareMigrationsTable(database);
+  return moveTo(database, ref === undefined ? MIGRATIONS.length - 1 : findMigration(ref));
+}
+
+// Roll back the most recently applied migrations
+export function rollbackMigrations(database: Database.Database, steps = 1): MigrationResult {
+  prepareMigrationsTable(database);
+  const applied = getApplied(database);
+  const indexes = MIGRATIONS.map((m, i) => (applied.has(m.name) ? i : -1)).filter((i) => i !== -1);
+  if (steps >= indexes.length) {
+    throw new Error(`Only ${indexes.length - 1} migrations can be rolled back past the initial schema`);
+  }
+  return moveTo(database, indexes[indexes.length - 1 - steps]);
+}
+
+// Every known migration with its state, and the migration the schema is pinned at
+export function getMigrationStatus(database: Database.Database): {
+  migrations: MigrationStatus[];
+  pinned: string | null;
+} {
+  prepareMigrationsTable(database);
+  const applied = getApplied(database);
+  const pinned = getPinnedIndex(database, applied);
+
+  const migrations: MigrationStatus[] = MIGRATIONS.map((m) => {
+    const row = applied.get(m.name);
+    return {
+      name: m.name,
+      state: !row ? 'pending' : row.checksum === migrationChecksum(m.sql) ? 'applied' : 'changed',
+      appliedAt: row?.applied_at ?? null,
+      reversible: Boolean(m.down),
+    };
+  });
+
+  for (const [name, row] of applied) {
+    if (!MIGRATIONS.some((m) => m.name === name)) {
+      migrations.push({ name, state: 'unknown', appliedAt: row.applied_at, reversible: false });
+    }
+  }
+
+  return { migrations, pinned: pinned === MIGRATIONS.length - 1 ? null : MIGRATIONS[pinned].name };
+}
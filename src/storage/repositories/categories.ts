@@ -23,33 +23,70 @@ export function getCategoryById(id: number): Category | undefined {
     .get(id) as Category | undefined;
 }
 
+// Get the direct children of a category
+export function getChildCategories(id: number): Category[] {
+  const db = getDatabase();
+  return db
+    .prepare('SELECT * FROM categories WHERE parent_id = ? ORDER BY name')
+    .all(id) as Category[];
+}
+
+// Check whether `ancestorId` is the category itself or one of its ancestors
+export function isCategoryAncestor(ancestorId: number, id: number): boolean {
+  const db = getDatabase();
+  const row = db.prepare(`
+    WITH RECURSIVE chain(id, parent_id) AS (
+      SELECT id, parent_id FROM categories WHERE id = ?
+      UNION
+      SELECT c.id, c.parent_id FROM categories c JOIN chain ON c.id = chain.parent_id
+    )
+    SELECT 1 AS found FROM chain WHERE id = ?
+  `).get(id, ancestorId) as { found: number } | undefined;
+  return row !== undefined;
+}
+
 // Create new category
 export function createCategory(
   name: string,
   color?: string,
   description?: string,
-  isProductive = true
+  productivity = 1,
+  parentId?: number | null
 ): Category {
   const db = getDatabase();
   const stmt = db.prepare(`
-    INSERT INTO categories (name, color, description, is_productive)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO categories (name, color, description, is_productive, productivity, parent_id)
+    VALUES (?, ?, ?, ?, ?, ?)
   `);
-  const result = stmt.run(name, color || null, description || null, isProductive ? 1 : 0);
+  const result = stmt.run(
+    name,
+    color || null,
+    description || null,
+    productivity > 0 ? 1 : 0,
+    productivity,
+    parentId ?? null
+  );
   return getCategoryById(result.lastInsertRowid as number)!;
 }
 
-// Delete category
+// Delete category (its children move up to its parent)
 export function deleteCategory(name: string): boolean {
   const db = getDatabase();
-  const result = db.prepare('DELETE FROM categories WHERE name = ?').run(name);
-  return result.changes > 0;
+  const category = getCategoryByName(name);
+  if (!category) return false;
+
+  return db.transaction(() => {
+    db.prepare(`
+      UPDATE categories SET parent_id = ?, updated_at = datetime('now') WHERE parent_id = ?
+    `).run(category.parent_id, category.id);
+    return db.prepare('DELETE FROM categories WHERE id = ?').run(category.id).changes > 0;
+  })();
 }
 
 // Update category
 export function updateCategory(
   id: number,
-  updates: Partial<Pick<Category, 'name' | 'color' | 'description' | 'is_productive'>>
+  updates: Partial<Pick<Category, 'name' | 'color' | 'description' | 'productivity' | 'parent_id'>>
 ): Category | undefined {
   const db = getDatabase();
   const fields: string[] = [];
@@ -67,9 +104,16 @@ export function updateCategory(
     fields.push('description = ?');
     values.push(updates.description);
   }
-  if (updates.is_productive !== undefined) {
-    fields.push('is_productive = ?');
-    values.push(updates.is_productive ? 1 : 0);
+  if (updates.productivity !== undefined) {
+    fields.push('productivity = ?', 'is_productive = ?');
+    values.push(updates.productivity, updates.productivity > 0 ? 1 : 0);
+  }
+  if (updates.parent_id !== undefined) {
+    if (updates.parent_id !== null && isCategoryAncestor(id, updates.parent_id)) {
+      throw new Error('A category cannot be nested under itself or one of its children');
+    }
+    fields.push('parent_id = ?');
+    values.push(updates.parent_id);
   }
 
   if (fields.length === 0) return getCategoryById(id);
@@ -0,0 +1,95 @@
+import { getDatabase } from '../database.js';
+import type { GitCommit } from '../../types/index.js';
+
+// Entry that was running at a local timestamp
+function getEntryIdAt(time: string): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT id FROM time_entries
+    WHERE start_time <= ? AND (end_time IS NULL OR end_time >= ?) AND deleted_at IS NULL
+    ORDER BY start_time DESC
+    LIMIT 1
+  `).get(time, time) as { id: number } | undefined;
+  return row?.id ?? null;
+}
+
+// Record a commit against the entry running when it was made (a known commit is left as it is)
+export function recordCommit(commit: {
+  sha: string;
+  message: string;
+  repo: string;
+  branch: string | null;
+  // Local SQLite timestamp
+  committedAt: string;
+  githubIssue?: string | null;
+  jiraKey?: string | null;
+}): GitCommit {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO git_commits (sha, message, repo, branch, committed_at, entry_id, github_issue, jira_key)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (repo, sha) DO NOTHING
+  `).run(
+    commit.sha,
+    commit.message,
+    commit.repo,
+    commit.branch,
+    commit.committedAt,
+    getEntryIdAt(commit.committedAt),
+    commit.githubIssue ?? null,
+    commit.jiraKey ?? null
+  );
+
+  return db.prepare('SELECT * FROM git_commits WHERE repo = ? AND sha = ?').get(commit.repo, commit.sha) as GitCommit;
+}
+
+/**
+ * Link commits made between two times that no entry holds yet, e.g. when the
+ * work is logged by hand afterwards. Returns how many were linked.
+ */
+export function attachCommitsToEntry(entryId: number, startTime: string, endTime: string): number {
+  const db = getDatabase();
+  return db.prepare(`
+    UPDATE git_commits SET entry_id = ?
+    WHERE committed_at BETWEEN ? AND ?
+      AND (entry_id IS NULL OR entry_id NOT IN (SELECT id FROM time_entries))
+  `).run(entryId, startTime, endTime).changes;
+}
+
+// Commits of each entry, oldest first
+export function getCommitsForEntries(entryIds: number[]): Map<number, GitCommit[]> {
+  const byEntry = new Map<number, GitCommit[]>();
+  if (entryIds.length === 0) return byEntry;
+
+  const db = getDatabase();
+  const commits = db.prepare(`
+    SELECT * FROM git_commits
+    WHERE entry_id IN (${entryIds.map(() => '?').join(',')})
+    ORDER BY committed_at
+  `).all(...entryIds) as GitCommit[];
+
+  for (const commit of commits) {
+    const list = byEntry.get(commit.entry_id!) ?? [];
+    list.push(commit);
+    byEntry.set(commit.entry_id!, list);
+  }
+  return byEntry;
+}
+
+// Commits between two dates (inclusive), oldest first
+export function getCommitsByDateRange(startDate: string, endDate: string): GitCommit[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM git_commits
+    WHERE date(committed_at) >= date(?) AND date(committed_at) <= date(?)
+    ORDER BY committed_at
+  `).all(startDate, endDate) as GitCommit[];
+}
+
+// Number of recorded commits and the latest one
+export function getCommitStats(): { count: number; last: GitCommit | null } {
+  const db = getDatabase();
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM git_commits').get() as { count: number };
+  const last = db.prepare('SELECT * FROM git_commits ORDER BY committed_at DESC LIMIT 1').get() as GitCommit | undefined;
+  return { count, last: last ?? null };
+}
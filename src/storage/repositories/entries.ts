@@ -1,5 +1,5 @@
 import { getDatabase } from '../database.js';
-import type { TimeEntry, ActiveSession, CategorySummary } from '../../types/index.js';
+import type { TimeEntry, ActiveSession, CategorySummary, EntryQuery } from '../../types/index.js';
 
 // Create new time entry (start timer)
 export function createEntry(options: {
@@ -8,16 +8,19 @@ export function createEntry(options: {
   appName?: string | null;
   appBundleId?: string | null;
   windowTitle?: string | null;
+  domain?: string | null;
   isManual?: boolean;
   notes?: string | null;
+  // Local SQLite timestamp (defaults to now)
+  startTime?: string;
 }): TimeEntry {
   const db = getDatabase();
   const stmt = db.prepare(`
     INSERT INTO time_entries (
-      category_id, project_id, app_name, app_bundle_id, window_title,
+      category_id, project_id, app_name, app_bundle_id, window_title, domain,
       start_time, is_manual, notes
     )
-    VALUES (?, ?, ?, ?, ?, datetime('now', 'localtime'), ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now', 'localtime')), ?, ?)
   `);
   const result = stmt.run(
     options.categoryId ?? null,
@@ -25,6 +28,8 @@ export function createEntry(options: {
     options.appName ?? null,
     options.appBundleId ?? null,
     options.windowTitle ?? null,
+    options.domain ?? null,
+    options.startTime ?? null,
     options.isManual ? 1 : 0,
     options.notes ?? null
   );
@@ -35,7 +40,7 @@ export function createEntry(options: {
 export function getEntryById(id: number): TimeEntry | undefined {
   const db = getDatabase();
   return db
-    .prepare('SELECT * FROM time_entries WHERE id = ?')
+    .prepare('SELECT * FROM time_entries WHERE id = ? AND deleted_at IS NULL')
     .get(id) as TimeEntry | undefined;
 }
 
@@ -56,40 +61,42 @@ export function getActiveEntry(): ActiveSession | undefined {
       e.auto_paused
     FROM time_entries e
     LEFT JOIN categories c ON e.category_id = c.id
-    WHERE e.end_time IS NULL
+    WHERE e.end_time IS NULL AND e.deleted_at IS NULL
     ORDER BY e.start_time DESC
     LIMIT 1
   `).get() as ActiveSession | undefined;
 }
 
 // Stop active entry (close timer)
-export function stopActiveEntry(): TimeEntry | undefined {
+// endTime is a local SQLite timestamp (defaults to now)
+export function stopActiveEntry(endTime?: string): TimeEntry | undefined {
   const db = getDatabase();
   const active = getActiveEntry();
   if (!active) return undefined;
 
+  const end = endTime ?? (db.prepare(`SELECT datetime('now', 'localtime') as now`).get() as { now: string }).now;
+
   db.prepare(`
     UPDATE time_entries
     SET
-      end_time = datetime('now', 'localtime'),
-      duration_seconds = CAST(
-        (julianday(datetime('now', 'localtime')) - julianday(start_time)) * 86400
+      end_time = @end,
+      duration_seconds = CAST(ROUND(
+        (julianday(@end) - julianday(start_time)) * 86400
         - COALESCE(paused_duration_seconds, 0)
         - CASE WHEN auto_paused = 1 AND paused_at IS NOT NULL
-          THEN (julianday(datetime('now', 'localtime')) - julianday(paused_at)) * 86400
+          THEN (julianday(@end) - julianday(paused_at)) * 86400
           ELSE 0
         END
-        AS INTEGER
-      ),
+      ) AS INTEGER),
       paused_duration_seconds = COALESCE(paused_duration_seconds, 0) +
         CASE WHEN auto_paused = 1 AND paused_at IS NOT NULL
-          THEN CAST((julianday(datetime('now', 'localtime')) - julianday(paused_at)) * 86400 AS INTEGER)
+          THEN CAST(ROUND((julianday(@end) - julianday(paused_at)) * 86400) AS INTEGER)
           ELSE 0
         END,
       auto_paused = 0,
       paused_at = NULL
-    WHERE id = ?
-  `).run(active.id);
+    WHERE id = @id
+  `).run({ end, id: active.id });
 
   return getEntryById(active.id);
 }
@@ -103,6 +110,7 @@ export function getEntriesByDateRange(
   return db.prepare(`
     SELECT * FROM time_entries
     WHERE date(start_time) >= date(?) AND date(start_time) <= date(?)
+      AND deleted_at IS NULL
     ORDER BY start_time DESC
   `).all(startDate, endDate) as TimeEntry[];
 }
@@ -113,6 +121,7 @@ export function getTodaysEntries(): TimeEntry[] {
   return db.prepare(`
     SELECT * FROM time_entries
     WHERE date(start_time) = date('now', 'localtime')
+      AND deleted_at IS NULL
     ORDER BY start_time DESC
   `).all() as TimeEntry[];
 }
@@ -134,6 +143,7 @@ export function getCategorySummary(
     WHERE date(e.start_time) >= date(?)
       AND date(e.start_time) <= date(?)
       AND e.duration_seconds IS NOT NULL
+      AND e.deleted_at IS NULL
     GROUP BY c.id
     ORDER BY total_seconds DESC
   `).all(startDate, endDate) as CategorySummary[];
@@ -149,6 +159,43 @@ export function getTodaySummary(): CategorySummary[] {
 export interface FilterOptions {
   projectId?: number;
   tagIds?: number[];
+  where?: EntryQuery;
+}
+
+// Add the filter conditions and return any joins they need
+function filterJoins(
+  filters: FilterOptions | undefined,
+  conditions: string[],
+  params: (string | number)[]
+): string {
+  let joins = '';
+
+  // Add tag filter (join with entry_tags)
+  if (filters?.tagIds && filters.tagIds.length > 0) {
+    joins += ` JOIN entry_tags et ON e.id = et.entry_id`;
+    conditions.push(`et.tag_id IN (${filters.tagIds.map(() => '?').join(',')})`);
+    params.push(...filters.tagIds);
+  }
+
+  // Add project filter
+  if (filters?.projectId) {
+    conditions.push("e.project_id = ?");
+    params.push(filters.projectId);
+  }
+
+  // Add --where expression
+  if (filters?.where) {
+    conditions.push(`(${filters.where.sql})`);
+    params.push(...filters.where.params);
+  }
+
+  return joins;
+}
+
+// Whether an entry matches a --where expression
+export function entryMatchesQuery(id: number, where: EntryQuery): boolean {
+  const db = getDatabase();
+  return db.prepare(`SELECT 1 FROM time_entries e WHERE e.id = ? AND e.deleted_at IS NULL AND (${where.sql})`).get(id, ...where.params) !== undefined;
 }
 
 // Get summary by category with filters
@@ -173,23 +220,12 @@ export function getCategorySummaryFiltered(
   const conditions: string[] = [
     "date(e.start_time) >= date(?)",
     "date(e.start_time) <= date(?)",
-    "e.duration_seconds IS NOT NULL"
+    "e.duration_seconds IS NOT NULL",
+    "e.deleted_at IS NULL"
   ];
   params.push(startDate, endDate);
 
-  // Add tag filter (join with entry_tags)
-  if (filters?.tagIds && filters.tagIds.length > 0) {
-    sql += ` JOIN entry_tags et ON e.id = et.entry_id`;
-    conditions.push(`et.tag_id IN (${filters.tagIds.map(() => '?').join(',')})`);
-    params.push(...filters.tagIds);
-  }
-
-  // Add project filter
-  if (filters?.projectId) {
-    conditions.push("e.project_id = ?");
-    params.push(filters.projectId);
-  }
-
+  sql += filterJoins(filters, conditions, params);
   sql += ` WHERE ${conditions.join(' AND ')}`;
   sql += ` GROUP BY c.id ORDER BY total_seconds DESC`;
 
@@ -213,23 +249,12 @@ export function getTotalSecondsFiltered(
   const conditions: string[] = [
     "date(e.start_time) >= date(?)",
     "date(e.start_time) <= date(?)",
-    "e.duration_seconds IS NOT NULL"
+    "e.duration_seconds IS NOT NULL",
+    "e.deleted_at IS NULL"
   ];
   params.push(startDate, endDate);
 
-  // Add tag filter
-  if (filters?.tagIds && filters.tagIds.length > 0) {
-    sql += ` JOIN entry_tags et ON e.id = et.entry_id`;
-    conditions.push(`et.tag_id IN (${filters.tagIds.map(() => '?').join(',')})`);
-    params.push(...filters.tagIds);
-  }
-
-  // Add project filter
-  if (filters?.projectId) {
-    conditions.push("e.project_id = ?");
-    params.push(filters.projectId);
-  }
-
+  sql += filterJoins(filters, conditions, params);
   sql += ` WHERE ${conditions.join(' AND ')}`;
 
   const result = db.prepare(sql).get(...params) as { total: number };
@@ -244,14 +269,18 @@ export function getTodayTotalSeconds(): number {
     FROM time_entries
     WHERE date(start_time) = date('now', 'localtime')
       AND duration_seconds IS NOT NULL
+      AND deleted_at IS NULL
   `).get() as { total: number };
   return result.total;
 }
 
-// Delete entry
+// Move an entry to the trash (see repositories/trash.ts)
 export function deleteEntry(id: number): boolean {
   const db = getDatabase();
-  const result = db.prepare('DELETE FROM time_entries WHERE id = ?').run(id);
+  const result = db.prepare(`
+    UPDATE time_entries SET deleted_at = datetime('now', 'localtime')
+    WHERE id = ? AND deleted_at IS NULL
+  `).run(id);
   return result.changes > 0;
 }
 
@@ -262,7 +291,7 @@ export interface DailyTotal {
   day_name: string;
 }
 
-export function getDailyTotals(startDate: string, endDate: string): DailyTotal[] {
+export function getDailyTotals(startDate: string, endDate: string, where?: EntryQuery): DailyTotal[] {
   const db = getDatabase();
   return db.prepare(`
     SELECT
@@ -277,13 +306,15 @@ export function getDailyTotals(startDate: string, endDate: string): DailyTotal[]
         WHEN '5' THEN 'Fri'
         WHEN '6' THEN 'Sat'
       END as day_name
-    FROM time_entries
+    FROM time_entries e
     WHERE date(start_time) >= date(?)
       AND date(start_time) <= date(?)
       AND duration_seconds IS NOT NULL
+      AND deleted_at IS NULL
+      ${where ? `AND (${where.sql})` : ''}
     GROUP BY date(start_time)
     ORDER BY date(start_time)
-  `).all(startDate, endDate) as DailyTotal[];
+  `).all(startDate, endDate, ...(where?.params ?? [])) as DailyTotal[];
 }
 
 // Get hourly breakdown for heatmap
@@ -292,19 +323,21 @@ export interface HourlyBreakdown {
   total_seconds: number;
 }
 
-export function getHourlyBreakdown(startDate: string, endDate: string): HourlyBreakdown[] {
+export function getHourlyBreakdown(startDate: string, endDate: string, where?: EntryQuery): HourlyBreakdown[] {
   const db = getDatabase();
   return db.prepare(`
     SELECT
       CAST(strftime('%H', start_time) AS INTEGER) as hour,
       COALESCE(SUM(duration_seconds), 0) as total_seconds
-    FROM time_entries
+    FROM time_entries e
     WHERE date(start_time) >= date(?)
       AND date(start_time) <= date(?)
       AND duration_seconds IS NOT NULL
+      AND deleted_at IS NULL
+      ${where ? `AND (${where.sql})` : ''}
     GROUP BY hour
     ORDER BY hour
-  `).all(startDate, endDate) as HourlyBreakdown[];
+  `).all(startDate, endDate, ...(where?.params ?? [])) as HourlyBreakdown[];
 }
 
 // Get entries with category names for export
@@ -314,7 +347,8 @@ export interface EntryWithCategory extends TimeEntry {
 
 export function getEntriesWithCategories(
   startDate: string,
-  endDate: string
+  endDate: string,
+  where?: EntryQuery
 ): EntryWithCategory[] {
   const db = getDatabase();
   return db.prepare(`
@@ -325,8 +359,10 @@ export function getEntriesWithCategories(
     LEFT JOIN categories c ON e.category_id = c.id
     WHERE date(e.start_time) >= date(?)
       AND date(e.start_time) <= date(?)
+      AND e.deleted_at IS NULL
+      ${where ? `AND (${where.sql})` : ''}
     ORDER BY e.start_time DESC
-  `).all(startDate, endDate) as EntryWithCategory[];
+  `).all(startDate, endDate, ...(where?.params ?? [])) as EntryWithCategory[];
 }
 
 // Get week date range (Monday to Sunday)
@@ -353,6 +389,8 @@ export function updateEntry(
   id: number,
   updates: {
     categoryId?: number | null;
+    // Mark the category as chosen by hand (kept by `tt rules apply`)
+    manuallyCategorized?: boolean;
     startTime?: string;
     endTime?: string;
     durationSeconds?: number;
@@ -370,6 +408,10 @@ export function updateEntry(
     fields.push('category_id = ?');
     values.push(updates.categoryId);
   }
+  if (updates.manuallyCategorized !== undefined) {
+    fields.push('manually_categorized = ?');
+    values.push(updates.manuallyCategorized ? 1 : 0);
+  }
   if (updates.startTime !== undefined) {
     fields.push('start_time = ?');
     values.push(updates.startTime);
@@ -407,7 +449,7 @@ export function updateEntry(
 }
 
 // Get recent entries with category names (for list command)
-export function getRecentEntriesWithCategories(limit = 20): EntryWithCategory[] {
+export function getRecentEntriesWithCategories(limit = 20, where?: EntryQuery): EntryWithCategory[] {
   const db = getDatabase();
   return db.prepare(`
     SELECT
@@ -415,9 +457,11 @@ export function getRecentEntriesWithCategories(limit = 20): EntryWithCategory[]
       c.name as category_name
     FROM time_entries e
     LEFT JOIN categories c ON e.category_id = c.id
+    WHERE e.deleted_at IS NULL
+      ${where ? `AND (${where.sql})` : ''}
     ORDER BY e.start_time DESC
     LIMIT ?
-  `).all(limit) as EntryWithCategory[];
+  `).all(...(where?.params ?? []), limit) as EntryWithCategory[];
 }
 
 // Get month date range
@@ -454,6 +498,7 @@ export function getMonthlyTotals(months: number): MonthlyTotal[] {
     FROM time_entries
     WHERE start_time >= date('now', '-' || ? || ' months')
       AND duration_seconds IS NOT NULL
+      AND deleted_at IS NULL
     GROUP BY strftime('%Y-%m', start_time)
     ORDER BY month DESC
     LIMIT ?
@@ -484,6 +529,7 @@ export function getWeeklyTotals(weeks: number): WeeklyTotal[] {
     WHERE date(start_time) >= date(?)
       AND date(start_time) <= date(?)
       AND duration_seconds IS NOT NULL
+      AND deleted_at IS NULL
     GROUP BY week_start
     ORDER BY week_start DESC
   `).all(earliestStart, latestEnd) as { week_start: string; total_seconds: number }[];
@@ -520,6 +566,7 @@ export function getStreakData(): StreakData {
     FROM time_entries
     WHERE duration_seconds IS NOT NULL
       AND duration_seconds > 0
+      AND deleted_at IS NULL
     ORDER BY active_date DESC
   `).all() as { active_date: string }[];
 
@@ -588,35 +635,6 @@ export function getStreakData(): StreakData {
   return { currentStreak, longestStreak, lastActiveDate };
 }
 
-// Productivity score (productive vs unproductive time)
-export function getProductivityScore(startDate: string, endDate: string): {
-  productiveSeconds: number;
-  unproductiveSeconds: number;
-  score: number;
-} {
-  const db = getDatabase();
-
-  const result = db.prepare(`
-    SELECT
-      COALESCE(SUM(CASE WHEN c.is_productive = 1 THEN e.duration_seconds ELSE 0 END), 0) as productive,
-      COALESCE(SUM(CASE WHEN c.is_productive = 0 THEN e.duration_seconds ELSE 0 END), 0) as unproductive
-    FROM time_entries e
-    LEFT JOIN categories c ON e.category_id = c.id
-    WHERE date(e.start_time) >= date(?)
-      AND date(e.start_time) <= date(?)
-      AND e.duration_seconds IS NOT NULL
-  `).get(startDate, endDate) as { productive: number; unproductive: number };
-
-  const total = result.productive + result.unproductive;
-  const score = total > 0 ? (result.productive / total) * 100 : 0;
-
-  return {
-    productiveSeconds: result.productive,
-    unproductiveSeconds: result.unproductive,
-    score,
-  };
-}
-
 // Average statistics
 export interface AverageStats {
   avgDailySeconds: number;
@@ -637,6 +655,7 @@ export function getAverageStats(): AverageStats {
       COALESCE(SUM(duration_seconds), 0) as total_seconds
     FROM time_entries
     WHERE duration_seconds IS NOT NULL
+      AND deleted_at IS NULL
   `).get() as { total_days: number; total_entries: number; total_seconds: number };
 
   const avgDailySeconds = daysResult.total_days > 0
@@ -156,6 +156,7 @@ export function getGoalsWithProgress(): GoalWithProgress[] {
         AND date(start_time) >= date(?)
         AND date(start_time) <= date(?)
         AND duration_seconds IS NOT NULL
+        AND deleted_at IS NULL
     `).get(goal.category_id, start, end) as { total: number };
 
     const current_seconds = result.total;
@@ -202,6 +203,7 @@ export function getGoalsForCategory(categoryId: number): GoalWithProgress[] {
         AND date(start_time) >= date(?)
         AND date(start_time) <= date(?)
         AND duration_seconds IS NOT NULL
+        AND deleted_at IS NULL
     `).get(goal.category_id, start, end) as { total: number };
 
     const current_seconds = result.total;
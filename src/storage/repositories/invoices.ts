@@ -27,49 +27,12 @@ export interface InvoiceLineItem {
   notes: string | null;
 }
 
-// Ensure invoices tables exist
-export function ensureInvoicesTable(): void {
-  const db = getDatabase();
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS invoices (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      invoice_number TEXT UNIQUE NOT NULL,
-      project_id INTEGER,
-      client TEXT,
-      from_date TEXT NOT NULL,
-      to_date TEXT NOT NULL,
-      total_hours REAL NOT NULL,
-      hourly_rate REAL NOT NULL,
-      total_amount REAL NOT NULL,
-      status TEXT DEFAULT 'draft',
-      notes TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      FOREIGN KEY (project_id) REFERENCES projects(id)
-    )
-  `);
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS invoice_line_items (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      invoice_id INTEGER NOT NULL,
-      entry_id INTEGER,
-      date TEXT NOT NULL,
-      category TEXT NOT NULL,
-      hours REAL NOT NULL,
-      rate REAL NOT NULL,
-      amount REAL NOT NULL,
-      notes TEXT,
-      FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE,
-      FOREIGN KEY (entry_id) REFERENCES time_entries(id)
-    )
-  `);
-}
-
 // Generate next invoice number
 export function getNextInvoiceNumber(): string {
-  ensureInvoicesTable();
   const db = getDatabase();
   
   // Compute maximum numeric suffix directly instead of ordering by id
+  // (trashed invoices included, so numbers are never reused)
   const result = db.prepare(`
     SELECT MAX(CAST(SUBSTR(invoice_number, 5) AS INTEGER)) AS maxNum
     FROM invoices
@@ -104,7 +67,6 @@ export function createInvoice(data: {
     notes?: string;
   }[];
 }): Invoice {
-  ensureInvoicesTable();
   const db = getDatabase();
   const invoiceNumber = getNextInvoiceNumber();
 
@@ -162,55 +124,48 @@ export function createInvoice(data: {
 
 // Get invoice by ID
 export function getInvoiceById(id: number): Invoice | null {
-  ensureInvoicesTable();
   const db = getDatabase();
   return db.prepare(`
-    SELECT * FROM invoices WHERE id = ?
+    SELECT * FROM invoices WHERE id = ? AND deleted_at IS NULL
   `).get(id) as Invoice | null;
 }
 
 // Get invoice by number
 export function getInvoiceByNumber(invoiceNumber: string): Invoice | null {
-  ensureInvoicesTable();
   const db = getDatabase();
   return db.prepare(`
-    SELECT * FROM invoices WHERE invoice_number = ?
+    SELECT * FROM invoices WHERE invoice_number = ? AND deleted_at IS NULL
   `).get(invoiceNumber) as Invoice | null;
 }
 
 // Get all invoices
 export function getAllInvoices(): Invoice[] {
-  ensureInvoicesTable();
   const db = getDatabase();
   return db.prepare(`
-    SELECT * FROM invoices ORDER BY created_at DESC
+    SELECT * FROM invoices WHERE deleted_at IS NULL ORDER BY created_at DESC
   `).all() as Invoice[];
 }
 
 // Get invoice line items
 export function getInvoiceLineItems(invoiceId: number): InvoiceLineItem[] {
-  ensureInvoicesTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT * FROM invoice_line_items WHERE invoice_id = ? ORDER BY date
   `).all(invoiceId) as InvoiceLineItem[];
 }
 
-// Delete invoice
+// Move an invoice to the trash; its line items go when the trash is purged
 export function deleteInvoice(id: number): boolean {
-  ensureInvoicesTable();
   const db = getDatabase();
-
-  // Delete line items first (manual cascade)
-  db.prepare('DELETE FROM invoice_line_items WHERE invoice_id = ?').run(id);
-
-  const result = db.prepare('DELETE FROM invoices WHERE id = ?').run(id);
+  const result = db.prepare(`
+    UPDATE invoices SET deleted_at = datetime('now', 'localtime')
+    WHERE id = ? AND deleted_at IS NULL
+  `).run(id);
   return result.changes > 0;
 }
 
 // Update invoice status
 export function updateInvoiceStatus(id: number, status: 'draft' | 'sent' | 'paid'): boolean {
-  ensureInvoicesTable();
   const db = getDatabase();
   const result = db.prepare(`
     UPDATE invoices SET status = ? WHERE id = ?
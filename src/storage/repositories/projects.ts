@@ -1,5 +1,5 @@
 import { getDatabase } from '../database.js';
-import type { Project, ProjectWithStats } from '../../types/index.js';
+import type { Project, ProjectRepo, ProjectWithStats } from '../../types/index.js';
 
 // Create a new project
 export function createProject(options: {
@@ -30,7 +30,7 @@ export function createProject(options: {
 export function getProjectById(id: number): Project | undefined {
   const db = getDatabase();
   return db
-    .prepare('SELECT * FROM projects WHERE id = ?')
+    .prepare('SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL')
     .get(id) as Project | undefined;
 }
 
@@ -38,16 +38,28 @@ export function getProjectById(id: number): Project | undefined {
 export function getProjectByName(name: string): Project | undefined {
   const db = getDatabase();
   return db
-    .prepare('SELECT * FROM projects WHERE name = ? COLLATE NOCASE')
+    .prepare('SELECT * FROM projects WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL')
     .get(name) as Project | undefined;
 }
 
+// Get or create project by name; a project in the trash is restored rather than duplicated
+export function getOrCreateProject(name: string): Project {
+  const existing = getProjectByName(name);
+  if (existing) return existing;
+
+  const db = getDatabase();
+  const restored = db.prepare('UPDATE projects SET deleted_at = NULL WHERE name = ? COLLATE NOCASE').run(name);
+  if (restored.changes > 0) return getProjectByName(name)!;
+
+  return createProject({ name });
+}
+
 // Get all projects (optionally only active)
 export function getAllProjects(activeOnly = true): Project[] {
   const db = getDatabase();
   const sql = activeOnly
-    ? 'SELECT * FROM projects WHERE is_active = 1 ORDER BY name'
-    : 'SELECT * FROM projects ORDER BY name';
+    ? 'SELECT * FROM projects WHERE is_active = 1 AND deleted_at IS NULL ORDER BY name'
+    : 'SELECT * FROM projects WHERE deleted_at IS NULL ORDER BY name';
   return db.prepare(sql).all() as Project[];
 }
 
@@ -55,7 +67,7 @@ export function getAllProjects(activeOnly = true): Project[] {
 export function getDefaultProject(): Project | undefined {
   const db = getDatabase();
   return db
-    .prepare('SELECT * FROM projects WHERE is_default = 1 AND is_active = 1')
+    .prepare('SELECT * FROM projects WHERE is_default = 1 AND is_active = 1 AND deleted_at IS NULL')
     .get() as Project | undefined;
 }
 
@@ -91,6 +103,7 @@ export function updateProject(
     hourlyRate?: number | null;
     isBillable?: boolean;
     isActive?: boolean;
+    productivity?: number | null;
   }
 ): Project | undefined {
   const db = getDatabase();
@@ -125,6 +138,10 @@ export function updateProject(
     fields.push('is_active = ?');
     values.push(updates.isActive ? 1 : 0);
   }
+  if (updates.productivity !== undefined) {
+    fields.push('productivity = ?');
+    values.push(updates.productivity);
+  }
 
   if (fields.length === 0) return getProjectById(id);
 
@@ -144,12 +161,14 @@ export function archiveProject(id: number): boolean {
   return result.changes > 0;
 }
 
-// Delete project (hard delete)
+// Move a project to the trash; entries, rules and repositories keep their link
+// so a restore brings it back, and lose it when the trash is purged
 export function deleteProject(id: number): boolean {
   const db = getDatabase();
-  // Clear project from entries first
-  db.prepare('UPDATE time_entries SET project_id = NULL WHERE project_id = ?').run(id);
-  const result = db.prepare('DELETE FROM projects WHERE id = ?').run(id);
+  const result = db.prepare(`
+    UPDATE projects SET deleted_at = datetime('now', 'localtime'), is_default = 0
+    WHERE id = ? AND deleted_at IS NULL
+  `).run(id);
   return result.changes > 0;
 }
 
@@ -166,8 +185,8 @@ export function getProjectsWithStats(
       COALESCE(SUM(e.duration_seconds), 0) as total_seconds,
       COUNT(e.id) as entry_count
     FROM projects p
-    LEFT JOIN time_entries e ON p.id = e.project_id
-    WHERE p.is_active = 1
+    LEFT JOIN time_entries e ON p.id = e.project_id AND e.deleted_at IS NULL
+    WHERE p.is_active = 1 AND p.deleted_at IS NULL
   `;
 
   const params: string[] = [];
@@ -188,7 +207,7 @@ export function getProjectsWithStats(
 export function getProjectsByClient(client: string): Project[] {
   const db = getDatabase();
   return db
-    .prepare('SELECT * FROM projects WHERE client = ? COLLATE NOCASE AND is_active = 1 ORDER BY name')
+    .prepare('SELECT * FROM projects WHERE client = ? COLLATE NOCASE AND is_active = 1 AND deleted_at IS NULL ORDER BY name')
     .all(client) as Project[];
 }
 
@@ -196,7 +215,38 @@ export function getProjectsByClient(client: string): Project[] {
 export function getClients(): string[] {
   const db = getDatabase();
   const results = db
-    .prepare('SELECT DISTINCT client FROM projects WHERE client IS NOT NULL ORDER BY client')
+    .prepare('SELECT DISTINCT client FROM projects WHERE client IS NOT NULL AND deleted_at IS NULL ORDER BY client')
     .all() as { client: string }[];
   return results.map(r => r.client);
 }
+
+// Repositories linked to a project (or to any project)
+export function getProjectRepos(projectId?: number): ProjectRepo[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT r.*, p.name AS project_name
+    FROM project_repos r
+    JOIN projects p ON r.project_id = p.id AND p.deleted_at IS NULL
+    WHERE ? IS NULL OR r.project_id = ?
+    ORDER BY p.name, r.path, r.remote
+  `).all(projectId ?? null, projectId ?? null) as ProjectRepo[];
+}
+
+// Link a repository to a project (moving it if another project had it)
+export function linkProjectRepo(projectId: number, repo: { path?: string | null; remote?: string | null }): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('DELETE FROM project_repos WHERE path = ? OR remote = ?').run(repo.path ?? null, repo.remote ?? null);
+    db.prepare('INSERT INTO project_repos (project_id, path, remote) VALUES (?, ?, ?)')
+      .run(projectId, repo.path ?? null, repo.remote ?? null);
+  })();
+}
+
+// Unlink one repository (by path or remote), or every repository of the project
+export function unlinkProjectRepos(projectId: number, match?: string): number {
+  const db = getDatabase();
+  const result = match
+    ? db.prepare('DELETE FROM project_repos WHERE project_id = ? AND (path = ? OR remote = ?)').run(projectId, match, match)
+    : db.prepare('DELETE FROM project_repos WHERE project_id = ?').run(projectId);
+  return result.changes;
+}
@@ -23,7 +23,7 @@ export function createTag(options: {
 export function getTagById(id: number): Tag | undefined {
   const db = getDatabase();
   return db
-    .prepare('SELECT * FROM tags WHERE id = ?')
+    .prepare('SELECT * FROM tags WHERE id = ? AND deleted_at IS NULL')
     .get(id) as Tag | undefined;
 }
 
@@ -31,14 +31,14 @@ export function getTagById(id: number): Tag | undefined {
 export function getTagByName(name: string): Tag | undefined {
   const db = getDatabase();
   return db
-    .prepare('SELECT * FROM tags WHERE name = ? COLLATE NOCASE')
+    .prepare('SELECT * FROM tags WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL')
     .get(name) as Tag | undefined;
 }
 
 // Get all tags
 export function getAllTags(): Tag[] {
   const db = getDatabase();
-  return db.prepare('SELECT * FROM tags ORDER BY name').all() as Tag[];
+  return db.prepare('SELECT * FROM tags WHERE deleted_at IS NULL ORDER BY name').all() as Tag[];
 }
 
 // Get tags with usage count
@@ -50,6 +50,8 @@ export function getTagsWithCount(): TagWithCount[] {
       COUNT(et.entry_id) as usage_count
     FROM tags t
     LEFT JOIN entry_tags et ON t.id = et.tag_id
+      AND et.entry_id IN (SELECT id FROM time_entries WHERE deleted_at IS NULL)
+    WHERE t.deleted_at IS NULL
     GROUP BY t.id
     ORDER BY usage_count DESC, t.name
   `).all() as TagWithCount[];
@@ -58,7 +60,7 @@ export function getTagsWithCount(): TagWithCount[] {
 // Update tag
 export function updateTag(
   id: number,
-  updates: { name?: string; color?: string | null }
+  updates: { name?: string; color?: string | null; productivity?: number | null }
 ): Tag | undefined {
   const db = getDatabase();
   const fields: string[] = [];
@@ -72,6 +74,10 @@ export function updateTag(
     fields.push('color = ?');
     values.push(updates.color);
   }
+  if (updates.productivity !== undefined) {
+    fields.push('productivity = ?');
+    values.push(updates.productivity);
+  }
 
   if (fields.length === 0) return getTagById(id);
 
@@ -80,11 +86,13 @@ export function updateTag(
   return getTagById(id);
 }
 
-// Delete tag
+// Move a tag to the trash; entries keep it until the trash is purged
 export function deleteTag(id: number): boolean {
   const db = getDatabase();
-  // Entry associations are deleted automatically via CASCADE
-  const result = db.prepare('DELETE FROM tags WHERE id = ?').run(id);
+  const result = db.prepare(`
+    UPDATE tags SET deleted_at = datetime('now', 'localtime')
+    WHERE id = ? AND deleted_at IS NULL
+  `).run(id);
   return result.changes > 0;
 }
 
@@ -132,7 +140,7 @@ export function getTagsForEntry(entryId: number): Tag[] {
     SELECT t.*
     FROM tags t
     JOIN entry_tags et ON t.id = et.tag_id
-    WHERE et.entry_id = ?
+    WHERE et.entry_id = ? AND t.deleted_at IS NULL
     ORDER BY t.name
   `).all(entryId) as Tag[];
 }
@@ -148,7 +156,7 @@ export function getEntriesWithTag(
     SELECT et.entry_id
     FROM entry_tags et
     JOIN time_entries e ON et.entry_id = e.id
-    WHERE et.tag_id = ?
+    WHERE et.tag_id = ? AND e.deleted_at IS NULL
   `;
 
   const params: (number | string)[] = [tagId];
@@ -163,10 +171,15 @@ export function getEntriesWithTag(
   return results.map(r => r.entry_id);
 }
 
-// Get or create tag by name
+// Get or create tag by name; a tag in the trash is restored rather than duplicated
 export function getOrCreateTag(name: string, color?: string | null): Tag {
   const existing = getTagByName(name);
   if (existing) return existing;
+
+  const db = getDatabase();
+  const restored = db.prepare('UPDATE tags SET deleted_at = NULL WHERE name = ? COLLATE NOCASE').run(name);
+  if (restored.changes > 0) return getTagByName(name)!;
+
   return createTag({ name, color });
 }
 
@@ -205,6 +218,8 @@ export function getTagSummary(
     WHERE date(e.start_time) >= date(?)
       AND date(e.start_time) <= date(?)
       AND e.duration_seconds IS NOT NULL
+      AND e.deleted_at IS NULL
+      AND t.deleted_at IS NULL
     GROUP BY t.id
     ORDER BY total_seconds DESC
   `).all(startDate, endDate) as TagSummary[];
@@ -15,25 +15,6 @@ export interface Template {
   updated_at: string;
 }
 
-// Ensure templates table exists
-function ensureTemplatesTable(): void {
-  const db = getDatabase();
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS templates (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL,
-      category_id INTEGER REFERENCES categories(id),
-      project_id INTEGER REFERENCES projects(id),
-      tags TEXT,
-      notes TEXT,
-      is_favorite INTEGER DEFAULT 0,
-      use_count INTEGER DEFAULT 0,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    )
-  `);
-}
-
 // Create a new template
 export function createTemplate(options: {
   name: string;
@@ -42,7 +23,6 @@ export function createTemplate(options: {
   tags?: string;
   notes?: string;
 }): Template {
-  ensureTemplatesTable();
   const db = getDatabase();
 
   const result = db.prepare(`
@@ -61,7 +41,6 @@ export function createTemplate(options: {
 
 // Get template by ID
 export function getTemplateById(id: number): Template | null {
-  ensureTemplatesTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT
@@ -70,14 +49,13 @@ export function getTemplateById(id: number): Template | null {
       p.name as project_name
     FROM templates t
     LEFT JOIN categories c ON t.category_id = c.id
-    LEFT JOIN projects p ON t.project_id = p.id
-    WHERE t.id = ?
+    LEFT JOIN projects p ON t.project_id = p.id AND p.deleted_at IS NULL
+    WHERE t.id = ? AND t.deleted_at IS NULL
   `).get(id) as Template | null;
 }
 
 // Get template by name
 export function getTemplateByName(name: string): Template | null {
-  ensureTemplatesTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT
@@ -86,14 +64,13 @@ export function getTemplateByName(name: string): Template | null {
       p.name as project_name
     FROM templates t
     LEFT JOIN categories c ON t.category_id = c.id
-    LEFT JOIN projects p ON t.project_id = p.id
-    WHERE t.name = ?
+    LEFT JOIN projects p ON t.project_id = p.id AND p.deleted_at IS NULL
+    WHERE t.name = ? AND t.deleted_at IS NULL
   `).get(name) as Template | null;
 }
 
 // Get all templates
 export function getAllTemplates(options?: { favoritesFirst?: boolean }): Template[] {
-  ensureTemplatesTable();
   const db = getDatabase();
 
   const orderBy = options?.favoritesFirst
@@ -107,7 +84,8 @@ export function getAllTemplates(options?: { favoritesFirst?: boolean }): Templat
       p.name as project_name
     FROM templates t
     LEFT JOIN categories c ON t.category_id = c.id
-    LEFT JOIN projects p ON t.project_id = p.id
+    LEFT JOIN projects p ON t.project_id = p.id AND p.deleted_at IS NULL
+    WHERE t.deleted_at IS NULL
     ${orderBy}
   `).all() as Template[];
 }
@@ -120,7 +98,6 @@ export function updateTemplate(id: number, updates: {
   tags?: string | null;
   notes?: string | null;
 }): void {
-  ensureTemplatesTable();
   const db = getDatabase();
 
   const sets: string[] = ['updated_at = datetime(\'now\')'];
@@ -151,16 +128,17 @@ export function updateTemplate(id: number, updates: {
   db.prepare(`UPDATE templates SET ${sets.join(', ')} WHERE id = ?`).run(...values);
 }
 
-// Delete template
+// Move a template to the trash
 export function deleteTemplate(id: number): void {
-  ensureTemplatesTable();
   const db = getDatabase();
-  db.prepare('DELETE FROM templates WHERE id = ?').run(id);
+  db.prepare(`
+    UPDATE templates SET deleted_at = datetime('now', 'localtime')
+    WHERE id = ? AND deleted_at IS NULL
+  `).run(id);
 }
 
 // Toggle favorite
 export function toggleTemplateFavorite(id: number): boolean {
-  ensureTemplatesTable();
   const db = getDatabase();
   const template = getTemplateById(id);
   if (!template) return false;
@@ -172,14 +150,12 @@ export function toggleTemplateFavorite(id: number): boolean {
 
 // Increment use count
 export function incrementTemplateUseCount(id: number): void {
-  ensureTemplatesTable();
   const db = getDatabase();
   db.prepare('UPDATE templates SET use_count = use_count + 1 WHERE id = ?').run(id);
 }
 
 // Get favorite templates
 export function getFavoriteTemplates(): Template[] {
-  ensureTemplatesTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT
@@ -188,15 +164,14 @@ export function getFavoriteTemplates(): Template[] {
       p.name as project_name
     FROM templates t
     LEFT JOIN categories c ON t.category_id = c.id
-    LEFT JOIN projects p ON t.project_id = p.id
-    WHERE t.is_favorite = 1
+    LEFT JOIN projects p ON t.project_id = p.id AND p.deleted_at IS NULL
+    WHERE t.is_favorite = 1 AND t.deleted_at IS NULL
     ORDER BY use_count DESC, name ASC
   `).all() as Template[];
 }
 
 // Get most used templates
 export function getMostUsedTemplates(limit: number = 5): Template[] {
-  ensureTemplatesTable();
   const db = getDatabase();
   return db.prepare(`
     SELECT
@@ -205,8 +180,8 @@ export function getMostUsedTemplates(limit: number = 5): Template[] {
       p.name as project_name
     FROM templates t
     LEFT JOIN categories c ON t.category_id = c.id
-    LEFT JOIN projects p ON t.project_id = p.id
-    WHERE use_count > 0
+    LEFT JOIN projects p ON t.project_id = p.id AND p.deleted_at IS NULL
+    WHERE use_count > 0 AND t.deleted_at IS NULL
     ORDER BY use_count DESC
     LIMIT ?
   `).all(limit) as Template[];
@@ -0,0 +1,86 @@
+import { getDatabase } from '../database.js';
+import type { TrashItem, TrashKind } from '../../types/index.js';
+
+// Where each kind of trashed row lives and how it is labelled
+const TRASH_SOURCES: Record<TrashKind, { table: string; label: string }> = {
+  entry: { table: 'time_entries', label: "start_time || COALESCE(' ' || app_name, '')" },
+  project: { table: 'projects', label: 'name' },
+  tag: { table: 'tags', label: 'name' },
+  template: { table: 'templates', label: 'name' },
+  invoice: { table: 'invoices', label: 'invoice_number' },
+};
+
+export const TRASH_KINDS = Object.keys(TRASH_SOURCES) as TrashKind[];
+
+// Rows that point at a purged row; foreign keys are not enforced, so they are cleared by hand.
+// `ids` stands for the purged rows.
+const PURGE_DEPENDENTS: Record<TrashKind, string[]> = {
+  entry: [
+    'DELETE FROM entry_tags WHERE entry_id IN ids',
+    'UPDATE git_commits SET entry_id = NULL WHERE entry_id IN ids',
+  ],
+  project: [
+    'UPDATE time_entries SET project_id = NULL WHERE project_id IN ids',
+    'UPDATE categorization_rules SET project_id = NULL WHERE project_id IN ids',
+    'UPDATE templates SET project_id = NULL WHERE project_id IN ids',
+    'DELETE FROM project_repos WHERE project_id IN ids',
+  ],
+  tag: ['DELETE FROM entry_tags WHERE tag_id IN ids'],
+  template: [],
+  invoice: ['DELETE FROM invoice_line_items WHERE invoice_id IN ids'],
+};
+
+function selectTrash(kind: TrashKind): string {
+  const { table, label } = TRASH_SOURCES[kind];
+  return `SELECT '${kind}' AS kind, id, ${label} AS label, deleted_at FROM ${table} WHERE deleted_at IS NOT NULL`;
+}
+
+// Everything in the trash (or one kind of it), most recently deleted first
+export function getTrashItems(kind?: TrashKind): TrashItem[] {
+  const db = getDatabase();
+  const sql = (kind ? [kind] : TRASH_KINDS).map(selectTrash).join(' UNION ALL ');
+  return db.prepare(`${sql} ORDER BY deleted_at DESC, id DESC`).all() as TrashItem[];
+}
+
+// A trashed row by id, or by its label (name or invoice number)
+export function findTrashItem(kind: TrashKind, idOrLabel: string | number): TrashItem | undefined {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM (${selectTrash(kind)})
+    WHERE id = ? OR label = ? COLLATE NOCASE
+    ORDER BY deleted_at DESC
+    LIMIT 1
+  `).get(idOrLabel, String(idOrLabel)) as TrashItem | undefined;
+}
+
+// Take a row out of the trash
+export function restoreTrashItem(kind: TrashKind, id: number): boolean {
+  const db = getDatabase();
+  const result = db.prepare(`
+    UPDATE ${TRASH_SOURCES[kind].table} SET deleted_at = NULL
+    WHERE id = ? AND deleted_at IS NOT NULL
+  `).run(id);
+  return result.changes > 0;
+}
+
+// Delete trashed rows for good, optionally only one kind or those trashed before a local timestamp
+export function purgeTrash(options: { kind?: TrashKind; before?: string } = {}): number {
+  const db = getDatabase();
+  const before = options.before ?? null;
+  let purged = 0;
+
+  db.transaction(() => {
+    for (const kind of options.kind ? [options.kind] : TRASH_KINDS) {
+      const { table } = TRASH_SOURCES[kind];
+      const condition = 'deleted_at IS NOT NULL AND (@before IS NULL OR deleted_at < @before)';
+      const ids = `(SELECT id FROM ${table} WHERE ${condition})`;
+
+      for (const sql of PURGE_DEPENDENTS[kind]) {
+        db.prepare(sql.replace('IN ids', `IN ${ids}`)).run({ before });
+      }
+      purged += db.prepare(`DELETE FROM ${table} WHERE ${condition}`).run({ before }).changes;
+    }
+  })();
+
+  return purged;
+}
@@ -24,36 +24,6 @@ export interface WebhookLog {
   created_at: string;
 }
 
-// Ensure webhooks tables exist
-export function ensureWebhooksTable(): void {
-  const db = getDatabase();
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS webhooks (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      url TEXT NOT NULL,
-      events TEXT NOT NULL,
-      secret TEXT,
-      is_active INTEGER DEFAULT 1,
-      created_at TEXT DEFAULT (datetime('now'))
-    )
-  `);
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS webhook_logs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      webhook_id INTEGER NOT NULL,
-      event_type TEXT NOT NULL,
-      payload TEXT NOT NULL,
-      response_status INTEGER,
-      response_body TEXT,
-      success INTEGER DEFAULT 0,
-      retries INTEGER DEFAULT 0,
-      created_at TEXT DEFAULT (datetime('now')),
-      FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
-    )
-  `);
-}
-
 // Create a new webhook
 export function createWebhook(data: {
   name: string;
@@ -61,7 +31,6 @@ export function createWebhook(data: {
   events: string[];
   secret?: string;
 }): Webhook {
-  ensureWebhooksTable();
   const db = getDatabase();
   const result = db.prepare(`
     INSERT INTO webhooks (name, url, events, secret)
@@ -77,21 +46,18 @@ export function createWebhook(data: {
 
 // Get webhook by ID
 export function getWebhookById(id: number): Webhook | null {
-  ensureWebhooksTable();
   const db = getDatabase();
   return db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as Webhook | null;
 }
 
 // Get all webhooks
 export function getAllWebhooks(): Webhook[] {
-  ensureWebhooksTable();
   const db = getDatabase();
   return db.prepare('SELECT * FROM webhooks ORDER BY created_at DESC').all() as Webhook[];
 }
 
 // Get active webhooks for an event
 export function getActiveWebhooksForEvent(eventType: string): Webhook[] {
-  ensureWebhooksTable();
   const db = getDatabase();
   const webhooks = db.prepare(`
     SELECT * FROM webhooks WHERE is_active = 1
@@ -106,7 +72,6 @@ export function getActiveWebhooksForEvent(eventType: string): Webhook[] {
 
 // Delete webhook
 export function deleteWebhook(id: number): boolean {
-  ensureWebhooksTable();
   const db = getDatabase();
   // Rely on ON DELETE CASCADE - remove explicit log deletion
   const result = db.prepare('DELETE FROM webhooks WHERE id = ?').run(id);
@@ -123,7 +88,6 @@ export function logWebhookCall(data: {
   success: boolean;
   retries?: number;
 }): void {
-  ensureWebhooksTable();
   const db = getDatabase();
   db.prepare(`
     INSERT INTO webhook_logs (
@@ -143,7 +107,6 @@ export function logWebhookCall(data: {
 
 // Get recent webhook logs
 export function getWebhookLogs(webhookId?: number, limit = 50): WebhookLog[] {
-  ensureWebhooksTable();
   const db = getDatabase();
   if (webhookId) {
     return db.prepare(`
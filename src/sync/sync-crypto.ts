@@ -0,0 +1,181 @@
+/**
+ * End-to-End Encryption for Sync Payloads
+ *
+ * Change sets leave the device sealed in an envelope:
+ * - The change set is encrypted with AES-256-GCM
+ * - A manifest (device, versions, payload hash) is signed with HMAC-SHA256
+ * - Both keys derive from a shared sync passphrase
+ *
+ * The passphrase salt is published next to the data as a key descriptor,
+ * so another device can join with the passphrase alone.
+ */
+
+import * as crypto from 'crypto';
+import { encrypt, decrypt, deriveKey, generateSalt, secureCompare, EncryptedData } from '../security/encryption.js';
+
+const KEY_CHECK_PLAINTEXT = 'timer-record-sync-verification';
+
+export const SYNC_ENVELOPE_FORMAT = 'timer-record-sync-envelope';
+
+// Published next to the sync data (never contains the key)
+export interface SyncKeyDescriptor {
+  version: 1;
+  kdf: 'pbkdf2-sha512';
+  salt: string; // Base64 encoded
+  check: EncryptedData;
+}
+
+// Signed, unencrypted part of an envelope
+export interface SyncManifest {
+  deviceId: string;
+  fromVersion: number;
+  toVersion: number;
+  exportedAt: string;
+  keyId: string;
+  payloadHash: string;
+}
+
+export interface SyncEnvelope {
+  format: typeof SYNC_ENVELOPE_FORMAT;
+  version: 1;
+  manifest: SyncManifest;
+  payload: EncryptedData;
+  signature: string;
+}
+
+// Minimal shape of a change set needed to build its manifest
+interface ManifestSource {
+  deviceId: string;
+  fromVersion: number;
+  toVersion: number;
+  exportedAt: string;
+}
+
+// Split the passphrase key into separate payload and signing keys
+function subKeys(key: Buffer): { payloadKey: Buffer; signingKey: Buffer } {
+  const expand = (info: string) => Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), info, 32));
+  return {
+    payloadKey: expand('timer-record-sync-payload'),
+    signingKey: expand('timer-record-sync-manifest'),
+  };
+}
+
+// Short fingerprint telling devices apart that use different passphrases
+export function syncKeyId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+function signManifest(manifest: SyncManifest, signingKey: Buffer): string {
+  const fields = [
+    manifest.deviceId,
+    manifest.fromVersion,
+    manifest.toVersion,
+    manifest.exportedAt,
+    manifest.keyId,
+    manifest.payloadHash,
+  ];
+  return crypto.createHmac('sha256', signingKey).update(JSON.stringify(fields)).digest('hex');
+}
+
+function hashPayload(payload: EncryptedData): string {
+  return crypto.createHash('sha256')
+    .update(`${payload.iv}.${payload.authTag}.${payload.encrypted}`)
+    .digest('hex');
+}
+
+// Create a key descriptor and key for a new passphrase
+export function createSyncKey(passphrase: string): { key: Buffer; descriptor: SyncKeyDescriptor } {
+  const salt = generateSalt();
+  const key = deriveKey(passphrase, salt);
+  return {
+    key,
+    descriptor: {
+      version: 1,
+      kdf: 'pbkdf2-sha512',
+      salt: salt.toString('base64'),
+      check: encrypt(KEY_CHECK_PLAINTEXT, subKeys(key).payloadKey),
+    },
+  };
+}
+
+// Derive the key for a published descriptor (null if the passphrase is wrong)
+export function unlockSyncKey(descriptor: SyncKeyDescriptor, passphrase: string): Buffer | null {
+  if (descriptor?.version !== 1 || descriptor.kdf !== 'pbkdf2-sha512') {
+    throw new Error('Unsupported sync key descriptor');
+  }
+
+  const key = deriveKey(passphrase, Buffer.from(descriptor.salt, 'base64'));
+  try {
+    return decrypt(descriptor.check, subKeys(key).payloadKey) === KEY_CHECK_PLAINTEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+// Check whether a payload is a sealed envelope
+export function isSyncEnvelope(value: unknown): value is SyncEnvelope {
+  return typeof value === 'object' && value !== null &&
+    (value as { format?: unknown }).format === SYNC_ENVELOPE_FORMAT;
+}
+
+// Encrypt a change set and sign its manifest
+export function sealChangeSet<T extends ManifestSource>(changeSet: T, key: Buffer): SyncEnvelope {
+  const { payloadKey, signingKey } = subKeys(key);
+  const payload = encrypt(JSON.stringify(changeSet), payloadKey);
+
+  const manifest: SyncManifest = {
+    deviceId: changeSet.deviceId,
+    fromVersion: changeSet.fromVersion,
+    toVersion: changeSet.toVersion,
+    exportedAt: changeSet.exportedAt,
+    keyId: syncKeyId(key),
+    payloadHash: hashPayload(payload),
+  };
+
+  return {
+    format: SYNC_ENVELOPE_FORMAT,
+    version: 1,
+    manifest,
+    payload,
+    signature: signManifest(manifest, signingKey),
+  };
+}
+
+/**
+ * Verify an envelope and decrypt its change set.
+ * Throws if the envelope was tampered with or sealed with another passphrase.
+ */
+export function openChangeSet<T extends ManifestSource>(envelope: SyncEnvelope, key: Buffer): T {
+  if (envelope.version !== 1 || !envelope.manifest || !envelope.payload || typeof envelope.signature !== 'string') {
+    throw new Error('Malformed sync envelope');
+  }
+
+  const { payloadKey, signingKey } = subKeys(key);
+  const { manifest } = envelope;
+
+  if (manifest.keyId !== syncKeyId(key)) {
+    throw new Error('Sync data was encrypted with a different passphrase');
+  }
+  if (!secureCompare(signManifest(manifest, signingKey), envelope.signature)) {
+    throw new Error('Sync manifest signature is invalid');
+  }
+  if (manifest.payloadHash !== hashPayload(envelope.payload)) {
+    throw new Error('Sync payload does not match its manifest');
+  }
+
+  let changeSet: T;
+  try {
+    changeSet = JSON.parse(decrypt(envelope.payload, payloadKey)) as T;
+  } catch {
+    throw new Error('Sync payload could not be decrypted');
+  }
+
+  // The signed manifest must describe the payload it came with
+  if (changeSet.deviceId !== manifest.deviceId ||
+    changeSet.fromVersion !== manifest.fromVersion ||
+    changeSet.toVersion !== manifest.toVersion) {
+    throw new Error('Sync payload does not match its manifest');
+  }
+
+  return changeSet;
+}
@@ -5,9 +5,23 @@
  * - File-based (iCloud, Google Drive, Dropbox)
  * - Self-hosted server
  * - Custom API endpoint
+ *
+ * With a sync passphrase set, change sets leave the device encrypted
+ * (see sync-crypto.ts).
  */
 
-import { getDatabase } from '../storage/database.js';
+import { getDatabase, SYNC_TABLE_KEYS, SYNC_UUID_TABLES } from '../storage/database.js';
+import { loadConfig } from '../config/settings.js';
+import { getEncryptionConfig } from '../security/encryption.js';
+import {
+  createSyncKey,
+  unlockSyncKey,
+  sealChangeSet,
+  openChangeSet,
+  isSyncEnvelope,
+  SyncEnvelope,
+  SyncKeyDescriptor,
+} from './sync-crypto.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
@@ -23,9 +37,12 @@ export interface SyncConfig {
   // Sync behavior
   autoSync: boolean;
   syncIntervalMinutes: number;
-  conflictResolution: 'local' | 'remote' | 'newest';
+  conflictResolution: ConflictResolution;
 }
 
+// How conflicting edits are settled during import ('manual' queues them for review)
+export type ConflictResolution = 'local' | 'remote' | 'newest' | 'manual';
+
 export interface SyncState {
   lastSyncAt: string | null;
   localVersion: number;
@@ -38,12 +55,90 @@ export interface SyncChange {
   id: string;
   table: string;
   operation: 'insert' | 'update' | 'delete';
-  rowId: number;
-  data: Record<string, unknown>;
+  // Key columns of the row with UUIDs in place of local IDs
+  rowKey: Record<string, string>;
+  // Row data with local IDs replaced by UUIDs (null for deletes)
+  data: Record<string, unknown> | null;
   timestamp: string;
   deviceId: string;
 }
 
+// Journal delta shipped between devices
+export interface SyncChangeSet {
+  version: 3;
+  deviceId: string;
+  exportedAt: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: SyncChange[];
+}
+
+// Conflicting change recorded during import
+export interface SyncConflict {
+  id: number;
+  table: string;
+  rowKey: Record<string, string>;
+  operation: SyncChange['operation'];
+  base: Record<string, unknown> | null;
+  local: Record<string, unknown> | null;
+  remote: Record<string, unknown> | null;
+  merged: Record<string, unknown> | null;
+  remoteDeviceId: string;
+  localChangedAt: string | null;
+  remoteChangedAt: string | null;
+  status: 'open' | 'resolved';
+  resolution: 'local' | 'remote' | 'merge' | null;
+  resolvedBy: 'auto' | 'user' | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+interface ConflictRow {
+  id: number;
+  table_name: string;
+  row_key: string;
+  operation: SyncChange['operation'];
+  base_data: string | null;
+  local_data: string | null;
+  remote_data: string | null;
+  merged_data: string | null;
+  remote_device_id: string;
+  local_changed_at: string | null;
+  remote_changed_at: string | null;
+  status: SyncConflict['status'];
+  resolution: SyncConflict['resolution'];
+  resolved_by: SyncConflict['resolvedBy'];
+  created_at: string;
+  resolved_at: string | null;
+}
+
+interface JournalRow {
+  version: number;
+  table_name: string;
+  operation: SyncChange['operation'];
+  row_key: string;
+  row_uuid: string | null;
+  device_id: string;
+  changed_at: string;
+}
+
+// Foreign key columns translated between local IDs and UUIDs
+const SYNC_FOREIGN_KEYS: Record<string, Record<string, string>> = {
+  categories: { parent_id: 'categories' },
+  time_entries: { category_id: 'categories', project_id: 'projects' },
+  goals: { category_id: 'categories' },
+  entry_tags: { entry_id: 'time_entries', tag_id: 'tags' },
+};
+
+// Tables where a remote row with an unknown UUID merges into a local row of the same name
+const SYNC_NAMED_TABLES = new Set(['categories', 'projects', 'tags']);
+
+// Columns that never count as user edits (identity and bookkeeping timestamps)
+const SYNC_IGNORED_COLUMNS = new Set(['id', 'uuid', 'created_at', 'updated_at']);
+
+// Key descriptor published in the sync folder
+const SYNC_KEY_FILE = 'timer-record-sync.key.json';
+
 // Get or create device ID
 function getDeviceId(): string {
   const db = getDatabase();
@@ -58,6 +153,19 @@ function getDeviceId(): string {
   return deviceId;
 }
 
+// Read a sync state value
+function getSyncStateValue(key: string): string | null {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT value FROM settings WHERE key = ?`).get(`sync_state_${key}`) as { value: string } | undefined;
+  return row?.value || null;
+}
+
+// Persist a sync state value
+function setSyncStateValue(key: string, value: string): void {
+  const db = getDatabase();
+  db.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)`).run(`sync_state_${key}`, value);
+}
+
 // Get sync config from settings
 export function getSyncConfig(): SyncConfig {
   const db = getDatabase();
@@ -100,64 +208,306 @@ export function saveSyncConfig(config: Partial<SyncConfig>): void {
 // Get sync state
 export function getSyncState(): SyncState {
   const db = getDatabase();
-  const getVal = (key: string) => {
-    const row = db.prepare(`SELECT value FROM settings WHERE key = ?`).get(`sync_state_${key}`) as { value: string } | undefined;
-    return row?.value || null;
-  };
+  const deviceId = getDeviceId();
+  const localVersion = parseInt(getSyncStateValue('local_version') || '0', 10);
 
-  // Count pending changes (entries modified since last sync)
-  const lastSync = getVal('last_sync');
-  let pendingChanges = 0;
-  if (lastSync) {
-    const result = db.prepare(`
-      SELECT COUNT(*) as count FROM time_entries
-      WHERE updated_at > ?
-    `).get(lastSync) as { count: number };
-    pendingChanges = result.count;
-  }
+  // Count journal changes made on this device that have not been shipped yet
+  const pending = db.prepare(`
+    SELECT COUNT(*) as count FROM sync_changes
+    WHERE device_id = ? AND version > ?
+  `).get(deviceId, localVersion) as { count: number };
+
+  return {
+    lastSyncAt: getSyncStateValue('last_sync'),
+    localVersion,
+    remoteVersion: parseInt(getSyncStateValue('remote_version') || '0', 10),
+    deviceId,
+    pendingChanges: pending.count,
+  };
+}
 
+// Build a WHERE clause matching a row by its local key
+function keyClause(rowKey: Record<string, number>): { sql: string; values: number[] } {
+  const columns = Object.keys(rowKey);
   return {
-    lastSyncAt: getVal('last_sync'),
-    localVersion: parseInt(getVal('local_version') || '0', 10),
-    remoteVersion: parseInt(getVal('remote_version') || '0', 10),
-    deviceId: getDeviceId(),
-    pendingChanges,
+    sql: columns.map(c => `${c} = ?`).join(' AND '),
+    values: columns.map(c => rowKey[c]),
   };
 }
 
-// Export data for sync
-export function exportSyncData(): object {
+// Columns identifying a row on the wire
+function wireKeyColumns(table: string): string[] {
+  return SYNC_UUID_TABLES.includes(table) ? ['uuid'] : SYNC_TABLE_KEYS[table];
+}
+
+// Look up the UUID of a local row
+function uuidForId(table: string, id: number): string | null {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT uuid FROM ${table} WHERE id = ?`).get(id) as { uuid: string | null } | undefined;
+  return row?.uuid ?? null;
+}
+
+// Look up the local ID for a UUID, following merge aliases
+function idForUuid(table: string, uuid: string): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT id FROM ${table}
+    WHERE uuid = COALESCE(
+      (SELECT local_uuid FROM sync_uuid_aliases WHERE table_name = ? AND remote_uuid = ?),
+      ?
+    )
+  `).get(table, uuid, uuid) as { id: number } | undefined;
+  return row?.id ?? null;
+}
+
+// Convert a local row to its wire form (UUIDs instead of local IDs)
+function toWireRow(table: string, row: Record<string, unknown>): Record<string, unknown> | null {
+  const data: Record<string, unknown> = { ...row };
+  if (SYNC_UUID_TABLES.includes(table)) {
+    delete data.id;
+  }
+
+  for (const [column, refTable] of Object.entries(SYNC_FOREIGN_KEYS[table] || {})) {
+    if (data[column] === null || data[column] === undefined) continue;
+    const uuid = uuidForId(refTable, data[column] as number);
+    // Key columns must resolve; optional references degrade to null
+    if (!uuid && SYNC_TABLE_KEYS[table].includes(column)) return null;
+    data[column] = uuid;
+  }
+
+  return data;
+}
+
+// Convert a wire row to local form (local IDs instead of UUIDs)
+function toLocalRow(table: string, data: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = { ...data };
+  delete row.id;
+
+  for (const [column, refTable] of Object.entries(SYNC_FOREIGN_KEYS[table] || {})) {
+    if (row[column] === null || row[column] === undefined) continue;
+    const id = idForUuid(refTable, row[column] as string);
+    if (id === null) {
+      throw new Error(`Unknown ${refTable} row ${row[column]}`);
+    }
+    row[column] = id;
+  }
+
+  return row;
+}
+
+// Columns present in the local schema of a table
+function tableColumns(table: string): Set<string> {
+  const db = getDatabase();
+  const info = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return new Set(info.map(c => c.name));
+}
+
+// Find the local row for a wire key
+function findLocalRow(
+  table: string,
+  wireKey: Record<string, string>
+): { row: Record<string, unknown>; key: Record<string, number> } | null {
+  const db = getDatabase();
+  let key: Record<string, number>;
+
+  if (SYNC_UUID_TABLES.includes(table)) {
+    const id = idForUuid(table, wireKey.uuid);
+    if (id === null) return null;
+    key = { id };
+  } else {
+    // Rows keyed by their parents (entry_tags)
+    key = {};
+    for (const column of SYNC_TABLE_KEYS[table]) {
+      const id = idForUuid(SYNC_FOREIGN_KEYS[table][column], wireKey[column]);
+      if (id === null) return null;
+      key[column] = id;
+    }
+  }
+
+  const { sql, values } = keyClause(key);
+  const row = db.prepare(`SELECT * FROM ${table} WHERE ${sql}`).get(...values) as Record<string, unknown> | undefined;
+  return row ? { row, key } : null;
+}
+
+// Insert a local-form row, or update the row at a local key (keeping its UUID)
+function writeRow(table: string, data: Record<string, unknown>, key: Record<string, number> | null): void {
+  const db = getDatabase();
+
+  // Only write columns this database knows about
+  const available = tableColumns(table);
+  const columns = Object.keys(data).filter(c => available.has(c));
+
+  if (key) {
+    const updateColumns = columns.filter(c => c !== 'uuid');
+    const setClause = updateColumns.map(c => `${c} = ?`).join(', ');
+    const { sql, values } = keyClause(key);
+    db.prepare(`UPDATE ${table} SET ${setClause} WHERE ${sql}`)
+      .run(...updateColumns.map(c => data[c]), ...values);
+  } else {
+    const placeholders = columns.map(() => '?').join(', ');
+    db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`)
+      .run(...columns.map(c => data[c]));
+  }
+}
+
+// Wire key of a wire-form row
+function wireKeyOf(table: string, data: Record<string, unknown>): Record<string, string> {
+  const rowKey: Record<string, string> = {};
+  for (const column of wireKeyColumns(table)) {
+    rowKey[column] = data[column] as string;
+  }
+  return rowKey;
+}
+
+// Last state of a row both devices agreed on (wire form)
+function getRowBase(table: string, wireKey: Record<string, string>): Record<string, unknown> | null {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT data FROM sync_row_base WHERE table_name = ? AND row_key = ?`)
+    .get(table, JSON.stringify(wireKey)) as { data: string } | undefined;
+  return row ? JSON.parse(row.data) as Record<string, unknown> : null;
+}
+
+function setRowBase(table: string, wireKey: Record<string, string>, data: Record<string, unknown> | null): void {
+  const db = getDatabase();
+  if (data) {
+    db.prepare(`INSERT OR REPLACE INTO sync_row_base (table_name, row_key, data) VALUES (?, ?, ?)`)
+      .run(table, JSON.stringify(wireKey), JSON.stringify(data));
+  } else {
+    db.prepare(`DELETE FROM sync_row_base WHERE table_name = ? AND row_key = ?`)
+      .run(table, JSON.stringify(wireKey));
+  }
+}
+
+// Rows first shipped from this device start out with what was shipped as their base.
+// Existing bases are left alone: the peer may not have applied later edits yet.
+function recordShippedBases(changeSet: SyncChangeSet): void {
+  const db = getDatabase();
+  const insert = db.prepare(`INSERT OR IGNORE INTO sync_row_base (table_name, row_key, data) VALUES (?, ?, ?)`);
+  db.transaction(() => {
+    for (const change of changeSet.changes) {
+      if (change.data) {
+        insert.run(change.table, JSON.stringify(change.rowKey), JSON.stringify(change.data));
+      }
+    }
+  })();
+}
+
+/**
+ * Three-way merge of two edited versions of a row against their common base.
+ * Returns the fields both sides changed to different values; the merge is
+ * only safe when that list is empty.
+ */
+export function mergeRows(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): { merged: Record<string, unknown>; overlapping: string[] } {
+  const merged: Record<string, unknown> = { ...local };
+  const overlapping: string[] = [];
+
+  for (const column of Object.keys(remote)) {
+    if (SYNC_IGNORED_COLUMNS.has(column)) continue;
+
+    const localChanged = local[column] !== base[column];
+    const remoteChanged = remote[column] !== base[column];
+    if (!remoteChanged) continue;
+
+    if (localChanged && local[column] !== remote[column]) {
+      overlapping.push(column);
+    } else {
+      merged[column] = remote[column];
+    }
+  }
+
+  return { merged, overlapping };
+}
+
+// Export local journal changes made after a version
+export function exportSyncData(sinceVersion?: number): SyncChangeSet {
   const db = getDatabase();
   const deviceId = getDeviceId();
-  const timestamp = new Date().toISOString();
+  const fromVersion = sinceVersion ?? parseInt(getSyncStateValue('local_version') || '0', 10);
 
-  // Export all tables that should be synced
-  const tables = ['time_entries', 'categories', 'projects', 'tags', 'entry_tags', 'goals'];
-  const data: Record<string, unknown[]> = {};
+  const rows = db.prepare(`
+    SELECT * FROM sync_changes
+    WHERE device_id = ? AND version > ?
+    ORDER BY version ASC
+  `).all(deviceId, fromVersion) as JournalRow[];
 
-  for (const table of tables) {
-    try {
-      data[table] = db.prepare(`SELECT * FROM ${table}`).all();
-    } catch {
-      data[table] = [];
+  // Coalesce multiple journal rows for the same row into one change.
+  // Inserts/updates keep the position of their first change and carry the
+  // current row; deletes keep the position of the final delete.
+  const byRow = new Map<string, { first: JournalRow; last: JournalRow }>();
+  for (const row of rows) {
+    const key = `${row.table_name}:${row.row_key}`;
+    const existing = byRow.get(key);
+    if (existing) {
+      existing.last = row;
+    } else {
+      byRow.set(key, { first: row, last: row });
+    }
+  }
+
+  const changes: (SyncChange & { position: number })[] = [];
+  for (const { first, last } of byRow.values()) {
+    if (!(first.table_name in SYNC_TABLE_KEYS)) continue;
+
+    if (last.operation === 'delete') {
+      // Created and deleted since the last push: the peer never saw it
+      if (first.operation === 'insert') continue;
+
+      // Rows deleted along with a parent are removed on the peer by the cascade
+      const rowKey = last.row_uuid ? JSON.parse(last.row_uuid) as Record<string, string | null> : null;
+      if (!rowKey || Object.values(rowKey).some(v => !v)) continue;
+
+      changes.push({
+        id: `${deviceId}:${last.version}`,
+        table: last.table_name,
+        operation: 'delete',
+        rowKey: rowKey as Record<string, string>,
+        data: null,
+        timestamp: last.changed_at,
+        deviceId,
+        position: last.version,
+      });
+      continue;
     }
+
+    const { sql, values } = keyClause(JSON.parse(last.row_key));
+    const row = db.prepare(`SELECT * FROM ${last.table_name} WHERE ${sql}`).get(...values) as Record<string, unknown> | undefined;
+    const data = row ? toWireRow(last.table_name, row) : null;
+    if (!data) continue;
+
+    changes.push({
+      id: `${deviceId}:${last.version}`,
+      table: last.table_name,
+      operation: first.operation === 'insert' ? 'insert' : 'update',
+      rowKey: wireKeyOf(last.table_name, data),
+      data,
+      timestamp: last.changed_at,
+      deviceId,
+      position: first.version,
+    });
   }
 
+  changes.sort((a, b) => a.position - b.position);
+
   return {
-    version: 1,
+    version: 3,
     deviceId,
-    exportedAt: timestamp,
-    data,
+    exportedAt: new Date().toISOString(),
+    fromVersion,
+    toVersion: rows.length > 0 ? rows[rows.length - 1].version : fromVersion,
+    changes: changes.map(({ position: _position, ...change }) => change),
   };
 }
 
-// Import sync data (merge with local)
-export function importSyncData(syncData: {
-  version: number;
-  deviceId: string;
-  exportedAt: string;
-  data: Record<string, unknown[]>;
-}, conflictResolution: 'local' | 'remote' | 'newest' = 'newest'): {
+// Import a change set from another device (merge with local).
+// Throws if the change set could not be applied at all.
+export function importSyncData(
+  changeSet: SyncChangeSet,
+  conflictResolution: ConflictResolution = 'newest'
+): {
   imported: number;
   conflicts: number;
   errors: string[]
@@ -169,92 +519,391 @@ export function importSyncData(syncData: {
   const errors: string[] = [];
 
   // Skip if it's our own data
-  if (syncData.deviceId === localDeviceId) {
+  if (changeSet.deviceId === localDeviceId) {
     return { imported: 0, conflicts: 0, errors: ['Cannot import own data'] };
   }
 
-  // Process each table
-  for (const [table, rows] of Object.entries(syncData.data)) {
-    if (!Array.isArray(rows)) continue;
+  if (changeSet.version !== 3 || !Array.isArray(changeSet.changes)) {
+    return { imported: 0, conflicts: 0, errors: ['Unsupported sync data format'] };
+  }
+
+  // Local changes not yet seen by peers can conflict with incoming ones
+  const pulledAt = parseInt(getSyncStateValue('pulled_at_version') || '0', 10);
+  const localChangeAt = db.prepare(`
+    SELECT MAX(changed_at) as changed_at FROM sync_changes
+    WHERE table_name = ? AND row_key = ? AND device_id = ? AND version > ?
+  `);
+  const insertConflict = db.prepare(`
+    INSERT INTO sync_conflicts (
+      table_name, row_key, operation, base_data, local_data, remote_data, merged_data,
+      remote_device_id, local_changed_at, remote_changed_at,
+      status, resolution, resolved_by, resolved_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? = 'resolved' THEN datetime('now') END)
+  `);
+
+  // Rows that differ only in identity or bookkeeping timestamps are the same row
+  const sameRow = (local: Record<string, unknown>, remote: Record<string, unknown>): boolean =>
+    Object.keys(remote)
+      .filter(c => !SYNC_IGNORED_COLUMNS.has(c) && c in local)
+      .every(c => local[c] === remote[c]);
+
+  // Find the local row a change refers to, merging same-named rows
+  const findLocal = (change: SyncChange): { row: Record<string, unknown>; key: Record<string, number> } | null => {
+    const found = findLocalRow(change.table, change.rowKey);
+    if (found || !SYNC_UUID_TABLES.includes(change.table)) return found;
+
+    if (change.data && SYNC_NAMED_TABLES.has(change.table) && typeof change.data.name === 'string') {
+      const row = db.prepare(`SELECT * FROM ${change.table} WHERE name = ?`).get(change.data.name) as Record<string, unknown> | undefined;
+      if (row) {
+        db.prepare(`
+          INSERT OR REPLACE INTO sync_uuid_aliases (table_name, remote_uuid, local_uuid) VALUES (?, ?, ?)
+        `).run(change.table, change.rowKey.uuid, row.uuid);
+        return { row, key: { id: row.id as number } };
+      }
+    }
+
+    return null;
+  };
+
+  // Settle an incoming change against unsynced local edits of the same row.
+  // Returns the wire data to write, or null to keep the local row.
+  const settle = (
+    change: SyncChange,
+    local: { row: Record<string, unknown>; key: Record<string, number> }
+  ): Record<string, unknown> | null | 'apply' => {
+    const localChange = localChangeAt.get(change.table, JSON.stringify(local.key), localDeviceId, pulledAt) as { changed_at: string | null };
+    if (!localChange.changed_at) return 'apply';
+
+    conflicts++;
+    const localWire = toWireRow(change.table, local.row);
+    const wireKey = localWire ? wireKeyOf(change.table, localWire) : change.rowKey;
+    const base = getRowBase(change.table, wireKey);
+
+    // Edits to different fields on each device merge cleanly
+    let merged: Record<string, unknown> | null = null;
+    if (base && localWire && change.data) {
+      const result = mergeRows(base, localWire, change.data);
+      if (result.overlapping.length === 0) merged = result.merged;
+    }
+
+    let resolution: 'local' | 'remote' | 'merge' | null;
+    if (merged) {
+      resolution = 'merge';
+    } else if (conflictResolution === 'manual') {
+      resolution = null;
+    } else if (conflictResolution === 'remote' ||
+      (conflictResolution === 'newest' && change.timestamp > localChange.changed_at)) {
+      resolution = 'remote';
+    } else {
+      resolution = 'local';
+    }
+
+    const status = resolution ? 'resolved' : 'open';
+    insertConflict.run(
+      change.table,
+      JSON.stringify(wireKey),
+      change.operation,
+      base ? JSON.stringify(base) : null,
+      localWire ? JSON.stringify(localWire) : null,
+      change.data ? JSON.stringify(change.data) : null,
+      merged ? JSON.stringify(merged) : null,
+      changeSet.deviceId,
+      localChange.changed_at,
+      change.timestamp,
+      status,
+      resolution,
+      resolution ? 'auto' : null,
+      status
+    );
+
+    if (resolution === 'merge') return merged;
+    return resolution === 'remote' ? 'apply' : null;
+  };
+
+  // Only the device that pulls second sees a conflict, and the peer already
+  // has its own version. Writes settling a conflict are journaled as local
+  // changes so the outcome is shipped back and both devices converge.
+  const setOrigin = (deviceId: string | null): void => {
+    if (deviceId) {
+      db.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES ('sync_origin_device', ?)`).run(deviceId);
+    } else {
+      db.prepare(`DELETE FROM settings WHERE key = 'sync_origin_device'`).run();
+    }
+  };
+  const settledLocally = (conflicted: boolean, write: () => void): void => {
+    if (!conflicted) {
+      write();
+      return;
+    }
+    setOrigin(null);
+    try {
+      write();
+    } finally {
+      setOrigin(changeSet.deviceId);
+    }
+  };
+
+  const applyChange = (change: SyncChange): void => {
+    const local = findLocal(change);
+    const conflictsBefore = conflicts;
+
+    if (change.operation === 'delete') {
+      if (!local) return;
+      if (settle(change, local) === null) return;
+
+      const { sql, values } = keyClause(local.key);
+      settledLocally(conflicts > conflictsBefore, () => {
+        db.prepare(`DELETE FROM ${change.table} WHERE ${sql}`).run(...values);
+      });
+      setRowBase(change.table, change.rowKey, null);
+      imported++;
+      return;
+    }
+
+    let wire = change.data || {};
+    let data = toLocalRow(change.table, wire);
+
+    if (local && sameRow(local.row, data)) {
+      setRowBase(change.table, wireKeyOf(change.table, toWireRow(change.table, local.row) || wire), wire);
+      return; // Already in sync
+    }
+    if (local) {
+      const outcome = settle(change, local);
+      if (outcome === null) return;
+      if (outcome !== 'apply') {
+        wire = outcome;
+        data = toLocalRow(change.table, wire);
+      }
+    }
+
+    settledLocally(conflicts > conflictsBefore, () => writeRow(change.table, data, local ? local.key : null));
+    const written = local ? toWireRow(change.table, local.row) : null;
+    setRowBase(change.table, written ? wireKeyOf(change.table, written) : change.rowKey, wire);
+    imported++;
+  };
+
+  // Apply in one transaction, tagging journal rows with the origin device
+  const applyAll = db.transaction(() => {
+    db.pragma('defer_foreign_keys = ON');
+    setOrigin(changeSet.deviceId);
 
-    for (const row of rows) {
+    for (const change of changeSet.changes) {
+      if (!(change.table in SYNC_TABLE_KEYS)) continue;
       try {
-        const rowData = row as Record<string, unknown>;
-        const id = rowData.id as number;
-
-        // Check if row exists locally
-        const existing = db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id);
-
-        if (!existing) {
-          // New row - insert (excluding id for auto-increment)
-          const columns = Object.keys(rowData).filter(k => k !== 'id');
-          const values = columns.map(c => rowData[c]);
-          const placeholders = columns.map(() => '?').join(', ');
-
-          db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`).run(...values);
-          imported++;
-        } else {
-          // Existing row - handle conflict
-          conflicts++;
-
-          const localUpdated = (existing as Record<string, unknown>).updated_at as string || '';
-          const remoteUpdated = rowData.updated_at as string || '';
-
-          let shouldUpdate = false;
-          if (conflictResolution === 'remote') {
-            shouldUpdate = true;
-          } else if (conflictResolution === 'newest') {
-            shouldUpdate = remoteUpdated > localUpdated;
-          }
-          // If 'local', shouldUpdate stays false
-
-          if (shouldUpdate) {
-            const columns = Object.keys(rowData).filter(k => k !== 'id');
-            const setClause = columns.map(c => `${c} = ?`).join(', ');
-            const values = columns.map(c => rowData[c]);
-
-            db.prepare(`UPDATE ${table} SET ${setClause} WHERE id = ?`).run(...values, id);
-            imported++;
-          }
-        }
+        applyChange(change);
       } catch (e) {
-        errors.push(`Error in ${table}: ${e instanceof Error ? e.message : 'Unknown'}`);
+        errors.push(`Error in ${change.table}: ${e instanceof Error ? e.message : 'Unknown'}`);
       }
     }
-  }
+
+    setOrigin(null);
+  });
+
+  applyAll();
 
   // Update sync state
-  db.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES ('sync_state_last_sync', ?)`).run(new Date().toISOString());
+  setSyncStateValue('last_sync', new Date().toISOString());
 
   return { imported, conflicts, errors };
 }
 
-// File-based sync: write to sync folder
-export async function syncToFile(syncPath: string): Promise<{ success: boolean; error?: string }> {
-  try {
-    const data = exportSyncData();
-    const deviceId = getDeviceId();
-    const filename = `timer-record-${deviceId}.json`;
-    const filepath = path.join(syncPath, filename);
+// Remember how far the local journal had advanced when we last pulled.
+// Versions are never reused, so the sequence still counts compacted rows.
+function markPulled(): void {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT seq FROM sqlite_sequence WHERE name = 'sync_changes'`).get() as { seq: number } | undefined;
+  setSyncStateValue('pulled_at_version', (row?.seq ?? 0).toString());
+  compactJournal();
+}
+
+// Drop journal rows that are no longer needed: shipped to peers, and older
+// than the last pull so they can't conflict with anything still incoming
+function compactJournal(): void {
+  const localVersion = parseInt(getSyncStateValue('local_version') || '0', 10);
+  const pulledAt = parseInt(getSyncStateValue('pulled_at_version') || '0', 10);
+  getDatabase().prepare('DELETE FROM sync_changes WHERE version <= ?').run(Math.min(localVersion, pulledAt));
+}
+
+// Key derived from the sync passphrase (kept locally, never synced)
+function getSyncKey(): Buffer | null {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT value FROM settings WHERE key = 'sync_encryption_key'`).get() as { value: string } | undefined;
+  return row?.value ? Buffer.from(row.value, 'hex') : null;
+}
+
+// Check whether a sync passphrase has been set on this device
+export function hasSyncPassphrase(): boolean {
+  return getSyncKey() !== null;
+}
 
-    // Ensure directory exists
-    if (!fs.existsSync(syncPath)) {
-      fs.mkdirSync(syncPath, { recursive: true });
+// Seal a change set for the wire when sync encryption is on
+function sealOutgoing(changeSet: SyncChangeSet): SyncChangeSet | SyncEnvelope {
+  const key = getSyncKey();
+  const encryption = getEncryptionConfig();
+
+  if (key && encryption.encryptSync) {
+    return sealChangeSet(changeSet, key);
+  }
+  if (encryption.enabled && encryption.encryptSync) {
+    throw new Error('Sync encryption is on but no sync passphrase is set. Run: tt sync passphrase');
+  }
+  return changeSet;
+}
+
+// Verify and open a change set received from another device
+function openIncoming(payload: unknown, deviceId: string): SyncChangeSet {
+  const key = getSyncKey();
+  let changeSet: SyncChangeSet;
+
+  if (isSyncEnvelope(payload)) {
+    if (!key) {
+      throw new Error('Sync data is encrypted. Set the shared passphrase with: tt sync passphrase');
+    }
+    changeSet = openChangeSet<SyncChangeSet>(payload, key);
+  } else {
+    // Once encrypted, unsigned data from the sync location is not trusted
+    if (key && getEncryptionConfig().encryptSync) {
+      throw new Error('Rejected unencrypted sync data');
     }
+    changeSet = payload as SyncChangeSet;
+  }
+
+  if (changeSet?.deviceId !== deviceId) {
+    throw new Error('Sync data does not belong to the device it was stored for');
+  }
+  return changeSet;
+}
+
+// Fetch the key descriptor published by the first encrypted device
+async function fetchKeyDescriptor(config: SyncConfig): Promise<SyncKeyDescriptor | null> {
+  if (config.backend === 'server') {
+    const result = await serverRequest<{ descriptor: SyncKeyDescriptor | null }>(config, 'GET', 'v1/key');
+    return result.descriptor;
+  }
+
+  const filepath = path.join(config.syncPath!, SYNC_KEY_FILE);
+  if (!fs.existsSync(filepath)) return null;
+  return JSON.parse(fs.readFileSync(filepath, 'utf-8')) as SyncKeyDescriptor;
+}
+
+async function publishKeyDescriptor(config: SyncConfig, descriptor: SyncKeyDescriptor): Promise<void> {
+  if (config.backend === 'server') {
+    await serverRequest(config, 'PUT', 'v1/key', { descriptor });
+    return;
+  }
+
+  if (!fs.existsSync(config.syncPath!)) {
+    fs.mkdirSync(config.syncPath!, { recursive: true });
+  }
+  // 'wx' fails instead of replacing a descriptor another device just wrote
+  fs.writeFileSync(path.join(config.syncPath!, SYNC_KEY_FILE), JSON.stringify(descriptor, null, 2), { flag: 'wx' });
+}
 
-    fs.writeFileSync(filepath, JSON.stringify(data, null, 2));
+// Check whether the sync location already has a passphrase (so this device joins it)
+export async function isSyncPassphrasePublished(): Promise<boolean> {
+  const config = getSyncConfig();
+  return (await fetchKeyDescriptor(config)) !== null;
+}
+
+/**
+ * Set the shared sync passphrase.
+ * The first device publishes a key descriptor; other devices join by
+ * deriving the same key from it, so a wrong passphrase is caught here.
+ */
+export async function setSyncPassphrase(passphrase: string): Promise<{
+  success: boolean;
+  created: boolean;
+  error?: string;
+}> {
+  const config = getSyncConfig();
+
+  if (!config.enabled) {
+    return { success: false, created: false, error: 'Sync is not enabled' };
+  }
+  if (config.backend === 'server' && loadConfig().privacy_lockdown === true) {
+    return { success: false, created: false, error: 'Server sync is disabled in privacy lockdown mode' };
+  }
+
+  try {
+    let key: Buffer | null;
+    let created = false;
+
+    const existing = await fetchKeyDescriptor(config);
+    if (existing) {
+      key = unlockSyncKey(existing, passphrase);
+      if (!key) {
+        return { success: false, created: false, error: 'Passphrase does not match the one your other devices use' };
+      }
+    } else {
+      const generated = createSyncKey(passphrase);
+      await publishKeyDescriptor(config, generated.descriptor);
+      key = generated.key;
+      created = true;
+    }
 
-    // Update last sync time
     const db = getDatabase();
-    db.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES ('sync_state_last_sync', ?)`).run(new Date().toISOString());
+    db.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES ('sync_encryption_key', ?)`).run(key.toString('hex'));
 
-    return { success: true };
+    if (config.backend === 'file' && getEncryptionConfig().encryptSync) {
+      resealOwnFiles(config.syncPath!);
+    }
+    return { success: true, created };
   } catch (e) {
-    return { success: false, error: e instanceof Error ? e.message : 'Unknown error' };
+    return { success: false, created: false, error: e instanceof Error ? e.message : 'Unknown error' };
   }
 }
 
-// File-based sync: read from sync folder
+// Encrypt change set files this device wrote before it had a passphrase
+function resealOwnFiles(syncPath: string): void {
+  if (!fs.existsSync(syncPath)) return;
+
+  const prefix = `timer-record-${getDeviceId()}.v`;
+  for (const file of fs.readdirSync(syncPath)) {
+    if (!file.startsWith(prefix) || !file.endsWith('.json')) continue;
+
+    const filepath = path.join(syncPath, file);
+    const content = JSON.parse(fs.readFileSync(filepath, 'utf-8')) as unknown;
+    if (isSyncEnvelope(content)) continue;
+
+    fs.writeFileSync(filepath, JSON.stringify(sealOutgoing(content as SyncChangeSet), null, 2));
+  }
+}
+
+// Forget the sync passphrase on this device
+export function clearSyncPassphrase(): void {
+  const db = getDatabase();
+  db.prepare(`DELETE FROM settings WHERE key = 'sync_encryption_key'`).run();
+}
+
+// File-based sync: write local changes to the sync folder
+export async function syncToFile(syncPath: string): Promise<{ success: boolean; pushed: boolean; error?: string }> {
+  try {
+    const data = exportSyncData();
+
+    if (data.changes.length > 0) {
+      const filename = `timer-record-${data.deviceId}.v${data.toVersion}.json`;
+      const filepath = path.join(syncPath, filename);
+
+      // Ensure directory exists
+      if (!fs.existsSync(syncPath)) {
+        fs.mkdirSync(syncPath, { recursive: true });
+      }
+
+      fs.writeFileSync(filepath, JSON.stringify(sealOutgoing(data), null, 2));
+      recordShippedBases(data);
+    }
+
+    setSyncStateValue('local_version', data.toVersion.toString());
+    setSyncStateValue('last_sync', new Date().toISOString());
+    compactJournal();
+
+    return { success: true, pushed: data.changes.length > 0 };
+  } catch (e) {
+    return { success: false, pushed: false, error: e instanceof Error ? e.message : 'Unknown error' };
+  }
+}
+
+// File-based sync: read other devices' change sets from the sync folder
 export async function syncFromFile(syncPath: string): Promise<{
   success: boolean;
   imported: number;
@@ -263,25 +912,155 @@ export async function syncFromFile(syncPath: string): Promise<{
 }> {
   try {
     const deviceId = getDeviceId();
-    const files = fs.readdirSync(syncPath).filter(f =>
-      f.startsWith('timer-record-') && f.endsWith('.json') && !f.includes(deviceId)
-    );
+    const config = getSyncConfig();
+
+    // Change set files are named timer-record-<device>.v<version>.json
+    const files = fs.readdirSync(syncPath)
+      .map(f => ({ file: f, match: f.match(/^timer-record-(.+)\.v(\d+)\.json$/) }))
+      .filter(f => f.match && f.match[1] !== deviceId)
+      .map(f => ({ file: f.file, device: f.match![1], version: parseInt(f.match![2], 10) }))
+      .filter(f => f.version > parseInt(getSyncStateValue(`peer_${f.device}`) || '0', 10))
+      .sort((a, b) => a.version - b.version);
 
     let totalImported = 0;
     let totalConflicts = 0;
 
-    const config = getSyncConfig();
-
     for (const file of files) {
-      const filepath = path.join(syncPath, file);
+      const filepath = path.join(syncPath, file.file);
       const content = fs.readFileSync(filepath, 'utf-8');
-      const data = JSON.parse(content);
+      let data: SyncChangeSet;
+      try {
+        data = openIncoming(JSON.parse(content), file.device);
+      } catch (e) {
+        throw new Error(`${file.file}: ${e instanceof Error ? e.message : 'Unreadable sync file'}`);
+      }
+      if (data.toVersion !== file.version) {
+        throw new Error(`${file.file}: sync data does not match its file name`);
+      }
 
       const result = importSyncData(data, config.conflictResolution);
       totalImported += result.imported;
       totalConflicts += result.conflicts;
+      // Leave the cursor before a change set that did not fully apply, so the next sync retries it
+      if (result.errors.length > 0) {
+        return {
+          success: false,
+          imported: totalImported,
+          conflicts: totalConflicts,
+          error: `${file.file}: ${result.errors.join('; ')}`,
+        };
+      }
+      setSyncStateValue(`peer_${file.device}`, file.version.toString());
+    }
+
+    markPulled();
+
+    return { success: true, imported: totalImported, conflicts: totalConflicts };
+  } catch (e) {
+    return { success: false, imported: 0, conflicts: 0, error: e instanceof Error ? e.message : 'Unknown error' };
+  }
+}
+
+// Server sync: send an authenticated request to the sync server
+async function serverRequest<T>(
+  config: SyncConfig,
+  method: 'GET' | 'POST' | 'PUT',
+  pathname: string,
+  body?: unknown
+): Promise<T> {
+  if (!config.serverUrl) {
+    throw new Error('Sync server URL is not configured');
+  }
+  if (!config.apiKey) {
+    throw new Error('Sync server API key is not configured');
+  }
+
+  const url = new URL(pathname, config.serverUrl.endsWith('/') ? config.serverUrl : `${config.serverUrl}/`);
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json',
+      'User-Agent': 'Timer-Record-CLI',
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      message = (JSON.parse(text) as { error?: string }).error || text;
+    } catch {
+      // Keep raw text
+    }
+    throw new Error(`Sync server error: ${response.status} - ${message}`);
+  }
+
+  return await response.json() as T;
+}
+
+// Server sync: push local change set
+export async function syncToServer(config: SyncConfig): Promise<{ success: boolean; pushed: boolean; error?: string }> {
+  try {
+    const data = exportSyncData();
+
+    if (data.changes.length > 0) {
+      await serverRequest<{ seq: number }>(config, 'POST', 'v1/push', {
+        deviceId: data.deviceId,
+        payload: sealOutgoing(data),
+      });
+      recordShippedBases(data);
+    }
+
+    // The server has acknowledged everything up to this journal version
+    setSyncStateValue('local_version', data.toVersion.toString());
+    setSyncStateValue('last_sync', new Date().toISOString());
+    compactJournal();
+
+    return { success: true, pushed: data.changes.length > 0 };
+  } catch (e) {
+    return { success: false, pushed: false, error: e instanceof Error ? e.message : 'Unknown error' };
+  }
+}
+
+// Server sync: pull change sets from other devices
+export async function syncFromServer(config: SyncConfig): Promise<{
+  success: boolean;
+  imported: number;
+  conflicts: number;
+  error?: string
+}> {
+  try {
+    const deviceId = getDeviceId();
+    const since = parseInt(getSyncStateValue('remote_version') || '0', 10);
+    const result = await serverRequest<{
+      changes: { seq: number; deviceId: string; payload: unknown }[];
+      latestSeq: number;
+    }>(config, 'GET', `v1/pull?device=${encodeURIComponent(deviceId)}&since=${since}`);
+
+    let totalImported = 0;
+    let totalConflicts = 0;
+
+    for (const change of result.changes) {
+      const changeSet = openIncoming(change.payload, change.deviceId);
+      const importResult = importSyncData(changeSet, config.conflictResolution);
+      totalImported += importResult.imported;
+      totalConflicts += importResult.conflicts;
+      // Stop before a change set that did not fully apply, so the next pull fetches it again
+      if (importResult.errors.length > 0) {
+        return {
+          success: false,
+          imported: totalImported,
+          conflicts: totalConflicts,
+          error: `Change #${change.seq} from ${change.deviceId}: ${importResult.errors.join('; ')}`,
+        };
+      }
+      setSyncStateValue('remote_version', change.seq.toString());
     }
 
+    markPulled();
+
     return { success: true, imported: totalImported, conflicts: totalConflicts };
   } catch (e) {
     return { success: false, imported: 0, conflicts: 0, error: e instanceof Error ? e.message : 'Unknown error' };
@@ -313,13 +1092,132 @@ export async function performSync(): Promise<{
     const pullResult = await syncFromFile(config.syncPath);
     return {
       success: pullResult.success,
-      pushed: true,
+      pushed: pushResult.pushed,
+      imported: pullResult.imported,
+      conflicts: pullResult.conflicts,
+      error: pullResult.error,
+    };
+  }
+
+  if (config.backend === 'server') {
+    // Server sync goes over the network
+    if (loadConfig().privacy_lockdown === true) {
+      return { success: false, pushed: false, imported: 0, conflicts: 0, error: 'Server sync is disabled in privacy lockdown mode' };
+    }
+
+    const pushResult = await syncToServer(config);
+    if (!pushResult.success) {
+      return { success: false, pushed: false, imported: 0, conflicts: 0, error: pushResult.error };
+    }
+
+    const pullResult = await syncFromServer(config);
+    return {
+      success: pullResult.success,
+      pushed: pushResult.pushed,
       imported: pullResult.imported,
       conflicts: pullResult.conflicts,
       error: pullResult.error,
     };
   }
 
-  // TODO: Implement server sync
   return { success: false, pushed: false, imported: 0, conflicts: 0, error: 'Backend not implemented' };
 }
+
+function toSyncConflict(row: ConflictRow): SyncConflict {
+  const parse = (value: string | null) => value ? JSON.parse(value) as Record<string, unknown> : null;
+  return {
+    id: row.id,
+    table: row.table_name,
+    rowKey: JSON.parse(row.row_key) as Record<string, string>,
+    operation: row.operation,
+    base: parse(row.base_data),
+    local: parse(row.local_data),
+    remote: parse(row.remote_data),
+    merged: parse(row.merged_data),
+    remoteDeviceId: row.remote_device_id,
+    localChangedAt: row.local_changed_at,
+    remoteChangedAt: row.remote_changed_at,
+    status: row.status,
+    resolution: row.resolution,
+    resolvedBy: row.resolved_by,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+// List sync conflicts (open ones unless all are requested)
+export function listSyncConflicts(includeResolved: boolean = false): SyncConflict[] {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT * FROM sync_conflicts
+    ${includeResolved ? '' : "WHERE status = 'open'"}
+    ORDER BY id DESC
+  `).all() as ConflictRow[];
+  return rows.map(toSyncConflict);
+}
+
+// Get a single sync conflict
+export function getSyncConflict(id: number): SyncConflict | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM sync_conflicts WHERE id = ?').get(id) as ConflictRow | undefined;
+  return row ? toSyncConflict(row) : null;
+}
+
+/**
+ * Resolve a conflict by writing the chosen version to the local row.
+ * The write is journaled as a local change, so the choice reaches other
+ * devices on the next sync.
+ */
+export function resolveSyncConflict(
+  id: number,
+  take: 'local' | 'remote' | 'merge'
+): { success: boolean; error?: string } {
+  const db = getDatabase();
+  const conflict = getSyncConflict(id);
+
+  if (!conflict) {
+    return { success: false, error: `Conflict #${id} not found` };
+  }
+
+  let chosen: Record<string, unknown> | null;
+  if (take === 'local') {
+    chosen = conflict.local;
+  } else if (take === 'remote') {
+    chosen = conflict.remote;
+  } else {
+    if (!conflict.local || !conflict.remote) {
+      return { success: false, error: 'Deletions cannot be merged; take local or remote' };
+    }
+    if (!conflict.base) {
+      return { success: false, error: 'No common version to merge against; take local or remote' };
+    }
+    const { merged, overlapping } = mergeRows(conflict.base, conflict.local, conflict.remote);
+    if (overlapping.length > 0) {
+      return { success: false, error: `Both devices changed ${overlapping.join(', ')}; take local or remote` };
+    }
+    chosen = merged;
+  }
+
+  try {
+    db.transaction(() => {
+      const local = findLocalRow(conflict.table, conflict.rowKey);
+
+      if (chosen) {
+        writeRow(conflict.table, toLocalRow(conflict.table, chosen), local ? local.key : null);
+      } else if (local) {
+        const { sql, values } = keyClause(local.key);
+        db.prepare(`DELETE FROM ${conflict.table} WHERE ${sql}`).run(...values);
+      }
+
+      db.prepare(`
+        UPDATE sync_conflicts
+        SET status = 'resolved', resolution = ?, resolved_by = 'user', resolved_at = datetime('now')
+        WHERE id = ?
+      `).run(take, id);
+    })();
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : 'Unknown error' };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,316 @@
+/**
+ * Reference Sync Server
+ *
+ * Small self-hostable HTTP server for the `server` sync backend:
+ * - Stores change sets pushed by each device
+ * - Serves change sets from other devices in sequence order
+ * - Holds the key descriptor of end-to-end encrypted sync groups
+ * - Authenticates every request with a shared API key (generated and kept in
+ *   the store when none is given)
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { secureCompare } from '../security/encryption.js';
+
+// Reject oversized pushes before they reach the store
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+export const SYNC_PROTOCOL_VERSION = 1;
+
+export interface SyncServerOptions {
+  port: number;
+  host: string;
+  apiKey: string;
+  dbPath: string;
+}
+
+export interface StoredChangeSet {
+  seq: number;
+  deviceId: string;
+  receivedAt: string;
+  payload: unknown;
+}
+
+let server: ReturnType<typeof createServer> | null = null;
+let store: Database.Database | null = null;
+
+// Open the server-side store (separate from the local tracking database)
+function openStore(dbPath: string): Database.Database {
+  const dir = path.dirname(dbPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const database = new Database(dbPath);
+  database.pragma('journal_mode = WAL');
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS change_sets (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      device_id TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      received_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_change_sets_device ON change_sets(device_id);
+
+    -- Passphrase salt and check value shared by encrypted devices (no key material)
+    CREATE TABLE IF NOT EXISTS sync_key (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      descriptor TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    -- API key generated on first start, when none is given
+    CREATE TABLE IF NOT EXISTS server_key (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      api_key TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+  return database;
+}
+
+// The API key saved in the store, generating and saving one on first use
+export function loadServerApiKey(dbPath: string, generate: () => string): { apiKey: string; created: boolean } {
+  const database = openStore(dbPath);
+  try {
+    const result = database.prepare('INSERT OR IGNORE INTO server_key (id, api_key) VALUES (1, ?)').run(generate());
+    const row = database.prepare('SELECT api_key FROM server_key WHERE id = 1').get() as { api_key: string };
+    return { apiKey: row.api_key, created: result.changes > 0 };
+  } finally {
+    database.close();
+  }
+}
+
+// Send a JSON response
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Report a request body that could not be read
+function sendBodyError(res: ServerResponse, e: unknown): void {
+  const message = e instanceof Error ? e.message : 'Invalid request';
+  sendJson(res, message === 'Payload too large' ? 413 : 400, { error: message });
+}
+
+// Check the bearer token against the configured API key
+function isAuthorized(req: IncomingMessage, apiKey: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer (.+)$/);
+  return !!match && secureCompare(match[1], apiKey);
+}
+
+// Read and parse a JSON request body
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+// Store a pushed change set and return its sequence number
+function storeChangeSet(database: Database.Database, deviceId: string, payload: unknown): number {
+  const result = database.prepare(`
+    INSERT INTO change_sets (device_id, payload) VALUES (?, ?)
+  `).run(deviceId, JSON.stringify(payload));
+  return result.lastInsertRowid as number;
+}
+
+// Get change sets from other devices after a sequence number
+function getChangeSets(database: Database.Database, deviceId: string, since: number): StoredChangeSet[] {
+  const rows = database.prepare(`
+    SELECT seq, device_id, payload, received_at FROM change_sets
+    WHERE seq > ? AND device_id != ?
+    ORDER BY seq ASC
+  `).all(since, deviceId) as { seq: number; device_id: string; payload: string; received_at: string }[];
+
+  return rows.map(row => ({
+    seq: row.seq,
+    deviceId: row.device_id,
+    receivedAt: row.received_at,
+    payload: JSON.parse(row.payload),
+  }));
+}
+
+// Get the latest sequence number in the store
+function getLatestSeq(database: Database.Database): number {
+  const row = database.prepare('SELECT COALESCE(MAX(seq), 0) as seq FROM change_sets').get() as { seq: number };
+  return row.seq;
+}
+
+// Get the published key descriptor
+function getKeyDescriptor(database: Database.Database): unknown {
+  const row = database.prepare('SELECT descriptor FROM sync_key WHERE id = 1').get() as { descriptor: string } | undefined;
+  return row ? JSON.parse(row.descriptor) : null;
+}
+
+// Publish the key descriptor (only the first one is kept)
+function setKeyDescriptor(database: Database.Database, descriptor: unknown): boolean {
+  const result = database.prepare(`
+    INSERT OR IGNORE INTO sync_key (id, descriptor) VALUES (1, ?)
+  `).run(JSON.stringify(descriptor));
+  return result.changes > 0;
+}
+
+// Handle HTTP requests
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  database: Database.Database,
+  apiKey: string
+): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (!isAuthorized(req, apiKey)) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/v1/status') {
+    sendJson(res, 200, {
+      status: 'ok',
+      protocolVersion: SYNC_PROTOCOL_VERSION,
+      latestSeq: getLatestSeq(database),
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/v1/key') {
+    sendJson(res, 200, { descriptor: getKeyDescriptor(database) });
+    return;
+  }
+
+  if (req.method === 'PUT' && url.pathname === '/v1/key') {
+    let body: { descriptor?: unknown };
+    try {
+      body = await readJsonBody(req) as { descriptor?: unknown };
+    } catch (e) {
+      sendBodyError(res, e);
+      return;
+    }
+
+    if (typeof body?.descriptor !== 'object' || body.descriptor === null) {
+      sendJson(res, 400, { error: 'descriptor is required' });
+      return;
+    }
+
+    if (!setKeyDescriptor(database, body.descriptor)) {
+      sendJson(res, 409, { error: 'A sync key is already published' });
+      return;
+    }
+    sendJson(res, 201, { descriptor: body.descriptor });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/push') {
+    let body: { deviceId?: unknown; payload?: unknown };
+    try {
+      body = await readJsonBody(req) as { deviceId?: unknown; payload?: unknown };
+    } catch (e) {
+      sendBodyError(res, e);
+      return;
+    }
+
+    if (typeof body?.deviceId !== 'string' || !body.deviceId || body.payload === undefined) {
+      sendJson(res, 400, { error: 'deviceId and payload are required' });
+      return;
+    }
+
+    const seq = storeChangeSet(database, body.deviceId, body.payload);
+    sendJson(res, 200, { seq });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/v1/pull') {
+    const deviceId = url.searchParams.get('device');
+    const since = parseInt(url.searchParams.get('since') || '0', 10);
+
+    if (!deviceId || isNaN(since) || since < 0) {
+      sendJson(res, 400, { error: 'device and a non-negative since are required' });
+      return;
+    }
+
+    sendJson(res, 200, {
+      changes: getChangeSets(database, deviceId, since),
+      latestSeq: getLatestSeq(database),
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not Found' });
+}
+
+// Start the sync server
+export function startSyncServer(options: SyncServerOptions): Promise<{ port: number }> {
+  return new Promise((resolve, reject) => {
+    if (server) {
+      reject(new Error('Sync server is already running'));
+      return;
+    }
+
+    const database = openStore(options.dbPath);
+    store = database;
+
+    server = createServer((req, res) => {
+      handleRequest(req, res, database, options.apiKey).catch((e) => {
+        sendJson(res, 500, { error: e instanceof Error ? e.message : 'Internal error' });
+      });
+    });
+
+    server.once('error', (err) => {
+      server = null;
+      store?.close();
+      store = null;
+      reject(err);
+    });
+
+    server.listen(options.port, options.host, () => {
+      const address = server!.address();
+      const port = typeof address === 'object' && address ? address.port : options.port;
+      resolve({ port });
+    });
+  });
+}
+
+// Stop the sync server
+export function stopSyncServer(): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (!server) {
+      resolve(false);
+      return;
+    }
+
+    const running = server;
+    server = null;
+    running.close(() => {
+      store?.close();
+      store = null;
+      resolve(true);
+    });
+    running.closeAllConnections();
+  });
+}
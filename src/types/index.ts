@@ -1,15 +1,18 @@
 // Time entry stored in database
 export interface TimeEntry {
   id: number;
+  uuid: string;
   category_id: number | null;
   project_id: number | null;
   app_name: string | null;
   app_bundle_id: string | null;
   window_title: string | null;
+  domain: string | null;
   start_time: string;
   end_time: string | null;
   duration_seconds: number | null;
   is_manual: boolean;
+  manually_categorized: boolean;
   notes: string | null;
   created_at: string;
   // Auto-pause fields
@@ -21,10 +24,13 @@ export interface TimeEntry {
 // Category definition
 export interface Category {
   id: number;
+  uuid: string;
   name: string;
   color: string | null;
   description: string | null;
-  is_productive: boolean;
+  is_productive: boolean; // legacy flag, kept equal to productivity > 0
+  productivity: number; // -2 (very distracting) to +2 (very productive)
+  parent_id: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -45,6 +51,10 @@ export interface WindowInfo {
   appName: string;
   appBundleId: string;
   windowTitle: string;
+  // Active tab's domain, reported by the browser extension
+  domain?: string | null;
+  // Process that owns the window, where the platform reports it
+  pid?: number | null;
   timestamp: Date;
 }
 
@@ -71,6 +81,14 @@ export interface CategorySummary {
   entry_count: number;
 }
 
+// Compiled --where filter: a SQL condition on time_entries aliased as e
+export interface EntryQuery {
+  sql: string;
+  params: (string | number)[];
+  // The expression limits dates itself (after:, before:, on:)
+  bounded: boolean;
+}
+
 // Daily summary
 export interface DailySummary {
   date: string;
@@ -79,6 +97,9 @@ export interface DailySummary {
 }
 
 // Config settings
+// What separates one tracking context from the next
+export type ContextKeyMode = 'app' | 'title' | 'domain' | 'project';
+
 export interface Config {
   pollInterval: number;        // seconds between detection checks
   idleThreshold: number;       // seconds before considered idle
@@ -88,8 +109,17 @@ export interface Config {
   'pomodoro.break': number;    // pomodoro break duration in minutes
   'pomodoro.longBreak': number; // pomodoro long break duration in minutes
   'pomodoro.sessionsBeforeLongBreak': number; // sessions before long break
+  contextKey: ContextKeyMode;  // what starts a new entry in the daemon
+  contextDebounce: number;     // seconds a new context must hold before switching
+  classifierThreshold: number; // minimum confidence to use a learned category (0-1)
   // Auto-pause settings
   autoPauseEnabled?: boolean;   // enable auto-pause detection
+  // Scheduled backups: how many to keep in each retention tier
+  'backup.enabled': boolean;
+  'backup.hourly': number;
+  'backup.daily': number;
+  'backup.weekly': number;
+  'trash.days': number;          // days before trashed items are purged (0 = never)
   // Privacy settings (dynamic, not in CONFIG_KEYS for validation)
   privacy_lockdown?: boolean;           // disable all network features
   webhooks_enabled?: boolean;           // enable/disable webhooks globally
@@ -107,6 +137,7 @@ export type GoalPeriod = 'daily' | 'weekly' | 'monthly';
 // Goal definition
 export interface Goal {
   id: number;
+  uuid: string;
   category_id: number;
   target_seconds: number;
   period: GoalPeriod;
@@ -126,6 +157,7 @@ export interface GoalWithProgress extends Goal {
 // Project definition
 export interface Project {
   id: number;
+  uuid: string;
   name: string;
   client: string | null;
   color: string | null;
@@ -134,6 +166,7 @@ export interface Project {
   is_billable: boolean;
   is_active: boolean;
   is_default: boolean;
+  productivity: number | null; // overrides the category level for its entries
   created_at: string;
   updated_at: string;
 }
@@ -147,8 +180,34 @@ export interface ProjectWithStats extends Project {
 // Tag definition
 export interface Tag {
   id: number;
+  uuid: string;
   name: string;
   color: string | null;
+  productivity: number | null; // overrides project and category levels
+  created_at: string;
+}
+
+// Repository linked to a project (matched by working tree path or remote)
+export interface ProjectRepo {
+  id: number;
+  project_id: number;
+  project_name: string;
+  path: string | null;
+  remote: string | null; // normalized, e.g. github.com/acme/api
+  created_at: string;
+}
+
+// Commit recorded by the post-commit hook
+export interface GitCommit {
+  id: number;
+  sha: string;
+  message: string;
+  repo: string; // working tree root
+  branch: string | null;
+  committed_at: string;
+  entry_id: number | null; // entry running when it was committed
+  github_issue: string | null; // "#12" or "owner/repo#12"
+  jira_key: string | null;
   created_at: string;
 }
 
@@ -163,3 +222,14 @@ export interface EntryTag {
   tag_id: number;
   created_at: string;
 }
+
+// What deleting moves to the trash
+export type TrashKind = 'entry' | 'project' | 'tag' | 'template' | 'invoice';
+
+// Trashed row as listed by `tt trash list`
+export interface TrashItem {
+  kind: TrashKind;
+  id: number;
+  label: string;
+  deleted_at: string;
+}
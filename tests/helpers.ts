@@ -0,0 +1,32 @@
+import { beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { closeDatabase } from '../src/storage/database.js';
+
+export interface TempDataDir {
+  // Set once the suite starts; data and config live in its data/ and config/
+  root: string;
+}
+
+/**
+ * Give the enclosing suite its own data and config directories, so it opens a
+ * fresh database. Call it first in the describe block: the directory is
+ * created before the suite's other hooks run and removed after them.
+ */
+export function useTempDataDir(name: string): TempDataDir {
+  const dir: TempDataDir = { root: '' };
+
+  beforeAll(() => {
+    dir.root = mkdtempSync(join(tmpdir(), `timer-record-${name}-`));
+    process.env.XDG_DATA_HOME = join(dir.root, 'data');
+    process.env.XDG_CONFIG_HOME = join(dir.root, 'config');
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    rmSync(dir.root, { recursive: true, force: true });
+  });
+
+  return dir;
+}
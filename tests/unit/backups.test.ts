@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createBackup, diffBackup, restoreBackup, runScheduledBackup } from '../../src/core/backups.js';
+import {
+  backupDatabase,
+  backupPath,
+  checkBackup,
+  listBackups,
+  pruneScheduledBackups,
+} from '../../src/storage/backup.js';
+import { createEntry, stopActiveEntry, updateEntry, getEntryById } from '../../src/storage/repositories/entries.js';
+import { getDatabase } from '../../src/storage/database.js';
+import { getBackupDir } from '../../src/config/paths.js';
+import { wipeAllData } from '../../src/privacy/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+describe('local backups', () => {
+  useTempDataDir('backups');
+  let first: number;
+
+  function entry(start: string, end: string): number {
+    const created = createEntry({ startTime: start });
+    stopActiveEntry(end);
+    return created.id;
+  }
+
+  // Rewrite when backups were taken, by id
+  function backdate(times: Record<number, string>): void {
+    const path = join(getBackupDir(), 'manifest.json');
+    const manifest = JSON.parse(readFileSync(path, 'utf-8'));
+    for (const backup of manifest.backups) {
+      if (times[backup.id]) backup.createdAt = times[backup.id];
+    }
+    writeFileSync(path, JSON.stringify(manifest));
+  }
+
+  beforeAll(() => {
+    first = entry('2026-10-01 09:00:00', '2026-10-01 10:00:00');
+  });
+
+  it('should take a scheduled backup only when one is due', async () => {
+    const backup = await runScheduledBackup();
+    expect(backup).toMatchObject({ id: 1, kind: 'scheduled', entryCount: 1, encrypted: false });
+    expect(checkBackup(backup!)).toBe('ok');
+    expect(await runScheduledBackup()).toBeNull();
+  });
+
+  it('should show entries changed since a backup and restore it by time', async () => {
+    const later = entry('2026-10-02 09:00:00', '2026-10-02 09:30:00');
+    updateEntry(first, { notes: 'reviewed' });
+
+    const diff = diffBackup('1');
+    expect(diff.added.map((e) => e.id)).toEqual([later]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([{ id: first, fields: [{ name: 'notes', before: null, after: 'reviewed' }] }]);
+
+    backdate({ 1: '2026-10-18 12:00:00' });
+    const { restored, safety } = restoreBackup('2026-10-18 13:00');
+    expect(restored.id).toBe(1);
+    expect(safety).toMatchObject({ kind: 'pre-restore', entryCount: 2 });
+    expect(getEntryById(later)).toBeUndefined();
+    expect(getEntryById(first)?.notes).toBeNull();
+    expect(() => restoreBackup('2026-10-17')).toThrow('No backup at or before');
+  });
+
+  it('should refuse a backup that no longer matches its checksum', async () => {
+    const backup = await createBackup('manual');
+    appendFileSync(backupPath(backup), 'x');
+    expect(checkBackup(backup)).toBe('corrupt');
+    expect(() => restoreBackup(String(backup.id))).toThrow('does not match its checksum');
+  });
+
+  it('should thin scheduled backups to hourly, daily and weekly tiers', async () => {
+    const ids: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      ids.push((await backupDatabase(getDatabase(), 'scheduled')).id);
+    }
+    backdate({
+      1: '2026-09-01 10:00:00',
+      [ids[0]]: '2026-09-10 09:00:00',
+      [ids[1]]: '2026-09-10 18:00:00',
+      [ids[2]]: '2026-09-11 08:00:00',
+      [ids[3]]: '2026-09-11 08:30:00',
+    });
+
+    const removed = pruneScheduledBackups({ hourly: 1, daily: 2, weekly: 2 });
+    expect(removed.map((b) => b.id)).toEqual([ids[2], ids[0]]);
+    const kept = listBackups().filter((b) => b.kind === 'scheduled').map((b) => b.id);
+    expect(kept).toEqual([ids[3], ids[1], 1]);
+  });
+
+  it('should wipe backups and their manifest along with the database', () => {
+    const dir = getBackupDir();
+    const files = listBackups().map((b) => backupPath(b));
+
+    const result = wipeAllData({ keepConfig: true });
+    expect(result.deleted).toEqual(expect.arrayContaining([...files, join(dir, 'manifest.json')]));
+    expect(existsSync(dir)).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { encodeMessage, createMessageDecoder, parseTabMessage } from '../../src/browser/protocol.js';
+import { recordActiveTab, readTabState, withBrowserDomain } from '../../src/browser/tab-state.js';
+import { categorize, addRule, domainPatternToRegExp } from '../../src/categorization/rules.js';
+import { enablePrivacyLockdown, disablePrivacyLockdown } from '../../src/privacy/index.js';
+import type { WindowInfo } from '../../src/types/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+function chromeWindow(domain?: string): WindowInfo {
+  return { appName: 'Google Chrome', appBundleId: 'com.google.Chrome', windowTitle: 'Board', domain, timestamp: new Date() };
+}
+
+describe('native messaging protocol', () => {
+  it('should decode messages split across chunks', () => {
+    const decode = createMessageDecoder();
+    const frames = Buffer.concat([
+      encodeMessage({ type: 'tab', browser: 'chrome', domain: 'github.com' }),
+      encodeMessage({ type: 'tab', browser: 'firefox', domain: null }),
+    ]);
+
+    expect(decode(frames.subarray(0, 10))).toEqual([]);
+    expect(decode(frames.subarray(10))).toEqual([
+      { type: 'tab', browser: 'chrome', domain: 'github.com' },
+      { type: 'tab', browser: 'firefox', domain: null },
+    ]);
+  });
+
+  it('should accept only hostnames from the extension', () => {
+    expect(parseTabMessage({ type: 'tab', browser: 'chrome', domain: 'WWW.GitHub.com' }))
+      .toEqual({ type: 'tab', browser: 'chrome', domain: 'github.com' });
+    expect(parseTabMessage({ type: 'tab', browser: 'chrome', domain: 'https://github.com/x' })).toBeNull();
+    expect(parseTabMessage({ type: 'tab', browser: 'safari', domain: 'github.com' })).toBeNull();
+  });
+});
+
+describe('domainPatternToRegExp', () => {
+  it('should match the domain and its subdomains', () => {
+    const github = domainPatternToRegExp('github.com');
+    expect(github.test('github.com')).toBe(true);
+    expect(github.test('gist.github.com')).toBe(true);
+    expect(github.test('notgithub.com')).toBe(false);
+
+    const atlassian = domainPatternToRegExp('*.atlassian.net');
+    expect(atlassian.test('acme.atlassian.net')).toBe(true);
+    expect(atlassian.test('atlassian.net')).toBe(false);
+  });
+});
+
+describe('browser domains', () => {
+  useTempDataDir('browser');
+
+  it('should categorize by domain rules', () => {
+    addRule({ domainPattern: '*.atlassian.net', categoryName: 'research' });
+
+    expect(categorize(chromeWindow('acme.atlassian.net'))).toBe('research');
+    expect(categorize(chromeWindow('youtube.com'))).not.toBe('research');
+    expect(categorize(chromeWindow())).not.toBe('research');
+  });
+
+  it('should attach the reported domain to browser windows', () => {
+    recordActiveTab('chrome', 'acme.atlassian.net');
+
+    expect(withBrowserDomain(chromeWindow()).domain).toBe('acme.atlassian.net');
+    expect(withBrowserDomain({ ...chromeWindow(), appName: 'Firefox' }).domain).toBeUndefined();
+  });
+
+  it('should drop domains under privacy lockdown', () => {
+    recordActiveTab('chrome', 'acme.atlassian.net');
+    enablePrivacyLockdown();
+    try {
+      expect(readTabState()).toEqual({});
+      expect(recordActiveTab('chrome', 'github.com')).toBe(false);
+      expect(withBrowserDomain(chromeWindow()).domain).toBeUndefined();
+    } finally {
+      disablePrivacyLockdown();
+    }
+  });
+});
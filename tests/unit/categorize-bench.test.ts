@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { addRule, categorize } from '../../src/categorization/rules.js';
+import { getDatabase } from '../../src/storage/database.js';
+import type { WindowInfo } from '../../src/types/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+const editor: WindowInfo = {
+  appName: 'Code',
+  appBundleId: 'com.microsoft.VSCode',
+  windowTitle: 'server.ts - acme-api',
+  timestamp: new Date(),
+};
+
+// No rule or default pattern matches this one, so the classifier is consulted too
+const unmatched: WindowInfo = {
+  appName: 'Obscure Tool',
+  appBundleId: 'org.example.obscure',
+  windowTitle: 'nothing to see',
+  timestamp: new Date(),
+};
+
+// SQL of every statement prepared while categorizing each window a number of times
+function preparedWhile(windows: WindowInfo[], calls: number): string[] {
+  const db = getDatabase();
+  const prepare = vi.spyOn(db, 'prepare');
+  try {
+    for (let i = 0; i < calls; i++) {
+      for (const info of windows) categorize(info, 0.8);
+    }
+    return prepare.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' ').trim());
+  } finally {
+    prepare.mockRestore();
+  }
+}
+
+describe('categorization cost', () => {
+  useTempDataDir('bench');
+
+  it('should compile rules once and only check version counters per call', () => {
+    const db = getDatabase();
+    db.transaction(() => {
+      for (let i = 0; i < 500; i++) {
+        addRule({ appNamePattern: `Tool ${i}`, categoryName: 'research' });
+        if (i % 10 === 0) {
+          addRule({ appNamePattern: `Tool ${i}`, windowTitlePattern: `ticket-${i}`, categoryName: 'testing' });
+        }
+      }
+    })();
+
+    const first = preparedWhile([editor, unmatched], 1);
+    expect(first.filter((sql) => sql.includes('FROM categorization_rules'))).toHaveLength(1);
+
+    expect(categorize(editor)).toBe('programming');
+    expect(categorize(unmatched)).toBeNull();
+    const steady = new Set(preparedWhile([editor, unmatched], 200));
+    expect([...steady].sort()).toEqual([
+      'SELECT version FROM rule_set_version WHERE id = 1',
+      'SELECT version FROM training_version WHERE id = 1',
+    ]);
+  });
+
+  it('should see rule changes made by another connection', () => {
+    expect(categorize(editor)).toBe('programming');
+
+    // A second process writes through its own connection
+    const other = new Database(getDatabase().name);
+    try {
+      const testing = other.prepare("SELECT id FROM categories WHERE name = 'testing'").get() as { id: number };
+      other.prepare("INSERT INTO categorization_rules (app_name_pattern, category_id) VALUES ('Code', ?)").run(testing.id);
+    } finally {
+      other.close();
+    }
+
+    expect(categorize(editor)).toBe('testing');
+  });
+});
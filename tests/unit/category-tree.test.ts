@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCategoryTree,
+  findCategoryNode,
+  flattenCategoryTree,
+  getCategoryPaths,
+} from '../../src/core/category-tree.js';
+import {
+  createCategory,
+  deleteCategory,
+  getCategoryByName,
+  updateCategory,
+} from '../../src/storage/repositories/categories.js';
+import type { Category } from '../../src/types/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+function category(id: number, name: string, parentId: number | null = null): Category {
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    name,
+    color: null,
+    description: null,
+    is_productive: true,
+    parent_id: parentId,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+function time(name: string, seconds: number) {
+  return { category: name, color: null, total_seconds: seconds, entry_count: 1 };
+}
+
+describe('category roll-up', () => {
+  const categories = [
+    category(1, 'programming'),
+    category(2, 'code-review', 1),
+    category(3, 'debugging', 1),
+    category(4, 'flaky-tests', 3),
+    category(5, 'meetings'),
+  ];
+
+  it('should roll child time up into every ancestor', () => {
+    const tree = buildCategoryTree([
+      time('programming', 600),
+      time('code-review', 1200),
+      time('flaky-tests', 300),
+      time('meetings', 1800),
+    ], categories);
+
+    expect(tree.map((node) => [node.category, node.total_seconds])).toEqual([
+      ['programming', 2100],
+      ['meetings', 1800],
+    ]);
+    expect(tree[0]).toMatchObject({ own_seconds: 600, entry_count: 3 });
+    // Parents without their own time still appear so the children can hang off them
+    expect(findCategoryNode(tree, 'debugging')).toMatchObject({ own_seconds: 0, total_seconds: 300 });
+  });
+
+  it('should flatten depth-first and fold rows below the depth limit', () => {
+    const tree = buildCategoryTree([time('code-review', 60), time('flaky-tests', 120)], categories);
+
+    expect(flattenCategoryTree(tree).map((row) => [row.node.category, row.depth, row.parent])).toEqual([
+      ['programming', 0, null],
+      ['debugging', 1, 'programming'],
+      ['flaky-tests', 2, 'debugging'],
+      ['code-review', 1, 'programming'],
+    ]);
+    expect(flattenCategoryTree(tree, 0)).toHaveLength(1);
+  });
+
+  it('should build slash-separated paths', () => {
+    const paths = getCategoryPaths(categories);
+    expect(paths.get('flaky-tests')).toBe('programming/debugging/flaky-tests');
+    expect(paths.get('meetings')).toBe('meetings');
+  });
+});
+
+describe('category parents', () => {
+  useTempDataDir('category-tree');
+
+  it('should refuse to nest a category under its own descendant', () => {
+    const parent = createCategory('client-work');
+    const child = createCategory('client-a', undefined, undefined, 1, parent.id);
+
+    expect(() => updateCategory(parent.id, { parent_id: child.id })).toThrow('nested under itself');
+    expect(() => updateCategory(parent.id, { parent_id: parent.id })).toThrow('nested under itself');
+  });
+
+  it('should move children up a level when their parent is deleted', () => {
+    const top = getCategoryByName('client-work')!;
+    const middle = createCategory('retainers', undefined, undefined, 1, top.id);
+    createCategory('client-b', undefined, undefined, 1, middle.id);
+
+    expect(deleteCategory('retainers')).toBe(true);
+    expect(getCategoryByName('client-b')?.parent_id).toBe(top.id);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { extractFeatures, trainModel, predict, classifyWindow } from '../../src/ml/classifier.js';
+import { suggestRules, suggestionToRuleArgs } from '../../src/ml/rule-suggestions.js';
+import { categorize, addRule, getCategoryIdByName } from '../../src/categorization/rules.js';
+import { createEntry, stopActiveEntry, updateEntry } from '../../src/storage/repositories/entries.js';
+import type { WindowInfo } from '../../src/types/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+function window(appName: string, windowTitle: string): WindowInfo {
+  return { appName, appBundleId: '', windowTitle, timestamp: new Date() };
+}
+
+describe('naive Bayes classifier', () => {
+  it('should extract app, bundle, domain and title features', () => {
+    expect(extractFeatures({
+      appName: 'Ledger',
+      appBundleId: 'com.acme.Ledger',
+      windowTitle: 'Invoice 2041 - the Q3 review',
+      domain: 'acme.com',
+    })).toEqual(['app:ledger', 'bundle:com.acme.ledger', 'domain:acme.com', 'title:invoice', 'title:review']);
+  });
+
+  it('should predict the category with the most evidence', () => {
+    const model = trainModel([
+      { id: 1, appName: 'Ledger', appBundleId: '', windowTitle: 'Invoice', domain: null, category: 'admin' },
+      { id: 2, appName: 'Ledger', appBundleId: '', windowTitle: 'Invoice', domain: null, category: 'admin' },
+      { id: 3, appName: 'Ledger', appBundleId: '', windowTitle: 'Forecast', domain: null, category: 'research' },
+    ]);
+
+    expect(predict(model, ['app:ledger', 'title:invoice'])?.category).toBe('admin');
+    expect(predict(model, ['app:ledger', 'title:forecast'])?.category).toBe('research');
+    expect(predict(model, ['app:unknown'])).toBeNull();
+  });
+});
+
+describe('learning from corrections', () => {
+  useTempDataDir('classifier');
+
+  // Daemon entry whose category was corrected by hand
+  function corrected(appName: string, windowTitle: string, category: string): void {
+    const entry = createEntry({ appName, windowTitle });
+    stopActiveEntry();
+    updateEntry(entry.id, { categoryId: getCategoryIdByName(category), manuallyCategorized: true });
+  }
+
+  it('should wait for enough corrections', () => {
+    corrected('Ledger', 'Invoice March', 'research');
+    expect(classifyWindow(window('Ledger', 'Invoice April'))).toBeNull();
+    expect(categorize(window('Ledger', 'Invoice April'))).toBeNull();
+  });
+
+  it('should categorize unmatched windows once trained', () => {
+    corrected('Ledger', 'Invoice April', 'research');
+    corrected('Ledger', 'Invoice May', 'research');
+    corrected('Ledger', 'Budget', 'research');
+    corrected('Sketchbook', 'Wireframes', 'testing');
+    corrected('Sketchbook', 'Wireframes v2', 'testing');
+
+    expect(classifyWindow(window('Ledger', 'Invoice June'))?.category).toBe('research');
+    expect(categorize(window('Ledger', 'Invoice June'))).toBe('research');
+    expect(categorize(window('Unrelated', 'Nothing known'))).toBeNull();
+  });
+
+  it('should suggest rules the existing rules do not cover', () => {
+    const suggestions = suggestRules();
+    expect(suggestions.map(suggestionToRuleArgs)).toEqual([
+      ['--app', 'Ledger', '--category', 'research'],
+    ]);
+    expect(suggestions[0].support).toBe(4);
+
+    addRule({ appNamePattern: 'Ledger', categoryName: 'research' });
+    expect(suggestRules()).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getContextKey, extractDomain, extractProject } from '../../src/categorization/context.js';
+import type { WindowInfo } from '../../src/types/index.js';
+
+function windowOf(appName: string, windowTitle: string, appBundleId = ''): WindowInfo {
+  return { appName, appBundleId, windowTitle, timestamp: new Date() };
+}
+
+describe('getContextKey', () => {
+  it('should ignore titles in app mode', () => {
+    expect(getContextKey(windowOf('Firefox', 'Jira'), 'app'))
+      .toBe(getContextKey(windowOf('Firefox', 'YouTube'), 'app'));
+  });
+
+  it('should tell browser pages apart by domain', () => {
+    const jira = windowOf('Google Chrome', 'Board - https://acme.atlassian.net/jira - Google Chrome');
+    const issue = windowOf('Google Chrome', 'Issue - https://acme.atlassian.net/browse/X-1 - Google Chrome');
+    const docs = windowOf('Google Chrome', 'Guide - docs.python.org - Google Chrome');
+
+    expect(extractDomain(jira)).toBe('acme.atlassian.net');
+    expect(extractDomain(docs)).toBe('docs.python.org');
+    expect(getContextKey(jira, 'domain')).toBe(getContextKey(issue, 'domain'));
+    expect(getContextKey(jira, 'domain')).not.toBe(getContextKey(docs, 'domain'));
+  });
+
+  it('should not look for domains outside browsers', () => {
+    const editor = windowOf('Code', 'app.ts — tree — Visual Studio Code', 'com.microsoft.VSCode');
+    expect(extractDomain(editor)).toBeNull();
+    expect(getContextKey(editor, 'domain')).toBe(getContextKey(editor, 'app'));
+  });
+});
+
+describe('extractProject', () => {
+  it('should read the project segment of editor titles', () => {
+    expect(extractProject(windowOf('Code', '● app.ts — tree — Visual Studio Code', 'com.microsoft.VSCode'))).toBe('tree');
+    expect(extractProject(windowOf('WebStorm', 'tree – app.ts'))).toBe('tree');
+  });
+
+  it('should prefer a path in the title', () => {
+    expect(extractProject(windowOf('Terminal', 'me@host: ~/src/tree'))).toBe('~/src/tree');
+  });
+
+  it('should return null without a project', () => {
+    expect(extractProject(windowOf('Code', 'Welcome — Visual Studio Code'))).toBeNull();
+  });
+});
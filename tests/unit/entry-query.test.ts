@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parseEntryQuery, parseQueryDuration } from '../../src/core/entry-query.js';
+import {
+  createEntry,
+  stopActiveEntry,
+  getEntriesWithCategories,
+  getTotalSecondsFiltered,
+} from '../../src/storage/repositories/entries.js';
+import { createCategory, getCategoryByName } from '../../src/storage/repositories/categories.js';
+import { createProject } from '../../src/storage/repositories/projects.js';
+import { getOrCreateTag, attachTagToEntry } from '../../src/storage/repositories/tags.js';
+import { ValidationError } from '../../src/errors/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+describe('parseEntryQuery', () => {
+  it('should compile clauses to parameterized SQL', () => {
+    const query = parseEntryQuery('project:"Acme Corp" duration>=1h30m manual:false');
+    expect(query.params).toEqual(['Acme Corp', 5400, 0]);
+    expect(query.sql).not.toContain('Acme');
+    expect(query.bounded).toBe(false);
+    expect(parseEntryQuery('after:2026-09-01').bounded).toBe(true);
+  });
+
+  it('should read durations in hours, minutes and seconds', () => {
+    expect(parseQueryDuration('30m')).toBe(1800);
+    expect(parseQueryDuration('1.5h')).toBe(5400);
+    expect(parseQueryDuration('45s')).toBe(45);
+    expect(parseQueryDuration('90')).toBe(5400);
+  });
+
+  it('should explain bad syntax', () => {
+    expect(() => parseEntryQuery('acme')).toThrow(ValidationError);
+    expect(() => parseEntryQuery('client:acme')).toThrow('Unknown field "client"');
+    expect(() => parseEntryQuery('duration:30m')).toThrow('duration>30m');
+    expect(() => parseEntryQuery('duration>soon')).toThrow('duration: expects');
+    expect(() => parseEntryQuery('project>acme')).toThrow('Only duration');
+    expect(() => parseEntryQuery('after:2026-02-30')).toThrow('expects a date');
+    expect(() => parseEntryQuery('manual:maybe')).toThrow('true or false');
+    expect(() => parseEntryQuery('tag:')).toThrow('needs a value');
+    expect(() => parseEntryQuery('project:"Acme')).toThrow('Unclosed quote');
+    expect(() => parseEntryQuery('  ')).toThrow('empty');
+  });
+});
+
+describe('filtering entries with a query', () => {
+  useTempDataDir('query');
+  let ids: Record<string, number>;
+
+  function entry(start: string, end: string, fields: { categoryId?: number; projectId?: number; isManual?: boolean }): number {
+    const created = createEntry({ startTime: start, ...fields });
+    stopActiveEntry(end);
+    return created.id;
+  }
+
+  // Ids of the entries in September 2026 that match
+  function matching(expression: string): number[] {
+    return getEntriesWithCategories('2026-09-01', '2026-09-30', parseEntryQuery(expression))
+      .map((e) => e.id)
+      .sort((a, b) => a - b);
+  }
+
+  beforeAll(() => {
+    // Both are seeded by the first migration
+    const programming = getCategoryByName('programming')!;
+    const meetings = getCategoryByName('meetings')!;
+    const frontend = createCategory('frontend', undefined, undefined, 1, programming.id);
+    const acme = createProject({ name: 'Acme' });
+
+    ids = {
+      backend: entry('2026-09-01 09:00:00', '2026-09-01 10:00:00', { categoryId: programming.id, projectId: acme.id }),
+      ui: entry('2026-09-02 09:00:00', '2026-09-02 09:20:00', { categoryId: frontend.id, projectId: acme.id, isManual: true }),
+      standup: entry('2026-09-03 09:00:00', '2026-09-03 09:15:00', { categoryId: meetings.id }),
+    };
+    attachTagToEntry(ids.ui, getOrCreateTag('review').id);
+  });
+
+  it('should include subcategories and match names without case', () => {
+    expect(matching('category:Programming')).toEqual([ids.backend, ids.ui]);
+    expect(matching('project:acme tag:REVIEW')).toEqual([ids.ui]);
+    expect(matching('category:meetings,frontend')).toEqual([ids.ui, ids.standup]);
+  });
+
+  it('should filter by dates, duration and manual entries', () => {
+    expect(matching('after:2026-09-02 before:2026-09-03')).toEqual([ids.ui]);
+    expect(matching('duration>30m')).toEqual([ids.backend]);
+    expect(matching('manual:false duration<=15m')).toEqual([ids.standup]);
+  });
+
+  it('should negate clauses, keeping entries with nothing set', () => {
+    expect(matching('-project:acme')).toEqual([ids.standup]);
+    expect(matching('project:none')).toEqual([ids.standup]);
+    expect(getTotalSecondsFiltered('2026-09-01', '2026-09-30', { where: parseEntryQuery('-tag:review') })).toBe(4500);
+  });
+});
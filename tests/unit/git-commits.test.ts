@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { commitIssueRefs, installCommitHook, uninstallCommitHook } from '../../src/integrations/git.js';
+import {
+  attachCommitsToEntry,
+  getCommitsForEntries,
+  recordCommit,
+} from '../../src/storage/repositories/commits.js';
+import { createEntry, stopActiveEntry } from '../../src/storage/repositories/entries.js';
+import { useTempDataDir } from '../helpers.js';
+
+const HOOK = '"node" "tt.js" integrate git record';
+
+describe('commit issue references', () => {
+  it('should take issues from the message, then the branch', () => {
+    expect(commitIssueRefs('Fix login redirect (#12)', 'PAY-7-login')).toEqual({ githubIssue: '#12', jiraKey: 'PAY-7' });
+    expect(commitIssueRefs('Closes acme/api#3 and PAY-9', null)).toEqual({ githubIssue: 'acme/api#3', jiraKey: 'PAY-9' });
+    expect(commitIssueRefs('Tidy up', 'main')).toEqual({ githubIssue: null, jiraKey: null });
+  });
+});
+
+describe('git commits', () => {
+  const data = useTempDataDir('commits');
+  let repo: string;
+
+  beforeAll(() => {
+    repo = join(data.root, 'api');
+    mkdirSync(join(repo, '.git'), { recursive: true });
+    writeFileSync(join(repo, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+  });
+
+  it('should install, update and remove the post-commit hook', () => {
+    const { path, status } = installCommitHook(repo, HOOK);
+    expect(status).toBe('installed');
+    expect(path).toBe(join(repo, '.git', 'hooks', 'post-commit'));
+    expect(statSync(path).mode & 0o111).not.toBe(0);
+
+    expect(installCommitHook(repo, `${HOOK} --again`).status).toBe('updated');
+    expect(readFileSync(path, 'utf-8').match(/integrate git record/g)).toHaveLength(1);
+
+    const dollars = `'/opt/$&/node' '/home/a$1b$$/tt.js' integrate git record`;
+    installCommitHook(repo, dollars);
+    expect(readFileSync(path, 'utf-8')).toContain(`\n${dollars}\n`);
+
+    expect(uninstallCommitHook(repo)).toBe(true);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('should keep an existing hook around ours', () => {
+    const path = join(repo, '.git', 'hooks', 'post-commit');
+    writeFileSync(path, '#!/bin/sh\nmake lint\n');
+
+    expect(installCommitHook(repo, HOOK).status).toBe('appended');
+    expect(uninstallCommitHook(repo)).toBe(true);
+    expect(readFileSync(path, 'utf-8')).toBe('#!/bin/sh\nmake lint\n');
+
+    writeFileSync(path, '#!/usr/bin/env python3\nprint("hi")\n');
+    expect(() => installCommitHook(repo, HOOK)).toThrow('not a shell script');
+  });
+
+  it('should link a commit to the entry running when it was made', () => {
+    const entry = createEntry({ startTime: '2026-02-02 09:00:00', isManual: true });
+    stopActiveEntry('2026-02-02 10:00:00');
+
+    const commit = recordCommit({
+      sha: 'a'.repeat(40),
+      message: 'Fix login redirect (#12)',
+      repo,
+      branch: 'main',
+      committedAt: '2026-02-02 09:30:00',
+      githubIssue: '#12',
+    });
+    expect(commit.entry_id).toBe(entry.id);
+
+    // Recording the same commit again changes nothing
+    expect(recordCommit({ ...commit, committedAt: commit.committed_at, message: 'amended' }).id).toBe(commit.id);
+    expect(getCommitsForEntries([entry.id]).get(entry.id)?.map((c) => c.message)).toEqual(['Fix login redirect (#12)']);
+  });
+
+  it('should attach untracked commits to an entry logged afterwards', () => {
+    const loose = recordCommit({
+      sha: 'b'.repeat(40),
+      message: 'Write docs',
+      repo,
+      branch: 'main',
+      committedAt: '2026-02-03 15:10:00',
+    });
+    expect(loose.entry_id).toBeNull();
+
+    const entry = createEntry({ startTime: '2026-02-03 15:00:00', isManual: true });
+    stopActiveEntry('2026-02-03 16:00:00');
+    expect(attachCommitsToEntry(entry.id, '2026-02-03 15:00:00', '2026-02-03 16:00:00')).toBe(1);
+    expect(getCommitsForEntries([entry.id]).get(entry.id)).toHaveLength(1);
+  });
+});
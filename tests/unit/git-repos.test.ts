@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { findRepoRoot, normalizeRemoteUrl, readBranch, readRemoteUrl } from '../../src/integrations/git.js';
+import { findLinkedProject, resolveRepoContext } from '../../src/categorization/repo-context.js';
+import { createProject, getProjectRepos, linkProjectRepo } from '../../src/storage/repositories/projects.js';
+import type { WindowInfo } from '../../src/types/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+// Minimal working tree: a .git directory with HEAD and an origin remote
+function fakeRepo(path: string, branch: string, remote: string): string {
+  mkdirSync(join(path, '.git'), { recursive: true });
+  mkdirSync(join(path, 'src', 'lib'), { recursive: true });
+  writeFileSync(join(path, '.git', 'HEAD'), `ref: refs/heads/${branch}\n`);
+  writeFileSync(join(path, '.git', 'config'), `[core]\n\tbare = false\n[remote "origin"]\n\turl = ${remote}\n`);
+  return path;
+}
+
+function window(appName: string, windowTitle: string, pid?: number): WindowInfo {
+  return { appName, appBundleId: appName.toLowerCase(), windowTitle, pid, timestamp: new Date() };
+}
+
+describe('normalizeRemoteUrl', () => {
+  it('should reduce SSH and HTTPS forms to host and path', () => {
+    expect(normalizeRemoteUrl('git@github.com:Acme/API.git')).toBe('github.com/acme/api');
+    expect(normalizeRemoteUrl('https://github.com/acme/api.git')).toBe('github.com/acme/api');
+    expect(normalizeRemoteUrl('ssh://git@gitlab.example.com:2222/team/web/')).toBe('gitlab.example.com/team/web');
+  });
+});
+
+describe('repository context', () => {
+  const data = useTempDataDir('git');
+  let repo: string;
+
+  beforeAll(() => {
+    repo = fakeRepo(join(data.root, 'api'), 'feature/login', 'git@github.com:Acme/API.git');
+  });
+
+  it('should read the branch and remote straight from .git', () => {
+    expect(findRepoRoot(join(repo, 'src', 'lib'))).toBe(repo);
+    expect(findRepoRoot(data.root)).toBeNull();
+    expect(readBranch(repo)).toBe('feature/login');
+    expect(readRemoteUrl(repo)).toBe('git@github.com:Acme/API.git');
+  });
+
+  it('should resolve the project from a title path or the process directory', () => {
+    const project = createProject({ name: 'API' });
+    linkProjectRepo(project.id, { path: repo });
+
+    const fromTitle = resolveRepoContext(window('kitty', `vim ${join(repo, 'src')}`));
+    expect(fromTitle).toEqual({ root: repo, branch: 'feature/login', projectId: project.id });
+
+    const cwds = new Map([[4242, join(repo, 'src', 'lib')]]);
+    const fromCwd = resolveRepoContext(window('kitty', 'zsh', 4242), (pid) => cwds.get(pid) ?? null);
+    expect(fromCwd?.projectId).toBe(project.id);
+  });
+
+  it('should match an editor title by the linked folder name', () => {
+    const context = resolveRepoContext(window('Code', 'server.ts - api - Visual Studio Code'));
+    expect(context).toMatchObject({ root: repo, branch: 'feature/login' });
+  });
+
+  it('should match a clone elsewhere by its remote', () => {
+    const clone = fakeRepo(join(data.root, 'api-clone'), 'main', 'https://github.com/acme/api');
+    const project = createProject({ name: 'API upstream' });
+    linkProjectRepo(project.id, { remote: 'github.com/acme/api' });
+
+    expect(getProjectRepos(project.id)).toHaveLength(1);
+    expect(findLinkedProject(clone)).toBe(project.id);
+    // A path link still wins over the remote
+    expect(findLinkedProject(repo)).not.toBe(project.id);
+  });
+});
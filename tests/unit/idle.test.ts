@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseIdleMilliseconds,
+  parseLoginctlIdle,
+  parseLogindDbusIdle,
+} from '../../src/detection/linux.js';
+
+describe('Linux idle detection', () => {
+  it('should parse xprintidle milliseconds', () => {
+    expect(parseIdleMilliseconds('125400\n')).toBe(125);
+    expect(parseIdleMilliseconds('')).toBeNull();
+    expect(parseIdleMilliseconds(null)).toBeNull();
+  });
+
+  it('should compute idle time from logind IdleHint', () => {
+    const now = 900_000_000n;
+    expect(parseLoginctlIdle('IdleHint=yes\nIdleSinceHintMonotonic=600000000', now)).toBe(300);
+    expect(parseLoginctlIdle('IdleHint=no\nIdleSinceHintMonotonic=600000000', now)).toBe(0);
+    expect(parseLoginctlIdle('Failed to get session path', now)).toBeNull();
+  });
+
+  it('should parse logind properties read over D-Bus', () => {
+    const now = 900_000_000n;
+    expect(parseLogindDbusIdle('(<true>,)', '(<uint64 840000000>,)', now)).toBe(60);
+    expect(parseLogindDbusIdle('(<false>,)', '(<uint64 0>,)', now)).toBe(0);
+    expect(parseLogindDbusIdle(null, '(<uint64 0>,)', now)).toBeNull();
+  });
+});
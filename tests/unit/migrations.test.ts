@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync } from 'fs';
+import {
+  MIGRATIONS,
+  getMigrationStatus,
+  migrateTo,
+  rollbackMigrations,
+  findMigration,
+} from '../../src/storage/migrations.js';
+import { closeDatabase, getDatabase } from '../../src/storage/database.js';
+import { getBackupDir } from '../../src/config/paths.js';
+import { createEntry, stopActiveEntry, deleteEntry } from '../../src/storage/repositories/entries.js';
+import { useTempDataDir } from '../helpers.js';
+
+// Whether a table exists in the current database
+function hasTable(name: string): boolean {
+  return getDatabase().prepare("SELECT 1 FROM sqlite_master WHERE name = ?").get(name) !== undefined;
+}
+
+describe('migration registry', () => {
+  useTempDataDir('migrations');
+
+  it('should apply everything with checksums when a database is created', () => {
+    const { migrations, pinned } = getMigrationStatus(getDatabase());
+    expect(migrations.map((m) => m.state)).toEqual(MIGRATIONS.map(() => 'applied'));
+    expect(pinned).toBeNull();
+    // Tables that used to be created on first use
+    expect(['invoices', 'webhooks', 'templates', 'undo_stack'].every(hasTable)).toBe(true);
+    // Nothing to back up on a new database
+    expect(readdirSync(getBackupDir())).toEqual([]);
+  });
+
+  it('should roll back behind a backup and stay pinned when reopened', () => {
+    const kept = createEntry({ isManual: true }).id;
+    stopActiveEntry();
+    const trashed = createEntry({ isManual: true }).id;
+    stopActiveEntry();
+    deleteEntry(trashed);
+
+    const result = rollbackMigrations(getDatabase(), 5);
+    expect(result.rolledBack).toEqual([
+      '028_entry_search_trash', '027_rule_set_projects', '026_training_version', '025_trash', '024_undo',
+    ]);
+    expect(result.backup).toMatch(/pre-rollback-.*\.db$/);
+    expect(hasTable('undo_stack')).toBe(false);
+    // The trash is emptied rather than restored along with the column
+    const ids = getDatabase().prepare('SELECT id FROM time_entries').all() as { id: number }[];
+    expect(ids.map((row) => row.id)).toEqual([kept]);
+
+    closeDatabase();
+    expect(hasTable('undo_stack')).toBe(false);
+    expect(getMigrationStatus(getDatabase()).pinned).toBe('023_templates');
+
+    expect(migrateTo(getDatabase()).applied).toEqual([
+      '024_undo', '025_trash', '026_training_version', '027_rule_set_projects', '028_entry_search_trash',
+    ]);
+    expect(getMigrationStatus(getDatabase()).pinned).toBeNull();
+  });
+
+  it('should refuse to roll back past a migration without a down script', () => {
+    expect(() => migrateTo(getDatabase(), '012')).toThrow('016_category_parents cannot be rolled back');
+    expect(getMigrationStatus(getDatabase()).migrations.every((m) => m.state === 'applied')).toBe(true);
+    expect(() => findMigration('999')).toThrow('Unknown migration');
+  });
+
+  it('should flag migrations edited since they were applied', () => {
+    getDatabase().prepare("UPDATE migrations SET checksum = 'stale' WHERE name = '005_tags'").run();
+    const changed = getMigrationStatus(getDatabase()).migrations.filter((m) => m.state === 'changed');
+    expect(changed.map((m) => m.name)).toEqual(['005_tags']);
+  });
+});
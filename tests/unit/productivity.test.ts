@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseProductivity,
+  getProductivityScore,
+  getProductivityBreakdown,
+} from '../../src/core/productivity.js';
+import { createEntry, stopActiveEntry } from '../../src/storage/repositories/entries.js';
+import { createCategory, getCategoryByName } from '../../src/storage/repositories/categories.js';
+import { createProject, updateProject } from '../../src/storage/repositories/projects.js';
+import { getOrCreateTag, attachTagToEntry, updateTag } from '../../src/storage/repositories/tags.js';
+import { ValidationError } from '../../src/errors/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+const DAY = '2026-01-05';
+
+// One hour on DAY starting at the given hour
+function hour(at: number, categoryId: number, projectId?: number): number {
+  const start = `${DAY} ${String(at).padStart(2, '0')}:00:00`;
+  const entry = createEntry({ categoryId, projectId, startTime: start, isManual: true });
+  stopActiveEntry(`${DAY} ${String(at + 1).padStart(2, '0')}:00:00`);
+  return entry.id;
+}
+
+describe('parseProductivity', () => {
+  it('should accept weights and level names', () => {
+    expect(parseProductivity('+2')).toBe(2);
+    expect(parseProductivity('-1')).toBe(-1);
+    expect(parseProductivity('Very-Distracting')).toBe(-2);
+    expect(() => parseProductivity('3')).toThrow(ValidationError);
+  });
+});
+
+describe('productivity score', () => {
+  useTempDataDir('productivity');
+
+  it('should migrate the productive flag to +1 and 0', () => {
+    expect(getCategoryByName('programming')).toMatchObject({ productivity: 1 });
+    expect(getCategoryByName('meetings')).toMatchObject({ productivity: 0 });
+  });
+
+  it('should score like the old boolean for migrated levels', () => {
+    hour(9, getCategoryByName('programming')!.id);
+    hour(10, getCategoryByName('programming')!.id);
+    hour(11, getCategoryByName('meetings')!.id);
+    hour(12, getCategoryByName('meetings')!.id);
+
+    expect(getProductivityScore(DAY, DAY)).toMatchObject({ score: 50, productiveSeconds: 7200 });
+  });
+
+  it('should weight graded levels and apply project and tag overrides', () => {
+    const social = createCategory('social', undefined, undefined, -2);
+    hour(13, social.id);
+    // 2h at +1, 2h at 0, 1h at -2
+    expect(getProductivityScore(DAY, DAY)).toMatchObject({ score: 0, distractingSeconds: 3600 });
+
+    // Meetings for a project that counts as very productive
+    const project = createProject({ name: 'Launch' });
+    updateProject(project.id, { productivity: 2 });
+    hour(14, getCategoryByName('meetings')!.id, project.id);
+
+    // The tag beats the project
+    const tagged = hour(15, getCategoryByName('meetings')!.id, project.id);
+    const tag = getOrCreateTag('status-sync');
+    updateTag(tag.id, { productivity: -1 });
+    attachTagToEntry(tagged, tag.id);
+
+    // (2*1 + 2*0 - 2 + 2 - 1) / 7 hours
+    expect(getProductivityScore(DAY, DAY).score).toBeCloseTo((1 / 7) * 100);
+    expect(getProductivityBreakdown(DAY, DAY).find((row) => row.category === 'meetings')).toMatchObject({
+      seconds: 4 * 3600,
+      weightedSeconds: 3600,
+    });
+  });
+});
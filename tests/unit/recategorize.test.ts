@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { planRecategorization, applyRecategorization } from '../../src/categorization/recategorize.js';
+import { addRule, getCategoryIdByName } from '../../src/categorization/rules.js';
+import { createEntry, getEntryById, stopActiveEntry, updateEntry } from '../../src/storage/repositories/entries.js';
+import { popAndExecuteUndo } from '../../src/core/undo.js';
+import { getSQLTimestamp } from '../../src/core/auto-pause.js';
+import { useTempDataDir } from '../helpers.js';
+
+describe('retroactive categorization', () => {
+  useTempDataDir('recategorize');
+  const ids: Record<string, number> = {};
+
+  // Finished entry of the given length
+  function entry(name: string, options: Parameters<typeof createEntry>[0], start: string, seconds: number): void {
+    const created = createEntry({ ...options, startTime: start });
+    stopActiveEntry(getSQLTimestamp(new Date(new Date(start.replace(' ', 'T')).getTime() + seconds * 1000)));
+    ids[name] = created.id;
+  }
+
+  beforeAll(() => {
+    entry('figma', { appName: 'Figma', appBundleId: 'com.figma.Desktop' }, '2026-03-02 09:00:00', 3600);
+    entry('figmaLater', { appName: 'Figma', appBundleId: 'com.figma.Desktop' }, '2026-03-09 09:00:00', 1800);
+    entry('manual', { appName: 'Figma', isManual: true }, '2026-03-02 11:00:00', 600);
+    entry('edited', { appName: 'Figma', appBundleId: 'com.figma.Desktop' }, '2026-03-02 12:00:00', 900);
+    updateEntry(ids.edited, { categoryId: getCategoryIdByName('testing'), manuallyCategorized: true });
+
+    addRule({ appNamePattern: 'Figma', categoryName: 'research' });
+  });
+
+  it('should plan changes without touching manual categories', () => {
+    const plan = planRecategorization({ from: '2026-03-01', to: '2026-03-05' });
+
+    expect(plan.changes.map((change) => change.id)).toEqual([ids.figma]);
+    expect(plan.diff).toEqual([
+      { category: null, beforeSeconds: 3600, afterSeconds: 0 },
+      { category: 'research', beforeSeconds: 0, afterSeconds: 3600 },
+    ]);
+    expect(getEntryById(ids.figma)?.category_id).toBeNull();
+  });
+
+  it('should apply the batch and undo it in one step', () => {
+    const plan = planRecategorization({ onlyUncategorized: true });
+    expect(applyRecategorization(plan.changes)).toBe(2);
+
+    const research = getCategoryIdByName('research');
+    expect(getEntryById(ids.figma)?.category_id).toBe(research);
+    expect(getEntryById(ids.figmaLater)?.category_id).toBe(research);
+    expect(getEntryById(ids.edited)?.category_id).toBe(getCategoryIdByName('testing'));
+
+    expect(popAndExecuteUndo().success).toBe(true);
+    expect(getEntryById(ids.figma)?.category_id).toBeNull();
+    expect(getEntryById(ids.figmaLater)?.category_id).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseTimeline, ReplayDetector } from '../../src/detection/replay.js';
+import { simulateTimeline } from '../../src/daemon/simulate.js';
+import { addRule } from '../../src/categorization/rules.js';
+import { createProject } from '../../src/storage/repositories/projects.js';
+import { getTagsForEntry } from '../../src/storage/repositories/tags.js';
+import { ValidationError } from '../../src/errors/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+const fixture = readFileSync(join(__dirname, '../fixtures/replay/workday.jsonl'), 'utf-8');
+
+describe('parseTimeline', () => {
+  it('should resolve offsets against the first event', () => {
+    const events = parseTimeline(fixture);
+    expect(events).toHaveLength(6);
+    expect(events[2].window.appName).toBe('Slack');
+    expect(events[2].at.getTime() - events[0].at.getTime()).toBe(1800 * 1000);
+    expect(events[3].idle).toBe(900);
+  });
+
+  it('should report the offending line', () => {
+    const timeline = '{"at": "2026-03-02T09:00:00", "appName": "Code"}\n{"offset": 60}';
+    expect(() => parseTimeline(timeline)).toThrow(ValidationError);
+    expect(() => parseTimeline(timeline)).toThrow('Line 2: "appName" is required');
+  });
+
+  it('should hold each event until the next one', () => {
+    const detector = new ReplayDetector(parseTimeline(fixture));
+    detector.advanceTo(new Date(detector.startTime.getTime() + 1799 * 1000));
+    expect(detector.getActiveWindow().windowTitle).toBe('simulate.ts');
+    detector.advanceTo(new Date(detector.startTime.getTime() + 1800 * 1000));
+    expect(detector.getActiveWindow().appName).toBe('Slack');
+  });
+});
+
+describe('simulateTimeline', () => {
+  useTempDataDir('replay');
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should split, categorize and pause entries in virtual time', async () => {
+    const result = await simulateTimeline(parseTimeline(fixture), { config: { pollInterval: 5 } });
+
+    expect(result.entries.map((entry) => [entry.app_name, entry.category_name, entry.duration_seconds])).toEqual([
+      ['Code', 'programming', 1800],
+      // Paused for the 15 idle minutes
+      ['Slack', 'communication', 300],
+      ['Code', 'programming', 600],
+    ]);
+    expect(result.entries[0].start_time).toBe('2026-03-02 09:00:00');
+  });
+
+  it('should absorb switches shorter than the debounce window', async () => {
+    const timeline = [
+      '{"at": "2026-03-03T09:00:00", "appName": "Firefox", "windowTitle": "Sprint board - Jira - Mozilla Firefox"}',
+      '{"offset": 600, "appName": "Slack", "windowTitle": "#general"}',
+      '{"offset": 605, "appName": "Firefox", "windowTitle": "Sprint board - Jira - Mozilla Firefox"}',
+      '{"offset": 1200, "appName": "Firefox", "windowTitle": "Lo-fi beats - YouTube - Mozilla Firefox"}',
+      '{"offset": 1800, "appName": "Firefox", "windowTitle": "Lo-fi beats - YouTube - Mozilla Firefox"}',
+    ].join('\n');
+
+    const result = await simulateTimeline(parseTimeline(timeline), {
+      config: { pollInterval: 5, contextKey: 'title', contextDebounce: 10 },
+    });
+
+    expect(result.entries.map((entry) => [entry.window_title, entry.duration_seconds])).toEqual([
+      ['Sprint board - Jira - Mozilla Firefox', 1200],
+      ['Lo-fi beats - YouTube - Mozilla Firefox', 600],
+    ]);
+  });
+
+  it('should attribute entries with project, tags and notes from rules', async () => {
+    const acme = createProject({ name: 'Acme' });
+    addRule({ windowTitlePattern: 'acme-api', projectName: 'Acme', tags: ['backend'], noteTemplate: 'Working on {project}' });
+    addRule({ appNamePattern: 'Code', tags: ['editor', 'backend'] });
+
+    const timeline = [
+      '{"at": "2026-03-04T09:00:00", "appName": "Code", "windowTitle": "server.ts - acme-api - Visual Studio Code"}',
+      '{"offset": 900, "appName": "Code", "windowTitle": "index.ts - website - Visual Studio Code"}',
+      '{"offset": 1800, "appName": "Code", "windowTitle": "index.ts - website - Visual Studio Code"}',
+    ].join('\n');
+
+    const result = await simulateTimeline(parseTimeline(timeline), { config: { pollInterval: 5, contextDebounce: 0 } });
+
+    const [api, website] = result.entries;
+    expect(api.project_id).toBe(acme.id);
+    expect(api.notes).toBe('Working on acme-api');
+    expect(getTagsForEntry(api.id).map((tag) => tag.name).sort()).toEqual(['backend', 'editor']);
+    expect(website.project_id).toBeNull();
+    expect(website.notes).toBeNull();
+    expect(getTagsForEntry(website.id).map((tag) => tag.name).sort()).toEqual(['backend', 'editor']);
+  });
+});
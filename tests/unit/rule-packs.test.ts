@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { readRulePack, parseRulePack, importRulePack, buildRulePack, writeRulePack } from '../../src/categorization/rule-packs.js';
+import { addRule, categorize, listRules, explainCategorization } from '../../src/categorization/rules.js';
+import { readRuleSamples, runRuleSamples } from '../../src/categorization/rule-tests.js';
+import { getCategoryByName } from '../../src/storage/repositories/categories.js';
+import { ValidationError } from '../../src/errors/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+const fixture = join(__dirname, '../fixtures/rule-packs/acme-team.json');
+
+describe('parseRulePack', () => {
+  it('should reject rules without a pattern or an assignment', () => {
+    const pack = { format: 'timer-record-rules', name: 'x', version: '1', rules: [{ category: 'design' }] };
+    expect(() => parseRulePack(pack)).toThrow(ValidationError);
+    expect(() => parseRulePack({ ...pack, rules: [{ app: 'Figma' }] })).toThrow('rules[0] needs one of: category');
+    expect(() => parseRulePack({ ...pack, format: 'other' })).toThrow('"format"');
+  });
+});
+
+describe('rule pack import', () => {
+  const data = useTempDataDir('packs');
+
+  it('should create categories and projects and apply pack priority', () => {
+    const result = importRulePack(readRulePack(fixture));
+
+    expect(result).toMatchObject({ added: 3, updated: 0, createdCategories: ['design'], createdProjects: ['Acme'] });
+    expect(getCategoryByName('design')?.color).toBe('#ff6b6b');
+    expect(listRules().map((rule) => [rule.priority, rule.pack_name])).toEqual([
+      [55, 'acme-team'],
+      [50, 'acme-team'],
+      [50, 'acme-team'],
+    ]);
+    expect(categorize({ appName: 'Figma', appBundleId: '', windowTitle: '', timestamp: new Date() })).toBe('design');
+  });
+
+  it('should leave the database untouched on a dry run', () => {
+    const pack = { ...readRulePack(fixture), name: 'other', rules: [{ app: 'Sketch', category: 'design' }] };
+    expect(importRulePack(pack, { dryRun: true }).added).toBe(1);
+    expect(listRules()).toHaveLength(3);
+  });
+
+  it('should resolve conflicts on re-import', () => {
+    addRule({ appNamePattern: 'Slack', categoryName: 'communication' });
+    const pack = readRulePack(fixture);
+    const next = {
+      ...pack,
+      version: '1.1.0',
+      rules: [{ app: 'Figma', category: 'research' }, { app: 'Slack', category: 'breaks' }],
+    };
+
+    expect(importRulePack(next, { strategy: 'skip' })).toMatchObject({ added: 1, skipped: 1 });
+    expect(importRulePack(next)).toMatchObject({ updated: 2 });
+    expect(listRules().find((rule) => rule.app_name_pattern === 'Figma')).toMatchObject({
+      category_name: 'research',
+      pack_version: '1.1.0',
+    });
+
+    // The hand-written Slack rule is never adopted by the pack, so replace leaves it
+    expect(importRulePack(next, { strategy: 'replace' })).toMatchObject({ removed: 4, added: 2 });
+    expect(buildRulePack({ name: 'acme-team', version: '1.1.0', fromPack: 'acme-team' }).rules).toEqual([
+      { app: 'Figma', category: 'research', priority: 50 },
+      { app: 'Slack', category: 'breaks', priority: 50 },
+    ]);
+    expect(listRules().filter((rule) => !rule.pack_name).map((rule) => [rule.app_name_pattern, rule.category_name]))
+      .toEqual([['Slack', 'communication']]);
+  });
+
+  it('should read and write YAML packs', () => {
+    const pack = readRulePack(fixture);
+    expect(readRulePack(fixture.replace(/\.json$/, '.yaml'))).toEqual(pack);
+
+    const file = join(data.root, 'pack.yml');
+    writeRulePack(pack, file);
+    expect(readFileSync(file, 'utf-8')).toContain('name: acme-team');
+    expect(readRulePack(file)).toEqual(pack);
+  });
+});
+
+describe('rule explanation and samples', () => {
+  useTempDataDir('explain');
+
+  beforeAll(() => {
+    importRulePack(readRulePack(fixture));
+  });
+
+  it('should trace patterns in priority order and report shadowed matches', () => {
+    addRule({ appNamePattern: 'Figma', categoryName: 'research' });
+    const trace = explainCategorization({ appName: 'Figma', appBundleId: '', windowTitle: '', timestamp: new Date() });
+
+    expect(trace.category).toBe('design');
+    expect(trace.winner).toMatchObject({ source: 'rule', pattern: 'app="Figma"', priority: 50 });
+    expect(trace.steps[0]).toMatchObject({ outcome: 'no-match', mismatch: 'domain' });
+    expect(trace.steps.filter((step) => step.outcome === 'shadowed').map((step) => [step.source, step.category])).toEqual([
+      ['rule', 'research'],
+      ['default', 'programming'],
+    ]);
+  });
+
+  it('should check samples against the rules', () => {
+    const samples = readRuleSamples(join(__dirname, '../fixtures/rule-packs/acme-team.samples.json'));
+    const results = runRuleSamples(samples);
+
+    expect(results.every((result) => result.passed)).toBe(true);
+    expect(runRuleSamples([{ appName: 'Figma', expected: 'research' }])[0]).toMatchObject({ passed: false, actual: 'design' });
+  });
+});
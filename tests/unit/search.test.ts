@@ -0,0 +1,108 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { parseSearchQuery, searchEntries } from '../../src/core/search.js';
+import { createEntry, stopActiveEntry, updateEntry } from '../../src/storage/repositories/entries.js';
+import { createProject, deleteProject, updateProject } from '../../src/storage/repositories/projects.js';
+import { getOrCreateTag, attachTagToEntry, updateTag, deleteTag } from '../../src/storage/repositories/tags.js';
+import { restoreFromTrash } from '../../src/core/trash.js';
+import { encryptValue, initializeEncryption, lockEncryption } from '../../src/security/encryption.js';
+import { getDatabase } from '../../src/storage/database.js';
+import { ValidationError } from '../../src/errors/index.js';
+import { useTempDataDir } from '../helpers.js';
+
+describe('parseSearchQuery', () => {
+  it('should quote terms and keep phrases, prefixes, operators and fields', () => {
+    expect(parseSearchQuery('login bug')).toBe('"login" AND "bug"');
+    expect(parseSearchQuery('"fix login" OR log*')).toBe('"fix login" OR "log"*');
+    expect(parseSearchQuery('title:acme-api app:(code OR vim)')).toBe('title : "acme-api" AND app : ( "code" OR "vim" )');
+    expect(parseSearchQuery('tag:"deep work" NOT meetings')).toBe('tags : "deep work" NOT "meetings"');
+  });
+
+  it('should reject queries FTS5 would choke on', () => {
+    expect(() => parseSearchQuery('OR login')).toThrow(ValidationError);
+    expect(() => parseSearchQuery('(login')).toThrow('Unbalanced');
+    expect(() => parseSearchQuery('author:me')).toThrow('Unknown search field');
+    expect(() => parseSearchQuery('title:')).toThrow('needs a term');
+    expect(() => parseSearchQuery(' - ')).toThrow('empty');
+  });
+});
+
+describe('searchEntries', () => {
+  useTempDataDir('search');
+
+  // Entry on a given day
+  function entry(day: string, fields: { notes?: string; title?: string; app?: string; projectId?: number }): number {
+    const created = createEntry({
+      startTime: `${day} 09:00:00`,
+      notes: fields.notes,
+      windowTitle: fields.title,
+      appName: fields.app,
+      projectId: fields.projectId,
+    });
+    stopActiveEntry(`${day} 10:00:00`);
+    return created.id;
+  }
+
+  afterAll(() => {
+    lockEncryption();
+  });
+
+  it('should rank matches across notes, titles, apps, projects and tags', () => {
+    const acme = createProject({ name: 'Acme' });
+    const login = entry('2026-03-02', { notes: 'Fixed the login redirect', title: 'auth.ts - acme-api', app: 'Code', projectId: acme.id });
+    const review = entry('2026-03-03', { notes: 'Reviewed login copy', title: 'Pull request - GitHub', app: 'Firefox' });
+    attachTagToEntry(review, getOrCreateTag('review').id);
+
+    expect(searchEntries('login').map((hit) => hit.id).sort()).toEqual([login, review].sort());
+    expect(searchEntries('login project:acme').map((hit) => hit.id)).toEqual([login]);
+    expect(searchEntries('redir*')[0]).toMatchObject({ id: login, project_name: 'Acme' });
+    expect(searchEntries('redir*')[0].snippet).toContain('\u0002redirect\u0003');
+    expect(searchEntries('tag:review')).toHaveLength(1);
+    expect(searchEntries('login', { from: '2026-03-03' }).map((hit) => hit.id)).toEqual([review]);
+  });
+
+  it('should follow edits, tag renames and deletions', () => {
+    const id = entry('2026-03-04', { notes: 'Draft invoice' });
+    updateEntry(id, { notes: 'Send invoice' });
+    expect(searchEntries('draft')).toHaveLength(0);
+    expect(searchEntries('send')).toHaveLength(1);
+
+    const tag = getOrCreateTag('billing');
+    attachTagToEntry(id, tag.id);
+    updateTag(tag.id, { name: 'finance' });
+    expect(searchEntries('tag:finance').map((hit) => hit.id)).toEqual([id]);
+
+    getDatabase().prepare('DELETE FROM time_entries WHERE id = ?').run(id);
+    expect(searchEntries('send')).toHaveLength(0);
+  });
+
+  it('should leave out trashed projects and tags until they are restored', () => {
+    const project = createProject({ name: 'Globex' });
+    const id = entry('2026-03-06', { notes: 'Kickoff call', projectId: project.id });
+    const tag = getOrCreateTag('onboarding');
+    attachTagToEntry(id, tag.id);
+
+    deleteProject(project.id);
+    deleteTag(tag.id);
+    expect(searchEntries('project:globex')).toHaveLength(0);
+    expect(searchEntries('tag:onboarding')).toHaveLength(0);
+
+    restoreFromTrash('project', 'Globex');
+    restoreFromTrash('tag', 'onboarding');
+    updateProject(project.id, { name: 'Initech' });
+    expect(searchEntries('project:initech').map((hit) => hit.id)).toEqual([id]);
+    expect(searchEntries('tag:onboarding').map((hit) => hit.id)).toEqual([id]);
+  });
+
+  it('should only search encrypted notes while the store is unlocked', () => {
+    initializeEncryption('correct horse');
+    const id = entry('2026-03-05', { notes: encryptValue('salary negotiation'), title: 'Notes' });
+
+    const indexed = getDatabase().prepare('SELECT notes FROM entry_search WHERE rowid = ?').get(id) as { notes: string | null };
+    expect(indexed.notes).toBeNull();
+    expect(searchEntries('salary').map((hit) => hit.id)).toEqual([id]);
+
+    lockEncryption();
+    expect(searchEntries('salary')).toHaveLength(0);
+    expect(searchEntries('title:notes').map((hit) => hit.id)).toEqual([id]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSyncKey,
+  unlockSyncKey,
+  sealChangeSet,
+  openChangeSet,
+  isSyncEnvelope,
+} from '../../src/sync/sync-crypto.js';
+
+const changeSet = {
+  version: 3,
+  deviceId: 'laptop',
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  fromVersion: 0,
+  toVersion: 4,
+  changes: [{ table: 'time_entries', data: { notes: 'secret client call' } }],
+};
+
+describe('Sync payload encryption', () => {
+  const { key, descriptor } = createSyncKey('correct horse battery');
+
+  it('should let another device derive the key from the passphrase alone', () => {
+    const joined = unlockSyncKey(descriptor, 'correct horse battery');
+    expect(joined?.equals(key)).toBe(true);
+    expect(unlockSyncKey(descriptor, 'wrong passphrase')).toBeNull();
+  });
+
+  it('should round-trip a change set without exposing its contents', () => {
+    const envelope = sealChangeSet(changeSet, key);
+    expect(isSyncEnvelope(envelope)).toBe(true);
+    expect(JSON.stringify(envelope)).not.toContain('secret client call');
+    expect(openChangeSet(envelope, key)).toEqual(changeSet);
+  });
+
+  it('should reject a tampered manifest', () => {
+    const envelope = sealChangeSet(changeSet, key);
+    envelope.manifest.toVersion = 99;
+    expect(() => openChangeSet(envelope, key)).toThrow('signature');
+  });
+
+  it('should reject a swapped payload', () => {
+    const envelope = sealChangeSet(changeSet, key);
+    envelope.payload = sealChangeSet({ ...changeSet, toVersion: 5 }, key).payload;
+    expect(() => openChangeSet(envelope, key)).toThrow('does not match');
+  });
+
+  it('should reject data sealed with another passphrase', () => {
+    const other = createSyncKey('another passphrase');
+    expect(() => openChangeSet(sealChangeSet(changeSet, other.key), key)).toThrow('different passphrase');
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { startSyncServer, stopSyncServer, loadServerApiKey } from '../../src/sync/sync-server.js';
+import {
+  saveSyncConfig,
+  performSync,
+  listSyncConflicts,
+  resolveSyncConflict,
+  setSyncPassphrase,
+} from '../../src/sync/sync-engine.js';
+import { closeDatabase, getDatabase } from '../../src/storage/database.js';
+import { createEntry, stopActiveEntry, deleteEntry, getEntryById } from '../../src/storage/repositories/entries.js';
+import { createProject } from '../../src/storage/repositories/projects.js';
+import { getOrCreateTag, attachTagToEntry } from '../../src/storage/repositories/tags.js';
+import { useTempDataDir } from '../helpers.js';
+
+const API_KEY = 'test-sync-key';
+
+describe('Server sync backend', () => {
+  const data = useTempDataDir('sync');
+  let serverUrl: string;
+
+  // Point the local database at a per-device data directory
+  function useDevice(name: string): void {
+    closeDatabase();
+    process.env.XDG_DATA_HOME = join(data.root, name);
+    saveSyncConfig({ enabled: true, backend: 'server', serverUrl, apiKey: API_KEY });
+  }
+
+  beforeAll(async () => {
+    const { port } = await startSyncServer({
+      port: 0,
+      host: '127.0.0.1',
+      apiKey: API_KEY,
+      dbPath: join(data.root, 'server', 'sync-server.db'),
+    });
+    serverUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await stopSyncServer();
+  });
+
+  it('should reject requests without the API key', async () => {
+    const response = await fetch(`${serverUrl}/v1/status`, {
+      headers: { Authorization: 'Bearer wrong-key' },
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('should keep the generated API key across restarts', () => {
+    const dbPath = join(data.root, 'server', 'keyed.db');
+    const first = loadServerApiKey(dbPath, () => 'first-key');
+    expect(first).toEqual({ apiKey: 'first-key', created: true });
+    expect(loadServerApiKey(dbPath, () => 'second-key')).toEqual({ apiKey: 'first-key', created: false });
+  });
+
+  it('should sync entries between two devices', async () => {
+    useDevice('laptop');
+    createEntry({ isManual: true, notes: 'written on the laptop' });
+    stopActiveEntry();
+
+    const pushed = await performSync();
+    expect(pushed.success).toBe(true);
+    expect(pushed.pushed).toBe(true);
+
+    useDevice('desktop');
+    const pulled = await performSync();
+    expect(pulled.success).toBe(true);
+    expect(pulled.imported).toBeGreaterThan(0);
+
+    const notes = getDatabase()
+      .prepare('SELECT notes FROM time_entries')
+      .all() as { notes: string }[];
+    expect(notes.map(n => n.notes)).toContain('written on the laptop');
+  });
+
+  it('should not return change sets already pulled', async () => {
+    useDevice('desktop');
+    const again = await performSync();
+    expect(again.success).toBe(true);
+    expect(again.imported).toBe(0);
+  });
+
+  it('should only push changes made since the last sync', async () => {
+    useDevice('laptop');
+    const idle = await performSync();
+    expect(idle.success).toBe(true);
+    expect(idle.pushed).toBe(false);
+  });
+
+  it('should fetch a change set again until it applies', async () => {
+    useDevice('desktop');
+    const cursor = () => (getDatabase()
+      .prepare("SELECT value FROM settings WHERE key = 'sync_state_remote_version'")
+      .get() as { value: string }).value;
+    const before = cursor();
+    await fetch(`${serverUrl}/v1/push`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${API_KEY}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId: 'tablet', payload: { version: 2, deviceId: 'tablet', changes: [] } }),
+    });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const failed = await performSync();
+      expect(failed.success).toBe(false);
+      expect(failed.error).toContain('Unsupported sync data format');
+      expect(cursor()).toBe(before);
+    }
+
+    const store = new Database(join(data.root, 'server', 'sync-server.db'));
+    store.prepare("DELETE FROM change_sets WHERE device_id = 'tablet'").run();
+    store.close();
+    expect((await performSync()).success).toBe(true);
+  });
+
+  it('should propagate deletions', async () => {
+    useDevice('laptop');
+    const entry = getDatabase()
+      .prepare("SELECT id FROM time_entries WHERE notes = 'written on the laptop'")
+      .get() as { id: number };
+    deleteEntry(entry.id);
+    const pushed = await performSync();
+    expect(pushed.pushed).toBe(true);
+
+    useDevice('desktop');
+    const pulled = await performSync();
+    expect(pulled.success).toBe(true);
+
+    const trashed = getDatabase()
+      .prepare('SELECT deleted_at FROM time_entries WHERE id = ?')
+      .get(entry.id) as { deleted_at: string | null };
+    expect(trashed.deleted_at).not.toBeNull();
+    expect(getEntryById(entry.id)).toBeUndefined();
+  });
+
+  it('should keep colliding ids apart and remap foreign keys', async () => {
+    useDevice('desktop');
+    const desktopEntry = createEntry({ isManual: true, notes: 'desktop only' });
+    stopActiveEntry();
+
+    useDevice('laptop');
+    const project = createProject({ name: 'Acme' });
+    const laptopEntry = createEntry({ isManual: true, projectId: project.id, notes: 'acme work' });
+    stopActiveEntry();
+    attachTagToEntry(laptopEntry.id, getOrCreateTag('backend').id);
+    expect(laptopEntry.id).toBe(desktopEntry.id);
+    await performSync();
+
+    useDevice('desktop');
+    const pulled = await performSync();
+    expect(pulled.success).toBe(true);
+
+    const db = getDatabase();
+    const local = db.prepare('SELECT notes FROM time_entries WHERE id = ?').get(desktopEntry.id) as { notes: string };
+    expect(local.notes).toBe('desktop only');
+
+    const synced = db.prepare(`
+      SELECT p.name as project, t.name as tag
+      FROM time_entries e
+      JOIN projects p ON e.project_id = p.id
+      JOIN entry_tags et ON et.entry_id = e.id
+      JOIN tags t ON et.tag_id = t.id
+      WHERE e.notes = 'acme work'
+    `).get() as { project: string; tag: string };
+    expect(synced).toEqual({ project: 'Acme', tag: 'backend' });
+  });
+
+  it('should merge edits to different fields of the same row', async () => {
+    const notesOf = () => getDatabase()
+      .prepare("SELECT notes, project_id FROM time_entries WHERE notes LIKE 'acme work%'")
+      .get() as { notes: string; project_id: number | null };
+
+    useDevice('laptop');
+    getDatabase().prepare("UPDATE time_entries SET notes = 'acme work (reviewed)' WHERE notes = 'acme work'").run();
+    await performSync();
+
+    useDevice('desktop');
+    getDatabase().prepare("UPDATE time_entries SET project_id = NULL WHERE notes = 'acme work'").run();
+    const pulled = await performSync();
+    expect(pulled.conflicts).toBe(1);
+    expect(notesOf()).toEqual({ notes: 'acme work (reviewed)', project_id: null });
+    expect(listSyncConflicts(true)[0]).toMatchObject({ status: 'resolved', resolution: 'merge' });
+
+    // The merged row travels back on the next sync
+    await performSync();
+    useDevice('laptop');
+    await performSync();
+    expect(notesOf()).toEqual({ notes: 'acme work (reviewed)', project_id: null });
+  });
+
+  it('should queue conflicting edits for review in manual mode', async () => {
+    const notes = () => (getDatabase()
+      .prepare("SELECT notes FROM time_entries WHERE notes LIKE 'acme work%'")
+      .get() as { notes: string }).notes;
+
+    useDevice('laptop');
+    getDatabase().prepare("UPDATE time_entries SET notes = 'acme work (laptop)' WHERE notes LIKE 'acme work%'").run();
+    await performSync();
+
+    useDevice('desktop');
+    saveSyncConfig({ conflictResolution: 'manual' });
+    getDatabase().prepare("UPDATE time_entries SET notes = 'acme work (desktop)' WHERE notes LIKE 'acme work%'").run();
+    await performSync();
+
+    const open = listSyncConflicts();
+    expect(open).toHaveLength(1);
+    expect(open[0].local?.notes).toBe('acme work (desktop)');
+    expect(open[0].remote?.notes).toBe('acme work (laptop)');
+    expect(notes()).toBe('acme work (desktop)');
+
+    expect(resolveSyncConflict(open[0].id, 'merge').success).toBe(false);
+    expect(resolveSyncConflict(open[0].id, 'remote')).toEqual({ success: true });
+    expect(notes()).toBe('acme work (laptop)');
+    expect(listSyncConflicts()).toHaveLength(0);
+
+    await performSync();
+    useDevice('laptop');
+    await performSync();
+    expect(notes()).toBe('acme work (laptop)');
+  });
+
+  it('should encrypt payloads once a sync passphrase is set', async () => {
+    useDevice('laptop');
+    const created = await setSyncPassphrase('shared sync secret');
+    expect(created).toEqual({ success: true, created: true });
+    createEntry({ isManual: true, notes: 'confidential call' });
+    stopActiveEntry();
+    await performSync();
+
+    const raw = await fetch(`${serverUrl}/v1/pull?device=inspector&since=0`, {
+      headers: { Authorization: `Bearer ${API_KEY}` },
+    });
+    expect(await raw.text()).not.toContain('confidential call');
+
+    useDevice('desktop');
+    const locked = await performSync();
+    expect(locked.success).toBe(false);
+    expect(locked.error).toContain('tt sync passphrase');
+
+    expect((await setSyncPassphrase('wrong secret')).success).toBe(false);
+    expect(await setSyncPassphrase('shared sync secret')).toEqual({ success: true, created: false });
+    const pulled = await performSync();
+    expect(pulled.success).toBe(true);
+
+    const notes = getDatabase()
+      .prepare("SELECT COUNT(*) as count FROM time_entries WHERE notes = 'confidential call'")
+      .get() as { count: number };
+    expect(notes.count).toBe(1);
+  });
+
+  it('should drop journal rows once they are pushed and pulled past', async () => {
+    useDevice('desktop');
+    const journal = () => (getDatabase()
+      .prepare('SELECT COUNT(*) as count FROM sync_changes')
+      .get() as { count: number }).count;
+    for (let i = 0; i < 3; i++) {
+      createEntry({ isManual: true, notes: `batch ${i}` });
+      stopActiveEntry();
+    }
+    const before = journal();
+
+    expect((await performSync()).pushed).toBe(true);
+    expect(journal()).toBe(0);
+    expect(before).toBeGreaterThanOrEqual(3);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { purgeExpiredTrash, restoreFromTrash, trashRetentionDays } from '../../src/core/trash.js';
+import { pushUndoAction, popAndExecuteUndo } from '../../src/core/undo.js';
+import { importRulePack } from '../../src/categorization/rule-packs.js';
+import { addRule, attributeByRules } from '../../src/categorization/rules.js';
+import { importCsv } from '../../src/cli/commands/import.js';
+import { getTrashItems, purgeTrash } from '../../src/storage/repositories/trash.js';
+import { createEntry, stopActiveEntry, deleteEntry, getEntryById } from '../../src/storage/repositories/entries.js';
+import { createProject, deleteProject, getProjectByName } from '../../src/storage/repositories/projects.js';
+import { getOrCreateTag, attachTagToEntry, deleteTag, getTagsForEntry } from '../../src/storage/repositories/tags.js';
+import { setConfigValue, setConfigValues } from '../../src/config/settings.js';
+import { getDatabase } from '../../src/storage/database.js';
+import { useTempDataDir } from '../helpers.js';
+
+describe('trash', () => {
+  const data = useTempDataDir('trash');
+
+  function entry(projectId?: number): number {
+    const created = createEntry({ isManual: true, projectId });
+    stopActiveEntry();
+    return created.id;
+  }
+
+  function backdateTrash(table: string, id: number, deletedAt: string): void {
+    getDatabase().prepare(`UPDATE ${table} SET deleted_at = ? WHERE id = ?`).run(deletedAt, id);
+  }
+
+  it('should hide deleted rows and restore them with their links', () => {
+    const project = createProject({ name: 'Website' });
+    const tag = getOrCreateTag('client');
+    const id = entry(project.id);
+    attachTagToEntry(id, tag.id);
+
+    expect(deleteEntry(id)).toBe(true);
+    expect(deleteEntry(id)).toBe(false);
+    deleteTag(tag.id);
+    expect(getEntryById(id)).toBeUndefined();
+    expect(getTrashItems().map((i) => i.kind).sort()).toEqual(['entry', 'tag']);
+
+    restoreFromTrash('entry', String(id));
+    restoreFromTrash('tag', 'CLIENT');
+    expect(getEntryById(id)?.project_id).toBe(project.id);
+    expect(getTagsForEntry(id).map((t) => t.name)).toEqual(['client']);
+    expect(() => restoreFromTrash('tag', 'client')).toThrow('No tag "client" in the trash');
+  });
+
+  it('should clear links to a project when it is purged', () => {
+    const project = getProjectByName('Website')!;
+    const id = entry(project.id);
+    deleteProject(project.id);
+    expect(getEntryById(id)?.project_id).toBe(project.id);
+
+    expect(purgeTrash({ kind: 'project' })).toBe(1);
+    expect(getEntryById(id)?.project_id).toBeNull();
+    expect(getTrashItems()).toEqual([]);
+  });
+
+  it('should purge items older than trash.days, or data retention when shorter', () => {
+    const old = entry();
+    const recent = entry();
+    deleteEntry(old);
+    deleteEntry(recent);
+    backdateTrash('time_entries', old, '2020-01-01 00:00:00');
+
+    setConfigValue('trash.days', 0);
+    expect(trashRetentionDays()).toBeNull();
+    expect(purgeExpiredTrash()).toBe(0);
+
+    setConfigValues({ 'trash.days': 30, data_retention_enabled: true, data_retention_days: 7 });
+    expect(trashRetentionDays()).toBe(7);
+    expect(purgeExpiredTrash()).toBe(1);
+    expect(getTrashItems().map((i) => i.id)).toEqual([recent]);
+  });
+
+  it('should bring a deleted entry back on undo', () => {
+    const id = entry();
+    const before = getEntryById(id);
+    deleteEntry(id);
+    pushUndoAction({ actionType: 'delete_entry', entityType: 'entry', entityId: id, oldData: before });
+
+    expect(popAndExecuteUndo().success).toBe(true);
+    expect(getEntryById(id)).toMatchObject({ id, start_time: before!.start_time });
+  });
+
+  it('should restore a trashed project named by a rule pack', () => {
+    const project = createProject({ name: 'Studio' });
+    deleteProject(project.id);
+
+    const pack = { format: 'timer-record-rules', name: 'studio', version: '1', rules: [{ app: 'Blender', project: 'Studio' }] };
+    expect(importRulePack(pack)).toMatchObject({ added: 1, createdProjects: [], restoredProjects: ['Studio'] });
+    expect(getProjectByName('Studio')?.id).toBe(project.id);
+  });
+
+  it('should restore a trashed project named by a CSV import', () => {
+    const project = createProject({ name: 'Client' });
+    deleteProject(project.id);
+
+    const file = join(data.root, 'import.csv');
+    writeFileSync(file, 'start_time,end_time,project\n2024-03-01T09:00:00Z,2024-03-01T10:00:00Z,Client\n');
+    importCsv(file);
+    expect(getProjectByName('Client')?.id).toBe(project.id);
+    expect(getTrashItems('project')).toEqual([]);
+  });
+
+  it('should stop assigning a trashed project from rules until it is restored', () => {
+    const project = createProject({ name: 'Archive' });
+    addRule({ appNamePattern: 'Darktable', projectName: 'Archive' });
+    const window = { appName: 'Darktable', appBundleId: '', windowTitle: '', timestamp: new Date() };
+    expect(attributeByRules(window).projectId).toBe(project.id);
+
+    deleteProject(project.id);
+    expect(attributeByRules(window).projectId).toBeNull();
+    restoreFromTrash('project', 'Archive');
+    expect(attributeByRules(window).projectId).toBe(project.id);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  selectWaylandBackend,
+  parseGVariantStrings,
+  parseGnomeEval,
+  parseKwinJournal,
+  toWindowInfo,
+  gnomeBackend,
+  kdeBackend,
+  swayBackend,
+  hyprlandBackend,
+  CommandRunner,
+} from '../../src/detection/wayland.js';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/wayland', name), 'utf-8');
+
+// Answer commands from recorded output, keyed by a substring of the command
+function recorded(outputs: Record<string, string | null>): CommandRunner {
+  return (command) => {
+    const key = Object.keys(outputs).find(k => command.includes(k));
+    return key !== undefined ? outputs[key] : null;
+  };
+}
+
+describe('Wayland window detection', () => {
+  it('should select the backend for the running compositor', () => {
+    expect(selectWaylandBackend({ XDG_CURRENT_DESKTOP: 'ubuntu:GNOME' })?.name).toBe('gnome');
+    expect(selectWaylandBackend({ XDG_CURRENT_DESKTOP: 'KDE' })?.name).toBe('kde');
+    expect(selectWaylandBackend({ SWAYSOCK: '/run/user/1000/sway-ipc.sock' })?.name).toBe('sway');
+    expect(selectWaylandBackend({ HYPRLAND_INSTANCE_SIGNATURE: 'abc', XDG_CURRENT_DESKTOP: 'Hyprland' })?.name).toBe('hyprland');
+    expect(selectWaylandBackend({ XDG_CURRENT_DESKTOP: 'weston' })).toBeNull();
+  });
+
+  it('should read the focused window from a sway tree', () => {
+    const window = swayBackend.getActiveWindow(recorded({ 'swaymsg -t get_tree': fixture('sway-get-tree.json') }));
+    expect(window).toEqual({ appId: 'firefox', title: 'Pull requests · GitHub — Mozilla Firefox', pid: 5151 });
+  });
+
+  it('should read the active Hyprland window', () => {
+    const window = hyprlandBackend.getActiveWindow(recorded({ 'hyprctl activewindow': fixture('hyprctl-activewindow.json') }));
+    expect(window?.title).toBe('tracker-service.ts - timer-record - Visual Studio Code');
+    expect(hyprlandBackend.getActiveWindow(recorded({ 'hyprctl activewindow': '{}' }))).toBeNull();
+  });
+
+  it('should read the focused window from the GNOME Window Calls extension', () => {
+    const window = gnomeBackend.getActiveWindow(recorded({
+      'Windows.List': fixture('gnome-windows-list.txt'),
+      'Windows.GetTitle 2876543211': "('Mozilla Firefox',)",
+    }));
+    expect(window).toEqual({ appId: 'firefox', title: 'Mozilla Firefox', pid: 3434 });
+  });
+
+  it('should fall back to Shell.Eval and respect it being disabled', () => {
+    expect(parseGnomeEval("(false, '')")).toBeNull();
+    const window = gnomeBackend.getActiveWindow(recorded({
+      'Shell.Eval': `(true, '{"wm_class":"Code","title":"it\\'s done","pid":99}')`,
+    }));
+    expect(window).toEqual({ appId: 'Code', title: "it's done", pid: 99 });
+  });
+
+  it('should read the KWin script output from the journal', () => {
+    expect(parseKwinJournal(fixture('kwin-journal.txt'), 'timer-record-window-0badc0ffee00:')).toEqual({
+      appId: 'org.kde.konsole',
+      title: '~ : bash — Konsole',
+      pid: 8484,
+    });
+
+    let marker = '';
+    let reports: string[] = [];
+    const commands: string[] = [];
+    const run = (command: string): string | null => {
+      commands.push(command);
+      if (command.includes('loadScript')) {
+        marker = command.match(/'timer-record-([0-9a-f]+)'/)![1];
+        reports = [`js: timer-record-window-${marker}:{"resourceClass":"org.kde.dolphin","caption":"Home","pid":1}`];
+        return '(int32 5,)';
+      }
+      if (command.includes('/Scripting/Script5')) return '()';
+      if (command.startsWith('journalctl')) {
+        const lines = [...reports, `-- cursor: s=${commands.length}`];
+        reports = [];
+        return lines.join('\n');
+      }
+      return '()';
+    };
+
+    expect(kdeBackend.getActiveWindow(run)?.appId).toBe('org.kde.dolphin');
+    expect(commands.filter((c) => c.startsWith('journalctl'))).toEqual([
+      'journalctl --user -o cat --no-pager --show-cursor -n 200',
+      'journalctl --user -o cat --no-pager --show-cursor --after-cursor \'s=1\'',
+    ]);
+
+    // Later polls only read new journal lines; the script stays loaded
+    commands.length = 0;
+    expect(kdeBackend.getActiveWindow(run)?.title).toBe('Home');
+    reports = [`js: timer-record-window-${marker}:{"resourceClass":"org.kde.dolphin","caption":"Downloads","pid":1}`];
+    expect(kdeBackend.getActiveWindow(run)?.title).toBe('Downloads');
+    expect(commands.every((c) => c.startsWith('journalctl'))).toBe(true);
+
+    kdeBackend.stop!(run);
+    expect(commands.at(-1)).toContain(`unloadScript 'timer-record-${marker}'`);
+  });
+
+  it('should map compositor windows to WindowInfo like the X11 backend', () => {
+    const info = toWindowInfo({ appId: 'firefox', title: 'GitHub', pid: 5151 }, () => 'firefox-bin');
+    expect(info).toMatchObject({ appName: 'firefox-bin', appBundleId: 'firefox', windowTitle: 'GitHub' });
+    expect(toWindowInfo({ appId: 'Slack', title: '', pid: null }).appName).toBe('Slack');
+  });
+
+  it('should unescape GVariant strings', () => {
+    expect(parseGVariantStrings(`('a\\\\b \\'q\\'',)`)).toEqual(["a\\b 'q'"]);
+  });
+});